@@ -93,6 +93,15 @@ export class DocDropdown extends React.Component<IProps, IState> {
 
                         {/*TODO: maybe load original URL too?*/}
 
+                        <DropdownItem onClick={() => this.onShowHistory()}>
+                            Show History
+                        </DropdownItem>
+
+                        <DropdownItem disabled={! this.isArchive()}
+                                      onClick={() => this.onInspectArchive()}>
+                            Inspect Archive
+                        </DropdownItem>
+
                         <DropdownItem divider />
 
                         <DropdownItem className="text-danger" onClick={() => this.select('delete')}>
@@ -140,6 +149,19 @@ export class DocDropdown extends React.Component<IProps, IState> {
 
     }
 
+    private onShowHistory() {
+        document.location!.hash = 'history/' + this.props.repoDocInfo.fingerprint;
+    }
+
+    private isArchive() {
+        const filename = this.props.repoDocInfo.filename;
+        return filename !== undefined && filename.endsWith('.phz');
+    }
+
+    private onInspectArchive() {
+        document.location!.hash = 'inspect/' + this.props.repoDocInfo.fingerprint;
+    }
+
     private onCopyURL(url: string) {
         this.copyText(url);
         Toaster.success("URL copied to clipboard!");
@@ -45,4 +45,5 @@ export interface RepoAnnotation {
  */
 export interface RepoHighlightInfo {
     color?: HighlightColor;
+    category?: string;
 }
@@ -77,11 +77,13 @@ export class RepoAnnotations {
         let meta: RepoHighlightInfo | undefined;
 
         if (type === AnnotationType.TEXT_HIGHLIGHT) {
-            meta = {color: (<TextHighlight> sourceAnnotation).color};
+            const textHighlight = <TextHighlight> sourceAnnotation;
+            meta = {color: textHighlight.color, category: textHighlight.category};
         }
 
         if (type === AnnotationType.AREA_HIGHLIGHT) {
-            meta = {color: (<AreaHighlight> sourceAnnotation).color};
+            const areaHighlight = <AreaHighlight> sourceAnnotation;
+            meta = {color: areaHighlight.color, category: areaHighlight.category};
         }
 
         return {
@@ -4,11 +4,13 @@ import {Optional} from '../../../web/js/util/ts/Optional';
 import {RepoDocInfo} from './RepoDocInfo';
 import {ISODateTimeString} from '../../../web/js/metadata/ISODateTimeStrings';
 import {DocInfos} from '../../../web/js/metadata/DocInfos';
+import {ReadLaterDocs} from '../../../web/js/apps/repository/read_later/ReadLaterDocs';
 
 export class RepoDocInfos {
 
     public static isValid(repoDocInfo: RepoDocInfo) {
-        return isPresent(repoDocInfo.filename);
+        // read later docs are just a link so they don't have a file yet.
+        return isPresent(repoDocInfo.filename) || ReadLaterDocs.isLink(repoDocInfo.docInfo);
     }
 
     public static convert(docInfo: IDocInfo): RepoDocInfo {
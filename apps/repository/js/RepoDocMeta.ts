@@ -3,6 +3,7 @@
  */
 import {RepoDocInfo} from './RepoDocInfo';
 import {RepoAnnotation} from './RepoAnnotation';
+import {ReadingActivity} from '../../../web/js/metadata/ReadingStatistics';
 
 export interface RepoDocMeta {
 
@@ -10,4 +11,6 @@ export interface RepoDocMeta {
 
     readonly repoAnnotations: ReadonlyArray<RepoAnnotation>;
 
+    readonly readingActivity: ReadingActivity;
+
 }
@@ -15,6 +15,7 @@ import {DocMeta} from '../../../web/js/metadata/DocMeta';
 import {RepoAnnotation} from './RepoAnnotation';
 import {RepoDocMeta} from './RepoDocMeta';
 import {RelatedTags} from '../../../web/js/tags/related/RelatedTags';
+import {ReadingActivity} from '../../../web/js/metadata/ReadingStatistics';
 
 const log = Logger.create();
 
@@ -22,6 +23,10 @@ export interface RepoAnnotationIndex {
     [id: string]: RepoAnnotation;
 }
 
+export interface ReadingActivityIndex {
+    [fingerprint: string]: ReadingActivity;
+}
+
 /**
  * The main interface to the DocRepository including updates, the existing
  * loaded document metadata, and tags database.
@@ -32,6 +37,12 @@ export class RepoDocMetaManager {
 
     public readonly repoAnnotationIndex: RepoAnnotationIndex = {};
 
+    /**
+     * The pagemarks and annotation times of each doc used to compute reading
+     * statistics.
+     */
+    public readonly readingActivityIndex: ReadingActivityIndex = {};
+
     public readonly tagsDB = new TagsDB();
 
     public readonly relatedTags = new RelatedTags();
@@ -57,8 +68,11 @@ export class RepoDocMetaManager {
                 this.repoAnnotationIndex[repoAnnotation.id] = repoAnnotation;
             }
 
+            this.readingActivityIndex[fingerprint] = repoDocMeta.readingActivity;
+
         } else {
             delete this.repoDocInfoIndex[fingerprint];
+            delete this.readingActivityIndex[fingerprint];
         }
 
     }
@@ -72,8 +86,17 @@ export class RepoDocMetaManager {
         if (repoDocInfo) {
             this.repoDocInfoIndex[fingerprint] = repoDocInfo;
             this.updateTagsDB(repoDocInfo);
+
+            const readingActivity = this.readingActivityIndex[fingerprint];
+
+            if (readingActivity) {
+                // keep the tags used for the reading stats in sync.
+                this.readingActivityIndex[fingerprint] = {...readingActivity, docInfo: repoDocInfo.docInfo};
+            }
+
         } else {
             delete this.repoDocInfoIndex[fingerprint];
+            delete this.readingActivityIndex[fingerprint];
         }
 
     }
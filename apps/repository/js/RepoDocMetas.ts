@@ -4,14 +4,14 @@ import {RepoDocInfos} from './RepoDocInfos';
 import {RepoAnnotations} from './RepoAnnotations';
 import {Logger} from "../../../web/js/logger/Logger";
 import {RepoDocInfo} from './RepoDocInfo';
-import {isPresent} from '../../../web/js/Preconditions';
+import {ReadingStatistics} from '../../../web/js/metadata/ReadingStatistics';
 
 const log = Logger.create();
 
 export class RepoDocMetas {
 
     public static isValid(repoDocMeta?: RepoDocMeta) {
-        return repoDocMeta && isPresent(repoDocMeta.repoDocInfo.filename);
+        return repoDocMeta && RepoDocInfos.isValid(repoDocMeta.repoDocInfo);
     }
 
     public static convert(fingerprint: string, docMeta?: DocMeta): RepoDocMeta | undefined {
@@ -28,8 +28,9 @@ export class RepoDocMetas {
 
         const repoDocInfo = RepoDocInfos.convert(docMeta.docInfo);
         const repoAnnotations = RepoAnnotations.convert(docMeta);
+        const readingActivity = ReadingStatistics.toReadingActivity(docMeta);
 
-        return {repoDocInfo, repoAnnotations};
+        return {repoDocInfo, repoAnnotations, readingActivity};
 
     }
 }
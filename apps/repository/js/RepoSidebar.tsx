@@ -131,6 +131,18 @@ export class RepoSidebar extends React.Component<IProps, IState> {
                                          iconClassName="fas fa-layer-group"
                                          text="Annotations"/>
 
+                        <RepoSidebarItem id="sidebar-item-search"
+                                         href="#search"
+                                         onClick={() => this.toggle()}
+                                         iconClassName="fas fa-search"
+                                         text="Search"/>
+
+                        <RepoSidebarItem id="sidebar-item-review"
+                                         href="#review"
+                                         onClick={() => this.toggle()}
+                                         iconClassName="fas fa-graduation-cap"
+                                         text="Review"/>
+
                         {/*<RepoSidebarItem href="#editors-picks"*/}
                                          {/*onClick={() => this.toggle()}*/}
                                          {/*iconClassName="fas fa-star"*/}
@@ -142,6 +154,12 @@ export class RepoSidebar extends React.Component<IProps, IState> {
                                          iconClassName="fas fa-chart-line"
                                          text="Stats"/>
 
+                        <RepoSidebarItem id="sidebar-item-conflicts"
+                                         href="#conflicts"
+                                         onClick={() => this.toggle()}
+                                         iconClassName="fas fa-code-branch"
+                                         text="Conflicts"/>
+
                         <RepoSidebarItem id="sidebar-item-logs"
                                          href="#logs"
                                          onClick={() => this.toggle()}
@@ -178,6 +196,22 @@ export class RepoSidebar extends React.Component<IProps, IState> {
 
                     </SimpleTooltip>
 
+                    <SimpleTooltip target="sidebar-item-search"
+                                   show={0}
+                                   placement="right">
+
+                        Search the full text of all your documents and their annotations.
+
+                    </SimpleTooltip>
+
+                    <SimpleTooltip target="sidebar-item-review"
+                                   show={0}
+                                   placement="right">
+
+                        Review the flashcards that are due with spaced repetition.
+
+                    </SimpleTooltip>
+
                     <SimpleTooltip target="sidebar-item-stats"
                                    show={0}
                                    placement="right">
@@ -187,6 +221,15 @@ export class RepoSidebar extends React.Component<IProps, IState> {
 
                     </SimpleTooltip>
 
+                    <SimpleTooltip target="sidebar-item-conflicts"
+                                   show={0}
+                                   placement="right">
+
+                        Review changes to the same document on different devices
+                        that couldn't be merged automatically.
+
+                    </SimpleTooltip>
+
                     <SimpleTooltip target="sidebar-item-logs"
                                    show={0}
                                    placement="right">
@@ -17,6 +17,9 @@ import {SplitBar, SplitBarLeft, SplitBarRight} from '../SplitBar';
 import {RepoSidebar} from '../RepoSidebar';
 import {CloudAuthButton} from '../../../../web/js/ui/cloud_auth/CloudAuthButton';
 import {FixedNav, FixedNavBody} from '../FixedNav';
+import {HighlightCategory, HighlightCategoryFilter} from '../../../../web/js/metadata/HighlightCategories';
+import {HighlightCategoriesStore} from '../../../../web/js/metadata/HighlightCategoriesStore';
+import {HighlightCategorySelector} from '../../../../web/js/ui/highlight_categories/HighlightCategorySelector';
 
 const log = Logger.create();
 
@@ -38,10 +41,20 @@ export default class AnnotationRepoApp extends React.Component<IProps, IState> {
         this.repoDocInfoLoader = new RepoDocMetaLoader(this.persistenceLayerManager);
 
         this.state = {
+            highlightCategories: [],
+            filter: []
         };
 
     }
 
+    public componentDidMount(): void {
+
+        HighlightCategoriesStore.load()
+            .then(highlightCategories => this.setState({...this.state, highlightCategories}))
+            .catch(err => log.error("Unable to load highlight categories: ", err));
+
+    }
+
     public render() {
 
         return (
@@ -56,6 +69,20 @@ export default class AnnotationRepoApp extends React.Component<IProps, IState> {
 
                 <FixedNavBody>
 
+                    <div className="p-1 border-bottom" style={{display: 'flex'}}>
+
+                        <div className="mr-1">
+                            <HighlightCategorySelector highlightCategories={this.state.highlightCategories}
+                                                       filter={this.state.filter}
+                                                       onChange={filter => this.setState({...this.state, filter})}/>
+                        </div>
+
+                        <a href="#highlight-categories" className="btn btn-sm btn-light">
+                            Edit Categories
+                        </a>
+
+                    </div>
+
                     <div style={{display: 'flex'}}>
 
                         <div style={{width: 'calc(100% - 350px)'}}>
@@ -64,6 +91,8 @@ export default class AnnotationRepoApp extends React.Component<IProps, IState> {
                                                  updatedDocInfoEventDispatcher={this.props.updatedDocInfoEventDispatcher}
                                                  repoDocMetaManager={this.props.repoDocMetaManager}
                                                  repoDocMetaLoader={this.props.repoDocMetaLoader}
+                                                 highlightCategories={this.state.highlightCategories}
+                                                 filter={this.state.filter}
                                                  onSelected={repoAnnotation => this.onRepoAnnotationSelected(repoAnnotation)}/>
 
                         </div>
@@ -86,7 +115,7 @@ export default class AnnotationRepoApp extends React.Component<IProps, IState> {
     private onRepoAnnotationSelected(repoAnnotation: RepoAnnotation) {
         // console.log("A repo annotation was selected: " , repoAnnotation);
 
-        this.setState({repoAnnotation});
+        this.setState({...this.state, repoAnnotation});
 
     }
 
@@ -109,5 +138,9 @@ export interface IState {
 
     readonly repoAnnotation?: RepoAnnotation;
 
+    readonly highlightCategories: ReadonlyArray<HighlightCategory>;
+
+    readonly filter: HighlightCategoryFilter;
+
 }
 
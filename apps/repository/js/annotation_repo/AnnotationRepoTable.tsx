@@ -15,6 +15,7 @@ import {PersistenceLayerManagers} from '../../../../web/js/datastore/Persistence
 import {RepoDocMetaLoaders} from '../RepoDocMetaLoaders';
 import {ExtendedReactTable, IReactTableState} from '../util/ExtendedReactTable';
 import {AnnotationIcon} from '../../../../web/js/ui/standard_icons/AnnotationIcon';
+import {HighlightCategories, HighlightCategory, HighlightCategoryFilter} from '../../../../web/js/metadata/HighlightCategories';
 
 const log = Logger.create();
 
@@ -229,8 +230,20 @@ export default class AnnotationRepoTable extends ExtendedReactTable<IProps, ISta
         this.doRefresh(this.filter(data));
     }
 
+    public componentDidUpdate(prevProps: Readonly<IProps>): void {
+
+        if (prevProps.filter !== this.props.filter) {
+            this.refresh();
+        }
+
+    }
+
     private filter(data: RepoAnnotation[]): RepoAnnotation[] {
-        return data;
+
+        return data.filter(current => HighlightCategories.accept(current.meta,
+                                                                 this.props.filter,
+                                                                 this.props.highlightCategories));
+
     }
 
     private doRefresh(data: RepoAnnotation[]) {
@@ -261,6 +274,13 @@ interface IProps {
 
     readonly onSelected: (repoAnnotation: RepoAnnotation) => void;
 
+    readonly highlightCategories: ReadonlyArray<HighlightCategory>;
+
+    /**
+     * Only show the highlights in these categories.
+     */
+    readonly filter: HighlightCategoryFilter;
+
 }
 
 interface IState extends IReactTableState {
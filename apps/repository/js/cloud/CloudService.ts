@@ -1,7 +1,7 @@
 import {Firebase} from '../../../../web/js/firebase/Firebase';
 import * as firebase from '../../../../web/js/firebase/lib/firebase';
 import {Logger} from '../../../../web/js/logger/Logger';
-import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {PersistenceLayerManager, PersistenceLayerTypes} from '../../../../web/js/datastore/PersistenceLayerManager';
 
 const log = Logger.create();
 
@@ -41,6 +41,12 @@ export class CloudService {
             return;
         }
 
+        if (PersistenceLayerTypes.get() === 'sync-server') {
+            // we're syncing with a self hosted sync server which doesn't use
+            // the Firebase login.
+            return;
+        }
+
         if (user) {
 
             log.notice(`Authenticated as: ${user.displayName} (${user.email})`);
@@ -0,0 +1,220 @@
+import * as React from 'react';
+import {Button} from 'reactstrap';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {MessageBanner} from '../MessageBanner';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {RepoDocMetaManager} from '../RepoDocMetaManager';
+import {DocMetaConflictLog} from '../../../../web/js/datastore/merge/DocMetaConflictLog';
+import {DocMetaConflict, DocMetaConflicts} from '../../../../web/js/datastore/merge/DocMetaConflicts';
+import {Toaster} from '../../../../web/js/ui/toaster/Toaster';
+
+const log = Logger.create();
+
+/**
+ * Shows the conflicts found while merging changes to the same document made on
+ * different devices and lets the user restore the change that was discarded.
+ */
+export default class ConflictsApp extends React.Component<IProps, IState> {
+
+    private readonly conflictLog = new DocMetaConflictLog();
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            loading: true,
+            conflicts: []
+        };
+
+    }
+
+    public componentDidMount(): void {
+
+        this.refresh()
+            .catch(err => log.error("Unable to load conflicts: ", err));
+
+    }
+
+    public render() {
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <MessageBanner/>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row mt-2">
+
+                        <div className="col-lg-12">
+                            {this.renderConflicts()}
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+
+    }
+
+    private renderConflicts() {
+
+        if (this.state.loading) {
+            return <div className="text-muted p-2">Loading conflicts...</div>;
+        }
+
+        if (this.state.conflicts.length === 0) {
+
+            return (
+                <div className="text-center p-4">
+                    <h3>No conflicts</h3>
+                    <p className="text-muted">
+                        Changes made to the same document on different devices
+                        have all been merged.
+                    </p>
+                </div>
+            );
+
+        }
+
+        return this.state.conflicts.map(conflict => this.renderConflict(conflict));
+
+    }
+
+    private renderConflict(conflict: DocMetaConflict) {
+
+        const repoDocInfo = this.props.repoDocMetaManager.repoDocInfoIndex[conflict.fingerprint];
+        const title = repoDocInfo ? repoDocInfo.title : conflict.fingerprint;
+
+        return (
+
+            <div key={conflict.id} className="border rounded p-2 mb-2">
+
+                <div className="mb-1">
+                    <b>{title}</b>: {DocMetaConflicts.describe(conflict)} changed on two devices
+                </div>
+
+                <div className="text-muted mb-1">
+                    Kept: {this.preview(conflict.kept)}
+                </div>
+
+                <div className="text-muted mb-1">
+                    Discarded: {this.preview(conflict.discarded)}
+                </div>
+
+                <div className="text-right">
+
+                    <Button color="secondary"
+                            size="sm"
+                            className="mr-1"
+                            onClick={() => this.onRestore(conflict)}>
+                        Restore Discarded
+                    </Button>
+
+                    <Button color="primary"
+                            size="sm"
+                            onClick={() => this.onKeep(conflict)}>
+                        Keep
+                    </Button>
+
+                </div>
+
+            </div>
+
+        );
+
+    }
+
+    private preview(value: any): string {
+
+        if (value === undefined) {
+            return '(deleted)';
+        }
+
+        if (typeof value !== 'object') {
+            return `${value}`;
+        }
+
+        const text = value.text || value.content || (value.fields && (value.fields.front || value.fields.text));
+
+        if (typeof text === 'string') {
+            return text;
+        }
+
+        if (text) {
+            return text.TEXT || text.MARKDOWN || (text.HTML || '').replace(/<[^>]+>/g, '');
+        }
+
+        return JSON.stringify(value).substring(0, 200);
+
+    }
+
+    private async refresh() {
+
+        const conflicts = await this.conflictLog.listUnresolved();
+
+        this.setState({loading: false, conflicts: conflicts.reverse()});
+
+    }
+
+    private onKeep(conflict: DocMetaConflict) {
+
+        this.conflictLog.resolve(conflict.id)
+            .then(() => this.refresh())
+            .catch(err => log.error("Unable to resolve conflict: ", err));
+
+    }
+
+    private onRestore(conflict: DocMetaConflict) {
+
+        const doRestore = async () => {
+
+            const persistenceLayer = this.props.persistenceLayerManager.get();
+
+            const docMeta = await persistenceLayer.getDocMeta(conflict.fingerprint);
+
+            if (! docMeta) {
+                Toaster.error("The document for this conflict no longer exists.");
+                return;
+            }
+
+            await persistenceLayer.writeDocMeta(DocMetaConflicts.restore(docMeta, conflict));
+
+            await this.conflictLog.resolve(conflict.id);
+            await this.refresh();
+
+            Toaster.success("Restored the discarded change.");
+
+        };
+
+        doRestore()
+            .catch(err => log.error("Unable to restore conflict: ", err));
+
+    }
+
+}
+
+export interface IProps {
+    readonly persistenceLayerManager: PersistenceLayerManager;
+    readonly repoDocMetaManager: RepoDocMetaManager;
+}
+
+export interface IState {
+
+    readonly loading: boolean;
+
+    readonly conflicts: ReadonlyArray<DocMetaConflict>;
+
+}
@@ -2,6 +2,7 @@ import * as React from 'react';
 import {DropdownItem, DropdownMenu, DropdownToggle} from 'reactstrap';
 import {SimpleTooltip} from '../../../../web/js/ui/tooltip/SimpleTooltip';
 import {TooltipDropdown} from './TooltipDropdown';
+import {TextInputPopover} from '../../../../web/js/ui/text_input/TextInputPopover';
 
 export class AddContentButton extends React.Component<IProps, IState> {
 
@@ -12,7 +13,8 @@ export class AddContentButton extends React.Component<IProps, IState> {
         this.toggle = this.toggle.bind(this);
 
         this.state = {
-            open: false
+            open: false,
+            readLater: false
         };
 
 
@@ -73,8 +75,34 @@ export class AddContentButton extends React.Component<IProps, IState> {
 
                     </DropdownItem>
 
+                    <DropdownItem id="add-content-read-later"
+                                  size="sm"
+                                  onClick={() => this.setState({...this.state, readLater: true})}>
+
+                        <i className="fas fa-bookmark"></i>
+                        &nbsp; Read Later
+
+                        <SimpleTooltip target="add-content-read-later"
+                                       show={0}
+                                       placement="right">
+
+                            Add a link to a web page to read later.  The
+                            page is captured in the background or when you
+                            open it.
+
+                        </SimpleTooltip>
+
+                    </DropdownItem>
+
                 </DropdownMenu>
 
+                <TextInputPopover open={this.state.readLater}
+                                  target="add-content-dropdown"
+                                  title="Enter the URL to read later:"
+                                  placeholder="https://"
+                                  onCancel={() => this.setState({...this.state, readLater: false})}
+                                  onComplete={url => this.onReadLater(url)}/>
+
             </TooltipDropdown>
 
         );
@@ -93,13 +121,20 @@ export class AddContentButton extends React.Component<IProps, IState> {
         this.setState({...this.state, open: !this.state.open});
     }
 
+    private onReadLater(url: string): void {
+        this.setState({...this.state, readLater: false});
+        this.props.readLater(url);
+    }
+
 }
 
 interface IProps {
     readonly importFromDisk: () => void;
     readonly captureWebPage: () => void;
+    readonly readLater: (url: string) => void;
 }
 
 interface IState {
     readonly open: boolean;
+    readonly readLater: boolean;
 }
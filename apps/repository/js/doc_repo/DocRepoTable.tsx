@@ -43,6 +43,10 @@ import {RepoHeader} from '../RepoHeader';
 import {remote} from 'electron';
 import {FixedNav, FixedNavBody} from '../FixedNav';
 import {AddContentButton} from './AddContentButton';
+import {ReadLaterQueue} from '../../../../web/js/apps/repository/read_later/ReadLaterQueue';
+import {ReadLaterDocs} from '../../../../web/js/apps/repository/read_later/ReadLaterDocs';
+import {Toaster} from '../../../../web/js/ui/toaster/Toaster';
+import {FilePaths} from '../../../../web/js/util/FilePaths';
 
 const log = Logger.create();
 
@@ -64,6 +68,10 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
     private filterFlaggedOnly = false;
 
+    private filterReadLaterOnly = false;
+
+    private readonly readLaterQueue: ReadLaterQueue;
+
     private reactTable: any;
 
     constructor(props: IProps, context: any) {
@@ -71,6 +79,7 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
         this.persistenceLayerManager = this.props.persistenceLayerManager;
         this.synchronizingDocLoader = new SynchronizingDocLoader(this.props.persistenceLayerManager);
+        this.readLaterQueue = new ReadLaterQueue(this.props.persistenceLayerManager, this.props.repoDocMetaManager);
 
         this.onDocTagged = this.onDocTagged.bind(this);
         this.onDocDeleted = this.onDocDeleted.bind(this);
@@ -86,6 +95,7 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
         this.cmdImportFromDisk = this.cmdImportFromDisk.bind(this);
         this.cmdCaptureWebPage = this.cmdCaptureWebPage.bind(this);
+        this.cmdReadLater = this.cmdReadLater.bind(this);
 
         this.state = {
             data: [],
@@ -261,7 +271,8 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
                                      style={{whiteSpace: 'nowrap', marginTop: 'auto', marginBottom: 'auto'}}>
 
                                     <AddContentButton importFromDisk={() => this.cmdImportFromDisk()}
-                                                      captureWebPage={this.cmdCaptureWebPage}/>
+                                                      captureWebPage={this.cmdCaptureWebPage}
+                                                      readLater={this.cmdReadLater}/>
 
                                 </div>
 
@@ -319,6 +330,22 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
                                     </div>
 
+                                    <div className="mr-2"
+                                         style={{whiteSpace: 'nowrap', marginTop: 'auto', marginBottom: 'auto'}}>
+
+                                        <div className="checkbox-group">
+
+                                            <ToggleButton id="toggle-read-later"
+                                                          label="read later"
+                                                          initialValue={false}
+                                                          onChange={value => this.onToggleReadLaterOnly(value)}/>
+
+                                            <SimpleTooltip target="toggle-read-later">Only show links queued to read later which haven't been captured yet</SimpleTooltip>
+
+                                        </div>
+
+                                    </div>
+
                                     <div className="header-filter-box mr-1"
                                          style={{whiteSpace: 'nowrap', marginTop: 'auto', marginBottom: 'auto'}}>
 
@@ -411,7 +438,14 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
                                             return (
                                                 <div id={id}>
 
-                                                    <div>{row.value}</div>
+                                                    <div>
+                                                        {ReadLaterDocs.isLink(row.original.docInfo) ?
+                                                            <span className="badge badge-secondary mr-1"
+                                                                  title="Not captured yet.  Open it to capture it now.">
+                                                                read later
+                                                            </span> : null}
+                                                        {row.value}
+                                                    </div>
 
                                                     {/*TODO: this doesn't reliably work as*/}
                                                     {/*moving the mouse horizontally within*/}
@@ -679,6 +713,12 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
                                 if (! singleClickColumns.includes(column.id)) {
                                     return {
                                         onDoubleClick: (e: any) => {
+
+                                            if (ReadLaterDocs.isLink(rowInfo.original.docInfo)) {
+                                                this.onReadLaterLoadRequested(rowInfo.original);
+                                                return;
+                                            }
+
                                             this.onDocumentLoadRequested(rowInfo.original.fingerprint,
                                                                          rowInfo.original.filename,
                                                                          rowInfo.original.hashcode);
@@ -821,6 +861,7 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
         repoDocInfos = this.doFilterValid(repoDocInfos);
         repoDocInfos = this.doFilterByTitle(repoDocInfos);
         repoDocInfos = this.doFilterFlaggedOnly(repoDocInfos);
+        repoDocInfos = this.doFilterReadLaterOnly(repoDocInfos);
         repoDocInfos = this.doFilterHideArchived(repoDocInfos);
         repoDocInfos = this.doFilterByTags(repoDocInfos);
 
@@ -859,6 +900,16 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
     }
 
+    private doFilterReadLaterOnly(repoDocs: RepoDocInfo[]): RepoDocInfo[] {
+
+        if (this.filterReadLaterOnly) {
+            return repoDocs.filter(current => ReadLaterDocs.isLink(current.docInfo));
+        }
+
+        return repoDocs;
+
+    }
+
     private doFilterHideArchived(repoDocs: RepoDocInfo[]): RepoDocInfo[] {
 
         if (this.filterArchived) {
@@ -907,6 +958,37 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
     }
 
+    /**
+     * Read later docs are captured first and then loaded.
+     */
+    private onReadLaterLoadRequested(repoDocInfo: RepoDocInfo) {
+
+        if (this.readLaterQueue.isCapturing(repoDocInfo.docInfo)) {
+            Toaster.info("This page is already being captured.");
+            return;
+        }
+
+        Toaster.info("Capturing page: " + repoDocInfo.docInfo.url);
+
+        this.readLaterQueue.capture(repoDocInfo.docInfo)
+            .then(fileImportResult => {
+
+                if (fileImportResult.importedFile) {
+
+                    const {stashFilePath, docInfo} = fileImportResult.importedFile;
+
+                    this.onDocumentLoadRequested(docInfo.fingerprint, FilePaths.basename(stashFilePath));
+
+                }
+
+            })
+            .catch(err => {
+                log.error("Unable to capture read later doc: ", err);
+                Toaster.error("Unable to capture page: " + repoDocInfo.docInfo.url);
+            });
+
+    }
+
     private async handleToggleField(repoDocInfo: RepoDocInfo, field: string) {
 
         // TODO: move to syncDocInfoArchived in DocRepository
@@ -941,6 +1023,11 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
         this.refresh();
     }
 
+    private onToggleReadLaterOnly(value: boolean) {
+        this.filterReadLaterOnly = value;
+        this.refresh();
+    }
+
     private onToggleFilterArchived(value: boolean) {
         this.filterArchived = value;
         this.refresh();
@@ -964,6 +1051,25 @@ export default class DocRepoTable extends ReleasingReactComponent<IProps, IState
 
     }
 
+    private cmdReadLater(url: string) {
+
+        if (! ReadLaterDocs.isValidURL(url.trim())) {
+            Toaster.error("Only http and https URLs can be read later.");
+            return;
+        }
+
+        this.readLaterQueue.add([url])
+            .then(added => {
+
+                if (added.length === 0) {
+                    Toaster.info("This page is already in your repository.");
+                }
+
+            })
+            .catch(err => log.error("Could not add page to read later: ", err));
+
+    }
+
 }
 
 interface IProps {
@@ -0,0 +1,197 @@
+import * as React from 'react';
+import {Button, Input} from 'reactstrap';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {MessageBanner} from '../MessageBanner';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {HighlightCategories, HighlightCategory} from '../../../../web/js/metadata/HighlightCategories';
+import {HighlightCategoriesStore} from '../../../../web/js/metadata/HighlightCategoriesStore';
+import {HighlightColor} from '../../../../web/js/metadata/BaseHighlight';
+import {Tags} from '../../../../web/js/tags/Tags';
+import {Toaster} from '../../../../web/js/ui/toaster/Toaster';
+
+const log = Logger.create();
+
+const COLORS: ReadonlyArray<HighlightColor> = ['yellow', 'red', 'green', 'blue'];
+
+/**
+ * Edit the highlight categories shown in the highlight bar.  Each category has
+ * a name, a color, and optionally a tag added to its highlights.
+ */
+export default class HighlightCategoriesApp extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            loading: true,
+            categories: []
+        };
+
+    }
+
+    public componentDidMount(): void {
+
+        HighlightCategoriesStore.load()
+            .then(categories => this.setState({loading: false, categories}))
+            .catch(err => log.error("Unable to load highlight categories: ", err));
+
+    }
+
+    public render() {
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <MessageBanner/>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row mt-2">
+
+                        <div className="col-lg-12">
+
+                            <h3>Highlight Categories</h3>
+
+                            {this.renderCategories()}
+
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+
+    }
+
+    private renderCategories() {
+
+        if (this.state.loading) {
+            return <div className="text-muted p-2">Loading categories...</div>;
+        }
+
+        return (
+
+            <div>
+
+                <table className="table table-sm">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Color</th>
+                            <th>Tag</th>
+                            <th/>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {this.state.categories.map((category, idx) => (
+                            <tr key={category.id}>
+                                <td>
+                                    <Input value={category.name}
+                                           onChange={event => this.onUpdate(idx, {name: event.target.value})}/>
+                                </td>
+                                <td>
+                                    <Input type="select"
+                                           value={category.color}
+                                           onChange={event => this.onUpdate(idx, {color: event.target.value as HighlightColor})}>
+                                        {COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+                                    </Input>
+                                </td>
+                                <td>
+                                    <Input value={category.tag || ''}
+                                           placeholder="none"
+                                           onChange={event => this.onUpdate(idx, {tag: event.target.value || undefined})}/>
+                                </td>
+                                <td className="text-right">
+                                    <Button color="light" size="sm" onClick={() => this.onRemove(idx)}>
+                                        Remove
+                                    </Button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <Button color="secondary" size="sm" className="mr-1" onClick={() => this.onAdd()}>
+                    Add Category
+                </Button>
+
+                <Button color="primary" size="sm" onClick={() => this.onSave()}>
+                    Save
+                </Button>
+
+            </div>
+
+        );
+
+    }
+
+    private onUpdate(idx: number, change: Partial<HighlightCategory>) {
+
+        const categories = [...this.state.categories];
+        categories[idx] = {...categories[idx], ...change};
+
+        this.setState({...this.state, categories});
+
+    }
+
+    private onAdd() {
+
+        const category = HighlightCategories.create('New category', 'yellow');
+
+        this.setState({...this.state, categories: [...this.state.categories, category]});
+
+    }
+
+    private onRemove(idx: number) {
+
+        const categories = this.state.categories.filter((current, currentIdx) => currentIdx !== idx);
+
+        this.setState({...this.state, categories});
+
+    }
+
+    private onSave() {
+
+        const categories = this.state.categories;
+
+        if (categories.some(category => category.name.trim() === '')) {
+            Toaster.error("Every category needs a name.");
+            return;
+        }
+
+        const invalid = categories.filter(category => category.tag && ! Tags.validate(category.tag).isPresent());
+
+        if (invalid.length > 0) {
+            Toaster.error("Invalid tag: " + invalid[0].tag);
+            return;
+        }
+
+        HighlightCategoriesStore.write(categories)
+            .then(() => Toaster.success("Saved highlight categories."))
+            .catch(err => log.error("Unable to save highlight categories: ", err));
+
+    }
+
+}
+
+export interface IProps {
+}
+
+export interface IState {
+
+    readonly loading: boolean;
+
+    readonly categories: ReadonlyArray<HighlightCategory>;
+
+}
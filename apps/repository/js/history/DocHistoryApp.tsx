@@ -0,0 +1,316 @@
+import * as React from 'react';
+import {Button} from 'reactstrap';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {MessageBanner} from '../MessageBanner';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {RepoDocMetaManager} from '../RepoDocMetaManager';
+import {DocRevisionStores} from '../../../../web/js/datastore/history/DocRevisionStores';
+import {DocRevision} from '../../../../web/js/datastore/history/DocRevisions';
+import {DocRevisionAnnotation, DocRevisionDiff, DocRevisionDiffs} from '../../../../web/js/datastore/history/DocRevisionDiffs';
+import {DocMeta} from '../../../../web/js/metadata/DocMeta';
+import {DocMetas} from '../../../../web/js/metadata/DocMetas';
+import {DateTimeTableCell} from '../DateTimeTableCell';
+import {Toaster} from '../../../../web/js/ui/toaster/Toaster';
+
+const log = Logger.create();
+
+/**
+ * Shows the revisions of a document with the annotations added and removed in
+ * each one and lets the user restore the document to an earlier revision.
+ */
+export default class DocHistoryApp extends React.Component<IProps, IState> {
+
+    private readonly docRevisionStore = DocRevisionStores.getRemote();
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            loading: true,
+            entries: []
+        };
+
+    }
+
+    public componentDidMount(): void {
+
+        this.refresh()
+            .catch(err => log.error("Unable to load revisions: ", err));
+
+    }
+
+    public render() {
+
+        const repoDocInfo = this.props.repoDocMetaManager.repoDocInfoIndex[this.props.fingerprint];
+        const title = repoDocInfo ? repoDocInfo.title : this.props.fingerprint;
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <MessageBanner/>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row mt-2">
+
+                        <div className="col-lg-12">
+
+                            <h3>History of {title}</h3>
+
+                            {this.renderEntries()}
+
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+
+    }
+
+    private renderEntries() {
+
+        if (this.state.loading) {
+            return <div className="text-muted p-2">Loading revisions...</div>;
+        }
+
+        if (this.state.entries.length === 0) {
+
+            return (
+                <div className="text-muted p-2">
+                    No revisions have been recorded for this document yet.
+                </div>
+            );
+
+        }
+
+        return [...this.state.entries].reverse().map(entry => this.renderEntry(entry));
+
+    }
+
+    private renderEntry(entry: DocHistoryEntry) {
+
+        const {revision, diff} = entry;
+
+        const selected = this.state.selected === revision.id;
+
+        return (
+
+            <div key={revision.id} className="border rounded p-2 mb-2">
+
+                <div className="d-flex">
+
+                    <DateTimeTableCell className="mr-2" datetime={revision.created}/>
+
+                    <div className="text-muted flex-grow-1">
+                        {this.summarize(diff)}
+                    </div>
+
+                    <Button color="secondary"
+                            size="sm"
+                            onClick={() => this.setState({...this.state, selected: selected ? undefined : revision.id})}>
+                        {selected ? 'Hide' : 'Show'}
+                    </Button>
+
+                </div>
+
+                {selected ? this.renderSelected(entry) : undefined}
+
+            </div>
+
+        );
+
+    }
+
+    private renderSelected(entry: DocHistoryEntry) {
+
+        const diff = this.state.current ? DocRevisionDiffs.diff(this.state.current, entry.docMeta) : undefined;
+
+        return (
+
+            <div className="mt-2">
+
+                {this.renderAnnotations("Changed in this revision", [...entry.diff.added, ...entry.diff.changed])}
+
+                {this.renderAnnotations("Deleted in this revision", entry.diff.removed)}
+
+                {diff ? this.renderAnnotations("Restoring brings back", diff.added) : undefined}
+
+                {diff ? this.renderAnnotations("Restoring removes", diff.removed) : undefined}
+
+                <div className="text-right">
+
+                    <Button color="primary"
+                            size="sm"
+                            onClick={() => this.onRestore(entry)}>
+                        Restore This Revision
+                    </Button>
+
+                </div>
+
+            </div>
+
+        );
+
+    }
+
+    private renderAnnotations(title: string, annotations: ReadonlyArray<DocRevisionAnnotation>) {
+
+        if (annotations.length === 0) {
+            return undefined;
+        }
+
+        return (
+
+            <div className="mb-2">
+
+                <b>{title}:</b>
+
+                <ul className="mb-0">
+                    {annotations.map(annotation => (
+                        <li key={annotation.id}>
+                            {this.describe(annotation)}
+                        </li>
+                    ))}
+                </ul>
+
+            </div>
+
+        );
+
+    }
+
+    private describe(annotation: DocRevisionAnnotation) {
+
+        const type = annotation.type.toLowerCase().replace('_', ' ');
+
+        if (annotation.text) {
+            return `${type} on page ${annotation.pageNum}: ${annotation.text.substring(0, 200)}`;
+        }
+
+        return `${type} on page ${annotation.pageNum}`;
+
+    }
+
+    private summarize(diff: DocRevisionDiff) {
+
+        const changes = [];
+
+        if (diff.added.length > 0) {
+            changes.push(`${diff.added.length} added`);
+        }
+
+        if (diff.changed.length > 0) {
+            changes.push(`${diff.changed.length} changed`);
+        }
+
+        if (diff.removed.length > 0) {
+            changes.push(`${diff.removed.length} deleted`);
+        }
+
+        if (changes.length === 0) {
+            return 'No annotation changes';
+        }
+
+        return changes.join(', ');
+
+    }
+
+    private async refresh() {
+
+        const fingerprint = this.props.fingerprint;
+
+        const revisions = await this.docRevisionStore.list(fingerprint);
+
+        const entries: DocHistoryEntry[] = [];
+
+        let previous: DocMeta | undefined;
+
+        for (const revision of revisions) {
+
+            const docMeta = DocMetas.deserialize(await this.docRevisionStore.get(revision), fingerprint);
+
+            entries.push({revision, docMeta, diff: DocRevisionDiffs.diff(previous, docMeta)});
+
+            previous = docMeta;
+
+        }
+
+        const current = await this.props.persistenceLayerManager.get().getDocMeta(fingerprint);
+
+        this.setState({...this.state, loading: false, entries, current});
+
+    }
+
+    private onRestore(entry: DocHistoryEntry) {
+
+        const doRestore = async () => {
+
+            const persistenceLayer = this.props.persistenceLayerManager.get();
+
+            await persistenceLayer.writeDocMeta(entry.docMeta);
+
+            await this.refresh();
+
+            Toaster.success("Restored the document to the earlier revision.");
+
+        };
+
+        doRestore()
+            .catch(err => log.error("Unable to restore revision: ", err));
+
+    }
+
+}
+
+interface DocHistoryEntry {
+
+    readonly revision: DocRevision;
+
+    readonly docMeta: DocMeta;
+
+    /**
+     * The changes compared to the previous revision.
+     */
+    readonly diff: DocRevisionDiff;
+
+}
+
+export interface IProps {
+    readonly fingerprint: string;
+    readonly persistenceLayerManager: PersistenceLayerManager;
+    readonly repoDocMetaManager: RepoDocMetaManager;
+}
+
+export interface IState {
+
+    readonly loading: boolean;
+
+    /**
+     * The revisions, oldest first.
+     */
+    readonly entries: ReadonlyArray<DocHistoryEntry>;
+
+    /**
+     * The current version of the document.
+     */
+    readonly current?: DocMeta;
+
+    /**
+     * The ID of the revision being shown.
+     */
+    readonly selected?: string;
+
+}
@@ -0,0 +1,220 @@
+import * as React from 'react';
+import os from 'os';
+import {shell} from 'electron';
+import {Button} from 'reactstrap';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {MessageBanner} from '../MessageBanner';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {RepoDocMetaManager} from '../RepoDocMetaManager';
+import {PHZInspection, PHZInspector, PHZIssue} from '../../../../web/js/phz/PHZInspector';
+import {Directories} from '../../../../web/js/datastore/Directories';
+import {FilePaths} from '../../../../web/js/util/FilePaths';
+import {Toaster} from '../../../../web/js/ui/toaster/Toaster';
+
+const log = Logger.create();
+
+/**
+ * A debug view of the contents of a captured page's PHZ archive: the
+ * metadata, the resources and any problems with the archive.
+ */
+export default class PHZInspectorApp extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            loading: true
+        };
+
+    }
+
+    public componentDidMount(): void {
+
+        this.refresh()
+            .catch(err => {
+                log.error("Unable to inspect archive: ", err);
+                this.setState({...this.state, loading: false, error: err.message});
+            });
+
+    }
+
+    public render() {
+
+        const repoDocInfo = this.props.repoDocMetaManager.repoDocInfoIndex[this.props.fingerprint];
+        const title = repoDocInfo ? repoDocInfo.title : this.props.fingerprint;
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <MessageBanner/>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row mt-2">
+
+                        <div className="col-lg-12">
+
+                            <h3>Archive of {title}</h3>
+
+                            {this.renderInspection()}
+
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+
+    }
+
+    private renderInspection() {
+
+        if (this.state.loading) {
+            return <div className="text-muted p-2">Loading archive...</div>;
+        }
+
+        if (this.state.error) {
+            return <div className="text-danger p-2">{this.state.error}</div>;
+        }
+
+        const inspection = this.state.inspection!;
+
+        return (
+
+            <div>
+
+                <div className="text-muted mb-2">
+                    {inspection.path}
+                </div>
+
+                <div className="mb-3">
+                    <Button color="secondary" size="sm" onClick={() => this.onExtract()}>
+                        Extract Files
+                    </Button>
+                </div>
+
+                <h5>Issues</h5>
+
+                {this.renderIssues(inspection.issues)}
+
+                <h5>Resources</h5>
+
+                <table className="table table-sm">
+                    <thead>
+                        <tr>
+                            <th>Path</th>
+                            <th>Content Type</th>
+                            <th className="text-right">Size</th>
+                            <th>URL</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {inspection.resources.map(resource => (
+                            <tr key={resource.id}>
+                                <td>{resource.path}</td>
+                                <td>{resource.contentType}</td>
+                                <td className="text-right">{resource.size !== undefined ? resource.size : 'missing'}</td>
+                                <td className="text-muted">{resource.url}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <h5>Metadata</h5>
+
+                <pre className="border rounded p-2">
+                    {JSON.stringify(inspection.metadata, null, "  ")}
+                </pre>
+
+            </div>
+
+        );
+
+    }
+
+    private renderIssues(issues: ReadonlyArray<PHZIssue>) {
+
+        if (issues.length === 0) {
+            return <div className="text-muted mb-3">No problems found.</div>;
+        }
+
+        return (
+
+            <ul className="mb-3">
+                {issues.map((issue, idx) => (
+                    <li key={idx} className={issue.severity === 'error' ? 'text-danger' : 'text-warning'}>
+                        {issue.message}
+                    </li>
+                ))}
+            </ul>
+
+        );
+
+    }
+
+    private getPath() {
+
+        const repoDocInfo = this.props.repoDocMetaManager.repoDocInfoIndex[this.props.fingerprint];
+
+        if (! repoDocInfo || ! repoDocInfo.filename) {
+            throw new Error("No file for document: " + this.props.fingerprint);
+        }
+
+        return FilePaths.join(new Directories().stashDir, repoDocInfo.filename);
+
+    }
+
+    private async refresh() {
+
+        const inspection = await new PHZInspector(this.getPath()).inspect();
+
+        this.setState({...this.state, loading: false, inspection});
+
+    }
+
+    private onExtract() {
+
+        const doExtract = async () => {
+
+            const dir = FilePaths.join(os.tmpdir(), 'polar-phz-' + this.props.fingerprint);
+
+            const extracted = await new PHZInspector(this.getPath()).extract(dir);
+
+            Toaster.success(`Extracted ${extracted.length} files.`);
+
+            shell.showItemInFolder(FilePaths.join(dir, 'metadata.json'));
+
+        };
+
+        doExtract()
+            .catch(err => log.error("Unable to extract archive: ", err));
+
+    }
+
+}
+
+export interface IProps {
+    readonly fingerprint: string;
+    readonly repoDocMetaManager: RepoDocMetaManager;
+}
+
+export interface IState {
+
+    readonly loading: boolean;
+
+    readonly inspection?: PHZInspection;
+
+    readonly error?: string;
+
+}
@@ -0,0 +1,303 @@
+import * as React from 'react';
+import {Button} from 'reactstrap';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {MessageBanner} from '../MessageBanner';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {DocMeta} from '../../../../web/js/metadata/DocMeta';
+import {ReviewCard, ReviewQueues} from '../../../../web/js/spaced_repetition/ReviewQueues';
+import {ReviewCards} from '../../../../web/js/spaced_repetition/ReviewCards';
+import {ReviewSchedules} from '../../../../web/js/spaced_repetition/ReviewSchedules';
+import {FlashcardReviews} from '../../../../web/js/spaced_repetition/FlashcardReviews';
+import {ReviewRating} from '../../../../web/js/metadata/FlashcardReview';
+import {SynchronizingDocLoader} from '../util/SynchronizingDocLoader';
+
+const log = Logger.create();
+
+/**
+ * Review the flashcards that are due with spaced repetition without having to
+ * sync them to Anki.
+ */
+export default class ReviewApp extends React.Component<IProps, IState> {
+
+    private readonly synchronizingDocLoader: SynchronizingDocLoader;
+
+    /**
+     * Reviews are written one at a time so that two quick ratings of cards in
+     * the same document don't both read the DocMeta before either is written.
+     */
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.synchronizingDocLoader = new SynchronizingDocLoader(this.props.persistenceLayerManager);
+
+        this.state = {
+            loading: true,
+            queue: [],
+            idx: 0,
+            revealed: false,
+            nrReviewed: 0
+        };
+
+    }
+
+    public componentDidMount(): void {
+
+        this.loadQueue()
+            .catch(err => log.error("Unable to load review queue: ", err));
+
+    }
+
+    public render() {
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <MessageBanner/>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row mt-2">
+
+                        <div className="col-lg-12">
+                            {this.renderBody()}
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+
+    }
+
+    private renderBody() {
+
+        if (this.state.loading) {
+            return <div className="text-muted p-2">Loading flashcards...</div>;
+        }
+
+        const reviewCard = this.state.queue[this.state.idx];
+
+        if (! reviewCard) {
+
+            return (
+                <div className="review-card text-center p-4">
+                    <h3>Nothing left to review</h3>
+                    <p className="text-muted">
+                        {this.state.nrReviewed > 0 ? `You reviewed ${this.state.nrReviewed} flashcards. ` : ''}
+                        Come back later when more flashcards are due.
+                    </p>
+                </div>
+            );
+
+        }
+
+        const renderedCard = ReviewCards.render(reviewCard.flashcard);
+
+        return (
+
+            <div className="review-card p-2">
+
+                <div className="text-muted mb-2" style={{display: 'flex'}}>
+
+                    <div style={{flexGrow: 1}}>
+                        {this.state.queue.length - this.state.idx} remaining
+                    </div>
+
+                    <Button color="link"
+                            size="sm"
+                            onClick={() => this.onOpenSource(reviewCard)}>
+
+                        <i className="fas fa-external-link-alt"></i> {reviewCard.docInfo.title || 'Untitled'} (page {reviewCard.pageNum})
+
+                    </Button>
+
+                </div>
+
+                <div className="border rounded p-3 mb-2">
+
+                    {/* cloze answers replace the question while front/back
+                        cards show the answer below the question */}
+
+                    {! this.state.revealed || ! renderedCard.cloze ?
+                        <div dangerouslySetInnerHTML={{__html: renderedCard.front}}>
+                        </div> : undefined}
+
+                    {this.state.revealed ?
+                        <div className={renderedCard.cloze ? '' : 'border-top mt-2 pt-2'}
+                             dangerouslySetInnerHTML={{__html: renderedCard.back}}>
+                        </div> : undefined}
+
+                </div>
+
+                {this.state.revealed ? this.renderRatings(reviewCard) : this.renderReveal()}
+
+            </div>
+
+        );
+
+    }
+
+    private renderReveal() {
+
+        return (
+            <div className="text-center">
+                <Button color="primary" onClick={() => this.setState({...this.state, revealed: true})}>
+                    Show Answer
+                </Button>
+            </div>
+        );
+
+    }
+
+    private renderRatings(reviewCard: ReviewCard) {
+
+        const schedule = reviewCard.review ? reviewCard.review.schedule : undefined;
+
+        const RatingButton = (props: {rating: ReviewRating, color: string, text: string}) => {
+
+            const interval = ReviewSchedules.compute(schedule, props.rating).interval;
+
+            return (
+                <Button color={props.color}
+                        className="ml-1 mr-1"
+                        onClick={() => this.onRating(reviewCard, props.rating)}>
+
+                    {props.text} <span style={{fontSize: 'smaller'}}>({interval}d)</span>
+
+                </Button>
+            );
+
+        };
+
+        return (
+            <div className="text-center">
+                <RatingButton rating="again" color="danger" text="Again"/>
+                <RatingButton rating="hard" color="secondary" text="Hard"/>
+                <RatingButton rating="good" color="success" text="Good"/>
+                <RatingButton rating="easy" color="primary" text="Easy"/>
+            </div>
+        );
+
+    }
+
+    private async loadQueue() {
+
+        const persistenceLayer = this.props.persistenceLayerManager.get();
+
+        const docMetaRefs = await persistenceLayer.getDocMetaFiles();
+
+        const docMetas: DocMeta[] = [];
+
+        for (const docMetaRef of docMetaRefs) {
+
+            const docMeta = await persistenceLayer.getDocMeta(docMetaRef.fingerprint);
+
+            if (docMeta) {
+                docMetas.push(docMeta);
+            }
+
+        }
+
+        const queue = ReviewQueues.create(docMetas);
+
+        this.setState({...this.state, loading: false, queue, idx: 0, revealed: false});
+
+    }
+
+    private onRating(reviewCard: ReviewCard, rating: ReviewRating) {
+
+        const now = new Date();
+
+        this.pendingWrite = this.pendingWrite
+            .then(() => this.writeReview(reviewCard, rating, now))
+            .catch(err => log.error("Unable to write review: ", err));
+
+        const queue = [...this.state.queue];
+
+        if (rating === 'again') {
+            // forgotten cards are shown again at the end of this session.
+            const review = FlashcardReviews.create(reviewCard.review, reviewCard.flashcard.id, rating, now);
+            queue.push({...reviewCard, review});
+        }
+
+        this.setState({
+            ...this.state,
+            queue,
+            idx: this.state.idx + 1,
+            revealed: false,
+            nrReviewed: this.state.nrReviewed + 1
+        });
+
+    }
+
+    /**
+     * The DocMeta may have changed since the queue was loaded (the document
+     * was annotated or synced in the meantime) so we read it again and only
+     * record the review in it.
+     */
+    private async writeReview(reviewCard: ReviewCard, rating: ReviewRating, now: Date) {
+
+        const persistenceLayer = this.props.persistenceLayerManager.get();
+
+        const docMeta = await persistenceLayer.getDocMeta(reviewCard.fingerprint);
+
+        if (! docMeta) {
+            log.warn("Document was deleted before the review could be written: " + reviewCard.fingerprint);
+            return;
+        }
+
+        FlashcardReviews.record(docMeta, reviewCard.flashcard.id, rating, now);
+
+        await persistenceLayer.writeDocMeta(docMeta);
+
+    }
+
+    private onOpenSource(reviewCard: ReviewCard) {
+
+        this.synchronizingDocLoader.load(reviewCard.fingerprint,
+                                         reviewCard.docInfo.filename!,
+                                         reviewCard.docInfo.hashcode,
+                                         reviewCard.pageNum)
+            .catch(err => log.error("Unable to load doc: ", err));
+
+    }
+
+}
+
+export interface IProps {
+    readonly persistenceLayerManager: PersistenceLayerManager;
+}
+
+export interface IState {
+
+    readonly loading: boolean;
+
+    readonly queue: ReadonlyArray<ReviewCard>;
+
+    /**
+     * The index of the card being reviewed in the queue.
+     */
+    readonly idx: number;
+
+    /**
+     * True when the answer of the current card is shown.
+     */
+    readonly revealed: boolean;
+
+    readonly nrReviewed: number;
+
+}
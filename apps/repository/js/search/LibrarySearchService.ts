@@ -0,0 +1,71 @@
+import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {RepoDocMetaLoader} from '../RepoDocMetaLoader';
+import {FullTextIndexer} from '../../../../web/js/search/FullTextIndexer';
+import {SearchResult} from '../../../../web/js/search/FullTextIndex';
+import {Logger} from '../../../../web/js/logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Keeps the full text index of the library up to date as documents are
+ * loaded, updated, and deleted in the repository.
+ */
+export class LibrarySearchService {
+
+    private readonly persistenceLayerManager: PersistenceLayerManager;
+
+    private readonly repoDocMetaLoader: RepoDocMetaLoader;
+
+    private readonly indexer: FullTextIndexer;
+
+    constructor(persistenceLayerManager: PersistenceLayerManager,
+                repoDocMetaLoader: RepoDocMetaLoader) {
+
+        this.persistenceLayerManager = persistenceLayerManager;
+        this.repoDocMetaLoader = repoDocMetaLoader;
+        this.indexer = new FullTextIndexer(persistenceLayerManager);
+
+    }
+
+    public async start() {
+
+        this.repoDocMetaLoader.addEventListener(event => {
+
+            for (const mutation of event.mutations) {
+
+                if (mutation.mutationType === 'deleted') {
+                    this.indexer.remove(mutation.fingerprint)
+                        .catch(err => log.error("Unable to remove from index: ", err));
+                } else if (mutation.repoDocMeta) {
+                    this.indexer.update(mutation.repoDocMeta.repoDocInfo.docInfo)
+                        .catch(err => log.error("Unable to update index: ", err));
+                }
+
+            }
+
+        });
+
+        this.persistenceLayerManager.addEventListener(event => {
+
+            // the index can only be loaded once we know whether the datastore
+            // is encrypted.
+
+            if (event.state === 'initialized') {
+
+                this.indexer.init()
+                    .catch(err => log.error("Unable to load index: ", err));
+
+                this.indexer.prune()
+                    .catch(err => log.error("Unable to prune index: ", err));
+
+            }
+
+        }, 'initialized');
+
+    }
+
+    public search(query: string, limit?: number): SearchResult[] {
+        return this.indexer.search(query, limit);
+    }
+
+}
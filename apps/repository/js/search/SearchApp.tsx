@@ -0,0 +1,190 @@
+import * as React from 'react';
+import {Logger} from '../../../../web/js/logger/Logger';
+import {RepoSidebar} from '../RepoSidebar';
+import {FixedNav, FixedNavBody} from '../FixedNav';
+import {Input, InputGroup} from 'reactstrap';
+import {PersistenceLayerManager} from '../../../../web/js/datastore/PersistenceLayerManager';
+import {RepoDocMetaManager} from '../RepoDocMetaManager';
+import {LibrarySearchService} from './LibrarySearchService';
+import {SearchResult, Snippet} from '../../../../web/js/search/FullTextIndex';
+import {SynchronizingDocLoader} from '../util/SynchronizingDocLoader';
+
+const log = Logger.create();
+
+export default class SearchApp extends React.Component<IProps, IState> {
+
+    private readonly synchronizingDocLoader: SynchronizingDocLoader;
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.synchronizingDocLoader = new SynchronizingDocLoader(this.props.persistenceLayerManager);
+
+        this.state = {
+            query: '',
+            results: []
+        };
+
+    }
+
+    public render() {
+
+        return (
+
+            <FixedNav id="doc-repository">
+
+                <header>
+
+                    <RepoSidebar/>
+
+                    <div className="mb-1" style={{display: 'flex'}}>
+
+                        <InputGroup size="sm">
+
+                            <Input id="search-query"
+                                   type="text"
+                                   placeholder="Search all documents and annotations"
+                                   autoFocus
+                                   value={this.state.query}
+                                   onChange={event => this.onQuery(event.target.value)}/>
+
+                        </InputGroup>
+
+                    </div>
+
+                </header>
+
+                <FixedNavBody className="container-fluid">
+
+                    <div className="row">
+
+                        <div className="col-lg-12">
+
+                            <div className="mb-2 pl-1 pr-1">
+                                {this.renderResults()}
+                            </div>
+
+                        </div>
+
+                    </div>
+
+                </FixedNavBody>
+
+            </FixedNav>
+
+        );
+    }
+
+    private renderResults() {
+
+        if (this.state.query.trim() === '') {
+            return <div className="text-muted p-2">Enter some text to search for.</div>;
+        }
+
+        if (this.state.results.length === 0) {
+            return <div className="text-muted p-2">No results found.</div>;
+        }
+
+        return this.state.results.map((result, idx) =>
+
+            <div key={idx}
+                 className="p-2 border-bottom search-result"
+                 style={{cursor: 'pointer'}}
+                 onClick={() => this.onResultSelected(result)}>
+
+                <div>
+                    <b>{result.title || result.filename || 'Untitled'}</b>
+                </div>
+
+                <div className="text-muted" style={{fontSize: 'smaller'}}>
+                    {SearchApp.toTypeLabel(result)} on page {result.pageNum}
+                </div>
+
+                <div>
+                    {SearchApp.renderSnippet(result.snippet)}
+                </div>
+
+            </div>
+
+        );
+
+    }
+
+    private onQuery(query: string) {
+
+        const results = this.props.librarySearchService.search(query);
+
+        this.setState({query, results});
+
+    }
+
+    private onResultSelected(result: SearchResult) {
+
+        const repoDocInfo = this.props.repoDocMetaManager.repoDocInfoIndex[result.fingerprint];
+
+        if (! repoDocInfo || ! repoDocInfo.filename) {
+            log.warn("Document is no longer in the repository: " + result.fingerprint);
+            return;
+        }
+
+        this.synchronizingDocLoader.load(result.fingerprint,
+                                         repoDocInfo.filename,
+                                         repoDocInfo.hashcode,
+                                         result.pageNum)
+            .catch(err => log.error("Unable to load doc: ", err));
+
+    }
+
+    private static renderSnippet(snippet: Snippet) {
+
+        const result: React.ReactNode[] = [];
+
+        let offset = 0;
+
+        for (const match of snippet.matches) {
+
+            if (match.start < offset) {
+                // overlapping match from another term.
+                continue;
+            }
+
+            result.push(snippet.text.substring(offset, match.start));
+            result.push(<b key={match.start}>{snippet.text.substring(match.start, match.end)}</b>);
+
+            offset = match.end;
+
+        }
+
+        result.push(snippet.text.substring(offset));
+
+        return result;
+
+    }
+
+    private static toTypeLabel(result: SearchResult) {
+
+        switch (result.type) {
+            case 'page':
+                return 'Text';
+            case 'text-highlight':
+                return 'Highlight';
+            case 'comment':
+                return 'Comment';
+            case 'flashcard':
+                return 'Flashcard';
+        }
+
+    }
+
+}
+
+export interface IProps {
+    readonly persistenceLayerManager: PersistenceLayerManager;
+    readonly repoDocMetaManager: RepoDocMetaManager;
+    readonly librarySearchService: LibrarySearchService;
+}
+
+export interface IState {
+    readonly query: string;
+    readonly results: ReadonlyArray<SearchResult>;
+}
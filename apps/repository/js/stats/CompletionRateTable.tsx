@@ -0,0 +1,49 @@
+import * as React from 'react';
+import {TagCompletion} from '../../../../web/js/metadata/ReadingStatistics';
+import StatTitle from './StatTitle';
+import {Table} from 'reactstrap';
+
+export default class CompletionRateTable extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+        };
+
+    }
+
+    public render() {
+
+        return <div>
+            <StatTitle>Completion Rate by Tag</StatTitle>
+            <Table>
+                <thead>
+                    <tr>
+                        <th className="pt-1 pb-1">Tag</th>
+                        <th className="pt-1 pb-1">Completed</th>
+                        <th className="pt-1 pb-1">Rate</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {this.props.tagCompletions.map(tagCompletion =>
+                         <tr key={tagCompletion.tag}>
+                             <td className="pt-1 pb-1">{tagCompletion.tag}</td>
+                             <td className="pt-1 pb-1">{tagCompletion.completed} of {tagCompletion.docs}</td>
+                             <td className="pt-1 pb-1">{Math.round(tagCompletion.rate * 100)}%</td>
+                         </tr>)}
+
+                </tbody>
+            </Table>
+        </div>;
+    }
+
+}
+
+export interface IProps {
+    readonly tagCompletions: ReadonlyArray<TagCompletion>;
+}
+
+export interface IState {
+
+}
@@ -0,0 +1,92 @@
+import * as React from 'react';
+import {Button, Input} from 'reactstrap';
+import {DateRange, ReadingStatistics} from '../../../../web/js/metadata/ReadingStatistics';
+
+const PRESETS: ReadonlyArray<Preset> = [
+    {label: '7 days', days: 7},
+    {label: '30 days', days: 30},
+    {label: '90 days', days: 90},
+    {label: 'Year', days: 365},
+    {label: 'All', days: undefined},
+];
+
+/**
+ * Select the range of dates to compute the reading stats for either from a
+ * preset or by picking the start and end dates.
+ */
+export default class DateRangeSelector extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+        };
+
+    }
+
+    public render() {
+
+        const dateRange = this.props.dateRange;
+
+        return (
+
+            <div className="p-1" style={{display: 'flex', alignItems: 'center'}}>
+
+                {PRESETS.map(preset =>
+                    <Button key={preset.label}
+                            color="light"
+                            size="sm"
+                            className="mr-1"
+                            onClick={() => this.onPreset(preset)}>
+                        {preset.label}
+                    </Button>)}
+
+                <Input type="date"
+                       bsSize="sm"
+                       className="ml-2 mr-1"
+                       style={{width: '160px'}}
+                       value={dateRange.start || ''}
+                       onChange={event => this.onChange({...dateRange, start: event.target.value || undefined})}/>
+
+                <span className="text-muted mr-1">to</span>
+
+                <Input type="date"
+                       bsSize="sm"
+                       style={{width: '160px'}}
+                       value={dateRange.end || ''}
+                       onChange={event => this.onChange({...dateRange, end: event.target.value || undefined})}/>
+
+            </div>
+
+        );
+    }
+
+    private onPreset(preset: Preset) {
+
+        if (preset.days) {
+            this.onChange(ReadingStatistics.toDateRange(preset.days));
+        } else {
+            this.onChange({});
+        }
+
+    }
+
+    private onChange(dateRange: DateRange) {
+        this.props.onChange(dateRange);
+    }
+
+}
+
+interface Preset {
+    readonly label: string;
+    readonly days?: number;
+}
+
+export interface IProps {
+    readonly dateRange: DateRange;
+    readonly onChange: (dateRange: DateRange) => void;
+}
+
+export interface IState {
+
+}
@@ -0,0 +1,85 @@
+import * as React from 'react';
+import {DateStats} from '../../../../web/js/metadata/Statistics';
+import StatTitle from './StatTitle';
+import {ResponsiveBar} from '@nivo/bar';
+import {Arrays} from '../../../../web/js/util/Arrays';
+
+export default class PagesReadChart extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+        };
+
+    }
+
+    public render() {
+
+        const dateStats = this.props.pagesReadRate;
+
+        const labels = dateStats.map(current => current.date);
+        const ticks = Arrays.sample(labels, 10);
+
+        const data = dateStats.map(current => {
+            return {
+                date: current.date,
+                value: Math.round(current.value * 10) / 10
+            };
+        });
+
+        return (
+
+            <div className="p-1">
+
+                <StatTitle>Pages Read Per Day</StatTitle>
+
+                <div className="p-1" style={{height: '300px', width: '100%'}}>
+
+                    <ResponsiveBar
+                        data={data}
+                        keys={[
+                            "value",
+                        ]}
+                        indexBy="date"
+                        margin={{
+                            top: 10,
+                            right: 10,
+                            bottom: 50,
+                            left: 40
+                        }}
+                        padding={0.3}
+                        colors="category10"
+                        colorBy="id"
+                        axisBottom={{
+                            tickSize: 5,
+                            tickPadding: 5,
+                            tickRotation: 0,
+                            legendOffset: 32,
+                            tickValues: ticks,
+                        } as any}
+                        labelSkipWidth={12}
+                        labelSkipHeight={12}
+                        labelTextColor="inherit:darker(1.6)"
+                        animate={true}
+                        motionStiffness={90}
+                        motionDamping={15}
+
+                    />
+
+                </div>
+
+            </div>
+
+        );
+    }
+
+}
+
+export interface IProps {
+    readonly pagesReadRate: DateStats;
+}
+
+export interface IState {
+
+}
@@ -0,0 +1,74 @@
+import * as React from 'react';
+import {ReadingTime, Streaks} from '../../../../web/js/metadata/ReadingStatistics';
+import StatTitle from './StatTitle';
+
+/**
+ * The headline reading numbers for the selected range.
+ */
+export default class ReadingSummary extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+        };
+
+    }
+
+    public render() {
+
+        const {readingTime, streaks, annotationsPerPage} = this.props;
+
+        const minutes = Math.round(readingTime.duration / (60 * 1000));
+
+        const hours = Math.floor(minutes / 60);
+
+        const duration = hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+
+        return (
+
+            <div className="p-1">
+
+                <StatTitle>Reading</StatTitle>
+
+                <div style={{display: 'flex', justifyContent: 'space-around'}}>
+
+                    <Stat label="pages read" value={Math.round(readingTime.pages)}/>
+
+                    <Stat label="reading time" value={duration}/>
+
+                    <Stat label="pages per hour" value={Math.round(readingTime.pagesPerHour)}/>
+
+                    <Stat label="day streak" value={streaks.current}/>
+
+                    <Stat label="longest streak" value={streaks.longest}/>
+
+                    <Stat label="annotations per page" value={annotationsPerPage.toFixed(2)}/>
+
+                </div>
+
+            </div>
+
+        );
+    }
+
+}
+
+const Stat = (props: {label: string, value: string | number}) => {
+
+    return <div className="text-center">
+        <div style={{fontSize: '24px'}}>{props.value}</div>
+        <div className="text-muted">{props.label}</div>
+    </div>;
+
+};
+
+export interface IProps {
+    readonly readingTime: ReadingTime;
+    readonly streaks: Streaks;
+    readonly annotationsPerPage: number;
+}
+
+export interface IState {
+
+}
@@ -7,6 +7,11 @@ import TopTagsChart from './TopTagsChart';
 import TopTagsTable from './TopTagsTable';
 import {MessageBanner} from '../MessageBanner';
 import {FixedNav, FixedNavBody} from '../FixedNav';
+import DateRangeSelector from './DateRangeSelector';
+import PagesReadChart from './PagesReadChart';
+import ReadingSummary from './ReadingSummary';
+import CompletionRateTable from './CompletionRateTable';
+import {DateRange, ReadingStatistics} from '../../../../web/js/metadata/ReadingStatistics';
 
 const log = Logger.create();
 
@@ -16,6 +21,7 @@ export default class StatsApp extends React.Component<IProps, IState> {
         super(props, context);
 
         this.state = {
+            dateRange: ReadingStatistics.toDateRange(30)
         };
 
     }
@@ -26,6 +32,16 @@ export default class StatsApp extends React.Component<IProps, IState> {
             Object.values(this.props.repoDocMetaManager.repoDocInfoIndex)
                 .map(current => current.docInfo);
 
+        const readingActivities = Object.values(this.props.repoDocMetaManager.readingActivityIndex);
+
+        const dateRange = this.state.dateRange;
+
+        const pagesReadRate = ReadingStatistics.computePagesReadRate(readingActivities, dateRange);
+        const streaks = ReadingStatistics.computeStreaks(pagesReadRate);
+        const readingTime = ReadingStatistics.computeReadingTime(readingActivities, dateRange);
+        const annotationsPerPage = ReadingStatistics.computeAnnotationsPerPage(readingActivities, dateRange);
+        const tagCompletions = ReadingStatistics.computeCompletionRateByTag(readingActivities, dateRange);
+
         return (
 
             <FixedNav id="doc-repository">
@@ -42,6 +58,37 @@ export default class StatsApp extends React.Component<IProps, IState> {
 
                     <div className="container-fluid border-top">
 
+                        <div className="row mt-2">
+
+                            <div className="col-lg-12">
+                                <DateRangeSelector dateRange={dateRange}
+                                                   onChange={range => this.setState({dateRange: range})}/>
+                            </div>
+
+                        </div>
+
+                        <div className="row mt-2">
+
+                            <div className="col-lg-12">
+                                <ReadingSummary readingTime={readingTime}
+                                                streaks={streaks}
+                                                annotationsPerPage={annotationsPerPage}/>
+                            </div>
+
+                        </div>
+
+                        <div className="row mt-2">
+
+                            <div className="col-lg-8">
+                                <PagesReadChart pagesReadRate={pagesReadRate}/>
+                            </div>
+
+                            <div className="col-lg-4">
+                                <CompletionRateTable tagCompletions={tagCompletions}/>
+                            </div>
+
+                        </div>
+
                         <div className="row mt-2">
 
                             <div className="col-lg-12">
@@ -78,5 +125,5 @@ export interface IProps {
 }
 
 export interface IState {
-
+    readonly dateRange: DateRange;
 }
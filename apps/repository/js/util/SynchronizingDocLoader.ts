@@ -17,7 +17,8 @@ export class SynchronizingDocLoader {
 
     public async load(fingerprint: string,
                       filename: string,
-                      hashcode?: Hashcode) {
+                      hashcode?: Hashcode,
+                      page?: number) {
 
         const persistenceLayer = this.persistenceLayerManager.get();
 
@@ -40,7 +41,8 @@ export class SynchronizingDocLoader {
         await DocLoader.load({
              fingerprint,
              filename,
-             newWindow: true
+             newWindow: true,
+             page
          });
 
     }
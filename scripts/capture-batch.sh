@@ -0,0 +1,4 @@
+#!/usr/bin/env bash
+scriptdir=$(dirname $0)
+
+./node_modules/.bin/electron ${scriptdir}/capture-batch.js $@
@@ -0,0 +1,78 @@
+import {Logger} from '../web/js/logger/Logger';
+import {LoggerDelegate} from '../web/js/logger/LoggerDelegate';
+import {ConsoleLogger} from '../web/js/logger/ConsoleLogger';
+import {Args} from '../web/js/electron/capture/Args';
+import BrowserRegistry from '../web/js/capture/BrowserRegistry';
+import {BatchCapture} from '../web/js/capture/BatchCapture';
+import {Datastores} from '../web/js/datastore/Datastores';
+import {DefaultPersistenceLayer} from '../web/js/datastore/DefaultPersistenceLayer';
+import {Files} from '../web/js/util/Files';
+
+const electron = require('electron');
+const app = electron.app;
+
+// stdout only has the results so log to stderr.
+LoggerDelegate.set(new ConsoleLogger(new console.Console(process.stderr, process.stderr)));
+
+const log = Logger.create();
+
+/**
+ * Capture every URL in a file and import them into the repository.  Prints
+ * one line of JSON per URL to stdout, logs to stderr, and exits with a
+ * non-zero status when any of them failed:
+ *
+ *   capture-batch.sh --urls=reading-list.txt [--tags=news,weekly]
+ *       [--browser=DEFAULT] [--profile=HIDDEN] [--reader-mode=true]
+ *       [--timeout=120000]
+ */
+const args = Args.parseBatch(process.argv);
+
+const browser = BrowserRegistry[args.browser];
+
+if (! browser) {
+    throw new Error("No browser defined for: " + args.browser);
+}
+
+app.on('ready', function() {
+
+    (async () => {
+
+        if (! args.urls) {
+            console.error("--urls is required.");
+            app.exit(2);
+            return;
+        }
+
+        const urls = Args.parseURLList((await Files.readFileAsync(args.urls)).toString('utf-8'));
+        const tags = Args.parseTags(args.tags);
+
+        const persistenceLayer = new DefaultPersistenceLayer(Datastores.create());
+        await persistenceLayer.init();
+
+        log.info(`Capturing ${urls.length} URLs with browser profile: ${args.profile}`);
+
+        const batchCapture = new BatchCapture(persistenceLayer, {
+            browser,
+            profile: args.profile,
+            amp: args.amp,
+            readerMode: args.readerMode,
+            tags,
+            timeout: args.timeout
+        });
+
+        const results = await batchCapture.execute(urls, result => {
+            process.stdout.write(JSON.stringify(result) + "\n");
+        });
+
+        await persistenceLayer.stop();
+
+        const failed = results.filter(result => result.status === 'failed').length;
+
+        app.exit(failed > 0 ? 1 : 0);
+
+    })().catch(err => {
+        console.error(err);
+        app.exit(2);
+    });
+
+});
@@ -4,6 +4,7 @@ import {DocAnnotation} from './DocAnnotation';
 import {RichTextEditor4} from '../apps/card_creator/elements/schemaform/RichTextEditor4';
 import Button from 'reactstrap/lib/Button';
 import {RichTextArea} from "./RichTextArea";
+import {Comment} from '../metadata/Comment';
 
 const log = Logger.create();
 
@@ -14,6 +15,10 @@ export class AnnotationCommentBox extends React.Component<IProps, IState> {
     constructor(props: IProps, context: any) {
         super(props, context);
 
+        if (props.comment && props.comment.content.HTML) {
+            this.html = props.comment.content.HTML;
+        }
+
         this.onComment = this.onComment.bind(this);
         this.onCancel = this.onCancel.bind(this);
 
@@ -66,7 +71,7 @@ export class AnnotationCommentBox extends React.Component<IProps, IState> {
                                 size="sm"
                                 className="mt-2"
                                 onClick={() => this.onComment()}>
-                            Comment
+                            {this.props.comment ? 'Save' : 'Comment'}
                         </Button>
 
                     </div>
@@ -5,6 +5,7 @@ import Collapse from 'reactstrap/lib/Collapse';
 import {AnnotationCommentBox} from './AnnotationCommentBox';
 import Moment from 'react-moment';
 import {Comments} from '../metadata/Comments';
+import {Authors} from '../metadata/Authors';
 import {Refs} from '../metadata/Refs';
 import {AnnotationFlashcardBox} from './flashcard_input/AnnotationFlashcardBox';
 import {Flashcards} from '../metadata/Flashcards';
@@ -196,13 +197,17 @@ export class AnnotationControlBar extends React.Component<IProps, IState> {
         const ref = Refs.createFromAnnotationType(annotation.id,
                                                   annotation.annotationType);
 
-        const comment = Comments.createHTMLComment(html, ref);
-        annotation.pageMeta.comments[comment.id] = comment;
-
         this.setState({
             activeInputComponent: 'none'
         });
 
+        Authors.load()
+            .then(author => {
+                const comment = Comments.createHTMLComment(html, ref, author);
+                annotation.pageMeta.comments[comment.id] = comment;
+            })
+            .catch(err => log.error("Could not create comment: ", err));
+
     }
 
     private onFlashcardCreated(type: FlashcardType, fields: FrontAndBackFields | ClozeFields) {
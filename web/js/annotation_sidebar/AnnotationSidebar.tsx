@@ -18,6 +18,10 @@ import {Flashcard} from '../metadata/Flashcard';
 import {ExportButton} from '../ui/export/ExportButton';
 import {ExportFormat, Exporters} from '../metadata/exporter/Exporters';
 import {SplitBar, SplitBarLeft, SplitBarRight} from '../../../apps/repository/js/SplitBar';
+import {AnnotationType} from '../metadata/AnnotationType';
+import {HighlightCategories, HighlightCategory, HighlightCategoryFilter} from '../metadata/HighlightCategories';
+import {HighlightCategoriesStore} from '../metadata/HighlightCategoriesStore';
+import {HighlightCategorySelector} from '../ui/highlight_categories/HighlightCategorySelector';
 
 const log = Logger.create();
 
@@ -37,13 +41,19 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
             = DocAnnotationIndexes.rebuild(this.docAnnotationIndex, ...annotations);
 
         this.state = {
-            annotations: this.docAnnotationIndex.sortedDocAnnotation
+            annotations: this.docAnnotationIndex.sortedDocAnnotation,
+            highlightCategories: [],
+            filter: []
         };
 
     }
 
     public componentDidMount(): void {
 
+        HighlightCategoriesStore.load()
+            .then(highlightCategories => this.setState({...this.state, highlightCategories}))
+            .catch(err => log.error("Unable to load highlight categories: ", err));
+
         // TODO: remove all these listeners when the component unmounts...
 
         new AreaHighlightModel().registerListener(this.props.docMeta, annotationEvent => {
@@ -128,16 +138,16 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
             annotation.children = [];
         }
 
+        // remove any previous version first as comments are replaced when
+        // they're edited or resolved.
+        annotation.children =
+            annotation.children.filter(current => current.id !== id);
+
         if (mutationType !== MutationType.DELETE) {
 
             annotation.children.push(childDocAnnotation);
             annotation.children.sort((c0, c1) => -c0.created.localeCompare(c1.created));
 
-        } else {
-
-            annotation.children =
-                annotation.children.filter(current => current.id !== id);
-
         }
 
         this.reload();
@@ -177,6 +187,7 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
     private reload() {
 
         this.setState({
+            ...this.state,
             annotations: this.docAnnotationIndex.sortedDocAnnotation
         });
 
@@ -212,6 +223,21 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
 
     }
 
+    private acceptCategory(annotation: DocAnnotation) {
+
+        const isHighlight = [AnnotationType.TEXT_HIGHLIGHT, AnnotationType.AREA_HIGHLIGHT]
+            .includes(annotation.annotationType);
+
+        return HighlightCategories.accept(isHighlight ? annotation : undefined,
+                                          this.state.filter,
+                                          this.state.highlightCategories);
+
+    }
+
+    private onFilter(filter: HighlightCategoryFilter) {
+        this.setState({...this.state, filter});
+    }
+
     private createItems(annotations: DocAnnotation[]) {
 
         // https://blog.cloudboost.io/for-loops-in-react-render-no-you-didnt-6c9f4aa73778
@@ -221,7 +247,7 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
 
         const result: any = [];
 
-        annotations.map(annotation => {
+        annotations.filter(annotation => this.acceptCategory(annotation)).map(annotation => {
             result.push (<DocAnnotationComponent key={annotation.id} annotation={annotation}/>);
         });
 
@@ -231,7 +257,12 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
 
     private onExport(path: string, format: ExportFormat) {
 
-        Exporters.doExport(path, format, this.props.docMeta)
+        const opts = {
+            categories: this.state.filter,
+            highlightCategories: this.state.highlightCategories
+        };
+
+        Exporters.doExport(path, format, this.props.docMeta, opts)
             .catch(err => log.error(err));
 
     }
@@ -259,7 +290,17 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
 
                         <SplitBarRight>
 
-                            <ExportButton onExport={(path, format) => this.onExport(path, format)}/>
+                            <div style={{display: 'flex'}}>
+
+                                <div className="mr-1">
+                                    <HighlightCategorySelector highlightCategories={this.state.highlightCategories}
+                                                               filter={this.state.filter}
+                                                               onChange={filter => this.onFilter(filter)}/>
+                                </div>
+
+                                <ExportButton onExport={(path, format) => this.onExport(path, format)}/>
+
+                            </div>
 
                         </SplitBarRight>
 
@@ -292,6 +333,14 @@ export class AnnotationSidebar extends React.Component<AnnotationSidebarProps, A
 export interface AnnotationSidebarState {
 
     annotations: DocAnnotation[];
+
+    highlightCategories: ReadonlyArray<HighlightCategory>;
+
+    /**
+     * The highlight categories to show.  Also applied to exports.
+     */
+    filter: HighlightCategoryFilter;
+
 }
 
 
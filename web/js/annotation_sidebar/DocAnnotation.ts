@@ -7,6 +7,7 @@ import {ISODateTimeString} from '../metadata/ISODateTimeStrings';
 import {PageMeta} from '../metadata/PageMeta';
 import {HTMLString} from '../util/HTMLString';
 import {Ref} from '../metadata/Refs';
+import {Author} from '../metadata/Author';
 
 export interface DocAnnotation {
 
@@ -31,6 +32,31 @@ export interface DocAnnotation {
      */
     color?: HighlightColor;
 
+    /**
+     * The ID of the highlight category for highlights.
+     */
+    category?: string;
+
+    /**
+     * The author of comments.
+     */
+    author?: Author;
+
+    /**
+     * The ID of the comment this comment replies to.
+     */
+    inReplyTo?: string;
+
+    /**
+     * True when the thread started by this comment has been resolved.
+     */
+    resolved?: boolean;
+
+    /**
+     * True when this comment was edited after it was created.
+     */
+    edited?: boolean;
+
     pageMeta: PageMeta;
 
 }
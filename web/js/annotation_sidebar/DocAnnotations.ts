@@ -78,6 +78,10 @@ export class DocAnnotations {
             children: [],
             comments: [],
             ref: comment.ref,
+            author: comment.author,
+            inReplyTo: comment.inReplyTo,
+            resolved: comment.resolved,
+            edited: comment.history !== undefined && comment.history.length > 0,
 
         };
 
@@ -97,6 +101,8 @@ export class DocAnnotations {
                 x: this.firstRect(areaHighlight).map(current => current.left).getOrElse(0),
                 y: this.firstRect(areaHighlight).map(current => current.top).getOrElse(0),
             },
+            color: areaHighlight.color,
+            category: areaHighlight.category,
             created: areaHighlight.created,
             pageMeta,
             children: [],
@@ -145,6 +151,7 @@ export class DocAnnotations {
                 y: this.firstRect(textHighlight).map(current => current.top).getOrElse(0),
             },
             color: textHighlight.color,
+            category: textHighlight.category,
             created: textHighlight.created,
             pageMeta,
             children: [],
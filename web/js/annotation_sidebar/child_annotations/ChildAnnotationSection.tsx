@@ -1,8 +1,9 @@
 import * as React from 'react';
-import {CommentComponent} from './CommentComponent';
 import {DocAnnotation} from '../DocAnnotation';
 import {AnnotationType} from '../../metadata/AnnotationType';
 import {FlashcardComponent} from './FlashcardComponent';
+import {CommentThreadComponent} from './CommentThreadComponent';
+import {Comments, CommentThread} from '../../metadata/Comments';
 
 /**
  * A generic wrapper that determines which sub-component to render.
@@ -20,12 +21,28 @@ export class ChildAnnotationSection extends React.Component<IProps, IState> {
 
         const { children } = this.props;
 
+        const comments = children.filter(child => child.annotationType === AnnotationType.COMMENT);
+
+        // index the threads by the comment that started them.  Replies are
+        // rendered as part of their thread.
+        const threads: {[id: string]: CommentThread<DocAnnotation>} = {};
+
+        for (const thread of Comments.toThreads(comments)) {
+            threads[thread.root.id] = thread;
+        }
+
         const result: any = [];
 
         children.map(child => {
 
             if (child.annotationType === AnnotationType.COMMENT) {
-                result.push (<CommentComponent key={child.id} comment={child}/>);
+
+                const thread = threads[child.id];
+
+                if (thread) {
+                    result.push (<CommentThreadComponent key={child.id} thread={thread}/>);
+                }
+
             } else {
                 result.push (<FlashcardComponent key={child.id} flashcard={child}></FlashcardComponent>);
             }
@@ -5,6 +5,8 @@ import {AnnotationDropdown} from '../AnnotationDropdown';
 import {CommentDropdown} from './CommentDropdown';
 import {Logger} from '../../logger/Logger';
 import {IStyleMap} from '../../react/IStyleMap';
+import {AnnotationCommentBox} from '../AnnotationCommentBox';
+import {Comments} from '../../metadata/Comments';
 
 const log = Logger.create();
 
@@ -17,6 +19,10 @@ const Styles: IStyleMap = {
     barChild: {
         marginTop: 'auto',
         marginBottom: 'auto',
+    },
+
+    author: {
+        fontWeight: 'bold'
     }
 
 };
@@ -30,7 +36,9 @@ export class CommentComponent extends React.Component<IProps, IState> {
         super(props, context);
 
         this.onDelete = this.onDelete.bind(this);
-        this.state = {};
+        this.state = {
+            editing: false
+        };
 
     }
 
@@ -45,29 +53,32 @@ export class CommentComponent extends React.Component<IProps, IState> {
 
                 <div key={key} className="comment">
 
-                    <div className="pb-1 pt-1">
-
-                        <span dangerouslySetInnerHTML={{__html: comment.html!}}>
-
-                        </span>
-
-                    </div>
+                    {this.renderBody()}
 
                     <div style={Styles.barBody}
                          className="flexbar comment-bar border-top pt-1 pb-2">
 
                         <div style={Styles.barChild} className="text-muted">
+
+                            {comment.author ? <span style={Styles.author} className="mr-1">{comment.author.name}</span> : null}
+
                             {/*TODO: make this into its own component... */}
                             <Moment withTitle={true} titleFormat="D MMM YYYY hh:MM A" fromNow>
                                 {comment.created}
                             </Moment>
+
+                            {comment.edited ? <span className="ml-1">(edited)</span> : null}
+
                         </div>
 
                         <div style={Styles.barChild} className="flexbar-right">
 
                             <CommentDropdown id={'comment-dropdown-' + comment.id}
                                              comment={comment}
-                                             onDelete={() => this.onDelete(comment)}/>
+                                             onDelete={() => this.onDelete(comment)}
+                                             onReply={() => this.props.onReply(comment)}
+                                             onEdit={() => this.setState({editing: true})}
+                                             onResolve={this.props.onResolve}/>
 
                         </div>
 
@@ -80,18 +91,69 @@ export class CommentComponent extends React.Component<IProps, IState> {
 
     }
 
+    private renderBody() {
+
+        const { comment } = this.props;
+
+        if (this.state.editing) {
+
+            const original = comment.pageMeta.comments[comment.id];
+
+            return (
+                <AnnotationCommentBox id={'edit-' + comment.id}
+                                      comment={original}
+                                      onCancel={() => this.setState({editing: false})}
+                                      onCommentChanged={html => this.onEdit(html)}/>
+            );
+
+        }
+
+        return (
+
+            <div className="pb-1 pt-1">
+
+                <span dangerouslySetInnerHTML={{__html: comment.html!}}>
+
+                </span>
+
+            </div>
+
+        );
+
+    }
+
+    private onEdit(html: string) {
+
+        const { comment } = this.props;
+
+        const original = comment.pageMeta.comments[comment.id];
+
+        if (original) {
+            comment.pageMeta.comments[comment.id] = Comments.edit(original, html);
+        }
+
+        this.setState({editing: false});
+
+    }
+
     private onDelete(comment: DocAnnotation) {
         log.info("Comment deleted: ", comment);
-        delete comment.pageMeta.comments[comment.id];
+        this.props.onDelete(comment);
     }
 
 }
 interface IProps {
     comment: DocAnnotation;
+    onDelete: (comment: DocAnnotation) => void;
+    onReply: (comment: DocAnnotation) => void;
+
+    /**
+     * Only given for the first comment of a thread.
+     */
+    onResolve?: (comment: DocAnnotation, resolved: boolean) => void;
 }
 
 interface IState {
-
+    editing: boolean;
 }
 
-
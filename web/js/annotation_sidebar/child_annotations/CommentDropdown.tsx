@@ -58,7 +58,17 @@ export class CommentDropdown extends React.Component<IProps, IState> {
 
                     <DropdownMenu right>
 
-                        {/*<DropdownItem divider />*/}
+                        <DropdownItem onClick={() => this.props.onReply(this.props.comment)}>
+                            Reply
+                        </DropdownItem>
+
+                        <DropdownItem onClick={() => this.props.onEdit(this.props.comment)}>
+                            Edit
+                        </DropdownItem>
+
+                        {this.renderResolve()}
+
+                        <DropdownItem divider />
 
                         <DropdownItem className="text-danger" onClick={() => this.onDeleteSelected()}>
                             Delete
@@ -81,6 +91,23 @@ export class CommentDropdown extends React.Component<IProps, IState> {
 
     }
 
+    private renderResolve() {
+
+        const {comment, onResolve} = this.props;
+
+        if (! onResolve) {
+            // only the first comment of a thread can be resolved.
+            return null;
+        }
+
+        return (
+            <DropdownItem onClick={() => onResolve(comment, ! comment.resolved)}>
+                {comment.resolved ? 'Unresolve' : 'Resolve'}
+            </DropdownItem>
+        );
+
+    }
+
     private onDeleteSelected() {
         this.select('delete');
     }
@@ -118,6 +145,14 @@ interface IProps {
     id: string;
     comment: DocAnnotation;
     onDelete: (comment: DocAnnotation) => void;
+    onReply: (comment: DocAnnotation) => void;
+    onEdit: (comment: DocAnnotation) => void;
+
+    /**
+     * Called to resolve or unresolve the thread.  Only given for the first
+     * comment of a thread.
+     */
+    onResolve?: (comment: DocAnnotation, resolved: boolean) => void;
 }
 
 interface IState {
@@ -0,0 +1,200 @@
+import * as React from 'react';
+import {DocAnnotation} from '../DocAnnotation';
+import {CommentComponent} from './CommentComponent';
+import {AnnotationCommentBox} from '../AnnotationCommentBox';
+import {Comments, CommentThread} from '../../metadata/Comments';
+import {Authors} from '../../metadata/Authors';
+import {RendererAnalytics} from '../../ga/RendererAnalytics';
+import {Logger} from '../../logger/Logger';
+import {IStyleMap} from '../../react/IStyleMap';
+
+const log = Logger.create();
+
+const Styles: IStyleMap = {
+
+    replies: {
+        borderLeft: '2px solid #e9ecef'
+    },
+
+    resolved: {
+        opacity: 0.6
+    }
+
+};
+
+/**
+ * A comment with its replies.  Resolved threads are collapsed to the first
+ * comment until they're expanded.
+ */
+export class CommentThreadComponent extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            expanded: false
+        };
+
+    }
+
+    public render() {
+
+        const {root, replies} = this.props.thread;
+
+        const collapsed = root.resolved === true && ! this.state.expanded;
+
+        return (
+
+            <div style={root.resolved ? Styles.resolved : {}} className="comment-thread">
+
+                <CommentComponent comment={root}
+                                  onDelete={comment => this.onDelete(comment)}
+                                  onReply={comment => this.onReplySelected(comment)}
+                                  onResolve={(comment, resolved) => this.onResolve(comment, resolved)}/>
+
+                {this.renderResolvedBar(collapsed)}
+
+                <div style={Styles.replies} className="ml-3 pl-1">
+
+                    {collapsed ? null : replies.map(reply =>
+                        <CommentComponent key={reply.id}
+                                          comment={reply}
+                                          onDelete={comment => this.onDelete(comment)}
+                                          onReply={comment => this.onReplySelected(comment)}/>)}
+
+                    {this.renderReplyBox()}
+
+                </div>
+
+            </div>
+
+        );
+
+    }
+
+    private renderResolvedBar(collapsed: boolean) {
+
+        const {root, replies} = this.props.thread;
+
+        if (! root.resolved) {
+            return null;
+        }
+
+        const label = collapsed ? `Show ${replies.length} replies` : 'Hide replies';
+
+        return (
+
+            <div className="text-muted ml-1 mb-2">
+
+                <span className="mr-1">Resolved</span>
+
+                {replies.length > 0 ?
+                    <a href="#" onClick={() => this.setState({...this.state, expanded: ! this.state.expanded})}>
+                        {label}
+                    </a> : null}
+
+            </div>
+
+        );
+
+    }
+
+    private renderReplyBox() {
+
+        if (! this.state.replyTo) {
+            return null;
+        }
+
+        return (
+
+            <AnnotationCommentBox id={'reply-' + this.state.replyTo.id}
+                                  onCancel={() => this.setState({...this.state, replyTo: undefined})}
+                                  onCommentCreated={html => this.onReply(html)}/>
+
+        );
+
+    }
+
+    private onReplySelected(comment: DocAnnotation) {
+        this.setState({...this.state, replyTo: comment, expanded: true});
+    }
+
+    private onReply(html: string) {
+
+        RendererAnalytics.event({category: 'annotations', action: 'comment-reply-created'});
+
+        const replyTo = this.state.replyTo!;
+
+        this.setState({...this.state, replyTo: undefined});
+
+        const original = replyTo.pageMeta.comments[replyTo.id];
+
+        if (! original) {
+            log.warn("Comment no longer exists: " + replyTo.id);
+            return;
+        }
+
+        Authors.load()
+            .then(author => {
+                const reply = Comments.createReply(original, html, author);
+                replyTo.pageMeta.comments[reply.id] = reply;
+            })
+            .catch(err => log.error("Could not create reply: ", err));
+
+    }
+
+    private onResolve(comment: DocAnnotation, resolved: boolean) {
+
+        const original = comment.pageMeta.comments[comment.id];
+
+        if (original) {
+            comment.pageMeta.comments[comment.id] = Comments.resolve(original, resolved);
+        }
+
+    }
+
+    /**
+     * Delete the comment along with all replies to it so deleting the first
+     * comment of a thread deletes the whole thread.
+     */
+    private onDelete(comment: DocAnnotation) {
+
+        const {replies} = this.props.thread;
+
+        const deleted = [comment];
+
+        // replies are sorted oldest first so a reply always comes after the
+        // comment it replies to.
+        for (const reply of replies) {
+
+            if (deleted.some(current => current.id === reply.inReplyTo)) {
+                deleted.push(reply);
+            }
+
+        }
+
+        for (const current of deleted) {
+            delete current.pageMeta.comments[current.id];
+        }
+
+    }
+
+}
+
+interface IProps {
+    thread: CommentThread<DocAnnotation>;
+}
+
+interface IState {
+
+    /**
+     * True when the replies of a resolved thread are shown.
+     */
+    expanded: boolean;
+
+    /**
+     * The comment being replied to.
+     */
+    replyTo?: DocAnnotation;
+
+}
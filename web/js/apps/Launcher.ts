@@ -13,6 +13,7 @@ import {CommentsController} from '../comments/CommentsController';
 import {AnnotationBarService} from '../ui/annotationbar/AnnotationBarService';
 import {AreaHighlightView} from "../highlights/area/view/AreaHighlightView";
 import {AppRuntime} from '../AppRuntime';
+import {UndoService} from '../undo/UndoService';
 
 const log = Logger.create();
 
@@ -51,6 +52,7 @@ export class Launcher {
         new AreaHighlightView(model).start();
         new PagemarkView(model).start();
         new AnnotationSidebarService(model).start();
+        new UndoService(model).start();
 
         if (AppRuntime.isElectron()) {
             new PageSearchController(model).start();
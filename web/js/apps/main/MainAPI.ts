@@ -4,6 +4,8 @@ import {WebRequestHandler} from '../../backend/webserver/Webserver';
 import {Logger} from '../../logger/Logger';
 import {Capture} from '../../capture/Capture';
 import {MainAppController} from './MainAppController';
+import {ReadLaterClient} from '../repository/read_later/ReadLaterClient';
+import {ReadLaterDocs} from '../repository/read_later/ReadLaterDocs';
 
 const log = Logger.create();
 
@@ -24,6 +26,7 @@ export class MainAPI {
 
     public start(): void {
         this.startCaptureTriggerHandler();
+        this.startReadLaterHandler();
     }
 
     private startCaptureTriggerHandler() {
@@ -60,4 +63,55 @@ export class MainAPI {
 
     }
 
+    /**
+     * Add URLs to read later.  The body is JSON with either a 'url' or a list
+     * of 'urls' and optionally the 'tags' to add.  The docs are captured later
+     * by the repository app.
+     */
+    private startReadLaterHandler() {
+
+        const path = "/rest/v1/read-later/add";
+
+        this.webRequestHandler.options(path, (req: express.Request, res: express.Response) => {
+
+            res.header('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+            res.header('Access-Control-Allow-Headers', 'Content-Type');
+            res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+            res.status(200).send({});
+
+        });
+
+        this.webRequestHandler.post(path, (req: express.Request, res: express.Response) => {
+
+            log.info("Handling POST request to read later: ", req.body);
+
+            const body = req.body || {};
+
+            const urls: string[] = [...this.toArray(body.urls), body.url]
+                .filter((url: any) => typeof url === 'string');
+
+            const tags: string[] = this.toArray(body.tags)
+                .filter((tag: any) => typeof tag === 'string');
+
+            const invalid = urls.filter(url => ! ReadLaterDocs.isValidURL(url.trim()));
+
+            if (urls.length === 0 || invalid.length > 0) {
+                res.status(400).send({error: "Expected one or more http or https URLs", invalid});
+                return;
+            }
+
+            ReadLaterClient.send({urls, tags});
+
+            res.header('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+            res.status(200).send({queued: urls.length});
+
+        });
+
+    }
+
+    private toArray(value: any): any[] {
+        return Array.isArray(value) ? value : [];
+    }
+
 }
@@ -28,6 +28,8 @@ import {AppPath} from '../../electron/app_path/AppPath';
 import {MainAPI} from './MainAPI';
 import {MainAppExceptionHandlers} from './MainAppExceptionHandlers';
 import {FileImportClient} from '../repository/FileImportClient';
+import {BackupService} from '../../datastore/backup/BackupService';
+import {DocRevisionStores} from '../../datastore/history/DocRevisionStores';
 
 declare var global: any;
 
@@ -55,6 +57,8 @@ export class MainApp {
         // TODO: move this so that we don't expose 'global' here.
         global.datastore = this.datastore;
 
+        DocRevisionStores.createMain(this.datastore);
+
         const webserverConfig = WebserverConfig.create({
             dir: AppPath.get(),
             port: WEBSERVER_PORT,
@@ -131,7 +135,12 @@ export class MainApp {
 
         log.info("Running with process.args: ", JSON.stringify(process.argv));
 
-        const mainAppController = new MainAppController(fileLoader, webserver);
+        const backupService = new BackupService();
+
+        await backupService.start()
+            .catch(err => log.error("Unable to start backup service: ", err));
+
+        const mainAppController = new MainAppController(fileLoader, webserver, this.datastore, backupService);
 
         global.mainAppController = mainAppController;
 
@@ -13,9 +13,17 @@ import {Capture} from '../../capture/Capture';
 import {Directories} from '../../datastore/Directories';
 import {FileImportClient} from '../repository/FileImportClient';
 import {CaptureOpts} from '../../capture/CaptureOpts';
+import {CaptureResult} from '../../capture/CaptureResult';
+import {BrowserProfiles} from '../../capture/BrowserProfiles';
+import BrowserRegistry from '../../capture/BrowserRegistry';
 import {Platform, Platforms} from '../../util/Platforms';
 import MenuItem = Electron.MenuItem;
 import {MainAppExceptionHandlers} from './MainAppExceptionHandlers';
+import {BackupService} from '../../datastore/backup/BackupService';
+import {BackupSchedule} from '../../datastore/Settings';
+import {BackupVerification} from '../../datastore/backup/BackupManifests';
+import {Datastore} from '../../datastore/Datastore';
+import {DatastoreIntegrityChecker} from '../../datastore/integrity/DatastoreIntegrityChecker';
 
 const log = Logger.create();
 
@@ -27,11 +35,19 @@ export class MainAppController {
 
     private readonly directories: Directories;
 
+    private readonly datastore: Datastore;
+
+    public readonly backupService: BackupService;
+
     constructor(fileLoader: FileLoader,
-                webserver: Webserver) {
+                webserver: Webserver,
+                datastore: Datastore,
+                backupService: BackupService = new BackupService()) {
         this.fileLoader = fileLoader;
         this.webserver = webserver;
         this.directories = new Directories();
+        this.datastore = datastore;
+        this.backupService = backupService;
     }
 
     public async cmdCaptureWebPage() {
@@ -55,6 +71,24 @@ export class MainAppController {
 
     }
 
+    /**
+     * Capture the URL in a hidden window without opening the result.  Used to
+     * capture read later docs.
+     */
+    public async cmdCaptureInBackground(url: string): Promise<CaptureResult> {
+
+        const browserProfile = BrowserProfiles.toBrowserProfile(BrowserRegistry.DEFAULT, 'HIDDEN');
+
+        // we already know all the inputs here...
+        browserProfile.navigation.navigated.dispatchEvent({link: url});
+        browserProfile.navigation.captured.dispatchEvent({});
+
+        const capture = new Capture(browserProfile, {amp: true});
+
+        return await capture.start();
+
+    }
+
     public async cmdNewWindow() {
         await MainAppBrowserWindowFactory.createWindow();
     }
@@ -69,6 +103,159 @@ export class MainAppController {
 
     }
 
+    public async cmdImportFolder() {
+
+        const folder = await this.promptImportFolder();
+
+        if (folder) {
+            FileImportClient.sendFolder({folder});
+        }
+
+    }
+
+    public async cmdCreateBackup() {
+
+        const backup = await this.backupService.create();
+
+        this.showMessage('info',
+                         'Backup created',
+                         `Backed up ${backup.manifest!.files.length} files to:\n${backup.path}`);
+
+    }
+
+    public async cmdVerifyBackup() {
+
+        const path = await this.promptBackup("Verify Backup");
+
+        if (! path) {
+            return;
+        }
+
+        const verification = await this.backupService.verify(path);
+
+        if (verification.errors.length === 0) {
+            this.showMessage('info',
+                             'Backup verified',
+                             `All ${verification.manifest.files.length} files in the backup are intact.`);
+        } else {
+            this.showMessage('error',
+                             'Backup is corrupt',
+                             this.describeVerificationErrors(verification));
+        }
+
+    }
+
+    public async cmdRestoreBackup() {
+
+        const path = await this.promptBackup("Restore from Backup");
+
+        if (! path) {
+            return;
+        }
+
+        const verification = await this.backupService.verify(path);
+
+        if (verification.errors.length > 0) {
+            this.showMessage('error',
+                             'Backup is corrupt and will not be restored',
+                             this.describeVerificationErrors(verification));
+            return;
+        }
+
+        const response = this.showMessageBox({
+            type: 'warning',
+            buttons: ['Restore', 'Cancel'],
+            defaultId: 1,
+            cancelId: 1,
+            title: 'Polar',
+            message: `Restore ${verification.manifest.files.length} files from the backup created ${verification.manifest.created}?`,
+            detail: 'A backup of your current data is created first.'
+        });
+
+        if (response !== 0) {
+            return;
+        }
+
+        await this.backupService.restore(path);
+
+        // the windows still have the data from before the restore.
+        for (const browserWindow of BrowserWindow.getAllWindows()) {
+            browserWindow.webContents.reload();
+        }
+
+    }
+
+    public async cmdSetBackupSchedule(schedule: BackupSchedule) {
+        await this.backupService.setSchedule(schedule);
+    }
+
+    public async cmdSetBackupArchiveDir() {
+
+        const archiveDir = await new Promise<string | undefined>((resolve) => {
+
+            dialog.showOpenDialog({
+                  title: "Backup Archive Directory",
+                  properties: ['openDirectory', 'createDirectory']
+              }, (paths) => {
+
+                resolve(paths ? paths[0] : undefined);
+
+            });
+
+        });
+
+        await this.backupService.setArchiveDir(archiveDir);
+
+    }
+
+    public async cmdCheckIntegrity() {
+
+        const checker = new DatastoreIntegrityChecker(this.datastore);
+
+        const report = await checker.check();
+
+        if (report.issues.length === 0) {
+            this.showMessage('info',
+                             'No problems found',
+                             `Checked ${report.nrDocs} documents.`);
+            return;
+        }
+
+        const repairable = report.issues.filter(issue => issue.repairable);
+
+        const detail = report.issues
+            .slice(0, 20)
+            .map(issue => `${issue.repairable ? '' : '(not repairable) '}${issue.message}`)
+            .join('\n');
+
+        const buttons = repairable.length > 0 ? ['Repair', 'Close'] : ['Close'];
+
+        const response = this.showMessageBox({
+            type: 'warning',
+            buttons,
+            defaultId: buttons.length - 1,
+            cancelId: buttons.length - 1,
+            title: 'Polar',
+            message: `Found ${report.issues.length} problems in ${report.nrDocs} documents (${repairable.length} repairable).`,
+            detail
+        });
+
+        if (buttons[response] !== 'Repair') {
+            return;
+        }
+
+        const repaired = await checker.repair(report);
+
+        for (const browserWindow of BrowserWindow.getAllWindows()) {
+            browserWindow.webContents.reload();
+        }
+
+        this.showMessage('info',
+                         `Repaired ${repaired.length} of ${repairable.length} problems`,
+                         'A backup was created before repairing.');
+
+    }
+
     public cmdExit() {
         this.exitApp();
     }
@@ -89,6 +276,7 @@ export class MainAppController {
         log.info("Shutting down services...");
         Services.stop({
             webserver: this.webserver,
+            backupService: this.backupService
         });
         log.info("Shutting down services...done");
 
@@ -140,7 +328,8 @@ export class MainAppController {
      * The user asked to open a file from the command line or via OS event.
      */
     public async handleLoadDoc(path: string,
-                               newWindow: boolean = true): Promise<BrowserWindow> {
+                               newWindow: boolean = true,
+                               page?: number): Promise<BrowserWindow> {
 
         const extraTags = {'type': 'viewer'};
 
@@ -156,16 +345,19 @@ export class MainAppController {
                 window = BrowserWindow.getFocusedWindow()!;
             }
 
-            return await this.loadDoc(path, window);
+            return await this.loadDoc(path, window, page);
 
         }, extraTags);
 
     }
 
     /**
-     * Load the given PDF file in the given target window.
+     * Load the given PDF file in the given target window and optionally jump to
+     * the given page.
      */
-    public async loadDoc(path: string, targetWindow: BrowserWindow): Promise<BrowserWindow> {
+    public async loadDoc(path: string,
+                         targetWindow: BrowserWindow,
+                         page?: number): Promise<BrowserWindow> {
 
         if (!targetWindow) {
             throw new Error("No target window given");
@@ -173,9 +365,13 @@ export class MainAppController {
 
         const loadedFile = await this.fileLoader.registerForLoad(path);
 
-        log.info("Loading webapp at: " + loadedFile.webResource);
+        const webResource = page !== undefined ?
+            loadedFile.webResource.withHash(`page=${page}`) :
+            loadedFile.webResource;
 
-        loadedFile.webResource.load(targetWindow);
+        log.info("Loading webapp at: " + webResource);
+
+        webResource.load(targetWindow);
 
         targetWindow.webContents.once('did-finish-load', () => {
 
@@ -243,7 +439,7 @@ export class MainAppController {
                   title: "Import Document",
                   defaultPath: downloadsDir,
                   filters: [
-                      { name: 'Docs', extensions: ['pdf', "phz"] }
+                      { name: 'Docs', extensions: ['pdf', "phz", "epub"] }
                   ],
                   properties: ['openFile', 'multiSelections']
                   // properties: ['openFile']
@@ -257,6 +453,90 @@ export class MainAppController {
 
     }
 
+    /**
+     * Open a dialog box for a backup directory or zip archive.
+     */
+    private async promptBackup(title: string): Promise<string | undefined> {
+
+        return new Promise<string | undefined>((resolve) => {
+
+            dialog.showOpenDialog({
+                  title,
+                  defaultPath: this.directories.dataDir,
+                  filters: [
+                      { name: 'Backup Archives', extensions: ['zip'] }
+                  ],
+                  properties: ['openFile', 'openDirectory', 'showHiddenFiles']
+              }, (paths) => {
+
+                resolve(paths ? paths[0] : undefined);
+
+            });
+
+        });
+
+    }
+
+    private describeVerificationErrors(verification: BackupVerification) {
+
+        return verification.errors
+            .slice(0, 20)
+            .map(error => `${error.path}: ${error.reason}`)
+            .join('\n');
+
+    }
+
+    private showMessage(type: 'info' | 'error', message: string, detail: string) {
+
+        this.showMessageBox({
+            type,
+            buttons: ['OK'],
+            title: 'Polar',
+            message,
+            detail
+        });
+
+    }
+
+    /**
+     * Show the message box over the focused window or without a parent when
+     * no window has focus (e.g. the app is in the background).
+     */
+    private showMessageBox(options: Electron.MessageBoxOptions): number {
+
+        const focusedWindow = BrowserWindow.getFocusedWindow();
+
+        if (focusedWindow) {
+            return dialog.showMessageBox(focusedWindow, options);
+        }
+
+        return dialog.showMessageBox(options);
+
+    }
+
+    /**
+     * Open a dialog box for a folder of PDF and EPUB files.
+     */
+    private async promptImportFolder(): Promise<string | undefined> {
+
+        const downloadsDir = app.getPath('downloads');
+
+        return new Promise<string | undefined>((resolve) => {
+
+            dialog.showOpenDialog({
+                  title: "Import Folder",
+                  defaultPath: downloadsDir,
+                  properties: ['openDirectory']
+              }, (paths) => {
+
+                resolve(paths ? paths[0] : undefined);
+
+            });
+
+        });
+
+    }
+
 }
 
 export interface FileImportRequest {
@@ -267,3 +547,12 @@ export interface FileImportRequest {
     readonly files: string[];
 
 }
+
+export interface FolderImportRequest {
+
+    /**
+     * The folder to recursively import.
+     */
+    readonly folder: string;
+
+}
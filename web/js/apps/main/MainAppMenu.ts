@@ -13,6 +13,10 @@ import {Menus} from './Menus';
 import {isPresent} from '../../Preconditions';
 import {Directories} from '../../datastore/Directories';
 import {Messenger} from '../../electron/messenger/Messenger';
+import {ExportFormat} from '../../metadata/exporter/Exporters';
+import {FlashcardFileFormat} from '../sync/framework/file/FileSyncEngine';
+import {BackupSchedule} from '../../datastore/Settings';
+import {UndoClient} from '../../undo/UndoClient';
 
 const log = Logger.create();
 
@@ -51,12 +55,7 @@ export class MainAppMenu {
 
         app.on('browser-window-focus', (event: Electron.Event, browserWindow: BrowserWindow) => {
 
-            const meta = BrowserWindowRegistry.get(browserWindow.id);
-
-            const isViewer: boolean
-                = isPresent(meta) &&
-                meta!.tags &&
-                meta!.tags[WINDOW_TYPE] === 'viewer';
+            const isViewer = MainAppMenu.isViewerWindow(browserWindow);
 
             const menu = Menu.getApplicationMenu()!;
 
@@ -86,6 +85,34 @@ export class MainAppMenu {
 
             handleSyncFlashcardsToAnki();
 
+            // **** handle export-flashcards
+
+            function handleExportFlashcards() {
+
+                const toolsMenu = Menus.find(menu.items, 'tools');
+                const toolsMenuItems = Menus.submenu(toolsMenu);
+                const exportFlashcardsMenuItem = Menus.find(toolsMenuItems, 'export-flashcards');
+
+                Menus.setVisible(exportFlashcardsMenuItem!, ! isViewer);
+
+            }
+
+            handleExportFlashcards();
+
+            // **** handle export-library
+
+            function handleExportLibrary() {
+
+                const toolsMenu = Menus.find(menu.items, 'tools');
+                const toolsMenuItems = Menus.submenu(toolsMenu);
+                const exportLibraryMenuItem = Menus.find(toolsMenuItems, 'export-library');
+
+                Menus.setVisible(exportLibraryMenuItem!, ! isViewer);
+
+            }
+
+            handleExportLibrary();
+
             // **** handle annotate menu
 
             const annotateMenu = Menus.find(menu.items, 'annotate');
@@ -104,6 +131,53 @@ export class MainAppMenu {
 
     }
 
+    private static isViewerWindow(browserWindow: BrowserWindow): boolean {
+
+        const meta = BrowserWindowRegistry.get(browserWindow.id);
+
+        return isPresent(meta) &&
+               meta!.tags &&
+               meta!.tags[WINDOW_TYPE] === 'viewer';
+
+    }
+
+    /**
+     * In the viewer undo and redo apply to the annotations unless a text field
+     * has focus (which the viewer handles).  Everywhere else they apply to
+     * the text being edited.
+     */
+    private static undo() {
+
+        const browserWindow = BrowserWindow.getFocusedWindow();
+
+        if (! browserWindow) {
+            return;
+        }
+
+        if (MainAppMenu.isViewerWindow(browserWindow)) {
+            UndoClient.undo();
+        } else {
+            browserWindow.webContents.undo();
+        }
+
+    }
+
+    private static redo() {
+
+        const browserWindow = BrowserWindow.getFocusedWindow();
+
+        if (! browserWindow) {
+            return;
+        }
+
+        if (MainAppMenu.isViewerWindow(browserWindow)) {
+            UndoClient.redo();
+        } else {
+            browserWindow.webContents.redo();
+        }
+
+    }
+
     private createMenuTemplate(): any {
 
         const menuTemplate: any[] = [
@@ -212,6 +286,14 @@ export class MainAppMenu {
                             .catch((err: Error) => log.error("Could not import from disk: ", err));
                     }
 
+                },
+                {
+                    label: 'Import Folder from Disk',
+                    click: () => {
+                        this.mainAppController.cmdImportFolder()
+                            .catch((err: Error) => log.error("Could not import folder from disk: ", err));
+                    }
+
                 },
                 {
                     label: 'Capture Web Page',
@@ -262,8 +344,18 @@ export class MainAppMenu {
             id: 'edit',
             label: 'Edit',
             submenu: [
-                { role: 'undo' },
-                { role: 'redo' },
+                {
+                    id: 'undo',
+                    label: 'Undo',
+                    accelerator: 'CmdOrCtrl+Z',
+                    click: () => MainAppMenu.undo()
+                },
+                {
+                    id: 'redo',
+                    label: 'Redo',
+                    accelerator: 'Shift+CmdOrCtrl+Z',
+                    click: () => MainAppMenu.redo()
+                },
                 // { type: 'separator' },
                 // { label: 'Find', accelerator: 'CmdOrCtrl+f', click: () => InPageSearch.execute() },
                 { type: 'separator' },
@@ -404,6 +496,59 @@ export class MainAppMenu {
                         }).catch(err => log.error("Could not post message", err));
                     }
                 },
+                {
+                    id: 'export-flashcards',
+                    label: 'Export Flashcards',
+                    submenu: [
+                        {
+                            label: 'CSV',
+                            click: () => this.postExportFlashcards('csv')
+                        },
+                        {
+                            label: 'Anki Deck Package',
+                            click: () => this.postExportFlashcards('apkg')
+                        },
+                    ]
+                },
+                {
+                    id: 'export-library',
+                    label: 'Export Library',
+                    submenu: [
+                        {
+                            label: 'Markdown',
+                            click: () => this.postExportLibrary('markdown')
+                        },
+                        {
+                            label: 'JSON',
+                            click: () => this.postExportLibrary('json')
+                        },
+                        {
+                            label: 'HTML',
+                            click: () => this.postExportLibrary('html')
+                        },
+                        {type: 'separator'},
+                        {
+                            label: 'BibTeX',
+                            click: () => this.postExportLibrary('bibtex')
+                        },
+                        {
+                            label: 'CSL-JSON',
+                            click: () => this.postExportLibrary('csl-json')
+                        },
+                    ]
+                },
+                {
+                    label: 'Check Data Integrity',
+                    click: () => {
+                        this.mainAppController.cmdCheckIntegrity()
+                            .catch((err: Error) => log.error("Could not check data integrity: ", err));
+                    }
+                },
+                {
+                    id: 'backups',
+                    label: 'Backups',
+                    submenu: this.createBackupsMenuTemplate()
+                },
                 {type: 'separator'},
                 {
                     label: 'Toggle Developer Tools',
@@ -414,6 +559,87 @@ export class MainAppMenu {
 
     }
 
+    private createBackupsMenuTemplate() {
+
+        const backupSettings = this.mainAppController.backupService.getSettings();
+
+        const createScheduleItem = (label: string, schedule: BackupSchedule) => {
+            return {
+                label,
+                type: 'radio',
+                checked: backupSettings.schedule === schedule,
+                click: () => {
+                    this.mainAppController.cmdSetBackupSchedule(schedule)
+                        .catch((err: Error) => log.error("Could not set backup schedule: ", err));
+                }
+            };
+        };
+
+        return [
+            {
+                label: 'Create Backup Now',
+                click: () => {
+                    this.mainAppController.cmdCreateBackup()
+                        .catch((err: Error) => log.error("Could not create backup: ", err));
+                }
+            },
+            {
+                label: 'Verify Backup...',
+                click: () => {
+                    this.mainAppController.cmdVerifyBackup()
+                        .catch((err: Error) => log.error("Could not verify backup: ", err));
+                }
+            },
+            {
+                label: 'Restore from Backup...',
+                click: () => {
+                    this.mainAppController.cmdRestoreBackup()
+                        .catch((err: Error) => log.error("Could not restore backup: ", err));
+                }
+            },
+            {type: 'separator'},
+            {
+                label: 'Schedule',
+                submenu: [
+                    createScheduleItem('Manual', 'manual'),
+                    createScheduleItem('Hourly', 'hourly'),
+                    createScheduleItem('Daily', 'daily'),
+                    createScheduleItem('Weekly', 'weekly'),
+                ]
+            },
+            {
+                label: 'Set Archive Directory...',
+                click: () => {
+                    this.mainAppController.cmdSetBackupArchiveDir()
+                        .catch((err: Error) => log.error("Could not set backup archive directory: ", err));
+                }
+            },
+        ];
+
+    }
+
+    private postExportFlashcards(format: FlashcardFileFormat) {
+
+        Messenger.postMessage( {
+            message: {
+                type: "start-flashcard-file-sync",
+                format
+            }
+        }).catch(err => log.error("Could not post message", err));
+
+    }
+
+    private postExportLibrary(format: ExportFormat) {
+
+        Messenger.postMessage( {
+            message: {
+                type: "start-library-export",
+                format
+            }
+        }).catch(err => log.error("Could not post message", err));
+
+    }
+
     private createHelpMenuTemplate() {
         return {
             id: 'help',
@@ -9,4 +9,9 @@ export interface LoadDocRequest {
      */
     readonly newWindow: boolean;
 
+    /**
+     * The page to jump to once the document has loaded.
+     */
+    readonly page?: number;
+
 }
@@ -25,7 +25,7 @@ export class LoadDocHandler  extends IPCHandler<LoadDocRequest> {
 
         const path = FilePaths.join(this.directories.stashDir, loadDocRequest.filename);
 
-        await this.mainAppController.handleLoadDoc(path, loadDocRequest.newWindow);
+        await this.mainAppController.handleLoadDoc(path, loadDocRequest.newWindow, loadDocRequest.page);
 
     }
 
@@ -4,6 +4,7 @@ import {PHZLoader} from './PHZLoader';
 import {FileRegistry} from '../../../backend/webserver/FileRegistry';
 import {PDFLoader} from './PDFLoader';
 import {LoadedFile} from './LoadedFile';
+import {EPUBLoader} from './EPUBLoader';
 
 export class DefaultFileLoader extends FileLoader {
 
@@ -15,12 +16,15 @@ export class DefaultFileLoader extends FileLoader {
 
     private readonly phzLoader: PHZLoader;
 
+    private readonly epubLoader: EPUBLoader;
+
     constructor(fileRegistry: FileRegistry, cacheRegistry: CacheRegistry) {
         super();
         this.fileRegistry = fileRegistry;
         this.cacheRegistry = cacheRegistry;
         this.pdfLoader = new PDFLoader(fileRegistry);
         this.phzLoader = new PHZLoader({cacheRegistry});
+        this.epubLoader = new EPUBLoader(fileRegistry);
     }
 
     public async registerForLoad(path: string): Promise<LoadedFile> {
@@ -29,6 +33,8 @@ export class DefaultFileLoader extends FileLoader {
             return this.pdfLoader.registerForLoad(path);
         } else if (path.endsWith(".phz")) {
             return this.phzLoader.registerForLoad(path);
+        } else if (path.endsWith(".epub")) {
+            return this.epubLoader.registerForLoad(path);
         } else {
             throw new Error("Unable to handle file: " + path);
         }
@@ -0,0 +1,44 @@
+import {FileLoader} from './FileLoader';
+import {WebResource} from '../../../electron/webresource/WebResource';
+import {FileRegistry} from '../../../backend/webserver/FileRegistry';
+import {ResourcePaths} from '../../../electron/webresource/ResourcePaths';
+import {LoadedFile} from './LoadedFile';
+import {FilePaths} from '../../../util/FilePaths';
+import {Files} from '../../../util/Files';
+import {EPUBReader} from '../../../epub/EPUBReader';
+
+export class EPUBLoader extends FileLoader {
+
+    private readonly fileRegistry: FileRegistry;
+
+    constructor(fileRegistry: FileRegistry) {
+        super();
+        this.fileRegistry = fileRegistry;
+    }
+
+    public async registerForLoad(path: string): Promise<LoadedFile> {
+
+        const filename = FilePaths.basename(path);
+
+        // we need the package to compute the same fingerprint the importer
+        // used when creating the DocMeta.
+        const epubReader = new EPUBReader();
+        await epubReader.init(await Files.readFileAsync(path));
+
+        const epubPackage = epubReader.getPackage();
+
+        const fileMeta = this.fileRegistry.registerFile(path);
+
+        const fileParam = encodeURIComponent(fileMeta.url);
+        const filenameParam = encodeURIComponent(filename);
+
+        const appURL = ResourcePaths.resourceURLFromRelativeURL(`/epubviewer/index.html?file=${fileParam}&fingerprint=${epubPackage.fingerprint}&filename=${filenameParam}`, false);
+
+        return {
+            webResource: WebResource.createURL(appURL),
+            title: epubPackage.title
+        };
+
+    }
+
+}
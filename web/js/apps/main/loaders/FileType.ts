@@ -1,4 +1,5 @@
 export enum FileType {
     PDF = 'pdf',
-    PHZ = 'phz'
+    PHZ = 'phz',
+    EPUB = 'epub'
 }
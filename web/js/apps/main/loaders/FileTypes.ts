@@ -8,6 +8,8 @@ export class FileTypes {
             return FileType.PDF;
         } else if (path.endsWith(".phz")) {
             return FileType.PHZ;
+        } else if (path.endsWith(".epub")) {
+            return FileType.EPUB;
         } else {
             throw new Error("Unable to handle file: " + path);
         }
@@ -1,5 +1,5 @@
 import {ipcRenderer} from "electron";
-import {FileImportRequest} from '../main/MainAppController';
+import {FileImportRequest, FolderImportRequest} from '../main/MainAppController';
 import {Broadcasters} from "../../ipc/Broadcasters";
 
 /**
@@ -14,4 +14,10 @@ export class FileImportClient {
 
     }
 
+    public static sendFolder(folderImportRequest: FolderImportRequest) {
+
+        Broadcasters.send('folder-import', folderImportRequest);
+
+    }
+
 }
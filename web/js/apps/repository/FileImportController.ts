@@ -1,8 +1,8 @@
 import {PersistenceLayer} from "../../datastore/PersistenceLayer";
 import {ipcRenderer} from "electron";
 import {Logger} from '../../logger/Logger';
-import {FileImportRequest} from "../main/MainAppController";
-import {ImportedFile, PDFImporter} from './importers/PDFImporter';
+import {FileImportRequest, FolderImportRequest} from "../main/MainAppController";
+import {ImportedFile} from './importers/PDFImporter';
 import {ProgressBar} from '../../ui/progress_bar/ProgressBar';
 import {ProgressCalculator} from "../../util/ProgressCalculator";
 import {IEventDispatcher} from '../../reactor/SimpleReactor';
@@ -14,6 +14,9 @@ import {isPresent} from "../../Preconditions";
 import {Toaster} from "../../ui/toaster/Toaster";
 import {IProvider} from "../../util/Providers";
 import {DeterminateProgressBar} from '../../ui/progress_bar/DeterminateProgressBar';
+import {FolderImporter} from './importers/FolderImporter';
+import {FolderImportReportModals} from './import_report/FolderImportReportModals';
+import {DefaultFileImporter} from './importers/DefaultFileImporter';
 
 const log = Logger.create();
 
@@ -29,14 +32,14 @@ export class FileImportController {
 
     private readonly updatedDocInfoEventDispatcher: IEventDispatcher<IDocInfo>;
 
-    private readonly pdfImporter: PDFImporter;
+    private readonly fileImporter: DefaultFileImporter;
 
     constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
                 updatedDocInfoEventDispatcher: IEventDispatcher<IDocInfo>) {
 
         this.persistenceLayerProvider = persistenceLayerProvider;
         this.updatedDocInfoEventDispatcher = updatedDocInfoEventDispatcher;
-        this.pdfImporter = new PDFImporter(persistenceLayerProvider);
+        this.fileImporter = new DefaultFileImporter(persistenceLayerProvider);
 
     }
 
@@ -51,6 +54,13 @@ export class FileImportController {
 
         });
 
+        ipcRenderer.on('folder-import', (event: any, folderImportRequest: FolderImportRequest) => {
+
+            this.onFolderImportRequest(folderImportRequest)
+                .catch(err => log.error("Unable to import folder: ", err));
+
+        });
+
         document.body.addEventListener('dragenter', (event) => this.onDragEnterOrOver(event));
         document.body.addEventListener('dragover', (event) => this.onDragEnterOrOver(event));
         document.body.addEventListener('drop', event => this.onDrop(event));
@@ -67,7 +77,7 @@ export class FileImportController {
         if (event.dataTransfer) {
 
             const files = Array.from(event.dataTransfer.files)
-                .filter(file => file.path.endsWith(".pdf"))
+                .filter(file => DefaultFileImporter.isImportable(file.path))
                 .map(file => file.path);
 
             this.onImportFiles(files)
@@ -89,6 +99,20 @@ export class FileImportController {
 
     }
 
+    private async onFolderImportRequest(folderImportRequest: FolderImportRequest) {
+
+        log.info("Importing folder: " + folderImportRequest.folder);
+
+        const folderImporter = new FolderImporter(this.fileImporter);
+
+        const report = await folderImporter.importFolder(folderImportRequest.folder,
+                                                         progress => DeterminateProgressBar.update(progress.progress),
+                                                         importedFile => this.updatedDocInfoEventDispatcher.dispatchEvent(importedFile.docInfo));
+
+        FolderImportReportModals.show(report);
+
+    }
+
     private async onImportFiles(files: string[]) {
 
         const importedFiles = await this.doImportFiles(files);
@@ -157,7 +181,7 @@ export class FileImportController {
 
         log.info("Importing file: " + file);
 
-        const importedFileResult = await this.pdfImporter.importFile(file);
+        const importedFileResult = await this.fileImporter.importFile(file);
 
         importedFileResult.map(importedFile => {
             this.updatedDocInfoEventDispatcher.dispatchEvent(importedFile.docInfo);
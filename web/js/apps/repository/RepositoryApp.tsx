@@ -2,15 +2,18 @@ import * as ReactDOM from 'react-dom';
 import * as React from 'react';
 import {RemotePersistenceLayerFactory} from '../../datastore/factories/RemotePersistenceLayerFactory';
 import {FileImportController} from './FileImportController';
+import {ReadLaterController} from './read_later/ReadLaterController';
 import {IEventDispatcher, SimpleReactor} from '../../reactor/SimpleReactor';
 import {IDocInfo} from '../../metadata/DocInfo';
 import {AppInstance} from '../../electron/framework/AppInstance';
 import {PersistenceLayers} from '../../datastore/PersistenceLayers';
 import {PersistenceLayerManager, PersistenceLayerTypes} from '../../datastore/PersistenceLayerManager';
-import {HashRouter, Switch, Route} from 'react-router-dom';
+import {HashRouter, Switch, Route, RouteComponentProps} from 'react-router-dom';
 import {PrioritizedSplashes} from '../../../../apps/repository/js/splash/PrioritizedSplashes';
 import {SyncBar, SyncBarProgress} from '../../ui/sync_bar/SyncBar';
 import {DocRepoAnkiSyncController} from '../../controller/DocRepoAnkiSyncController';
+import {DocRepoLibraryExportController} from '../../controller/DocRepoLibraryExportController';
+import {DocRepoFlashcardFileSyncController} from '../../controller/DocRepoFlashcardFileSyncController';
 import DocRepoApp from '../../../../apps/repository/js/doc_repo/DocRepoApp';
 import AnnotationRepoApp from '../../../../apps/repository/js/annotation_repo/AnnotationRepoApp';
 import {RepoDocInfos} from '../../../../apps/repository/js/RepoDocInfos';
@@ -32,6 +35,13 @@ import {ProgressService} from '../../ui/progress_bar/ProgressService';
 import {ProgressTracker} from '../../util/ProgressTracker';
 import {RepoDocMetas} from '../../../../apps/repository/js/RepoDocMetas';
 import EditorsPicksApp from '../../../../apps/repository/js/editors_picks/EditorsPicksApp';
+import ReviewApp from '../../../../apps/repository/js/review/ReviewApp';
+import SearchApp from '../../../../apps/repository/js/search/SearchApp';
+import {LibrarySearchService} from '../../../../apps/repository/js/search/LibrarySearchService';
+import ConflictsApp from '../../../../apps/repository/js/conflicts/ConflictsApp';
+import DocHistoryApp from '../../../../apps/repository/js/history/DocHistoryApp';
+import PHZInspectorApp from '../../../../apps/repository/js/inspector/PHZInspectorApp';
+import HighlightCategoriesApp from '../../../../apps/repository/js/highlight_categories/HighlightCategoriesApp';
 
 const log = Logger.create();
 
@@ -40,10 +50,12 @@ export class RepositoryApp {
     private readonly persistenceLayerManager = new PersistenceLayerManager();
     private readonly repoDocInfoManager: RepoDocMetaManager;
     private readonly repoDocInfoLoader: RepoDocMetaLoader;
+    private readonly librarySearchService: LibrarySearchService;
 
     constructor() {
         this.repoDocInfoManager = new RepoDocMetaManager(this.persistenceLayerManager);
         this.repoDocInfoLoader = new RepoDocMetaLoader(this.persistenceLayerManager);
+        this.librarySearchService = new LibrarySearchService(this.persistenceLayerManager, this.repoDocInfoLoader);
     }
 
     public async start() {
@@ -58,6 +70,15 @@ export class RepositoryApp {
         new DocRepoAnkiSyncController(this.persistenceLayerManager, syncBarProgress)
             .start();
 
+        new DocRepoFlashcardFileSyncController(this.persistenceLayerManager, syncBarProgress)
+            .start();
+
+        new DocRepoLibraryExportController(this.persistenceLayerManager, syncBarProgress, this.repoDocInfoManager)
+            .start();
+
+        new ReadLaterController(this.persistenceLayerManager, this.repoDocInfoManager)
+            .start();
+
         new AutoUpdatesController().start();
 
         new CloudService(this.persistenceLayerManager)
@@ -98,6 +119,36 @@ export class RepositoryApp {
                                         syncBarProgress={syncBarProgress}/> );
         };
 
+        const renderSearch = () => {
+            return ( <SearchApp persistenceLayerManager={this.persistenceLayerManager}
+                                repoDocMetaManager={this.repoDocInfoManager}
+                                librarySearchService={this.librarySearchService}/> );
+        };
+
+        const renderReview = () => {
+            return ( <ReviewApp persistenceLayerManager={this.persistenceLayerManager}/> );
+        };
+
+        const renderConflicts = () => {
+            return ( <ConflictsApp persistenceLayerManager={this.persistenceLayerManager}
+                                   repoDocMetaManager={this.repoDocInfoManager}/> );
+        };
+
+        const renderHistory = (props: RouteComponentProps<{fingerprint: string}>) => {
+            return ( <DocHistoryApp fingerprint={props.match.params.fingerprint}
+                                    persistenceLayerManager={this.persistenceLayerManager}
+                                    repoDocMetaManager={this.repoDocInfoManager}/> );
+        };
+
+        const renderInspector = (props: RouteComponentProps<{fingerprint: string}>) => {
+            return ( <PHZInspectorApp fingerprint={props.match.params.fingerprint}
+                                      repoDocMetaManager={this.repoDocInfoManager}/> );
+        };
+
+        const renderHighlightCategories = () => {
+            return ( <HighlightCategoriesApp/> );
+        };
+
         const renderWhatsNew = () => {
             return ( <WhatsNewApp/> );
         };
@@ -129,8 +180,14 @@ export class RepositoryApp {
                 <HashRouter hashType="noslash">
 
                     <Switch>
-                        <Route exact path='/(logout|overview|login|configured|invite)?' render={renderDocRepoApp}/>
+                        <Route exact path='/(logout|overview|login|configured|invite|sync-server)?' render={renderDocRepoApp}/>
                         <Route exact path='/annotations' render={renderAnnotationRepoApp}/>
+                        <Route exact path='/search' render={renderSearch}/>
+                        <Route exact path='/review' render={renderReview}/>
+                        <Route exact path='/conflicts' render={renderConflicts}/>
+                        <Route exact path='/history/:fingerprint' render={renderHistory}/>
+                        <Route exact path='/inspect/:fingerprint' render={renderInspector}/>
+                        <Route exact path='/highlight-categories' render={renderHighlightCategories}/>
                         <Route exact path='/whats-new' render={renderWhatsNew}/>
                         <Route exact path='/community' render={renderCommunity}/>
                         <Route exact path='/stats' render={renderStats}/>
@@ -148,6 +205,8 @@ export class RepositoryApp {
 
         this.handleRepoDocInfoEvents();
 
+        await this.librarySearchService.start();
+
         await this.repoDocInfoLoader.start();
 
         await this.persistenceLayerManager.start();
@@ -209,7 +268,7 @@ export class RepositoryApp {
                 // in all other datastores.
                 const persistenceLayer: PersistenceLayer = this.persistenceLayerManager.get();
 
-                if (PersistenceLayerTypes.get() === 'cloud') {
+                if (PersistenceLayerTypes.get() !== 'local') {
 
                     const handleWriteDocMeta = async () => {
                         await persistenceLayer.synchronizeDocs({fingerprint: docInfo.fingerprint, docMeta});
@@ -0,0 +1,79 @@
+import * as React from 'react';
+import {Button, Modal, ModalBody, ModalFooter, ModalHeader} from 'reactstrap';
+import {FolderImportReport} from '../importers/FolderImporter';
+
+/**
+ * Shows the result of a folder import including the files that were
+ * duplicates or that failed to import along with the reason.
+ */
+export class FolderImportReportModal extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+    }
+
+    public render() {
+
+        const {report} = this.props;
+
+        const PathList = (props: {paths: string[]}) => {
+
+            if (props.paths.length === 0) {
+                return (<div className="text-muted">None</div>);
+            }
+
+            return (
+                <ul style={{maxHeight: '150px', overflowY: 'auto', fontSize: '12px'}}>
+                    {props.paths.map(path => <li key={path}>{path}</li>)}
+                </ul>
+            );
+
+        };
+
+        return (
+
+            <Modal isOpen={this.props.isOpen} size="lg">
+                <ModalHeader>Import complete</ModalHeader>
+                <ModalBody>
+
+                    <p>
+                        Imported <b>{report.imported.length}</b> documents.
+                        Skipped <b>{report.duplicates.length}</b> duplicates
+                        and <b>{report.skipped.length}</b> files which are not
+                        PDFs.  <b>{report.failed.length}</b> files failed.
+                    </p>
+
+                    <h6>Duplicates</h6>
+
+                    <PathList paths={report.duplicates.map(current => current.path)}/>
+
+                    <h6>Failed</h6>
+
+                    <PathList paths={report.failed.map(current => `${current.path}: ${current.reason}`)}/>
+
+                </ModalBody>
+                <ModalFooter>
+
+                    <Button color="primary"
+                            onClick={() => this.props.onClose()}>
+                        OK
+                    </Button>
+
+                </ModalFooter>
+            </Modal>
+
+        );
+    }
+
+}
+
+interface IProps {
+    readonly isOpen: boolean;
+    readonly report: FolderImportReport;
+    readonly onClose: () => void;
+}
+
+interface IState {
+
+}
@@ -0,0 +1,27 @@
+import * as ReactDOM from 'react-dom';
+import * as React from 'react';
+import {Elements} from '../../../util/Elements';
+import {FolderImportReport} from '../importers/FolderImporter';
+import {FolderImportReportModal} from './FolderImportReportModal';
+
+export class FolderImportReportModals {
+
+    public static show(report: FolderImportReport) {
+
+        const target = Elements.createElementHTML(`<div class="folder-import-report"></div>`);
+
+        document.body.appendChild(target);
+
+        const onClose = () => {
+            ReactDOM.unmountComponentAtNode(target);
+            target.parentElement!.removeChild(target);
+        };
+
+        ReactDOM.render(
+            <FolderImportReportModal isOpen={true} report={report} onClose={onClose}/>,
+            target
+        );
+
+    }
+
+}
@@ -0,0 +1,113 @@
+import {DocMetadataResolver, ResolvedDocMetadata} from './DocMetadataResolver';
+import {DocIdentifier} from './DocIdentifiers';
+import {Optional} from '../../../util/ts/Optional';
+import fetch from '../../../util/Fetch';
+
+/**
+ * Resolves arXiv identifiers using the arXiv export API which returns an Atom
+ * feed with one entry per paper.
+ */
+export class ArxivDocMetadataResolver implements DocMetadataResolver {
+
+    public async resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>> {
+
+        if (docIdentifier.type !== 'arxiv') {
+            return Optional.empty();
+        }
+
+        const url = `https://export.arxiv.org/api/query?id_list=${encodeURIComponent(docIdentifier.value)}`;
+
+        const response = await fetch(url);
+
+        if (! response.ok) {
+            throw new Error(`Unable to fetch ${url}: ${response.status}: ${response.statusText}`);
+        }
+
+        return ArxivDocMetadataResolver.parse(await response.text());
+
+    }
+
+    /**
+     * Parse the first entry of the Atom feed.  The feed is simple and stable
+     * enough that we don't need a full XML parser here.
+     */
+    public static parse(xml: string): Optional<ResolvedDocMetadata> {
+
+        const entry = this.element(xml, 'entry');
+
+        if (! entry) {
+            return Optional.empty();
+        }
+
+        const title = this.text(entry, 'title');
+
+        if (! title) {
+            // arXiv returns an entry with just an id when the paper doesn't
+            // exist.
+            return Optional.empty();
+        }
+
+        const authors = this.elements(entry, 'author')
+            .map(current => this.text(current, 'name'))
+            .filter(current => current !== undefined)
+            .map(current => current!);
+
+        const id = this.text(entry, 'id');
+
+        return Optional.of({
+            title: this.normalize(title),
+            authors,
+            published: this.text(entry, 'published'),
+            description: Optional.of(this.text(entry, 'summary')).map(current => this.normalize(current)).getOrUndefined(),
+            url: id,
+            doi: this.text(entry, 'arxiv:doi')
+        });
+
+    }
+
+    /**
+     * Get the decoded text content of the first element with the given name.
+     */
+    private static text(xml: string, name: string): string | undefined {
+        return Optional.of(this.element(xml, name)).map(current => this.decode(current)).getOrUndefined();
+    }
+
+    private static element(xml: string, name: string): string | undefined {
+        return this.elements(xml, name)[0];
+    }
+
+    private static elements(xml: string, name: string): string[] {
+
+        const regexp = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g');
+
+        const result: string[] = [];
+
+        let match = regexp.exec(xml);
+
+        while (match !== null) {
+            result.push(match[1].trim());
+            match = regexp.exec(xml);
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Titles and summaries are wrapped at ~80 columns in the feed.
+     */
+    private static normalize(value: string) {
+        return value.replace(/\s+/g, ' ').trim();
+    }
+
+    private static decode(value: string) {
+
+        return value.replace(/&lt;/g, '<')
+                    .replace(/&gt;/g, '>')
+                    .replace(/&quot;/g, '"')
+                    .replace(/&apos;/g, "'")
+                    .replace(/&amp;/g, '&');
+
+    }
+
+}
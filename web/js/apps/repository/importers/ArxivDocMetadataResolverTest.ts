@@ -0,0 +1,42 @@
+import {assert} from 'chai';
+import {ArxivDocMetadataResolver} from './ArxivDocMetadataResolver';
+
+describe('ArxivDocMetadataResolver', function() {
+
+    it("parse", function() {
+
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="html">ArXiv Query: id_list=1802.03426</title>
+  <entry>
+    <id>http://arxiv.org/abs/1802.03426v2</id>
+    <published>2018-02-09T17:39:35Z</published>
+    <title>UMAP: Uniform Manifold Approximation and Projection for Dimension
+  Reduction</title>
+    <summary>  UMAP (Uniform Manifold Approximation and Projection) is a novel manifold
+learning technique &amp; more.
+</summary>
+    <author>
+      <name>Leland McInnes</name>
+    </author>
+    <author>
+      <name>John Healy</name>
+    </author>
+  </entry>
+</feed>`;
+
+        const resolved = ArxivDocMetadataResolver.parse(xml).get();
+
+        assert.equal(resolved.title, "UMAP: Uniform Manifold Approximation and Projection for Dimension Reduction");
+        assert.deepEqual(resolved.authors, ["Leland McInnes", "John Healy"]);
+        assert.equal(resolved.published, "2018-02-09T17:39:35Z");
+        assert.equal(resolved.description, "UMAP (Uniform Manifold Approximation and Projection) is a novel manifold learning technique & more.");
+        assert.equal(resolved.url, "http://arxiv.org/abs/1802.03426v2");
+
+    });
+
+    it("missing entry", function() {
+        assert.isFalse(ArxivDocMetadataResolver.parse("<feed></feed>").isPresent());
+    });
+
+});
@@ -0,0 +1,99 @@
+import {DocMetadataResolver, ResolvedDocMetadata} from './DocMetadataResolver';
+import {DocIdentifier} from './DocIdentifiers';
+import {Optional} from '../../../util/ts/Optional';
+import fetch from '../../../util/Fetch';
+import {Strings} from '../../../util/Strings';
+
+/**
+ * Resolves DOIs using the public Crossref REST API.
+ */
+export class CrossrefDocMetadataResolver implements DocMetadataResolver {
+
+    public async resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>> {
+
+        if (docIdentifier.type !== 'doi') {
+            return Optional.empty();
+        }
+
+        const url = `https://api.crossref.org/works/${encodeURIComponent(docIdentifier.value)}`;
+
+        const response = await fetch(url);
+
+        if (response.status === 404) {
+            return Optional.empty();
+        }
+
+        if (! response.ok) {
+            throw new Error(`Unable to fetch ${url}: ${response.status}: ${response.statusText}`);
+        }
+
+        const json = await response.json();
+
+        return Optional.of(CrossrefDocMetadataResolver.parse(json.message));
+
+    }
+
+    public static parse(message: CrossrefWork): ResolvedDocMetadata {
+
+        const toPublished = () => {
+
+            const issued = message.issued || message.created;
+
+            if (issued && issued['date-parts'] && issued['date-parts'][0]) {
+
+                return issued['date-parts'][0]
+                    .filter(current => current !== null)
+                    .map((current, idx) => idx === 0 ? `${current}` : Strings.lpad(current, '0', 2))
+                    .join("-");
+
+            }
+
+            return undefined;
+
+        };
+
+        const toDescription = () => {
+
+            if (message.abstract) {
+                // abstracts are returned as JATS XML
+                return message.abstract.replace(/<[^>]+>/g, '').trim();
+            }
+
+            return undefined;
+
+        };
+
+        return {
+            title: (message.title || [])[0],
+            authors: (message.author || [])
+                .map(current => [current.given, current.family].filter(name => name).join(" ")),
+            published: toPublished(),
+            description: toDescription(),
+            url: message.URL,
+            doi: message.DOI
+        };
+
+    }
+
+}
+
+/**
+ * The subset of the Crossref work record that we use.
+ */
+export interface CrossrefWork {
+
+    readonly DOI?: string;
+
+    readonly URL?: string;
+
+    readonly title?: string[];
+
+    readonly abstract?: string;
+
+    readonly author?: Array<{given?: string, family?: string}>;
+
+    readonly issued?: {'date-parts': number[][]};
+
+    readonly created?: {'date-parts': number[][]};
+
+}
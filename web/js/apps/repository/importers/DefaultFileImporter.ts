@@ -0,0 +1,50 @@
+import {PersistenceLayer} from '../../../datastore/PersistenceLayer';
+import {Optional} from '../../../util/ts/Optional';
+import {IProvider} from '../../../util/Providers';
+import {FileImportResult, ImportedFile, PDFImporter} from './PDFImporter';
+import {FileImporter} from './FileImporter';
+import {EPUBImporter} from './EPUBImporter';
+
+const IMPORTABLE_EXTENSIONS = ['pdf', 'epub'];
+
+/**
+ * Imports any of the file types we support by delegating to the importer for
+ * the file extension.
+ */
+export class DefaultFileImporter implements FileImporter {
+
+    private readonly pdfImporter: PDFImporter;
+
+    private readonly epubImporter: EPUBImporter;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>) {
+        this.pdfImporter = new PDFImporter(persistenceLayerProvider);
+        this.epubImporter = new EPUBImporter(persistenceLayerProvider);
+    }
+
+    public async importFile(filePath: string): Promise<Optional<ImportedFile>> {
+
+        const fileImportResult = await this.importFileWithStatus(filePath);
+
+        return Optional.of(fileImportResult.importedFile);
+
+    }
+
+    public async importFileWithStatus(filePath: string): Promise<FileImportResult> {
+
+        if (filePath.toLowerCase().endsWith(".epub")) {
+            return this.epubImporter.importFileWithStatus(filePath);
+        }
+
+        return this.pdfImporter.importFileWithStatus(filePath);
+
+    }
+
+    /**
+     * Return true if the file has an extension we can import.
+     */
+    public static isImportable(path: string) {
+        return IMPORTABLE_EXTENSIONS.filter(ext => path.toLowerCase().endsWith(`.${ext}`)).length > 0;
+    }
+
+}
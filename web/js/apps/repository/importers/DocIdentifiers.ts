@@ -0,0 +1,95 @@
+/**
+ * Detects standard document identifiers (DOIs and arXiv IDs) in text like the
+ * PDF metadata, the first page of the document, or the filename.
+ */
+export class DocIdentifiers {
+
+    /**
+     * Parse all the unique identifiers from the given text in the order they
+     * were found.
+     */
+    public static parse(text: string): DocIdentifier[] {
+
+        const result: DocIdentifier[] = [];
+
+        const add = (docIdentifier: DocIdentifier) => {
+
+            const exists = result.filter(current => current.type === docIdentifier.type &&
+                                                    current.value === docIdentifier.value).length > 0;
+
+            if (! exists) {
+                result.push(docIdentifier);
+            }
+
+        };
+
+        for (const match of this.matchAll(DOI_PATTERN, text)) {
+            add({type: 'doi', value: this.trimDOI(match[1]).toLowerCase()});
+        }
+
+        for (const match of this.matchAll(ARXIV_PATTERN, text)) {
+            add({type: 'arxiv', value: match[1]});
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Parse an arXiv identifier from a filename as downloaded from arxiv.org
+     * (for example 1802.03426.pdf or 1802.03426v2.pdf).
+     */
+    public static parseFilename(filename: string): DocIdentifier[] {
+
+        const match = filename.match(ARXIV_FILENAME_PATTERN);
+
+        if (match) {
+            return [{type: 'arxiv', value: match[1]}];
+        }
+
+        return [];
+
+    }
+
+    /**
+     * DOIs may include punctuation but when they're embedded in text the
+     * trailing punctuation is almost always part of the sentence.
+     */
+    private static trimDOI(value: string) {
+        return value.replace(/[.,;:)\]]+$/, '');
+    }
+
+    private static matchAll(pattern: RegExp, text: string): RegExpExecArray[] {
+
+        const result: RegExpExecArray[] = [];
+
+        const regexp = new RegExp(pattern.source, 'gi');
+
+        let match: RegExpExecArray | null = regexp.exec(text);
+
+        while (match !== null) {
+            result.push(match);
+            match = regexp.exec(text);
+        }
+
+        return result;
+
+    }
+
+}
+
+const DOI_PATTERN = /\b(10\.[0-9]{4,9}\/[-._;()\/:a-z0-9]+)/;
+
+const ARXIV_PATTERN = /\barxiv:\s*([0-9]{4}\.[0-9]{4,5}|[a-z\-]+(?:\.[a-z]{2})?\/[0-9]{7})(?:v[0-9]+)?/;
+
+const ARXIV_FILENAME_PATTERN = /^([0-9]{4}\.[0-9]{4,5})(?:v[0-9]+)?\.pdf$/i;
+
+export interface DocIdentifier {
+
+    readonly type: DocIdentifierType;
+
+    readonly value: string;
+
+}
+
+export type DocIdentifierType = 'doi' | 'arxiv';
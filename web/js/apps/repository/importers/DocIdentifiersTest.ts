@@ -0,0 +1,45 @@
+import {assert} from 'chai';
+import {DocIdentifiers} from './DocIdentifiers';
+import {assertJSON} from '../../../test/Assertions';
+
+describe('DocIdentifiers', function() {
+
+    it("doi", function() {
+
+        assertJSON(DocIdentifiers.parse("See https://doi.org/10.1145/3292500.3330701."),
+                   [{type: 'doi', value: '10.1145/3292500.3330701'}]);
+
+    });
+
+    it("arxiv", function() {
+
+        assertJSON(DocIdentifiers.parse("arXiv:1802.03426v2 [stat.ML] 18 Sep 2018"),
+                   [{type: 'arxiv', value: '1802.03426'}]);
+
+        assertJSON(DocIdentifiers.parse("arXiv:hep-th/9901001"),
+                   [{type: 'arxiv', value: 'hep-th/9901001'}]);
+
+    });
+
+    it("duplicates", function() {
+
+        assert.equal(DocIdentifiers.parse("doi:10.1000/182 and DOI: 10.1000/182").length, 1);
+
+    });
+
+    it("none", function() {
+
+        assert.equal(DocIdentifiers.parse("this is just text from 2018.").length, 0);
+
+    });
+
+    it("parseFilename", function() {
+
+        assertJSON(DocIdentifiers.parseFilename("1802.03426.pdf"),
+                   [{type: 'arxiv', value: '1802.03426'}]);
+
+        assert.equal(DocIdentifiers.parseFilename("paper.pdf").length, 0);
+
+    });
+
+});
@@ -0,0 +1,162 @@
+import {DocIdentifier, DocIdentifiers} from './DocIdentifiers';
+import {DocMetadataResolver, ResolvedDocMetadata, CompositeDocMetadataResolver} from './DocMetadataResolver';
+import {CrossrefDocMetadataResolver} from './CrossrefDocMetadataResolver';
+import {ArxivDocMetadataResolver} from './ArxivDocMetadataResolver';
+import {PDFMeta} from './PDFMetadata';
+import {DocInfo} from '../../../metadata/DocInfo';
+import {Author} from '../../../metadata/Author';
+import {Logger} from '../../../logger/Logger';
+import {Optional} from '../../../util/ts/Optional';
+
+const log = Logger.create();
+
+/**
+ * How long we wait for each lookup before giving up on it so that an import
+ * never hangs on a slow or unreachable service.
+ */
+const RESOLVE_TIMEOUT = 10000;
+
+/**
+ * The number of characters at the start of the first page we treat as its
+ * header (the title, authors and the journal's own DOI).  DOIs after that are
+ * usually citations of other papers.
+ */
+const HEADER_LENGTH = 1000;
+
+/**
+ * Improves the DocInfo of an imported document by detecting its DOI or arXiv
+ * ID and resolving the bibliographic metadata (title, authors, etc) for it.
+ */
+export class DocMetadataEnricher {
+
+    private readonly resolver: DocMetadataResolver;
+
+    private readonly timeout: number;
+
+    constructor(resolver: DocMetadataResolver = DocMetadataEnricher.createDefaultResolver(),
+                timeout: number = RESOLVE_TIMEOUT) {
+        this.resolver = resolver;
+        this.timeout = timeout;
+    }
+
+    /**
+     * Enrich the DocInfo in place. Returns true if metadata was found.  Lookups
+     * that fail or time out are logged and skipped so they never fail the
+     * import.
+     */
+    public async enrich(docInfo: DocInfo, pdfMeta: PDFMeta, filename: string): Promise<boolean> {
+
+        const docIdentifiers = DocMetadataEnricher.detect(pdfMeta, filename);
+
+        for (const docIdentifier of docIdentifiers) {
+
+            try {
+
+                const resolved = await this.resolve(docIdentifier);
+
+                if (resolved.isPresent()) {
+                    log.info(`Resolved metadata for ${docIdentifier.type} ${docIdentifier.value}`);
+                    DocMetadataEnricher.apply(docInfo, resolved.get());
+                    return true;
+                }
+
+            } catch (e) {
+                log.warn(`Unable to resolve ${docIdentifier.type} ${docIdentifier.value}: `, e);
+            }
+
+        }
+
+        return false;
+
+    }
+
+    /**
+     * Find the identifiers for the document, most reliable first.  We only
+     * trust identifiers from the metadata and the filename and the first DOI
+     * in the header of the first page since papers often cite the DOIs and
+     * arXiv IDs of other papers further down.
+     */
+    public static detect(pdfMeta: PDFMeta, filename: string): DocIdentifier[] {
+
+        const result: DocIdentifier[] = [];
+
+        const add = (docIdentifiers: DocIdentifier[]) => {
+
+            for (const docIdentifier of docIdentifiers) {
+
+                const exists = result.filter(current => current.type === docIdentifier.type &&
+                                                        current.value === docIdentifier.value).length > 0;
+
+                if (! exists) {
+                    result.push(docIdentifier);
+                }
+
+            }
+
+        };
+
+        add(DocIdentifiers.parse(Object.values(pdfMeta.props || {}).join(" ")));
+        add(DocIdentifiers.parse(pdfMeta.title || ""));
+        add(DocIdentifiers.parseFilename(filename));
+
+        const header = (pdfMeta.text || "").substring(0, HEADER_LENGTH);
+        add(DocIdentifiers.parse(header).filter(current => current.type === 'doi').slice(0, 1));
+
+        return result;
+
+    }
+
+    public static apply(docInfo: DocInfo, resolved: ResolvedDocMetadata) {
+
+        if (resolved.title) {
+            docInfo.title = resolved.title;
+        }
+
+        if (resolved.authors && resolved.authors.length > 0) {
+            docInfo.authors = resolved.authors.map(name => new Author({name}));
+        }
+
+        if (resolved.published) {
+            docInfo.published = resolved.published;
+        }
+
+        if (resolved.description) {
+            docInfo.description = resolved.description;
+        }
+
+        if (resolved.url && ! docInfo.url) {
+            docInfo.url = resolved.url;
+        }
+
+        if (resolved.doi) {
+            docInfo.doi = resolved.doi;
+        }
+
+    }
+
+    private resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>> {
+
+        return new Promise<Optional<ResolvedDocMetadata>>((resolve, reject) => {
+
+            const timeout = setTimeout(() => {
+                reject(new Error(`Timed out after ${this.timeout}ms`));
+            }, this.timeout);
+
+            this.resolver.resolve(docIdentifier).then(result => {
+                clearTimeout(timeout);
+                resolve(result);
+            }).catch(err => {
+                clearTimeout(timeout);
+                reject(err);
+            });
+
+        });
+
+    }
+
+    public static createDefaultResolver(): DocMetadataResolver {
+        return new CompositeDocMetadataResolver(new CrossrefDocMetadataResolver(),
+                                                new ArxivDocMetadataResolver());
+    }
+
+}
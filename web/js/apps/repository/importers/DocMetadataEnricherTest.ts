@@ -0,0 +1,109 @@
+import {assert} from 'chai';
+import {DocMetadataEnricher} from './DocMetadataEnricher';
+import {DocMetadataResolver, FixtureDocMetadataResolver, ResolvedDocMetadata} from './DocMetadataResolver';
+import {Optional} from '../../../util/ts/Optional';
+import {DocMetas} from '../../../metadata/DocMetas';
+
+describe('DocMetadataEnricher', function() {
+
+    const resolver = new FixtureDocMetadataResolver({
+        'arxiv:1802.03426': {
+            title: "UMAP: Uniform Manifold Approximation and Projection for Dimension Reduction",
+            authors: ["Leland McInnes", "John Healy", "James Melville"],
+            published: "2018-02-09T17:39:35Z",
+            description: "UMAP is a novel manifold learning technique.",
+            url: "http://arxiv.org/abs/1802.03426v2"
+        }
+    });
+
+    it("enrich from filename", async function() {
+
+        const docMeta = DocMetas.create('0x001', 10, '12345-1802.03426.pdf');
+        docMeta.docInfo.title = '1802.03426.pdf';
+
+        const enricher = new DocMetadataEnricher(resolver);
+
+        const enriched = await enricher.enrich(docMeta.docInfo, {fingerprint: '0x001', nrPages: 10, props: {}}, '1802.03426.pdf');
+
+        assert.ok(enriched);
+
+        const docInfo = docMeta.docInfo;
+
+        assert.equal(docInfo.title, "UMAP: Uniform Manifold Approximation and Projection for Dimension Reduction");
+        assert.deepEqual(docInfo.authors!.map(current => current.name), ["Leland McInnes", "John Healy", "James Melville"]);
+        assert.equal(docInfo.published, "2018-02-09T17:39:35Z");
+        assert.equal(docInfo.description, "UMAP is a novel manifold learning technique.");
+        assert.equal(docInfo.url, "http://arxiv.org/abs/1802.03426v2");
+
+    });
+
+    it("unknown identifier", async function() {
+
+        const docMeta = DocMetas.create('0x001', 10, '12345-paper.pdf');
+        docMeta.docInfo.title = 'paper.pdf';
+
+        const enricher = new DocMetadataEnricher(resolver);
+
+        const pdfMeta = {fingerprint: '0x001', nrPages: 10, props: {}, text: "doi:10.1000/182"};
+
+        assert.isFalse(await enricher.enrich(docMeta.docInfo, pdfMeta, 'paper.pdf'));
+        assert.equal(docMeta.docInfo.title, 'paper.pdf');
+
+    });
+
+    it("lookups that fail or time out are skipped", async function() {
+
+        const docMeta = DocMetas.create('0x001', 10, '12345-1802.03426.pdf');
+        docMeta.docInfo.title = '1802.03426.pdf';
+
+        const failing: DocMetadataResolver = {
+            resolve: async () => {
+                throw new Error("offline");
+            }
+        };
+
+        const hanging: DocMetadataResolver = {
+            resolve: () => new Promise<Optional<ResolvedDocMetadata>>(() => { /* never resolves */ })
+        };
+
+        const pdfMeta = {fingerprint: '0x001', nrPages: 10, props: {}};
+
+        assert.isFalse(await new DocMetadataEnricher(failing).enrich(docMeta.docInfo, pdfMeta, '1802.03426.pdf'));
+        assert.isFalse(await new DocMetadataEnricher(hanging, 10).enrich(docMeta.docInfo, pdfMeta, '1802.03426.pdf'));
+
+        assert.equal(docMeta.docInfo.title, '1802.03426.pdf');
+
+    });
+
+    it("detect only trusts the first DOI in the header of the text", function() {
+
+        const pdfMeta = {
+            fingerprint: '0x001',
+            nrPages: 10,
+            props: {},
+            text: "A Paper doi:10.1000/100 cites doi:10.1000/200 and arXiv:1802.03426 " + "x".repeat(2000) + " doi:10.1000/300"
+        };
+
+        assert.deepEqual(DocMetadataEnricher.detect(pdfMeta, 'paper.pdf').map(current => current.value),
+                         ['10.1000/100']);
+
+        assert.deepEqual(DocMetadataEnricher.detect({...pdfMeta, text: "x".repeat(2000) + " doi:10.1000/300"}, 'paper.pdf'),
+                         []);
+
+    });
+
+    it("detect prefers metadata over text", function() {
+
+        const pdfMeta = {
+            fingerprint: '0x001',
+            nrPages: 10,
+            props: {'prism:doi': '10.1000/100'},
+            text: "as shown in doi:10.1000/200"
+        };
+
+        assert.deepEqual(DocMetadataEnricher.detect(pdfMeta, 'paper.pdf').map(current => current.value),
+                         ['10.1000/100', '10.1000/200']);
+
+    });
+
+});
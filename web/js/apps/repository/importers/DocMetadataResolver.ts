@@ -0,0 +1,87 @@
+import {DocIdentifier} from './DocIdentifiers';
+import {Optional} from '../../../util/ts/Optional';
+import {ISODateString, ISODateTimeString} from '../../../metadata/ISODateTimeStrings';
+import {Logger} from '../../../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Resolves a document identifier (DOI, arXiv ID) to bibliographic metadata.
+ * Resolvers return an empty Optional when they don't support the identifier
+ * type or the identifier is unknown.
+ */
+export interface DocMetadataResolver {
+
+    resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>>;
+
+}
+
+export interface ResolvedDocMetadata {
+
+    readonly title?: string;
+
+    readonly authors?: ReadonlyArray<string>;
+
+    readonly published?: ISODateString | ISODateTimeString;
+
+    readonly description?: string;
+
+    readonly url?: string;
+
+    readonly doi?: string;
+
+}
+
+/**
+ * Tries each resolver in order and returns the first metadata found.  Errors
+ * from individual resolvers (like being offline) are logged and skipped.
+ */
+export class CompositeDocMetadataResolver implements DocMetadataResolver {
+
+    private readonly delegates: ReadonlyArray<DocMetadataResolver>;
+
+    constructor(...delegates: DocMetadataResolver[]) {
+        this.delegates = delegates;
+    }
+
+    public async resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>> {
+
+        for (const delegate of this.delegates) {
+
+            try {
+
+                const result = await delegate.resolve(docIdentifier);
+
+                if (result.isPresent()) {
+                    return result;
+                }
+
+            } catch (e) {
+                log.warn(`Unable to resolve ${docIdentifier.type} ${docIdentifier.value}: `, e);
+            }
+
+        }
+
+        return Optional.empty();
+
+    }
+
+}
+
+/**
+ * Resolves metadata from a fixed set of records keyed by '<type>:<value>'.
+ * Used for tests and for working without network access.
+ */
+export class FixtureDocMetadataResolver implements DocMetadataResolver {
+
+    private readonly fixtures: {[key: string]: ResolvedDocMetadata};
+
+    constructor(fixtures: {[key: string]: ResolvedDocMetadata}) {
+        this.fixtures = fixtures;
+    }
+
+    public async resolve(docIdentifier: DocIdentifier): Promise<Optional<ResolvedDocMetadata>> {
+        return Optional.of(this.fixtures[`${docIdentifier.type}:${docIdentifier.value}`]);
+    }
+
+}
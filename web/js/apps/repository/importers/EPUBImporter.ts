@@ -0,0 +1,113 @@
+import {PersistenceLayer} from '../../../datastore/PersistenceLayer';
+import {FilePaths} from '../../../util/FilePaths';
+import {DocMetas} from '../../../metadata/DocMetas';
+import {Logger} from '../../../logger/Logger';
+import {Optional} from '../../../util/ts/Optional';
+import {FileHandle, Files} from '../../../util/Files';
+import {Backend} from '../../../datastore/Backend';
+import {Directories} from '../../../datastore/Directories';
+import {DatastoreFiles} from '../../../datastore/DatastoreFiles';
+import {HashAlgorithm, HashEncoding} from '../../../metadata/Hashcode';
+import {IProvider} from '../../../util/Providers';
+import {FileImportResult, ImportedFile, PDFImporter} from './PDFImporter';
+import {FileImporter} from './FileImporter';
+import {EPUBReader} from '../../../epub/EPUBReader';
+import {Author} from '../../../metadata/Author';
+
+const log = Logger.create();
+
+/**
+ * Imports EPUB files.  Every chapter in the spine becomes one page in the
+ * DocMeta and the fingerprint is computed from the package identifier so it's
+ * stable across copies of the same book.
+ */
+export class EPUBImporter implements FileImporter {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>) {
+        this.persistenceLayerProvider = persistenceLayerProvider;
+    }
+
+    public async importFile(filePath: string): Promise<Optional<ImportedFile>> {
+
+        const fileImportResult = await this.importFileWithStatus(filePath);
+
+        return Optional.of(fileImportResult.importedFile);
+
+    }
+
+    public async importFileWithStatus(filePath: string): Promise<FileImportResult> {
+
+        const directories = new Directories();
+
+        if (await PDFImporter.isWithinStashdir(directories.stashDir, filePath)) {
+            log.warn("Skipping import of file that's already in the stashdir.");
+            return {status: 'already-stashed'};
+        }
+
+        const epubReader = new EPUBReader();
+        await epubReader.init(await Files.readFileAsync(filePath));
+
+        const epubPackage = epubReader.getPackage();
+
+        if (epubPackage.chapters.length === 0) {
+            throw new Error("EPUB has no chapters: " + filePath);
+        }
+
+        const fingerprint = epubPackage.fingerprint;
+
+        const persistenceLayer = this.persistenceLayerProvider.get();
+
+        if (await persistenceLayer.contains(fingerprint)) {
+            log.warn(`This file is already present in the datastore with fingerprint ${fingerprint}: ${filePath}`);
+            return {status: 'duplicate', fingerprint};
+        }
+
+        const basename = FilePaths.basename(filePath);
+
+        const fileHashMeta = await PDFImporter.computeHashPrefix(filePath);
+
+        const filename = `${fileHashMeta.hashPrefix}-` + DatastoreFiles.sanitizeFileName(basename);
+
+        const stashFilePath = FilePaths.join(directories.stashDir, filename);
+
+        const inputFileRef: FileHandle = {path: filePath};
+
+        const docMeta = DocMetas.create(fingerprint, epubPackage.chapters.length, filename);
+
+        docMeta.docInfo.title = Optional.of(epubPackage.title).getOrElse(basename);
+        docMeta.docInfo.description = epubPackage.description;
+        docMeta.docInfo.published = epubPackage.published;
+
+        if (epubPackage.creators.length > 0) {
+            docMeta.docInfo.authors = epubPackage.creators.map(name => new Author({name}));
+        }
+
+        docMeta.docInfo.hashcode = {
+            enc: HashEncoding.BASE58CHECK,
+            alg: HashAlgorithm.KECCAK256,
+            data: fileHashMeta.hashcode
+        };
+
+        const fileRef = {
+            name: filename,
+            hashcode: docMeta.docInfo.hashcode
+        };
+
+        await persistenceLayer.writeFile(Backend.STASH, fileRef, inputFileRef);
+
+        await persistenceLayer.write(fingerprint, docMeta);
+
+        return {
+            status: 'imported',
+            fingerprint,
+            importedFile: {
+                stashFilePath,
+                docInfo: docMeta.docInfo
+            }
+        };
+
+    }
+
+}
@@ -0,0 +1,10 @@
+import {FileImportResult} from './PDFImporter';
+
+/**
+ * Imports a file of one specific type (PDF, EPUB, etc) into the datastore.
+ */
+export interface FileImporter {
+
+    importFileWithStatus(filePath: string): Promise<FileImportResult>;
+
+}
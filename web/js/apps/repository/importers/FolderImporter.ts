@@ -0,0 +1,119 @@
+import {ImportedFile} from './PDFImporter';
+import {FileImporter} from './FileImporter';
+import {DefaultFileImporter} from './DefaultFileImporter';
+import {Files} from '../../../util/Files';
+import {Logger} from '../../../logger/Logger';
+import {ProgressListener, ProgressTracker} from '../../../util/ProgressTracker';
+import {NULL_FUNCTION} from '../../../util/Functions';
+
+const log = Logger.create();
+
+/**
+ * Recursively imports all the PDFs and EPUBs in a folder and keeps track of
+ * what happened to each file so we can give the user a report when we're done.
+ */
+export class FolderImporter {
+
+    private readonly fileImporter: FileImporter;
+
+    constructor(fileImporter: FileImporter) {
+        this.fileImporter = fileImporter;
+    }
+
+    public async importFolder(path: string,
+                              progressListener: ProgressListener = NULL_FUNCTION,
+                              importedFileListener: (importedFile: ImportedFile) => void = NULL_FUNCTION): Promise<FolderImportReport> {
+
+        const report: FolderImportReport = {
+            imported: [],
+            duplicates: [],
+            failed: [],
+            skipped: []
+        };
+
+        const files: string[] = [];
+
+        // find all the files first so that we can compute progress.
+        await Files.recursively(path, async (file) => {
+
+            if (DefaultFileImporter.isImportable(file)) {
+                files.push(file);
+            } else {
+                report.skipped.push(file);
+            }
+
+        });
+
+        const progressTracker = new ProgressTracker(files.length, 'folder-import');
+
+        progressListener(progressTracker.peek());
+
+        for (const file of files) {
+
+            try {
+
+                const fileImportResult = await this.fileImporter.importFileWithStatus(file);
+
+                switch (fileImportResult.status) {
+
+                    case 'imported':
+                        report.imported.push({path: file, fingerprint: fileImportResult.fingerprint});
+                        importedFileListener(fileImportResult.importedFile!);
+                        break;
+
+                    case 'duplicate':
+                    case 'already-stashed':
+                        report.duplicates.push({path: file, fingerprint: fileImportResult.fingerprint});
+                        break;
+
+                }
+
+            } catch (e) {
+                log.error("Failed to import file: " + file, e);
+                report.failed.push({path: file, reason: e.message || `${e}`});
+            } finally {
+                progressListener(progressTracker.incr());
+            }
+
+        }
+
+        return report;
+
+    }
+
+}
+
+export interface FolderImportReport {
+
+    readonly imported: FolderImportEntry[];
+
+    /**
+     * Files that were not imported because a document with the same
+     * fingerprint is already in the repository.
+     */
+    readonly duplicates: FolderImportEntry[];
+
+    readonly failed: FailedFolderImportEntry[];
+
+    /**
+     * Files which we don't know how to import.
+     */
+    readonly skipped: string[];
+
+}
+
+export interface FolderImportEntry {
+
+    readonly path: string;
+
+    readonly fingerprint?: string;
+
+}
+
+export interface FailedFolderImportEntry {
+
+    readonly path: string;
+
+    readonly reason: string;
+
+}
@@ -0,0 +1,58 @@
+import {assert} from 'chai';
+import os from 'os';
+import {FolderImporter} from './FolderImporter';
+import {FileImportResult, PDFImporter} from './PDFImporter';
+import {FilePaths} from '../../../util/FilePaths';
+import {Files} from '../../../util/Files';
+
+const tmpdir = os.tmpdir();
+
+describe('FolderImporter', function() {
+
+    it("basic", async function() {
+
+        const dir = FilePaths.join(tmpdir, 'folder-importer.test');
+
+        await Files.removeDirectoryRecursivelyAsync(dir);
+        await Files.createDirAsync(dir);
+        await Files.createDirAsync(FilePaths.join(dir, 'nested'));
+
+        await Files.writeFileAsync(FilePaths.join(dir, 'new.pdf'), 'new');
+        await Files.writeFileAsync(FilePaths.join(dir, 'nested', 'duplicate.pdf'), 'duplicate');
+        await Files.writeFileAsync(FilePaths.join(dir, 'nested', 'broken.PDF'), 'broken');
+        await Files.writeFileAsync(FilePaths.join(dir, 'notes.txt'), 'notes');
+
+        const pdfImporter = <PDFImporter> <any> {
+
+            async importFileWithStatus(path: string): Promise<FileImportResult> {
+
+                if (path.endsWith('new.pdf')) {
+                    return {status: 'imported', fingerprint: '0x001', importedFile: <any> {docInfo: {}}};
+                }
+
+                if (path.endsWith('duplicate.pdf')) {
+                    return {status: 'duplicate', fingerprint: '0x002'};
+                }
+
+                throw new Error("Invalid PDF structure");
+
+            }
+
+        };
+
+        const progress: number[] = [];
+
+        const folderImporter = new FolderImporter(pdfImporter);
+
+        const report = await folderImporter.importFolder(dir, current => progress.push(current.progress));
+
+        assert.deepEqual(report.imported, [{path: FilePaths.join(dir, 'new.pdf'), fingerprint: '0x001'}]);
+        assert.deepEqual(report.duplicates, [{path: FilePaths.join(dir, 'nested', 'duplicate.pdf'), fingerprint: '0x002'}]);
+        assert.deepEqual(report.failed, [{path: FilePaths.join(dir, 'nested', 'broken.PDF'), reason: "Invalid PDF structure"}]);
+        assert.deepEqual(report.skipped, [FilePaths.join(dir, 'notes.txt')]);
+
+        assert.equal(progress[progress.length - 1], 100);
+
+    });
+
+});
@@ -13,6 +13,9 @@ import {DatastoreFiles} from '../../../datastore/DatastoreFiles';
 import {DocInfo} from '../../../metadata/DocInfo';
 import {HashAlgorithm, HashEncoding} from '../../../metadata/Hashcode';
 import {IProvider} from '../../../util/Providers';
+import {DocMetadataEnricher} from './DocMetadataEnricher';
+import {FileImporter} from './FileImporter';
+import {SettingsStore} from '../../../datastore/SettingsStore';
 
 const log = Logger.create();
 
@@ -20,16 +23,32 @@ const log = Logger.create();
  * Handles taking a given file, parsing the metadata, and then writing a new
  * DocMeta file and importing the PDF file to the stash.
  */
-export class PDFImporter {
+export class PDFImporter implements FileImporter {
 
     private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
 
-    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>) {
+    private readonly docMetadataEnricher: DocMetadataEnricher;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
+                docMetadataEnricher: DocMetadataEnricher = new DocMetadataEnricher()) {
         this.persistenceLayerProvider = persistenceLayerProvider;
+        this.docMetadataEnricher = docMetadataEnricher;
     }
 
     public async importFile(filePath: string): Promise<Optional<ImportedFile>> {
 
+        const fileImportResult = await this.importFileWithStatus(filePath);
+
+        return Optional.of(fileImportResult.importedFile);
+
+    }
+
+    /**
+     * Import the file but also return why the file was skipped when we did not
+     * import it.
+     */
+    public async importFileWithStatus(filePath: string): Promise<FileImportResult> {
+
         const directories = new Directories();
 
         if (await PDFImporter.isWithinStashdir(directories.stashDir, filePath)) {
@@ -38,7 +57,7 @@ export class PDFImporter {
             // in the stash dir.
 
             log.warn("Skipping import of file that's already in the stashdir.");
-            return Optional.empty();
+            return {status: 'already-stashed'};
 
         }
 
@@ -48,7 +67,7 @@ export class PDFImporter {
 
         if (await persistenceLayer.contains(pdfMeta.fingerprint)) {
             log.warn(`This file is already present in the datastore with fingerprint ${pdfMeta.fingerprint}: ${filePath}`);
-            return Optional.empty();
+            return {status: 'duplicate', fingerprint: pdfMeta.fingerprint};
         }
 
         // create a default title from the path which is used as sometimes the
@@ -83,6 +102,12 @@ export class PDFImporter {
 
         docMeta.docInfo.description = pdfMeta.description;
 
+        // replace the title, etc with the real bibliographic metadata when we
+        // can find a DOI or arXiv ID for the document.
+        if ((await SettingsStore.load()).enrichImportedMetadata !== false) {
+            await this.docMetadataEnricher.enrich(docMeta.docInfo, pdfMeta, basename);
+        }
+
         docMeta.docInfo.hashcode = {
             enc: HashEncoding.BASE58CHECK,
             alg: HashAlgorithm.KECCAK256,
@@ -98,14 +123,18 @@ export class PDFImporter {
 
         await persistenceLayer.write(pdfMeta.fingerprint, docMeta);
 
-        return Optional.of({
-            stashFilePath,
-            docInfo: docMeta.docInfo
-        });
+        return {
+            status: 'imported',
+            fingerprint: pdfMeta.fingerprint,
+            importedFile: {
+                stashFilePath,
+                docInfo: docMeta.docInfo
+            }
+        };
 
     }
 
-    private static async computeHashPrefix(path: string): Promise<FileHashMeta> {
+    public static async computeHashPrefix(path: string): Promise<FileHashMeta> {
 
         const hashcode = await Hashcodes.createFromStream(Files.createReadStream(path));
         const hashPrefix = hashcode.substring(0, 10);
@@ -114,7 +143,7 @@ export class PDFImporter {
 
     }
 
-    private static async isWithinStashdir(stashDir: string, path: string): Promise<boolean> {
+    public static async isWithinStashdir(stashDir: string, path: string): Promise<boolean> {
 
         const currentDirname = await Files.realpathAsync(FilePaths.dirname(path));
 
@@ -140,7 +169,29 @@ export interface ImportedFile {
 
 }
 
-interface FileHashMeta {
+/**
+ * imported: The file was imported into the datastore.
+ *
+ * duplicate: A document with the same fingerprint is already in the datastore.
+ *
+ * already-stashed: The file is already in the stash directory.
+ */
+export type FileImportStatus = 'imported' | 'duplicate' | 'already-stashed';
+
+export interface FileImportResult {
+
+    readonly status: FileImportStatus;
+
+    readonly fingerprint?: string;
+
+    /**
+     * Only present when the file was imported.
+     */
+    readonly importedFile?: ImportedFile;
+
+}
+
+export interface FileHashMeta {
     hashPrefix: string;
     hashcode: string;
 }
@@ -2,8 +2,9 @@ import {Files} from '../../../util/Files';
 import url from "url";
 import {FilePaths} from '../../../util/FilePaths';
 import {Optional} from '../../../util/ts/Optional';
-import {PDFJSStatic} from 'pdfjs-dist';
+import {PDFDocumentProxy, PDFJSStatic} from 'pdfjs-dist';
 import * as PDFJSDIST from 'pdfjs-dist';
+import {Promises} from '../../../util/Promises';
 
 const pdfjs: PDFJSStatic = <any> PDFJSDIST;
 
@@ -24,9 +25,9 @@ export class PDFMetadata {
             pathname: filePath,
         });
 
-        const doc = await pdfjs.getDocument(fileURL);
+        const doc = await Promises.toPromise(pdfjs.getDocument(fileURL));
 
-        const metaHolder = await doc.getMetadata();
+        const metaHolder = await Promises.toPromise(doc.getMetadata());
 
         const filename = FilePaths.basename(filePath);
         let title: string | undefined;
@@ -59,16 +60,38 @@ export class PDFMetadata {
 
         }
 
+        const text = await this.getFirstPageText(doc);
+
         return {
             fingerprint: doc.fingerprint,
             nrPages: doc.numPages,
             title,
             description,
-            props
+            props,
+            text
         };
 
     }
 
+    /**
+     * Get the text on the first page of the document.  This is where papers
+     * usually print their DOI or arXiv identifier.
+     */
+    private static async getFirstPageText(doc: PDFDocumentProxy): Promise<string | undefined> {
+
+        if (doc.numPages === 0) {
+            return undefined;
+        }
+
+        const page = await Promises.toPromise(doc.getPage(1));
+        const textContent = await Promises.toPromise(page.getTextContent());
+
+        return textContent.items
+            .map(current => current.str)
+            .join(" ");
+
+    }
+
 }
 
 
@@ -97,6 +120,11 @@ export interface PDFMeta {
      */
     readonly props: Readonly<Props>;
 
+    /**
+     * The text of the first page of the document.
+     */
+    readonly text?: string;
+
 }
 
 export interface Props {
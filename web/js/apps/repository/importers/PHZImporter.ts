@@ -0,0 +1,110 @@
+import {PersistenceLayer} from '../../../datastore/PersistenceLayer';
+import {FilePaths} from '../../../util/FilePaths';
+import {DocMetas} from '../../../metadata/DocMetas';
+import {Logger} from '../../../logger/Logger';
+import {Optional} from '../../../util/ts/Optional';
+import {FileHandle} from '../../../util/Files';
+import {Backend} from '../../../datastore/Backend';
+import {Directories} from '../../../datastore/Directories';
+import {IProvider} from '../../../util/Providers';
+import {FileImportResult, ImportedFile} from './PDFImporter';
+import {FileImporter} from './FileImporter';
+import {PHZReader} from '../../../phz/PHZReader';
+import {Fingerprints} from '../../../util/Fingerprints';
+import {Author} from '../../../metadata/Author';
+import {Tag} from '../../../tags/Tag';
+import {Tags} from '../../../tags/Tags';
+import {Captured} from '../../../capture/renderer/Captured';
+
+const log = Logger.create();
+
+/**
+ * Imports captured web pages (PHZ files).
+ *
+ * Unlike PDFs, captured pages are written directly into the stash so a file
+ * that's already there is imported as is.  The fingerprint is computed from
+ * the filename to match the PHZLoader.
+ */
+export class PHZImporter implements FileImporter {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>) {
+        this.persistenceLayerProvider = persistenceLayerProvider;
+    }
+
+    public async importFile(filePath: string, tags: ReadonlyArray<Tag> = []): Promise<Optional<ImportedFile>> {
+
+        const fileImportResult = await this.importFileWithStatus(filePath, tags);
+
+        return Optional.of(fileImportResult.importedFile);
+
+    }
+
+    /**
+     * @param tags The tags to add to the imported doc.
+     */
+    public async importFileWithStatus(filePath: string, tags: ReadonlyArray<Tag> = []): Promise<FileImportResult> {
+
+        const directories = new Directories();
+
+        const filename = FilePaths.basename(filePath);
+
+        const fingerprint = Fingerprints.create(filename);
+
+        const persistenceLayer = this.persistenceLayerProvider.get();
+
+        if (await persistenceLayer.contains(fingerprint)) {
+            log.warn(`This file is already present in the datastore with fingerprint ${fingerprint}: ${filePath}`);
+            return {status: 'duplicate', fingerprint};
+        }
+
+        const phzReader = new PHZReader(filePath);
+        await phzReader.init();
+
+        const metadata: Partial<Captured> = Optional.of(await phzReader.getMetadata()).getOrElse({});
+
+        await phzReader.close();
+
+        const docMeta = DocMetas.create(fingerprint, 1, filename);
+
+        docMeta.docInfo.title = Optional.of(metadata.title).getOrElse(filename);
+        docMeta.docInfo.url = metadata.url;
+
+        if (metadata.article) {
+
+            // only present when captured in reader mode.
+            docMeta.docInfo.description = metadata.article.description;
+            docMeta.docInfo.published = metadata.article.published;
+
+            if (metadata.article.author) {
+                docMeta.docInfo.authors = [new Author({name: metadata.article.author})];
+            }
+
+        }
+
+        if (tags.length > 0) {
+            docMeta.docInfo.tags = Tags.toMap([...tags]);
+        }
+
+        const fileRef = {name: filename};
+
+        if (! await persistenceLayer.containsFile(Backend.STASH, fileRef)) {
+            const inputFileRef: FileHandle = {path: filePath};
+            await persistenceLayer.writeFile(Backend.STASH, fileRef, inputFileRef);
+        }
+
+        await persistenceLayer.write(fingerprint, docMeta);
+
+        return {
+            status: 'imported',
+            fingerprint,
+            importedFile: {
+                stashFilePath: FilePaths.join(directories.stashDir, filename),
+                docInfo: docMeta.docInfo
+            }
+        };
+
+    }
+
+}
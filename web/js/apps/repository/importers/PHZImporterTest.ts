@@ -0,0 +1,71 @@
+import {assert} from 'chai';
+import os from 'os';
+import {PHZImporter} from './PHZImporter';
+import {DiskDatastore} from '../../../datastore/DiskDatastore';
+import {DefaultPersistenceLayer} from '../../../datastore/DefaultPersistenceLayer';
+import {GlobalDataDir} from '../../../datastore/Directories';
+import {CapturedPHZWriter} from '../../../capture/CapturedPHZWriter';
+import {MockCapturedContent} from '../../../capture/MockCapturedContent';
+import {FilePaths} from '../../../util/FilePaths';
+import {Files} from '../../../util/Files';
+import {Fingerprints} from '../../../util/Fingerprints';
+
+const tmpdir = os.tmpdir();
+
+describe('PHZImporter', function() {
+
+    const dataDir = FilePaths.join(tmpdir, 'phz-importer-test');
+
+    let persistenceLayer: DefaultPersistenceLayer;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dataDir);
+
+        GlobalDataDir.set(dataDir);
+
+        persistenceLayer = new DefaultPersistenceLayer(new DiskDatastore());
+        await persistenceLayer.init();
+
+    });
+
+    afterEach(async function() {
+        await persistenceLayer.stop();
+        GlobalDataDir.set(undefined);
+    });
+
+    it("import a captured page with tags", async function() {
+
+        const path = FilePaths.join(dataDir, 'stash', 'captured.phz');
+
+        const captured = {
+            ...MockCapturedContent.create(),
+            article: {title: 'The headline', author: 'Alice Smith', published: '2018-11-02T10:00:00.000Z'}
+        };
+
+        await new CapturedPHZWriter(path).convert(captured);
+
+        const phzImporter = new PHZImporter({get: () => persistenceLayer});
+
+        const tags = [{id: 'news', label: 'news'}];
+
+        const result = await phzImporter.importFileWithStatus(path, tags);
+
+        assert.equal(result.status, 'imported');
+        assert.equal(result.fingerprint, Fingerprints.create('captured.phz'));
+
+        const docMeta = await persistenceLayer.getDocMeta(result.fingerprint!);
+
+        assert.equal(docMeta!.docInfo.title, captured.title);
+        assert.equal(docMeta!.docInfo.url, captured.url);
+        assert.equal(docMeta!.docInfo.filename, 'captured.phz');
+        assert.equal(docMeta!.docInfo.published, '2018-11-02T10:00:00.000Z');
+        assert.deepEqual(docMeta!.docInfo.tags, {news: {id: 'news', label: 'news'}});
+
+        const duplicate = await phzImporter.importFileWithStatus(path, tags);
+
+        assert.equal(duplicate.status, 'duplicate');
+
+    });
+
+});
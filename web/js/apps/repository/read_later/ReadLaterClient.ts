@@ -0,0 +1,28 @@
+import {Broadcasters} from '../../../ipc/Broadcasters';
+
+/**
+ * Send URLs to the ReadLaterController in the repository app to add them as
+ * link-only docs.
+ *
+ * @ElectronMainContext
+ */
+export class ReadLaterClient {
+
+    public static send(readLaterRequest: ReadLaterRequest) {
+
+        Broadcasters.send('read-later-add', readLaterRequest);
+
+    }
+
+}
+
+export interface ReadLaterRequest {
+
+    readonly urls: ReadonlyArray<string>;
+
+    /**
+     * The labels of the tags to add to every doc.
+     */
+    readonly tags?: ReadonlyArray<string>;
+
+}
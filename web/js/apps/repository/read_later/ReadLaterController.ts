@@ -0,0 +1,129 @@
+import {ipcRenderer} from 'electron';
+import {PersistenceLayer} from '../../../datastore/PersistenceLayer';
+import {IProvider} from '../../../util/Providers';
+import {Logger} from '../../../logger/Logger';
+import {Toaster} from '../../../ui/toaster/Toaster';
+import {Tags} from '../../../tags/Tags';
+import {ReadLaterQueue} from './ReadLaterQueue';
+import {ReadLaterDocs} from './ReadLaterDocs';
+import {ReadLaterRequest} from './ReadLaterClient';
+import {RepoDocMetaManager} from '../../../../../apps/repository/js/RepoDocMetaManager';
+
+const log = Logger.create();
+
+/**
+ * How often queued docs are captured in the background.
+ */
+const CAPTURE_INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Wait a bit after startup before the first background capture so we don't
+ * slow down loading the repository.
+ */
+const INITIAL_CAPTURE_DELAY = 60 * 1000;
+
+/**
+ * Handles requests to add URLs to read later (sent by the webserver) and
+ * captures the queued docs in the background.
+ *
+ * @ElectronRendererContext
+ */
+export class ReadLaterController {
+
+    private readonly readLaterQueue: ReadLaterQueue;
+
+    private readonly repoDocMetaManager: RepoDocMetaManager;
+
+    /**
+     * Docs which failed to capture.  They're not retried in the background
+     * until the app is restarted but can still be captured by opening them.
+     */
+    private readonly failed = new Set<string>();
+
+    private running: boolean = false;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
+                repoDocMetaManager: RepoDocMetaManager) {
+
+        this.readLaterQueue = new ReadLaterQueue(persistenceLayerProvider, repoDocMetaManager);
+        this.repoDocMetaManager = repoDocMetaManager;
+
+    }
+
+    public start(): void {
+
+        log.info("Read later controller started");
+
+        ipcRenderer.on('read-later-add', (event: any, readLaterRequest: ReadLaterRequest) => {
+
+            this.onReadLaterRequest(readLaterRequest)
+                .catch(err => log.error("Unable to add URLs to read later: ", err));
+
+        });
+
+        setTimeout(() => this.captureQueued(), INITIAL_CAPTURE_DELAY);
+        setInterval(() => this.captureQueued(), CAPTURE_INTERVAL);
+
+    }
+
+    private async onReadLaterRequest(readLaterRequest: ReadLaterRequest) {
+
+        const tags = (readLaterRequest.tags || [])
+            .filter(label => Tags.validate(label).isPresent())
+            .map(label => {
+                return {id: label, label};
+            });
+
+        const added = await this.readLaterQueue.add(readLaterRequest.urls, tags);
+
+        if (added.length > 0) {
+            Toaster.success(`Added ${added.length} documents to read later.`);
+        }
+
+    }
+
+    private captureQueued() {
+
+        if (this.running) {
+            // still capturing from the last run.
+            return;
+        }
+
+        this.running = true;
+
+        this.doCaptureQueued()
+            .catch(err => log.error("Unable to capture read later docs: ", err))
+            .then(() => this.running = false)
+            .catch(err => log.error(err));
+
+    }
+
+    private async doCaptureQueued() {
+
+        const docInfos = Object.values(this.repoDocMetaManager.repoDocInfoIndex)
+            .map(current => current.docInfo)
+            .filter(docInfo => ReadLaterDocs.isLink(docInfo))
+            .filter(docInfo => ! this.failed.has(docInfo.fingerprint))
+            .filter(docInfo => ! this.readLaterQueue.isCapturing(docInfo));
+
+        if (docInfos.length === 0) {
+            return;
+        }
+
+        log.info(`Capturing ${docInfos.length} read later docs in the background`);
+
+        // one at a time to keep the load down.
+        for (const docInfo of docInfos) {
+
+            try {
+                await this.readLaterQueue.capture(docInfo);
+            } catch (e) {
+                log.error("Unable to capture read later doc: " + docInfo.url, e);
+                this.failed.add(docInfo.fingerprint);
+            }
+
+        }
+
+    }
+
+}
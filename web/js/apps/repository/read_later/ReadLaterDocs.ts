@@ -0,0 +1,61 @@
+import {DocMeta} from '../../../metadata/DocMeta';
+import {DocMetas} from '../../../metadata/DocMetas';
+import {IDocInfo} from '../../../metadata/DocInfo';
+import {Fingerprints} from '../../../util/Fingerprints';
+import {URLs} from '../../../util/URLs';
+import {Tag} from '../../../tags/Tag';
+import {Tags} from '../../../tags/Tags';
+
+/**
+ * Read later docs are link-only documents: just the URL of a page which is
+ * captured later, either when it's opened or in the background.
+ */
+export class ReadLaterDocs {
+
+    /**
+     * The fingerprint of the link doc for the URL.  Adding the same URL twice
+     * results in the same doc.
+     */
+    public static toFingerprint(url: string) {
+        return Fingerprints.create('read-later:' + url);
+    }
+
+    public static create(url: string, tags: ReadonlyArray<Tag> = []): DocMeta {
+
+        if (! this.isValidURL(url)) {
+            throw new Error("Only http and https URLs can be read later: " + url);
+        }
+
+        const docMeta = DocMetas.create(this.toFingerprint(url), 0);
+
+        docMeta.docInfo.title = url;
+        docMeta.docInfo.url = url;
+        docMeta.docInfo.storedResources = ['link'];
+        docMeta.docInfo.shareStrategy = 'saved';
+
+        if (tags.length > 0) {
+            docMeta.docInfo.tags = Tags.toMap([...tags]);
+        }
+
+        return docMeta;
+
+    }
+
+    /**
+     * True when the doc is only a link that hasn't been captured yet.
+     */
+    public static isLink(docInfo: IDocInfo) {
+
+        // storedResources was declared as a Set in older versions so make sure
+        // it's really an array.
+        return Array.isArray(docInfo.storedResources) &&
+               docInfo.storedResources.includes('link') &&
+               docInfo.url !== undefined;
+
+    }
+
+    public static isValidURL(url: string) {
+        return URLs.isWebScheme(url);
+    }
+
+}
@@ -0,0 +1,64 @@
+import {assert} from 'chai';
+import {ReadLaterDocs} from './ReadLaterDocs';
+import {DocMetas} from '../../../metadata/DocMetas';
+import {TestingTime} from '../../../test/TestingTime';
+
+TestingTime.freeze();
+
+describe('ReadLaterDocs', function() {
+
+    it("create", function() {
+
+        const docMeta = ReadLaterDocs.create('https://example.com/article', [{id: 'news', label: 'news'}]);
+
+        const docInfo = docMeta.docInfo;
+
+        assert.equal(docInfo.fingerprint, ReadLaterDocs.toFingerprint('https://example.com/article'));
+        assert.equal(docInfo.url, 'https://example.com/article');
+        assert.equal(docInfo.title, 'https://example.com/article');
+        assert.equal(docInfo.nrPages, 0);
+        assert.isUndefined(docInfo.filename);
+        assert.deepEqual(docInfo.storedResources, ['link']);
+        assert.deepEqual(Object.keys(docInfo.tags!), ['news']);
+
+        assert.ok(ReadLaterDocs.isLink(docInfo));
+
+    });
+
+    it("the link survives serialization", function() {
+
+        const docMeta = ReadLaterDocs.create('https://example.com/article');
+
+        const deserialized = DocMetas.deserialize(DocMetas.serialize(docMeta), docMeta.docInfo.fingerprint);
+
+        assert.ok(ReadLaterDocs.isLink(deserialized.docInfo));
+
+    });
+
+    it("the same URL has the same fingerprint", function() {
+
+        assert.equal(ReadLaterDocs.toFingerprint('https://example.com/'),
+                     ReadLaterDocs.toFingerprint('https://example.com/'));
+
+        assert.notEqual(ReadLaterDocs.toFingerprint('https://example.com/'),
+                        ReadLaterDocs.toFingerprint('https://example.com/other'));
+
+    });
+
+    it("isLink", function() {
+
+        assert.isFalse(ReadLaterDocs.isLink(DocMetas.create('0x001', 1, 'example.pdf').docInfo));
+
+    });
+
+    it("only web URLs", function() {
+
+        assert.ok(ReadLaterDocs.isValidURL('http://example.com'));
+        assert.isFalse(ReadLaterDocs.isValidURL('file:///etc/passwd'));
+        assert.isFalse(ReadLaterDocs.isValidURL('example.com'));
+
+        assert.throws(() => ReadLaterDocs.create('file:///etc/passwd'));
+
+    });
+
+});
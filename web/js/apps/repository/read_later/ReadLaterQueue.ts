@@ -0,0 +1,150 @@
+import {remote} from 'electron';
+import {PersistenceLayer} from '../../../datastore/PersistenceLayer';
+import {IDocInfo} from '../../../metadata/DocInfo';
+import {CaptureResult} from '../../../capture/CaptureResult';
+import {IProvider} from '../../../util/Providers';
+import {Logger} from '../../../logger/Logger';
+import {Tag} from '../../../tags/Tag';
+import {PHZImporter} from '../importers/PHZImporter';
+import {FileImportResult} from '../importers/PDFImporter';
+import {ReadLaterDocs} from './ReadLaterDocs';
+import {RepoDocMetaManager} from '../../../../../apps/repository/js/RepoDocMetaManager';
+import {RepoDocInfos} from '../../../../../apps/repository/js/RepoDocInfos';
+
+const log = Logger.create();
+
+/**
+ * The maximum time to wait for a page to be captured.
+ */
+const CAPTURE_TIMEOUT = 2 * 60 * 1000;
+
+/**
+ * The fingerprints of the link docs being captured.  Shared by every queue so
+ * that a doc opened while it's captured in the background isn't captured
+ * twice.
+ */
+const capturing = new Set<string>();
+
+/**
+ * Adds link-only docs to the repository and replaces them with the captured
+ * page once they're captured.
+ *
+ * @ElectronRendererContext
+ */
+export class ReadLaterQueue {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+
+    private readonly repoDocMetaManager: RepoDocMetaManager;
+
+    private readonly phzImporter: PHZImporter;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
+                repoDocMetaManager: RepoDocMetaManager) {
+
+        this.persistenceLayerProvider = persistenceLayerProvider;
+        this.repoDocMetaManager = repoDocMetaManager;
+        this.phzImporter = new PHZImporter(persistenceLayerProvider);
+
+    }
+
+    /**
+     * Add the URLs as link docs.  URLs already in the queue are skipped.
+     *
+     * @return The docs which were added.
+     */
+    public async add(urls: ReadonlyArray<string>, tags: ReadonlyArray<Tag> = []): Promise<IDocInfo[]> {
+
+        const persistenceLayer = this.persistenceLayerProvider.get();
+
+        const result: IDocInfo[] = [];
+
+        for (const url of urls.map(current => current.trim())) {
+
+            if (! ReadLaterDocs.isValidURL(url)) {
+                log.warn("Skipping invalid read later URL: " + url);
+                continue;
+            }
+
+            const docMeta = ReadLaterDocs.create(url, tags);
+
+            if (await persistenceLayer.contains(docMeta.docInfo.fingerprint)) {
+                log.info("Already queued to read later: " + url);
+                continue;
+            }
+
+            await persistenceLayer.write(docMeta.docInfo.fingerprint, docMeta);
+
+            result.push(docMeta.docInfo);
+
+        }
+
+        return result;
+
+    }
+
+    public isCapturing(docInfo: IDocInfo) {
+        return capturing.has(docInfo.fingerprint);
+    }
+
+    /**
+     * Capture the link doc, import the captured page with the same tags, then
+     * remove the link doc.
+     */
+    public async capture(docInfo: IDocInfo): Promise<FileImportResult> {
+
+        if (! ReadLaterDocs.isLink(docInfo)) {
+            throw new Error("Not a read later doc: " + docInfo.fingerprint);
+        }
+
+        if (this.isCapturing(docInfo)) {
+            throw new Error("Already capturing: " + docInfo.url);
+        }
+
+        capturing.add(docInfo.fingerprint);
+
+        try {
+
+            log.info("Capturing read later doc: " + docInfo.url);
+
+            const mainAppController = remote.getGlobal('mainAppController');
+
+            const captureResult: CaptureResult =
+                await this.withTimeout(mainAppController.cmdCaptureInBackground(docInfo.url), docInfo.url!);
+
+            const tags = Object.values(docInfo.tags || {});
+
+            const fileImportResult = await this.phzImporter.importFileWithStatus(captureResult.path, tags);
+
+            // this also removes the link doc from the repository index.
+            await this.repoDocMetaManager.deleteDocInfo(RepoDocInfos.convert(docInfo));
+
+            return fileImportResult;
+
+        } finally {
+            capturing.delete(docInfo.fingerprint);
+        }
+
+    }
+
+    private withTimeout(promise: Promise<CaptureResult>, url: string): Promise<CaptureResult> {
+
+        return new Promise<CaptureResult>((resolve, reject) => {
+
+            const timeout = setTimeout(() => {
+                reject(new Error(`Timed out after ${CAPTURE_TIMEOUT}ms capturing: ${url}`));
+            }, CAPTURE_TIMEOUT);
+
+            promise.then(result => {
+                clearTimeout(timeout);
+                resolve(result);
+            }).catch(err => {
+                clearTimeout(timeout);
+                reject(err);
+            });
+
+        });
+
+    }
+
+}
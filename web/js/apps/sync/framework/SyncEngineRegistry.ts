@@ -18,4 +18,21 @@ export class SyncEngineRegistry {
 
     }
 
+    /**
+     * Find an engine by the name in its descriptor (anki, csv, etc).
+     */
+    public getByName(name: string): SyncEngine {
+
+        const engine = Object.values(this.engines)
+            .filter(current => current.descriptor.name === name)
+            .pop();
+
+        if (! engine) {
+            throw new Error("No sync engine with name: " + name);
+        }
+
+        return engine;
+
+    }
+
 }
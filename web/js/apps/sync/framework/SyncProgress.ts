@@ -4,7 +4,7 @@
  *
  */
 import {SyncState} from './SyncState';
-import {SyncTaskResult} from './SyncTask';
+import {SyncDiff, SyncTaskResult} from './SyncTask';
 import {Optional} from '../../../util/ts/Optional';
 
 export interface SyncProgress {
@@ -26,6 +26,11 @@ export interface SyncProgress {
      */
     taskResult: Optional<SyncTaskResult>;
 
+    /**
+     * Every change made to the sync target so far.
+     */
+    diffs: SyncDiff[];
+
     // TODO: not sure if we should expose this.
     //
     // /**
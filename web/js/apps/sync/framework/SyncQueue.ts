@@ -33,7 +33,8 @@ export class SyncQueue {
         percentage: 0,
         state: SyncState.STARTED,
         error: undefined,
-        taskResult: Optional.empty()
+        taskResult: Optional.empty(),
+        diffs: []
     };
 
     /**
@@ -78,6 +79,10 @@ export class SyncQueue {
 
                 this.syncProgress.taskResult = await syncTask();
 
+                this.syncProgress.taskResult
+                    .filter(taskResult => taskResult.diff !== undefined)
+                    .map(taskResult => this.syncProgress.diffs.push(taskResult.diff!));
+
             } catch (e) {
 
                 this.syncProgress.error = e;
@@ -17,4 +17,28 @@ export interface SyncTaskResult {
      */
     readonly failed?: boolean;
 
+    /**
+     * The change this task made to a record (a note in Anki, etc) in the sync
+     * target.
+     */
+    readonly diff?: SyncDiff;
+
+}
+
+export interface SyncDiff {
+
+    /**
+     * The ID of the synced record (the guid of a flashcard, etc).
+     */
+    readonly id: string;
+
+    readonly type: SyncDiffType;
+
+    /**
+     * The fields that were changed when the record was updated.
+     */
+    readonly fields?: ReadonlyArray<string>;
+
 }
+
+export type SyncDiffType = 'created' | 'updated' | 'deleted';
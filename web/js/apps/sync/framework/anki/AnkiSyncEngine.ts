@@ -12,8 +12,6 @@ import {DeckDescriptor} from './DeckDescriptor';
 import {NoteDescriptor} from './NoteDescriptor';
 import {Optional} from '../../../../util/ts/Optional';
 import {PendingAnkiSyncJob} from './AnkiSyncJob';
-import {DocInfos} from '../../../../metadata/DocInfos';
-import {Tags} from '../../../../tags/Tags';
 import {DocInfo} from '../../../../metadata/DocInfo';
 import {DocMetaSupplierCollection} from '../../../../metadata/DocMetaSupplierCollection';
 import {Sets} from '../../../../util/Sets';
@@ -29,14 +27,31 @@ export class AnkiSyncEngine implements SyncEngine {
 
     public readonly descriptor: SyncEngineDescriptor = new AnkiSyncEngineDescriptor();
 
+    /**
+     * @param deleteNotes When true the notes of the synced documents whose
+     * flashcards were deleted are deleted from Anki too.
+     */
     public async sync(docMetaSupplierCollection: DocMetaSupplierCollection,
                       progress: SyncProgressListener,
-                      deckNameStrategy: DeckNameStrategy = 'default'): Promise<PendingSyncJob> {
+                      deckNameStrategy: DeckNameStrategy = 'default',
+                      deleteNotes: boolean = false): Promise<PendingSyncJob> {
 
         // determine how to connect to Anki
         await AnkiConnectFetch.initialize();
 
-        const noteDescriptors = await this.toNoteDescriptors(deckNameStrategy, docMetaSupplierCollection);
+        // keep track of the documents we were able to read including those
+        // without any flashcards left so that their notes can be deleted.
+        const fingerprints: string[] = [];
+
+        const docMetaSuppliers: DocMetaSupplierCollection = docMetaSupplierCollection.map(docMetaSupplier => {
+            return async () => {
+                const docMeta = await docMetaSupplier();
+                fingerprints.push(docMeta.docInfo.fingerprint);
+                return docMeta;
+            };
+        });
+
+        const noteDescriptors = await this.toNoteDescriptors(deckNameStrategy, docMetaSuppliers);
 
         const deckNames = Sets.toSet(noteDescriptors.map(noteDescriptor => noteDescriptor.deckName));
 
@@ -45,7 +60,7 @@ export class AnkiSyncEngine implements SyncEngine {
                 return {name: deckName};
             });
 
-        return new PendingAnkiSyncJob(progress, deckDescriptors, noteDescriptors);
+        return new PendingAnkiSyncJob(progress, deckDescriptors, noteDescriptors, fingerprints, deleteNotes);
 
     }
 
@@ -80,7 +95,9 @@ export class AnkiSyncEngine implements SyncEngine {
                 deckName,
                 modelName,
                 fields,
-                tags
+                tags,
+                fingerprint: flashcardDescriptor.docMeta.docInfo.fingerprint,
+                lastUpdated: flashcardDescriptor.flashcard.lastUpdated
             };
 
         });
@@ -88,37 +105,7 @@ export class AnkiSyncEngine implements SyncEngine {
     }
 
     protected computeDeckName(deckNameStrategy: DeckNameStrategy, docInfo: DocInfo): string {
-
-        let deckName: string | undefined;
-
-        const tags = docInfo.tags;
-
-        if (tags) {
-
-            // TODO: test this..
-
-            deckName = Object.values(tags)
-                .filter(tag => tag.label.startsWith("deck:"))
-                .map(tag => Tags.parseTypedTag(tag.label))
-                .filter(typedTag => typedTag.isPresent())
-                .map(typedTag => typedTag.get())
-                .map(typedTag => typedTag.value)
-                .pop();
-
-        }
-
-        if (! deckName) {
-
-            if (deckNameStrategy === 'default') {
-                return "Default";
-            }
-
-            deckName = DocInfos.bestTitle(docInfo);
-
-        }
-
-        return deckName;
-
+        return FlashcardDescriptors.toDeckName(deckNameStrategy, docInfo);
     }
 
 }
@@ -14,14 +14,20 @@ abstract class AnkiSyncJob {
     protected readonly syncProgressListener: SyncProgressListener;
     protected readonly deckDescriptors: DeckDescriptor[];
     protected readonly noteDescriptors: NoteDescriptor[];
+    protected readonly fingerprints: ReadonlyArray<string>;
+    protected readonly deleteNotes: boolean;
 
     public constructor(syncProgressListener: SyncProgressListener,
                        deckDescriptors: DeckDescriptor[],
-                       noteDescriptors: NoteDescriptor[]) {
+                       noteDescriptors: NoteDescriptor[],
+                       fingerprints: ReadonlyArray<string>,
+                       deleteNotes: boolean) {
 
         this.syncProgressListener = syncProgressListener;
         this.deckDescriptors = deckDescriptors;
         this.noteDescriptors = noteDescriptors;
+        this.fingerprints = fingerprints;
+        this.deleteNotes = deleteNotes;
 
     }
 
@@ -33,7 +39,9 @@ export class PendingAnkiSyncJob extends AnkiSyncJob implements PendingSyncJob {
 
         const startedAnkiSyncJob = new StartedAnkiSyncJob(this.syncProgressListener,
                                                           this.deckDescriptors,
-                                                          this.noteDescriptors);
+                                                          this.noteDescriptors,
+                                                          this.fingerprints,
+                                                          this.deleteNotes);
         return startedAnkiSyncJob.run();
 
     }
@@ -58,9 +66,9 @@ export class StartedAnkiSyncJob extends AnkiSyncJob implements StartedSyncJob {
 
         decksSync.enqueue(this.deckDescriptors);
 
-        const notesSync = new NotesSync(syncQueue);
+        const notesSync = new NotesSync(syncQueue, this.deleteNotes);
 
-        notesSync.enqueue(this.noteDescriptors);
+        notesSync.enqueue(this.noteDescriptors, this.fingerprints);
 
         await syncQueue.execute();
 
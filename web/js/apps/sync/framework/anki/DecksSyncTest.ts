@@ -64,7 +64,8 @@ describe('DecksSync', function() {
                 "value": {
                     "message": "Creating missing deck: Test Deck"
                 }
-            }
+            },
+            "diffs": []
         });
 
     });
@@ -5,6 +5,10 @@ import {Dictionaries} from '../../../../util/Dictionaries';
 import * as _ from 'lodash';
 import {FlashcardType} from '../../../../metadata/FlashcardType';
 import {Logger} from '../../../../logger/Logger';
+import {DocInfo} from '../../../../metadata/DocInfo';
+import {Tags} from '../../../../tags/Tags';
+import {DocInfos} from '../../../../metadata/DocInfos';
+import {DeckNameStrategy} from './AnkiSyncEngine';
 
 const log = Logger.create();
 
@@ -70,4 +74,42 @@ export class FlashcardDescriptors {
 
     }
 
+    /**
+     * Compute the deck for the flashcards of a document.  A deck:name tag on the
+     * document always takes precedence.
+     */
+    public static toDeckName(deckNameStrategy: DeckNameStrategy, docInfo: DocInfo): string {
+
+        let deckName: string | undefined;
+
+        const tags = docInfo.tags;
+
+        if (tags) {
+
+            // TODO: test this..
+
+            deckName = Object.values(tags)
+                .filter(tag => tag.label.startsWith("deck:"))
+                .map(tag => Tags.parseTypedTag(tag.label))
+                .filter(typedTag => typedTag.isPresent())
+                .map(typedTag => typedTag.get())
+                .map(typedTag => typedTag.value)
+                .pop();
+
+        }
+
+        if (! deckName) {
+
+            if (deckNameStrategy === 'default') {
+                return "Default";
+            }
+
+            deckName = DocInfos.bestTitle(docInfo);
+
+        }
+
+        return deckName;
+
+    }
+
 }
@@ -1,3 +1,4 @@
+import {ISODateTimeString} from '../../../../metadata/ISODateTimeStrings';
 
 /**
  * The note metadata we need to sync to the store.
@@ -14,5 +15,17 @@ export interface NoteDescriptor {
     readonly fields: {[name: string]: string};
     readonly tags: string[];
 
+    /**
+     * The fingerprint of the document the flashcard belongs to so that we
+     * only ever delete the notes of documents that are part of the sync.
+     */
+    readonly fingerprint?: string;
+
+    /**
+     * The time the flashcard was last updated in Polar so that we can tell
+     * when the note in Anki needs to be updated.
+     */
+    readonly lastUpdated?: ISODateTimeString;
+
 }
 
@@ -11,11 +11,25 @@ import {CanAddNotesClient, ICanAddNotesClient} from './clients/CanAddNotesClient
 import {SyncTaskResult} from '../SyncTask';
 import {Optional} from '../../../../util/ts/Optional';
 import * as util from "util";
+import {INotesInfoClient, NoteInfo, NotesInfoClient} from './clients/NotesInfoClient';
+import {IUpdateNoteFieldsClient, UpdateNoteFieldsClient} from './clients/UpdateNoteFieldsClient';
+import {DeleteNotesClient, IDeleteNotesClient} from './clients/DeleteNotesClient';
+import {AddTagsClient, IAddTagsClient} from './clients/AddTagsClient';
+import {IRemoveTagsClient, RemoveTagsClient} from './clients/RemoveTagsClient';
 
 const log = Logger.create();
 
 /**
  * Performs sync of notes once we are certain the decks are created.
+ *
+ * Notes are matched to flashcards by the polar_guid tag.  Notes whose
+ * flashcard changed since the last sync are updated and duplicates of another
+ * note are removed.
+ *
+ * Notes are also tagged with the fingerprint of their document (polar_doc).
+ * When deleting notes is enabled the notes of the synced documents whose
+ * flashcards no longer exist are removed.  Notes of other documents (or from
+ * before we tagged them with the document) are never touched.
  */
 export class NotesSync {
 
@@ -27,31 +41,57 @@ export class NotesSync {
 
     public storeMediaFileClient: IStoreMediaFileClient = new StoreMediaFileClient();
 
+    public notesInfoClient: INotesInfoClient = new NotesInfoClient();
+
+    public updateNoteFieldsClient: IUpdateNoteFieldsClient = new UpdateNoteFieldsClient();
+
+    public deleteNotesClient: IDeleteNotesClient = new DeleteNotesClient();
+
+    public addTagsClient: IAddTagsClient = new AddTagsClient();
+
+    public removeTagsClient: IRemoveTagsClient = new RemoveTagsClient();
+
     private readonly syncQueue: SyncQueue;
 
+    private readonly deleteNotes: boolean;
+
     private results: NotesSynchronized = {
-        created: []
+        created: [],
+        updated: [],
+        deleted: []
     };
 
 
     /**
      * @param syncQueue The queue to use for async operations.
+     *
+     * @param deleteNotes When true the notes whose flashcards were deleted are
+     * removed from Anki.  Otherwise they're just reported.
      */
-    constructor(syncQueue: SyncQueue) {
+    constructor(syncQueue: SyncQueue, deleteNotes: boolean = false) {
         this.syncQueue = syncQueue;
+        this.deleteNotes = deleteNotes;
     }
 
     /**
      * Perform the actual sync of the notes to Anki.
      *
      * @param noteDescriptors The notes we need to sync.
+     *
+     * @param fingerprints The documents being synced.  This includes documents
+     * without any flashcards left so their notes can be found.
      */
-    public enqueue(noteDescriptors: NoteDescriptor[]): NotesSynchronized {
+    public enqueue(noteDescriptors: NoteDescriptor[],
+                   fingerprints: ReadonlyArray<string> = NotesSync.toFingerprints(noteDescriptors)): NotesSynchronized {
 
         this.syncQueue.add(async () => {
             return await this.findNotes(noteDescriptors);
         });
 
+        this.syncQueue.add(async () => {
+            return await this.findDeletedNotes(noteDescriptors, fingerprints);
+        });
+
         return this.results;
 
     }
@@ -84,7 +124,15 @@ export class NotesSync {
 
             // add a special tag so that users can back out polar flashcards
             // and delete them if necessary.
-            normalizedNote.noteDescriptor.tags.push("_polar-flashcard");
+            normalizedNote.noteDescriptor.tags.push(POLAR_FLASHCARD_TAG);
+
+            if (normalizedNote.noteDescriptor.lastUpdated) {
+                normalizedNote.noteDescriptor.tags.push(NotesSync.createLastUpdatedID(normalizedNote.noteDescriptor.lastUpdated).format());
+            }
+
+            if (normalizedNote.noteDescriptor.fingerprint) {
+                normalizedNote.noteDescriptor.tags.push(NotesSync.createDocID(normalizedNote.noteDescriptor.fingerprint).format());
+            }
 
             if (! normalizedNote.noteDescriptor.tags.includes(polarGUID.format())) {
                 //  make sure the noteDescriptor has the proper tag.
@@ -101,7 +149,16 @@ export class NotesSync {
 
         } else {
 
-            const message = 'Note already found. Skipping.';
+            const [noteID, ...duplicateIDs] = existingIDs;
+
+            this.syncQueue.add(async () => await this.checkNote(normalizedNote, noteID));
+
+            duplicateIDs.forEach(duplicateID => {
+                const guid = normalizedNote.noteDescriptor.guid;
+                this.syncQueue.add(async () => await this.deleteNote(duplicateID, guid, 'duplicate'));
+            });
+
+            const message = 'Note already found. Checking for changes.';
 
             log.debug(message, normalizedNote);
 
@@ -110,6 +167,201 @@ export class NotesSync {
 
     }
 
+    /**
+     * Determine if the note in Anki is out of date with the flashcard.
+     */
+    private async checkNote(normalizedNote: NormalizedNote, noteID: number): Promise<Optional<SyncTaskResult>> {
+
+        const noteDescriptor = normalizedNote.noteDescriptor;
+
+        const noteInfos = await this.notesInfoClient.execute([noteID]);
+
+        if (noteInfos.length === 0 || ! noteInfos[0]) {
+            return Optional.of({message: `Note ${noteID} no longer exists. Skipping.`});
+        }
+
+        const noteInfo = noteInfos[0];
+
+        if (noteDescriptor.fingerprint) {
+
+            const docTag = NotesSync.createDocID(noteDescriptor.fingerprint).format();
+
+            if (! noteInfo.tags.includes(docTag)) {
+                // notes created before we tagged them with their document.
+                this.syncQueue.add(async () => await this.addDocTag(noteInfo, docTag));
+            }
+
+        }
+
+        const lastUpdated = NotesSync.parseTagValue(noteInfo.tags, LAST_UPDATED_TAG_NAME);
+
+        if (noteDescriptor.lastUpdated && lastUpdated === noteDescriptor.lastUpdated) {
+            return Optional.of({message: 'Note unchanged. Skipping.'});
+        }
+
+        const changedFields = Object.keys(noteDescriptor.fields)
+            .filter(name => {
+                const field = noteInfo.fields[name];
+                return ! field || field.value !== noteDescriptor.fields[name];
+            });
+
+        if (changedFields.length === 0) {
+            return Optional.of({message: 'Note unchanged. Skipping.'});
+        }
+
+        this.syncQueue.add(async () => await this.updateNote(normalizedNote, noteInfo, changedFields));
+
+        const message = `Note changed (${changedFields.join(', ')}).  Updating.`;
+
+        log.debug(message, normalizedNote);
+
+        return Optional.of({message});
+
+    }
+
+    private async updateNote(normalizedNote: NormalizedNote,
+                             noteInfo: NoteInfo,
+                             changedFields: ReadonlyArray<string>): Promise<Optional<SyncTaskResult>> {
+
+        const noteDescriptor = normalizedNote.noteDescriptor;
+
+        try {
+
+            normalizedNote.mediaFiles.forEach(current => {
+                this.syncQueue.add(async () => this.storeMediaFile(current));
+            });
+
+            await this.updateNoteFieldsClient.execute({id: noteInfo.noteId, fields: noteDescriptor.fields});
+
+            if (noteDescriptor.lastUpdated) {
+
+                const staleTags = noteInfo.tags.filter(tag => tag.startsWith(LAST_UPDATED_TAG_NAME + ':'));
+
+                if (staleTags.length > 0) {
+                    await this.removeTagsClient.execute([noteInfo.noteId], staleTags.join(' '));
+                }
+
+                const lastUpdatedTag = NotesSync.createLastUpdatedID(noteDescriptor.lastUpdated).format();
+                await this.addTagsClient.execute([noteInfo.noteId], lastUpdatedTag);
+
+            }
+
+            this.results.updated.push(noteDescriptor);
+
+        } catch (err) {
+            const message = "Failed to update note: " + this.pp(noteDescriptor);
+            log.warn(message, err);
+            return Optional.of({message, failed: true});
+        }
+
+        return Optional.of<SyncTaskResult>({
+            message: `Updated note fields: ${changedFields.join(', ')}`,
+            diff: {id: noteDescriptor.guid, type: 'updated', fields: changedFields}
+        });
+
+    }
+
+    private async addDocTag(noteInfo: NoteInfo, docTag: string): Promise<Optional<SyncTaskResult>> {
+
+        try {
+            await this.addTagsClient.execute([noteInfo.noteId], docTag);
+        } catch (err) {
+            const message = `Failed to tag note: ${noteInfo.noteId}`;
+            log.warn(message, err);
+            return Optional.of({message, failed: true});
+        }
+
+        return Optional.of({message: `Tagged note ${noteInfo.noteId} with ${docTag}`});
+
+    }
+
+    /**
+     * Find notes we created in Anki for the given documents whose flashcards
+     * no longer exist in Polar.
+     */
+    private async findDeletedNotes(noteDescriptors: NoteDescriptor[],
+                                   fingerprints: ReadonlyArray<string>): Promise<Optional<SyncTaskResult>> {
+
+        const noteIDs: number[] = [];
+
+        for (const fingerprint of fingerprints) {
+            const docTag = NotesSync.createDocID(fingerprint).format();
+            noteIDs.push(...await this.findNotesClient.execute(`tag:${POLAR_FLASHCARD_TAG} tag:${docTag}`));
+        }
+
+        if (noteIDs.length === 0) {
+            return Optional.of({message: 'No existing notes to check for deletion.'});
+        }
+
+        const guids = new Set(noteDescriptors.map(current => current.guid));
+        const docs = new Set(fingerprints);
+
+        const noteInfos = await this.notesInfoClient.execute(noteIDs);
+
+        const deleted: Array<{noteID: number, guid: string}> = [];
+
+        for (const noteInfo of noteInfos) {
+
+            if (! noteInfo) {
+                continue;
+            }
+
+            const guid = NotesSync.parseTagValue(noteInfo.tags, POLAR_GUID_TAG_NAME);
+            const fingerprint = NotesSync.parseTagValue(noteInfo.tags, POLAR_DOC_TAG_NAME);
+
+            // check the tags again as Anki matches '_' in a search as any
+            // character.
+            if (guid && fingerprint && docs.has(fingerprint) && ! guids.has(guid)) {
+                deleted.push({noteID: noteInfo.noteId, guid});
+            }
+
+        }
+
+        if (! this.deleteNotes) {
+
+            if (deleted.length > 0) {
+                log.info("Notes whose flashcards were deleted: ", deleted);
+            }
+
+            return Optional.of({
+                message: `Found ${deleted.length} notes whose flashcards were deleted.  ` +
+                         `Not deleting them since deleting notes is disabled.`
+            });
+
+        }
+
+        for (const current of deleted) {
+            this.syncQueue.add(async () => await this.deleteNote(current.noteID, current.guid, 'deleted'));
+        }
+
+        return Optional.of({message: `Found ${deleted.length} notes whose flashcards were deleted.`});
+
+    }
+
+    private async deleteNote(noteID: number,
+                             guid: string,
+                             reason: 'deleted' | 'duplicate'): Promise<Optional<SyncTaskResult>> {
+
+        try {
+
+            await this.deleteNotesClient.execute([noteID]);
+
+            this.results.deleted.push(guid);
+
+        } catch (err) {
+            const message = `Failed to delete note: ${noteID}`;
+            log.warn(message, err);
+            return Optional.of({message, failed: true});
+        }
+
+        const message = reason === 'duplicate' ?
+            `Deleted duplicate note for flashcard: ${guid}` :
+            `Deleted note for deleted flashcard: ${guid}`;
+
+        return Optional.of<SyncTaskResult>({message, diff: {id: guid, type: 'deleted'}});
+
+    }
+
     private async canAddNote(normalizedNote: NormalizedNote): Promise<Optional<SyncTaskResult>> {
 
         const canAddNotes = await this.canAddNotesClient.execute([normalizedNote.noteDescriptor]);
@@ -154,7 +406,7 @@ export class NotesSync {
             return Optional.of({message, failed: true});
         }
 
-        return Optional.of({message});
+        return Optional.of<SyncTaskResult>({message, diff: {id: normalizedNote.noteDescriptor.guid, type: 'created'}});
 
     }
 
@@ -180,7 +432,9 @@ export class NotesSync {
             deckName: noteDescriptor.deckName,
             modelName: noteDescriptor.modelName,
             fields,
-            tags: noteDescriptor.tags
+            tags: noteDescriptor.tags,
+            fingerprint: noteDescriptor.fingerprint,
+            lastUpdated: noteDescriptor.lastUpdated
         };
 
         return {
@@ -191,7 +445,36 @@ export class NotesSync {
     }
 
     public static createPolarID(guid: string): Tag {
-        return new Tag('polar_guid', guid);
+        return new Tag(POLAR_GUID_TAG_NAME, guid);
+    }
+
+    public static createLastUpdatedID(lastUpdated: string): Tag {
+        return new Tag(LAST_UPDATED_TAG_NAME, lastUpdated);
+    }
+
+    public static createDocID(fingerprint: string): Tag {
+        return new Tag(POLAR_DOC_TAG_NAME, fingerprint);
+    }
+
+    public static toFingerprints(noteDescriptors: ReadonlyArray<NoteDescriptor>): string[] {
+
+        const result = noteDescriptors.map(current => current.fingerprint)
+            .filter(current => current !== undefined);
+
+        return Array.from(new Set(<string[]> result));
+
+    }
+
+    /**
+     * Find the value of the tag with the given name in the tags of a note.
+     */
+    public static parseTagValue(tags: ReadonlyArray<string>, name: string): string | undefined {
+
+        const prefix = name + ':';
+
+        return tags.filter(tag => tag.startsWith(prefix))
+                   .map(tag => tag.substring(prefix.length))[0];
+
     }
 
 }
@@ -236,4 +519,22 @@ export interface NotesSynchronized {
 
     readonly created: NoteDescriptor[];
 
+    readonly updated: NoteDescriptor[];
+
+    /**
+     * The guids of the flashcards whose notes were deleted.
+     */
+    readonly deleted: string[];
+
 }
+
+/**
+ * Added to every note we create so that we can find them again.
+ */
+const POLAR_FLASHCARD_TAG = '_polar-flashcard';
+
+const POLAR_GUID_TAG_NAME = 'polar_guid';
+
+const LAST_UPDATED_TAG_NAME = 'polar_updated';
+
+const POLAR_DOC_TAG_NAME = 'polar_doc';
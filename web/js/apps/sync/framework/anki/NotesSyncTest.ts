@@ -9,6 +9,12 @@ import {SyncProgressListener} from '../SyncProgressListener';
 import {SyncQueue} from '../SyncQueue';
 import {StoreMediaFileClient} from './clients/StoreMediaFileClient';
 import {CanAddNotesClient} from './clients/CanAddNotesClient';
+import {NotesInfoClient} from './clients/NotesInfoClient';
+import {UpdateNoteFieldsClient} from './clients/UpdateNoteFieldsClient';
+import {DeleteNotesClient} from './clients/DeleteNotesClient';
+import {AddTagsClient} from './clients/AddTagsClient';
+import {RemoveTagsClient} from './clients/RemoveTagsClient';
+import {assert} from 'chai';
 
 describe('NotesSync', function() {
 
@@ -72,6 +78,9 @@ describe('NotesSync', function() {
         // a new note to be created.
         notesSync.addNoteClient = AddNoteClient.createMock(1);
         notesSync.findNotesClient = FindNotesClient.createMock([1]);
+        notesSync.notesInfoClient = NotesInfoClient.createMock([
+            {noteId: 1, modelName: "test", tags: ["polar_guid:101"], fields: {}}
+        ]);
 
         const noteDescriptors: NoteDescriptor[] = [
             {
@@ -91,4 +100,126 @@ describe('NotesSync', function() {
 
     });
 
+    it("sync with changed notes that are updated", async function() {
+
+        notesSync.findNotesClient = FindNotesClient.createMock([1]);
+        notesSync.notesInfoClient = NotesInfoClient.createMock([
+            {
+                noteId: 1,
+                modelName: "Basic",
+                tags: ["polar_guid:101", "polar_updated:2012-03-01T11:38:49.321Z"],
+                fields: {
+                    Front: {value: "old front", order: 0},
+                    Back: {value: "back", order: 1}
+                }
+            }
+        ]);
+        notesSync.updateNoteFieldsClient = UpdateNoteFieldsClient.createMock();
+        notesSync.addTagsClient = AddTagsClient.createMock();
+        notesSync.removeTagsClient = RemoveTagsClient.createMock();
+
+        const noteDescriptors: NoteDescriptor[] = [
+            {
+                guid: "101",
+                deckName: "test",
+                modelName: "Basic",
+                fields: {front: "new front", back: "back"},
+                tags: [],
+                lastUpdated: "2012-03-02T11:38:49.321Z"
+            }
+        ];
+
+        const notesSynchronized = notesSync.enqueue(noteDescriptors);
+
+        await syncQueue.execute();
+
+        assert.equal(notesSynchronized.updated.length, 1);
+        assert.deepEqual(notesSynchronized.created, []);
+        assert.deepEqual(notesSynchronized.deleted, []);
+
+        assertJSON(syncProgress!.diffs, [
+            {id: "101", type: "updated", fields: ["Front"]}
+        ]);
+
+    });
+
+    it("sync with unchanged notes that are skipped", async function() {
+
+        notesSync.findNotesClient = FindNotesClient.createMock([1]);
+        notesSync.notesInfoClient = NotesInfoClient.createMock([
+            {
+                noteId: 1,
+                modelName: "Basic",
+                tags: ["polar_guid:101", "polar_updated:2012-03-02T11:38:49.321Z"],
+                fields: {
+                    Front: {value: "edited in anki", order: 0}
+                }
+            }
+        ]);
+
+        const noteDescriptors: NoteDescriptor[] = [
+            {
+                guid: "101",
+                deckName: "test",
+                modelName: "Basic",
+                fields: {front: "front"},
+                tags: [],
+                lastUpdated: "2012-03-02T11:38:49.321Z"
+            }
+        ];
+
+        const notesSynchronized = notesSync.enqueue(noteDescriptors);
+
+        await syncQueue.execute();
+
+        assert.deepEqual(notesSynchronized.updated, []);
+        assert.deepEqual(syncProgress!.diffs, []);
+
+    });
+
+    it("sync with deleted flashcards", async function() {
+
+        notesSync = new NotesSync(syncQueue, true);
+
+        notesSync.findNotesClient = FindNotesClient.createMock([1, 2, 3]);
+        notesSync.notesInfoClient = NotesInfoClient.createMock([
+            {noteId: 1, modelName: "Basic", tags: ["_polar-flashcard", "polar_guid:101", "polar_doc:0x001"], fields: {}},
+            {noteId: 2, modelName: "Basic", tags: ["_polar-flashcard", "polar_guid:102", "polar_doc:0x001"], fields: {}},
+
+            // a note from another document or from before notes were tagged
+            // with their document.
+            {noteId: 3, modelName: "Basic", tags: ["_polar-flashcard", "polar_guid:103", "polar_doc:0x002"], fields: {}},
+            {noteId: 4, modelName: "Basic", tags: ["_polar-flashcard", "polar_guid:104"], fields: {}}
+        ]);
+        notesSync.deleteNotesClient = DeleteNotesClient.createMock();
+
+        const notesSynchronized = notesSync.enqueue([], ['0x001']);
+
+        await syncQueue.execute();
+
+        assert.deepEqual(notesSynchronized.deleted, ["101", "102"]);
+
+        assertJSON(syncProgress!.diffs, [
+            {id: "101", type: "deleted"},
+            {id: "102", type: "deleted"}
+        ]);
+
+    });
+
+    it("notes are only deleted when enabled", async function() {
+
+        notesSync.findNotesClient = FindNotesClient.createMock([1]);
+        notesSync.notesInfoClient = NotesInfoClient.createMock([
+            {noteId: 1, modelName: "Basic", tags: ["_polar-flashcard", "polar_guid:101", "polar_doc:0x001"], fields: {}}
+        ]);
+
+        const notesSynchronized = notesSync.enqueue([], ['0x001']);
+
+        await syncQueue.execute();
+
+        assert.deepEqual(notesSynchronized.deleted, []);
+        assert.deepEqual(syncProgress!.diffs, []);
+
+    });
+
 });
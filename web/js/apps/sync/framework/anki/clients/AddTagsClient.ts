@@ -0,0 +1,64 @@
+import {AnkiConnectFetch} from '../AnkiConnectFetch';
+import * as TypeMoq from "typemoq";
+
+/**
+ *
+ * addTags
+ *
+ * Adds tags to notes by note ID.
+ *
+ * Sample request:
+ *
+ * {
+ *    "action": "addTags",
+ *    "version": 6,
+ *    "params": {
+ *        "notes": [1483959289817, 1483959291695],
+ *        "tags": "european-languages"
+ *    }
+ * }
+ * Sample result:
+ *
+ * {
+ *    "result": null,
+ *    "error": null
+ * }
+ */
+export class AddTagsClient implements IAddTagsClient {
+
+    /**
+     * @param tags The tags to add separated by spaces.
+     */
+    public async execute(notes: number[], tags: string): Promise<void> {
+
+        const body = {
+            action: "addTags",
+            version: 6,
+            params: {
+                notes,
+                tags
+            }
+        };
+
+        const init = { method: 'POST', body: JSON.stringify(body) };
+
+        await AnkiConnectFetch.fetch(init);
+
+    }
+
+    /**
+     * Create a mock that returns the given result.
+     */
+    public static createMock() {
+        const client = TypeMoq.Mock.ofType<IAddTagsClient>();
+        client.setup(x => x.execute(TypeMoq.It.isAny(), TypeMoq.It.isAny())).returns(() => Promise.resolve());
+        return client.object;
+    }
+
+}
+
+export interface IAddTagsClient {
+
+    execute(notes: number[], tags: string): Promise<void>;
+
+}
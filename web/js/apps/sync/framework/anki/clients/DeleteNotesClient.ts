@@ -0,0 +1,60 @@
+import {AnkiConnectFetch} from '../AnkiConnectFetch';
+import * as TypeMoq from "typemoq";
+
+/**
+ *
+ * deleteNotes
+ *
+ * Deletes notes with the given ids. If a note has several cards associated
+ * with it, all associated cards will be deleted.
+ *
+ * Sample request:
+ *
+ * {
+ *    "action": "deleteNotes",
+ *    "version": 6,
+ *    "params": {
+ *        "notes": [1502298033753]
+ *    }
+ * }
+ * Sample result:
+ *
+ * {
+ *    "result": null,
+ *    "error": null
+ * }
+ */
+export class DeleteNotesClient implements IDeleteNotesClient {
+
+    public async execute(notes: number[]): Promise<void> {
+
+        const body = {
+            action: "deleteNotes",
+            version: 6,
+            params: {
+                notes
+            }
+        };
+
+        const init = { method: 'POST', body: JSON.stringify(body) };
+
+        await AnkiConnectFetch.fetch(init);
+
+    }
+
+    /**
+     * Create a mock that returns the given result.
+     */
+    public static createMock() {
+        const client = TypeMoq.Mock.ofType<IDeleteNotesClient>();
+        client.setup(x => x.execute(TypeMoq.It.isAny())).returns(() => Promise.resolve());
+        return client.object;
+    }
+
+}
+
+export interface IDeleteNotesClient {
+
+    execute(notes: number[]): Promise<void>;
+
+}
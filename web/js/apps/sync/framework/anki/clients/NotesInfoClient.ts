@@ -1,5 +1,4 @@
 import {AnkiConnectFetch} from '../AnkiConnectFetch';
-import {DeckNamesAndIds, IDeckNamesAndIdsClient} from './DeckNamesAndIdsClient';
 import * as TypeMoq from "typemoq";
 
 /**
@@ -68,14 +67,14 @@ export interface INotesInfoClient {
 
 }
 
-interface NoteInfo {
+export interface NoteInfo {
     noteId: number;
     modelName: string;
     tags: string[];
     fields: {[name: string]: Field};
 }
 
-interface Field {
+export interface Field {
     value: string;
     order: number;
 }
@@ -0,0 +1,368 @@
+import JSZip from 'jszip';
+import crypto from 'crypto';
+import {Database} from 'sql.js';
+import {SyncEngineDescriptor} from '../SyncEngineDescriptor';
+import {FileSyncEngine} from './FileSyncEngine';
+import {FlashcardRecord} from './FlashcardRecords';
+import {Files} from '../../../../util/Files';
+
+/**
+ * The IDs of the note types we create.  These are fixed so that importing
+ * another export updates the same note types instead of adding copies.
+ */
+const BASIC_MODEL_ID = 1549000000001;
+const CLOZE_MODEL_ID = 1549000000002;
+
+const DEFAULT_DECK_ID = 1;
+
+/**
+ * Separates the fields of a note.
+ */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * The schema of an Anki 2.1 collection.
+ */
+const SCHEMA = `
+    create table col (
+        id integer primary key, crt integer not null, mod integer not null,
+        scm integer not null, ver integer not null, dty integer not null,
+        usn integer not null, ls integer not null, conf text not null,
+        models text not null, decks text not null, dconf text not null,
+        tags text not null
+    );
+    create table notes (
+        id integer primary key, guid text not null, mid integer not null,
+        mod integer not null, usn integer not null, tags text not null,
+        flds text not null, sfld integer not null, csum integer not null,
+        flags integer not null, data text not null
+    );
+    create table cards (
+        id integer primary key, nid integer not null, did integer not null,
+        ord integer not null, mod integer not null, usn integer not null,
+        type integer not null, queue integer not null, due integer not null,
+        ivl integer not null, factor integer not null, reps integer not null,
+        lapses integer not null, left integer not null, odue integer not null,
+        odid integer not null, flags integer not null, data text not null
+    );
+    create table revlog (
+        id integer primary key, cid integer not null, usn integer not null,
+        ease integer not null, ivl integer not null, lastIvl integer not null,
+        factor integer not null, time integer not null, type integer not null
+    );
+    create table graves (
+        usn integer not null, oid integer not null, type integer not null
+    );
+    create index ix_notes_usn on notes (usn);
+    create index ix_cards_usn on cards (usn);
+    create index ix_revlog_usn on revlog (usn);
+    create index ix_cards_nid on cards (nid);
+    create index ix_cards_sched on cards (did, queue, due);
+    create index ix_revlog_cid on revlog (cid);
+    create index ix_notes_csum on notes (csum);
+`;
+
+/**
+ * Writes flashcards to an Anki deck package (.apkg) which can be imported with
+ * File > Import without AnkiConnect.
+ *
+ * An .apkg is a zip with the collection (an SQLite database with the notes,
+ * cards, decks and note types) and a JSON map of the media files.  Notes keep
+ * the guid of their flashcard so importing a newer export updates the notes
+ * instead of duplicating them.
+ */
+export class ApkgSyncEngine extends FileSyncEngine {
+
+    public readonly descriptor: SyncEngineDescriptor = new ApkgSyncEngineDescriptor();
+
+    constructor(path: string) {
+        super(path);
+    }
+
+    protected async write(flashcardRecords: ReadonlyArray<FlashcardRecord>): Promise<void> {
+
+        const zip = new JSZip();
+
+        zip.file('collection.anki2', ApkgSyncEngine.createCollection(flashcardRecords));
+
+        // we don't export any media.
+        zip.file('media', '{}');
+
+        const data = await zip.generateAsync({type: 'nodebuffer', compression: 'DEFLATE'});
+
+        await Files.writeFileAsync(this.path, data);
+
+    }
+
+    /**
+     * Create the SQLite collection with the given flashcards.
+     */
+    public static createCollection(flashcardRecords: ReadonlyArray<FlashcardRecord>,
+                                   now: number = Date.now()): Buffer {
+
+        // sql.js is large so it's only loaded when we're actually exporting.
+        const SQL = require('sql.js');
+
+        const db: Database = new SQL.Database();
+
+        try {
+
+            db.exec(SCHEMA);
+
+            const mod = Math.floor(now / 1000);
+
+            const decks: {[name: string]: number} = {};
+
+            const insertNote = db.prepare('insert into notes values (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+            const insertCard = db.prepare('insert into cards values (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+            let id = now;
+
+            flashcardRecords.forEach((flashcardRecord, idx) => {
+
+                const deckID = this.toDeckID(flashcardRecord.deckName);
+                decks[flashcardRecord.deckName] = deckID;
+
+                const fields = flashcardRecord.cloze ?
+                    [flashcardRecord.front, flashcardRecord.source] :
+                    [flashcardRecord.front, flashcardRecord.back, flashcardRecord.source];
+
+                const tags = flashcardRecord.tags.map(tag => tag.replace(/\s+/g, '_'));
+
+                const noteID = id++;
+
+                insertNote.run([
+                    noteID,
+                    flashcardRecord.guid,
+                    flashcardRecord.cloze ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+                    mod,
+                    tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+                    fields.join(FIELD_SEPARATOR),
+                    this.stripHTML(fields[0]),
+                    this.checksum(fields[0])
+                ]);
+
+                // new cards are shown in the order they were exported.
+                const due = idx + 1;
+
+                for (const ord of this.toCardOrds(flashcardRecord)) {
+                    insertCard.run([id++, noteID, deckID, ord, mod, due]);
+                }
+
+            });
+
+            insertNote.free();
+            insertCard.free();
+
+            db.run('insert into col values (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, \'{}\')', [
+                mod,
+                now,
+                now,
+                JSON.stringify(this.createConf(flashcardRecords.length + 1)),
+                JSON.stringify(this.createModels(now)),
+                JSON.stringify(this.createDecks(decks, mod)),
+                JSON.stringify(this.createDeckConfs())
+            ]);
+
+            return Buffer.from(db.export());
+
+        } finally {
+            db.close();
+        }
+
+    }
+
+    /**
+     * Anki creates a card for each cloze number in a cloze note.
+     */
+    private static toCardOrds(flashcardRecord: FlashcardRecord): number[] {
+
+        if (! flashcardRecord.cloze) {
+            return [0];
+        }
+
+        const ords = new Set<number>();
+
+        const regexp = /{{c(\d+)::/g;
+
+        let match = regexp.exec(flashcardRecord.front);
+
+        while (match !== null) {
+            ords.add(parseInt(match[1], 10) - 1);
+            match = regexp.exec(flashcardRecord.front);
+        }
+
+        return ords.size > 0 ? Array.from(ords).sort((a, b) => a - b) : [0];
+
+    }
+
+    /**
+     * Deck IDs are derived from their name so that importing another export
+     * uses the same decks.  The default deck always exists with ID 1.
+     */
+    private static toDeckID(deckName: string): number {
+
+        if (deckName === 'Default') {
+            return DEFAULT_DECK_ID;
+        }
+
+        return parseInt(crypto.createHash('sha1').update(deckName).digest('hex').substring(0, 10), 16);
+
+    }
+
+    private static stripHTML(value: string): string {
+        return value.replace(/<[^>]*>/g, '');
+    }
+
+    /**
+     * The checksum Anki uses to find duplicate notes: the first 8 hex digits
+     * of the SHA1 of the first field without HTML.
+     */
+    private static checksum(value: string): number {
+        return parseInt(crypto.createHash('sha1').update(this.stripHTML(value)).digest('hex').substring(0, 8), 16);
+    }
+
+    private static createConf(nextPos: number) {
+
+        return {
+            nextPos,
+            estTimes: true,
+            activeDecks: [DEFAULT_DECK_ID],
+            sortType: 'noteFld',
+            timeLim: 0,
+            sortBackwards: false,
+            addToCur: true,
+            curDeck: DEFAULT_DECK_ID,
+            newBury: true,
+            newSpread: 0,
+            dueCounts: true,
+            curModel: BASIC_MODEL_ID,
+            collapseTime: 1200
+        };
+
+    }
+
+    private static createModels(now: number) {
+
+        const mod = Math.floor(now / 1000);
+
+        const css = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n' +
+                    '.cloze { font-weight: bold; color: blue; }\n' +
+                    '.source { font-size: smaller; color: gray; }';
+
+        const createField = (name: string, ord: number) => {
+            return {name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: []};
+        };
+
+        const createModel = (id: number, name: string, type: number, fields: string[], qfmt: string, afmt: string) => {
+
+            return {
+                id,
+                name,
+                type,
+                mod,
+                usn: -1,
+                sortf: 0,
+                did: DEFAULT_DECK_ID,
+                tmpls: [
+                    {name: 'Card 1', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: ''}
+                ],
+                flds: fields.map((field, idx) => createField(field, idx)),
+                css,
+                latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n' +
+                          '\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+                latexPost: '\\end{document}',
+                tags: [],
+                vers: [],
+                req: [[0, 'all', [0]]]
+            };
+
+        };
+
+        return {
+            [BASIC_MODEL_ID]: createModel(BASIC_MODEL_ID,
+                                          'Polar Basic',
+                                          0,
+                                          ['Front', 'Back', 'Source'],
+                                          '{{Front}}',
+                                          '{{FrontSide}}<hr id=answer>{{Back}}<div class="source">{{Source}}</div>'),
+            [CLOZE_MODEL_ID]: createModel(CLOZE_MODEL_ID,
+                                          'Polar Cloze',
+                                          1,
+                                          ['Text', 'Source'],
+                                          '{{cloze:Text}}',
+                                          '{{cloze:Text}}<div class="source">{{Source}}</div>')
+        };
+
+    }
+
+    private static createDecks(deckIDs: {[name: string]: number}, mod: number) {
+
+        const createDeck = (id: number, name: string) => {
+
+            return {
+                id,
+                name,
+                mod,
+                usn: -1,
+                lrnToday: [0, 0],
+                revToday: [0, 0],
+                newToday: [0, 0],
+                timeToday: [0, 0],
+                collapsed: false,
+                desc: '',
+                dyn: 0,
+                conf: 1,
+                extendNew: 10,
+                extendRev: 50
+            };
+
+        };
+
+        const result: {[id: string]: any} = {
+            [DEFAULT_DECK_ID]: createDeck(DEFAULT_DECK_ID, 'Default')
+        };
+
+        for (const name of Object.keys(deckIDs)) {
+            result[deckIDs[name]] = createDeck(deckIDs[name], name);
+        }
+
+        return result;
+
+    }
+
+    /**
+     * The default deck options.
+     */
+    private static createDeckConfs() {
+
+        return {
+            1: {
+                id: 1,
+                name: 'Default',
+                replayq: true,
+                lapse: {delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0},
+                rev: {perDay: 100, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true},
+                new: {delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true},
+                maxTaken: 60,
+                timer: 0,
+                autoplay: true,
+                mod: 0,
+                usn: 0,
+                dyn: false
+            }
+        };
+
+    }
+
+}
+
+class ApkgSyncEngineDescriptor implements SyncEngineDescriptor {
+
+    public readonly id: string = "c3d04777-fc23-460a-9aea-1cf7310010db";
+
+    public readonly name: string = "apkg";
+
+    public readonly description: string = "Sync Engine for Anki deck packages";
+
+}
@@ -0,0 +1,108 @@
+import {assert} from 'chai';
+import os from 'os';
+import JSZip from 'jszip';
+import {ApkgSyncEngine} from './ApkgSyncEngine';
+import {MockDocMetas} from '../../../../metadata/DocMetas';
+import {FilePaths} from '../../../../util/FilePaths';
+import {Files} from '../../../../util/Files';
+import {FlashcardRecord} from './FlashcardRecords';
+
+const tmpdir = os.tmpdir();
+
+const SQL = require('sql.js');
+
+describe('ApkgSyncEngine', function() {
+
+    const flashcardRecords: FlashcardRecord[] = [
+        {
+            guid: 'basic-guid',
+            deckName: 'Books::Polar',
+            cloze: false,
+            front: 'What is <b>polar</b>?',
+            back: 'A reader',
+            tags: ['book', 'two words'],
+            source: 'Title (page 1)'
+        },
+        {
+            guid: 'cloze-guid',
+            deckName: 'Default',
+            cloze: true,
+            front: 'The {{c1::mitochondria}} is the {{c2::powerhouse}} of the {{c1::cell}}',
+            back: '',
+            tags: [],
+            source: 'Cells (page 3)'
+        }
+    ];
+
+    function query(db: any, sql: string): any[][] {
+
+        const results = db.exec(sql);
+
+        return results.length > 0 ? results[0].values : [];
+
+    }
+
+    it("createCollection", function() {
+
+        const db = new SQL.Database(ApkgSyncEngine.createCollection(flashcardRecords, 1550000000000));
+
+        try {
+
+            assert.deepEqual(query(db, 'select guid, tags, flds, sfld from notes order by id'), [
+                ['basic-guid', ' book two_words ', 'What is <b>polar</b>?\x1fA reader\x1fTitle (page 1)', 'What is polar?'],
+                ['cloze-guid', '', 'The {{c1::mitochondria}} is the {{c2::powerhouse}} of the {{c1::cell}}\x1fCells (page 3)',
+                 'The {{c1::mitochondria}} is the {{c2::powerhouse}} of the {{c1::cell}}']
+            ]);
+
+            // one card for the basic note and one for each cloze number.
+            assert.deepEqual(query(db, 'select n.guid, c.ord from cards c join notes n on n.id = c.nid order by c.id'), [
+                ['basic-guid', 0],
+                ['cloze-guid', 0],
+                ['cloze-guid', 1]
+            ]);
+
+            const [[models, decks]] = query(db, 'select models, decks from col');
+
+            assert.deepEqual(Object.values(JSON.parse(models)).map((model: any) => model.name).sort(),
+                             ['Polar Basic', 'Polar Cloze']);
+
+            assert.deepEqual(Object.values(JSON.parse(decks)).map((deck: any) => deck.name).sort(),
+                             ['Books::Polar', 'Default']);
+
+            // every card is in one of the decks
+            assert.equal(query(db, 'select count(*) from cards where did not in (' + Object.keys(JSON.parse(decks)).join(', ') + ')')[0][0], 0);
+
+        } finally {
+            db.close();
+        }
+
+    });
+
+    it("sync", async function() {
+
+        const path = FilePaths.join(tmpdir, 'apkg-sync-engine-test.apkg');
+
+        const apkgSyncEngine = new ApkgSyncEngine(path);
+
+        const pendingSyncJob = await apkgSyncEngine.sync([async () => MockDocMetas.createMockDocMeta()],
+                                                         () => { /* noop */ });
+
+        await pendingSyncJob.start();
+
+        const zip = await JSZip.loadAsync(await Files.readFileAsync(path));
+
+        assert.deepEqual(Object.keys(zip.files).sort(), ['collection.anki2', 'media']);
+
+        assert.equal(await zip.file('media').async('text'), '{}');
+
+        const db = new SQL.Database(await zip.file('collection.anki2').async('nodebuffer'));
+
+        try {
+            assert.equal(query(db, 'select count(*) from col')[0][0], 1);
+        } finally {
+            db.close();
+        }
+
+    });
+
+});
@@ -0,0 +1,107 @@
+import {SyncEngineDescriptor} from '../SyncEngineDescriptor';
+import {FileSyncEngine} from './FileSyncEngine';
+import {FlashcardRecord} from './FlashcardRecords';
+import {Files} from '../../../../util/Files';
+
+/**
+ * Writes flashcards to a CSV file with front, back, tags and source columns.
+ * Fields are HTML so the file can be imported into Anki with "Allow HTML in
+ * fields" enabled.
+ *
+ * Anki imports every row of a file as the same note type so cloze flashcards
+ * are written to a separate -cloze.csv file next to it with text, tags and
+ * source columns.  The text keeps the Anki cloze syntax.
+ */
+export class CSVSyncEngine extends FileSyncEngine {
+
+    public readonly descriptor: SyncEngineDescriptor = new CSVSyncEngineDescriptor();
+
+    constructor(path: string) {
+        super(path);
+    }
+
+    protected async write(flashcardRecords: ReadonlyArray<FlashcardRecord>): Promise<void> {
+
+        await Files.writeFileAsync(this.path, CSVSyncEngine.toCSV(flashcardRecords));
+
+        const clozePath = CSVSyncEngine.toClozePath(this.path);
+
+        if (flashcardRecords.filter(current => current.cloze).length > 0) {
+            await Files.writeFileAsync(clozePath, CSVSyncEngine.toClozeCSV(flashcardRecords));
+        } else {
+            // don't leave the clozes of an earlier export behind.
+            await Files.removeAsync(clozePath);
+        }
+
+    }
+
+    /**
+     * The front/back flashcards as CSV.
+     */
+    public static toCSV(flashcardRecords: ReadonlyArray<FlashcardRecord>): string {
+
+        const rows = flashcardRecords
+            .filter(current => ! current.cloze)
+            .map(current => [current.front, current.back, this.toTags(current), current.source]);
+
+        return this.format([['front', 'back', 'tags', 'source'], ...rows]);
+
+    }
+
+    /**
+     * The cloze flashcards as CSV.
+     */
+    public static toClozeCSV(flashcardRecords: ReadonlyArray<FlashcardRecord>): string {
+
+        const rows = flashcardRecords
+            .filter(current => current.cloze)
+            .map(current => [current.front, this.toTags(current), current.source]);
+
+        return this.format([['text', 'tags', 'source'], ...rows]);
+
+    }
+
+    /**
+     * The path of the file with the cloze flashcards (flashcards.csv becomes
+     * flashcards-cloze.csv).
+     */
+    public static toClozePath(path: string): string {
+        return path.replace(/(\.csv)?$/i, '-cloze.csv');
+    }
+
+    private static toTags(flashcardRecord: FlashcardRecord): string {
+        return flashcardRecord.tags.map(tag => tag.replace(/\s+/g, '_')).join(' ');
+    }
+
+    private static format(rows: ReadonlyArray<ReadonlyArray<string>>): string {
+
+        return rows.map(row => row.map(value => this.escape(value)).join(','))
+                   .join('\r\n') + '\r\n';
+
+    }
+
+    /**
+     * Quote a value per RFC 4180 when it contains a delimiter, quote or line
+     * break.
+     */
+    private static escape(value: string): string {
+
+        if (/[",\r\n]/.test(value)) {
+            return '"' + value.replace(/"/g, '""') + '"';
+        }
+
+        return value;
+
+    }
+
+}
+
+class CSVSyncEngineDescriptor implements SyncEngineDescriptor {
+
+    public readonly id: string = "3c9b6a1e-52f4-4d8e-9b0a-7d2f8e61c4a5";
+
+    public readonly name: string = "csv";
+
+    public readonly description: string = "Sync Engine for CSV deck files";
+
+}
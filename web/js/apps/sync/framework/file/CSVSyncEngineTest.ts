@@ -0,0 +1,121 @@
+import {assert} from 'chai';
+import os from 'os';
+import {CSVSyncEngine} from './CSVSyncEngine';
+import {Texts} from '../../../../metadata/Texts';
+import {TextType} from '../../../../metadata/TextType';
+import {Flashcards} from '../../../../metadata/Flashcards';
+import {FlashcardType} from '../../../../metadata/FlashcardType';
+import {MockDocMetas} from '../../../../metadata/DocMetas';
+import {FilePaths} from '../../../../util/FilePaths';
+import {Files} from '../../../../util/Files';
+import {SyncProgress} from '../SyncProgress';
+import {FlashcardRecord} from './FlashcardRecords';
+
+const tmpdir = os.tmpdir();
+
+describe('CSVSyncEngine', function() {
+
+    function createMockDocMeta() {
+
+        const docMeta = MockDocMetas.createMockDocMeta();
+
+        const front = Texts.create("What is <b>\"polar\"</b>?", TextType.HTML);
+        const back = Texts.create("A reader, with flashcards", TextType.HTML);
+
+        const flashcard = Flashcards.create(FlashcardType.BASIC_FRONT_BACK, {front, back}, "archetype", 'page:1');
+
+        docMeta.getPageMeta(1).flashcards[flashcard.id] = flashcard;
+
+        return docMeta;
+
+    }
+
+    it("toCSV", function() {
+
+        const flashcardRecords: FlashcardRecord[] = [
+            {
+                guid: '1',
+                deckName: 'Default',
+                cloze: false,
+                front: 'say "hello"',
+                back: 'line one\nline two',
+                tags: ['book', 'two words'],
+                source: 'Title, Subtitle (page 1)'
+            }
+        ];
+
+        assert.equal(CSVSyncEngine.toCSV(flashcardRecords),
+                     'front,back,tags,source\r\n' +
+                     '"say ""hello""","line one\nline two",book two_words,"Title, Subtitle (page 1)"\r\n');
+
+    });
+
+    it("toClozeCSV", function() {
+
+        const flashcardRecords: FlashcardRecord[] = [
+            {
+                guid: '1',
+                deckName: 'Default',
+                cloze: false,
+                front: 'front',
+                back: 'back',
+                tags: [],
+                source: 'Title (page 1)'
+            },
+            {
+                guid: '2',
+                deckName: 'Default',
+                cloze: true,
+                front: 'The {{c1::mitochondria}} is the powerhouse',
+                back: '',
+                tags: ['biology'],
+                source: 'Cells (page 3)'
+            }
+        ];
+
+        assert.equal(CSVSyncEngine.toCSV(flashcardRecords),
+                     'front,back,tags,source\r\n' +
+                     'front,back,,Title (page 1)\r\n');
+
+        assert.equal(CSVSyncEngine.toClozeCSV(flashcardRecords),
+                     'text,tags,source\r\n' +
+                     'The {{c1::mitochondria}} is the powerhouse,biology,Cells (page 3)\r\n');
+
+        assert.equal(CSVSyncEngine.toClozePath('/tmp/flashcards.csv'), '/tmp/flashcards-cloze.csv');
+        assert.equal(CSVSyncEngine.toClozePath('/tmp/flashcards'), '/tmp/flashcards-cloze.csv');
+
+    });
+
+    it("sync", async function() {
+
+        const path = FilePaths.join(tmpdir, 'csv-sync-engine-test.csv');
+
+        const syncProgresses: SyncProgress[] = [];
+
+        const csvSyncEngine = new CSVSyncEngine(path);
+
+        const docMeta = createMockDocMeta();
+
+        const pendingSyncJob = await csvSyncEngine.sync([async () => docMeta],
+                                                        syncProgress => syncProgresses.push(syncProgress));
+
+        await pendingSyncJob.start();
+
+        const lastProgress = syncProgresses[syncProgresses.length - 1];
+
+        assert.equal(lastProgress.percentage, 100);
+        assert.equal(lastProgress.diffs.length, 1);
+        assert.equal(lastProgress.diffs[0].type, 'created');
+
+        const data = (await Files.readFileAsync(path)).toString('utf-8');
+
+        assert.equal(data,
+                     'front,back,tags,source\r\n' +
+                     '"What is <b>""polar""</b>?","A reader, with flashcards",,Untitled (page 1)\r\n');
+
+        // there are no clozes
+        assert.isFalse(await Files.existsAsync(CSVSyncEngine.toClozePath(path)));
+
+    });
+
+});
@@ -0,0 +1,50 @@
+import {SyncEngine} from '../SyncEngine';
+import {SyncEngineDescriptor} from '../SyncEngineDescriptor';
+import {SyncProgressListener} from '../SyncProgressListener';
+import {PendingSyncJob} from '../SyncJob';
+import {DocMetaSupplierCollection} from '../../../../metadata/DocMetaSupplierCollection';
+import {FlashcardRecord, FlashcardRecords} from './FlashcardRecords';
+import {PendingFileSyncJob} from './FileSyncJob';
+
+/**
+ * Base class for sync engines that write all flashcards to a deck file so they
+ * can be imported into Anki (without AnkiConnect) or other SRS tools.
+ *
+ * The file is always written in full so every flashcard is reported as
+ * created.
+ */
+export abstract class FileSyncEngine implements SyncEngine {
+
+    public abstract readonly descriptor: SyncEngineDescriptor;
+
+    protected readonly path: string;
+
+    /**
+     * @param path The path of the deck file to write.
+     */
+    protected constructor(path: string) {
+        this.path = path;
+    }
+
+    public async sync(docMetaSupplierCollection: DocMetaSupplierCollection,
+                      progress: SyncProgressListener): Promise<PendingSyncJob> {
+
+        const flashcardRecords = await FlashcardRecords.toFlashcardRecords(docMetaSupplierCollection);
+
+        return new PendingFileSyncJob(progress,
+                                      flashcardRecords,
+                                      () => this.write(flashcardRecords));
+
+    }
+
+    /**
+     * Write the flashcards to the deck file at our path.
+     */
+    protected abstract write(flashcardRecords: ReadonlyArray<FlashcardRecord>): Promise<void>;
+
+}
+
+/**
+ * The deck file formats, named after the descriptor of their sync engine.
+ */
+export type FlashcardFileFormat = 'csv' | 'apkg';
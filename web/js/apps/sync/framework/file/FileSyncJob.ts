@@ -0,0 +1,86 @@
+import {SyncProgressListener} from '../SyncProgressListener';
+import {PendingSyncJob, StartedSyncJob} from '../SyncJob';
+import {SyncQueue} from '../SyncQueue';
+import {SyncTaskResult} from '../SyncTask';
+import {Optional} from '../../../../util/ts/Optional';
+import {FlashcardRecord} from './FlashcardRecords';
+
+abstract class FileSyncJob {
+
+    protected readonly syncProgressListener: SyncProgressListener;
+    protected readonly flashcardRecords: ReadonlyArray<FlashcardRecord>;
+    protected readonly writer: () => Promise<void>;
+
+    public constructor(syncProgressListener: SyncProgressListener,
+                       flashcardRecords: ReadonlyArray<FlashcardRecord>,
+                       writer: () => Promise<void>) {
+
+        this.syncProgressListener = syncProgressListener;
+        this.flashcardRecords = flashcardRecords;
+        this.writer = writer;
+
+    }
+
+}
+
+export class PendingFileSyncJob extends FileSyncJob implements PendingSyncJob {
+
+    public async start(): Promise<StartedSyncJob> {
+
+        const startedFileSyncJob = new StartedFileSyncJob(this.syncProgressListener,
+                                                          this.flashcardRecords,
+                                                          this.writer);
+        return startedFileSyncJob.run();
+
+    }
+
+}
+
+export class StartedFileSyncJob extends FileSyncJob implements StartedSyncJob {
+
+    public aborted = false;
+
+    public abort(): void {
+        this.aborted = true;
+    }
+
+    public async run(): Promise<this> {
+
+        const syncQueue = new SyncQueue(this, this.syncProgressListener);
+
+        // the file is only written once all the records have been accepted so
+        // that aborting never leaves a partial deck behind.
+
+        for (const flashcardRecord of this.flashcardRecords) {
+
+            syncQueue.add(async () => {
+
+                return Optional.of<SyncTaskResult>({
+                    message: `Writing flashcard from ${flashcardRecord.source}`,
+                    diff: {
+                        id: flashcardRecord.guid,
+                        type: 'created'
+                    }
+                });
+
+            });
+
+        }
+
+        syncQueue.add(async () => {
+
+            await this.writer();
+
+            return Optional.of<SyncTaskResult>({
+                message: `Wrote ${this.flashcardRecords.length} flashcards.`
+            });
+
+        });
+
+        await syncQueue.execute();
+
+        return this;
+
+    }
+
+}
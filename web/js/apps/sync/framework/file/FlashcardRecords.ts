@@ -0,0 +1,86 @@
+import {DocMetaSupplierCollection} from '../../../../metadata/DocMetaSupplierCollection';
+import {FlashcardDescriptors} from '../anki/FlashcardDescriptors';
+import {FlashcardDescriptor} from '../anki/FlashcardDescriptor';
+import {Text} from '../../../../metadata/Text';
+import {Optional} from '../../../../util/ts/Optional';
+import {DocInfos} from '../../../../metadata/DocInfos';
+import {FlashcardType} from '../../../../metadata/FlashcardType';
+
+/**
+ * Converts flashcards into the flat records written by the file based sync
+ * engines.
+ */
+export class FlashcardRecords {
+
+    public static async toFlashcardRecords(docMetaSupplierCollection: DocMetaSupplierCollection): Promise<FlashcardRecord[]> {
+
+        const flashcardDescriptors = await FlashcardDescriptors.toFlashcardDescriptors(docMetaSupplierCollection);
+
+        return flashcardDescriptors.map(current => this.toFlashcardRecord(current));
+
+    }
+
+    public static toFlashcardRecord(flashcardDescriptor: FlashcardDescriptor): FlashcardRecord {
+
+        const {docMeta, pageInfo, flashcard} = flashcardDescriptor;
+
+        const docInfo = docMeta.docInfo;
+
+        const fields = flashcard.fields || {};
+
+        const cloze = flashcard.type === FlashcardType.CLOZE || fields.text !== undefined;
+
+        const tags = Optional.of(docInfo.tags)
+            .map(current => Object.values(current))
+            .getOrElse([])
+            .map(tag => tag.label)
+            .filter(label => ! label.startsWith('deck:'));
+
+        return {
+            guid: flashcard.guid,
+            deckName: FlashcardDescriptors.toDeckName('per-document', docInfo),
+            cloze,
+            front: cloze ? this.toHTML(fields.text) : this.toHTML(fields.front),
+            back: cloze ? '' : this.toHTML(fields.back),
+            tags,
+            source: `${DocInfos.bestTitle(docInfo)} (page ${pageInfo.num})`
+        };
+
+    }
+
+    private static toHTML(text?: Text): string {
+
+        if (! text) {
+            return '';
+        }
+
+        return Optional.of(text.HTML || text.TEXT || text.MARKDOWN).getOrElse('');
+
+    }
+
+}
+
+export interface FlashcardRecord {
+
+    readonly guid: string;
+
+    readonly deckName: string;
+
+    /**
+     * True when the front is a cloze deletion in the Anki syntax
+     * ({{c1::answer}}) and there is no back.
+     */
+    readonly cloze: boolean;
+
+    readonly front: string;
+
+    readonly back: string;
+
+    readonly tags: ReadonlyArray<string>;
+
+    /**
+     * The document and page the flashcard was created from.
+     */
+    readonly source: string;
+
+}
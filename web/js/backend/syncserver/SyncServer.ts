@@ -0,0 +1,464 @@
+import express, {Express, RequestHandler} from 'express';
+import crypto from 'crypto';
+import * as http from 'http';
+import WebSocket from 'ws';
+import {SyncServerConfig} from './SyncServerConfig';
+import {FILE_META_HEADER, SyncServerEvent} from './SyncServerEvent';
+import {Logger} from '../../logger/Logger';
+import {Preconditions} from '../../Preconditions';
+import {DiskDatastore} from '../../datastore/DiskDatastore';
+import {GlobalDataDir} from '../../datastore/Directories';
+import {Backend} from '../../datastore/Backend';
+import {FileMeta, FileRef, MutationType} from '../../datastore/Datastore';
+import {DatastoreFiles} from '../../datastore/DatastoreFiles';
+import {DocMetaFileRefs} from '../../datastore/DocMetaRef';
+import {DocMetas} from '../../metadata/DocMetas';
+import {IDocInfo} from '../../metadata/DocInfo';
+
+const log = Logger.create();
+
+/**
+ * Fingerprints are used as directory names in the datastore so anything else
+ * (like '..') is rejected.
+ */
+const FINGERPRINT_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * A small self hosted server for syncing a Polar repository between devices
+ * without Firebase.  Documents and files are kept in a DiskDatastore on the
+ * server and clients (the SyncServerDatastore) use the HTTP API to read and
+ * write them and a web socket to be told when another client changed a
+ * document.
+ *
+ * See README.md for the API.
+ */
+export class SyncServer {
+
+    private readonly config: SyncServerConfig;
+
+    private readonly datastore: DiskDatastore;
+
+    /**
+     * The DocInfo of every document on the server so that we can list them
+     * without reading every DocMeta.
+     */
+    private readonly docInfoIndex: {[fingerprint: string]: IDocInfo} = {};
+
+    private app?: Express;
+
+    private server?: http.Server;
+
+    private webSocketServer?: WebSocket.Server;
+
+    constructor(config: SyncServerConfig) {
+        this.config = Preconditions.assertNotNull(config, "config");
+        this.datastore = SyncServer.createDatastore(config.dir);
+    }
+
+    public async start(): Promise<void> {
+
+        log.info("Running with data dir: " + this.config.dir);
+
+        await this.datastore.init();
+        await this.loadDocInfoIndex();
+
+        this.app = express();
+
+        this.app.use((req, res, next) => {
+
+            // the repository is served from another origin.
+            res.set({
+                'Access-Control-Allow-Origin': '*',
+                'Access-Control-Allow-Methods': 'GET, HEAD, PUT, DELETE',
+                'Access-Control-Allow-Headers': `Authorization, Content-Type, ${FILE_META_HEADER}`,
+                'Access-Control-Expose-Headers': FILE_META_HEADER
+            });
+
+            if (req.method === 'OPTIONS') {
+                res.sendStatus(204);
+                return;
+            }
+
+            if (! this.isAuthorized(req.headers.authorization, req.query.token)) {
+                res.status(401).send("Unauthorized");
+                return;
+            }
+
+            next();
+
+        });
+
+        this.app.use(express.json({limit: '100mb'}));
+
+        this.registerDocsHandlers();
+        this.registerFilesHandlers();
+
+        this.server = http.createServer(this.app)
+            .listen(this.config.port, this.config.host);
+
+        this.webSocketServer = new WebSocket.Server({
+            server: this.server,
+            path: '/api/v1/events',
+            verifyClient: (info: {req: http.IncomingMessage}) => {
+                const url = new URL(info.req.url || '/', 'http://localhost');
+                return this.isAuthorized(info.req.headers.authorization, url.searchParams.get('token'));
+            }
+        });
+
+        return new Promise<void>(resolve => {
+            this.server!.once('listening', () => resolve());
+        });
+
+    }
+
+    public async stop(): Promise<void> {
+
+        log.info("Stopping...");
+
+        for (const client of Array.from(this.webSocketServer!.clients)) {
+            client.terminate();
+        }
+
+        await new Promise(resolve => this.webSocketServer!.close(() => resolve()));
+        await new Promise(resolve => this.server!.close(() => resolve()));
+
+        log.info("Stopping...done");
+
+    }
+
+    private registerDocsHandlers() {
+
+        const app = this.app!;
+
+        app.get('/api/v1/docs', this.createHandler(async (req, res) => {
+            res.json({docInfos: Object.values(this.docInfoIndex)});
+        }));
+
+        app.get('/api/v1/docs/:fingerprint', this.createDocHandler(async (req, res, fingerprint) => {
+
+            const data = await this.datastore.getDocMeta(fingerprint);
+
+            if (data === null) {
+                res.status(404).send("Document not found");
+                return;
+            }
+
+            res.type('application/json').send(data);
+
+        }));
+
+        app.put('/api/v1/docs/:fingerprint', this.createDocHandler(async (req, res, fingerprint) => {
+
+            const {data, docInfo} = req.body;
+
+            if (typeof data !== 'string' || ! docInfo || docInfo.fingerprint !== fingerprint) {
+                res.status(400).send("Invalid document");
+                return;
+            }
+
+            const mutationType: MutationType = this.docInfoIndex[fingerprint] ? 'updated' : 'created';
+
+            await this.datastore.write(fingerprint, data, docInfo);
+            this.docInfoIndex[fingerprint] = docInfo;
+
+            this.broadcast({mutationType, docInfo});
+
+            res.json({});
+
+        }));
+
+        app.delete('/api/v1/docs/:fingerprint', this.createDocHandler(async (req, res, fingerprint) => {
+
+            const docInfo = this.docInfoIndex[fingerprint];
+
+            if (docInfo) {
+
+                await this.datastore.delete(DocMetaFileRefs.createFromDocInfo(docInfo));
+                delete this.docInfoIndex[fingerprint];
+
+                this.broadcast({mutationType: 'deleted', docInfo});
+
+            }
+
+            // deletes are idempotent so a missing document is fine.
+            res.json({});
+
+        }));
+
+    }
+
+    private registerFilesHandlers() {
+
+        const app = this.app!;
+
+        // this also handles HEAD requests which clients use to get the meta
+        // without the data.
+        app.get('/api/v1/files/:backend/:name', this.createFileHandler(async (req, res, backend, ref) => {
+
+            const datastoreFile = await this.datastore.getFile(backend, ref);
+
+            if (! datastoreFile.isPresent()) {
+                res.status(404).send("File not found");
+                return;
+            }
+
+            res.set(FILE_META_HEADER, encodeURIComponent(JSON.stringify(datastoreFile.get().meta)));
+            res.sendFile(this.datastore.getFilePath(backend, ref));
+
+        }));
+
+        app.put('/api/v1/files/:backend/:name', this.createFileHandler(async (req, res, backend, ref) => {
+
+            const meta = this.parseFileMeta(req.get(FILE_META_HEADER));
+
+            if (! meta) {
+                res.status(400).send("Invalid file meta");
+                return;
+            }
+
+            const data = await this.readBody(req);
+
+            await this.datastore.writeFile(backend, ref, data, meta);
+
+            res.json({});
+
+        }));
+
+        app.delete('/api/v1/files/:backend/:name', this.createFileHandler(async (req, res, backend, ref) => {
+
+            await this.datastore.deleteFile(backend, ref);
+
+            res.json({});
+
+        }));
+
+    }
+
+    private async loadDocInfoIndex() {
+
+        for (const docMetaRef of await this.datastore.getDocMetaFiles()) {
+
+            const data = await this.datastore.getDocMeta(docMetaRef.fingerprint);
+
+            if (data) {
+                const docMeta = DocMetas.deserialize(data, docMetaRef.fingerprint);
+                this.docInfoIndex[docMetaRef.fingerprint] = docMeta.docInfo;
+            }
+
+        }
+
+        log.info(`Loaded ${Object.keys(this.docInfoIndex).length} documents`);
+
+    }
+
+    private broadcast(event: SyncServerEvent) {
+
+        const message = JSON.stringify(event);
+
+        for (const client of Array.from(this.webSocketServer!.clients)) {
+
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(message);
+            }
+
+        }
+
+    }
+
+    private isAuthorized(authorization: string | undefined, token: string | null | undefined) {
+
+        if (! this.config.token) {
+            return true;
+        }
+
+        return this.isTokenEqual(authorization, `Bearer ${this.config.token}`) ||
+               this.isTokenEqual(token, this.config.token);
+
+    }
+
+    /**
+     * Compare in constant time so the token can't be guessed from how long
+     * the comparison takes.  Both sides are hashed first since timingSafeEqual
+     * requires buffers of the same length.
+     */
+    private isTokenEqual(value: string | null | undefined, expected: string) {
+
+        if (typeof value !== 'string') {
+            return false;
+        }
+
+        const hash = (data: string) => crypto.createHash('sha256').update(data).digest();
+
+        return crypto.timingSafeEqual(hash(value), hash(expected));
+
+    }
+
+    private toBackend(value: string): Backend | undefined {
+        return Object.values(Backend).find(current => current === value);
+    }
+
+    /**
+     * Parse the meta sent by the client or return undefined when it's not
+     * valid.
+     */
+    private parseFileMeta(header: string | undefined): FileMeta | undefined {
+
+        if (! header) {
+            return {};
+        }
+
+        try {
+
+            const meta = JSON.parse(decodeURIComponent(header));
+
+            if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) {
+                return undefined;
+            }
+
+            return meta;
+
+        } catch (e) {
+            return undefined;
+        }
+
+    }
+
+    private readBody(req: express.Request): Promise<Buffer> {
+
+        return new Promise<Buffer>((resolve, reject) => {
+
+            const chunks: Buffer[] = [];
+
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => resolve(Buffer.concat(chunks)));
+            req.on('error', err => reject(err));
+
+        });
+
+    }
+
+    private createHandler(handler: (req: express.Request, res: express.Response) => Promise<void>): RequestHandler {
+
+        return (req: express.Request, res: express.Response) => {
+
+            handler(req, res)
+                .catch(err => {
+                    log.error(`Could not handle ${req.method} ${req.path}`, err);
+                    res.status(500).send(err.message);
+                });
+
+        };
+
+    }
+
+    /**
+     * Like createHandler but rejects requests for an invalid fingerprint
+     * before the handler sees them.
+     */
+    private createDocHandler(handler: (req: express.Request,
+                                       res: express.Response,
+                                       fingerprint: string) => Promise<void>): RequestHandler {
+
+        return this.createHandler(async (req, res) => {
+
+            const fingerprint = req.params.fingerprint;
+
+            if (! FINGERPRINT_PATTERN.test(fingerprint)) {
+                res.status(400).send("Invalid fingerprint");
+                return;
+            }
+
+            await handler(req, res, fingerprint);
+
+        });
+
+    }
+
+    /**
+     * Like createHandler but rejects requests for an unknown backend or an
+     * invalid file name before the handler sees them.  The names are used as
+     * file names in the stash so anything with a path separator or starting
+     * with a '.' (like '..') is rejected.
+     */
+    private createFileHandler(handler: (req: express.Request,
+                                        res: express.Response,
+                                        backend: Backend,
+                                        ref: FileRef) => Promise<void>): RequestHandler {
+
+        return this.createHandler(async (req, res) => {
+
+            const backend = this.toBackend(req.params.backend);
+
+            if (! backend) {
+                res.status(400).send("Invalid backend");
+                return;
+            }
+
+            const name = req.params.name;
+
+            if (! DatastoreFiles.isSanitizedFileName(name) || name.startsWith('.')) {
+                res.status(400).send("Invalid file name");
+                return;
+            }
+
+            await handler(req, res, backend, {name});
+
+        });
+
+    }
+
+    /**
+     * The DiskDatastore resolves its directories when it's created so we point
+     * it to the server dir just for that.
+     */
+    private static createDatastore(dir: string): DiskDatastore {
+
+        const dataDir = GlobalDataDir.get();
+
+        try {
+            GlobalDataDir.set(dir);
+            return new DiskDatastore();
+        } finally {
+            GlobalDataDir.set(dataDir);
+        }
+
+    }
+
+}
+
+function main() {
+
+    const args: {[name: string]: string} = {};
+
+    const argv = process.argv.slice(2);
+
+    for (let idx = 0; idx < argv.length - 1; idx += 2) {
+        args[argv[idx].replace(/^--/, '')] = argv[idx + 1];
+    }
+
+    if (! args.dir) {
+        console.error("Usage: SyncServer.js --dir <data dir> [--port 8700] [--host 127.0.0.1] [--token <token>]");
+        process.exit(1);
+    }
+
+    const token = args.token || process.env.POLAR_SYNC_SERVER_TOKEN;
+
+    const config = new SyncServerConfig(args.dir,
+                                        args.port ? parseInt(args.port, 10) : undefined,
+                                        args.host,
+                                        token);
+
+    const syncServer = new SyncServer(config);
+
+    syncServer.start()
+        .then(() => log.notice(`Sync server listening on http://${config.host}:${config.port}`))
+        .catch(err => {
+            log.error("Unable to start sync server: ", err);
+            process.exit(1);
+        });
+
+}
+
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,26 @@
+import {Preconditions} from '../../Preconditions';
+
+export class SyncServerConfig {
+
+    /**
+     * The data directory where the server keeps the documents and files.
+     */
+    public readonly dir: string;
+
+    public readonly port: number;
+
+    public readonly host: string;
+
+    /**
+     * When set clients must send this token with every request.
+     */
+    public readonly token?: string;
+
+    constructor(dir: string, port: number = 8700, host: string = "127.0.0.1", token?: string) {
+        this.dir = Preconditions.assertNotNull(dir, "dir");
+        this.port = Preconditions.assertNotNull(port, "port");
+        this.host = host;
+        this.token = token;
+    }
+
+}
@@ -0,0 +1,19 @@
+import {MutationType} from '../../datastore/Datastore';
+import {IDocInfo} from '../../metadata/DocInfo';
+
+/**
+ * Sent to every connected client over the /api/v1/events web socket when a
+ * document is written or deleted on the sync server.
+ */
+export interface SyncServerEvent {
+
+    readonly mutationType: MutationType;
+
+    readonly docInfo: IDocInfo;
+
+}
+
+/**
+ * The header holding the (URI encoded JSON) FileMeta of a file.
+ */
+export const FILE_META_HEADER = 'x-polar-file-meta';
@@ -0,0 +1,205 @@
+import {Directories} from '../datastore/Directories';
+import {Files} from '../util/Files';
+import {FilePaths} from '../util/FilePaths';
+import {Logger} from '../logger/Logger';
+import {AdBlockRule, AdBlockRules} from './renderer/AdBlockRules';
+
+const log = Logger.create();
+
+/**
+ * The name of the user editable filter list within the filter list dir.
+ */
+const USER_FILTER_LIST = 'user.txt';
+
+/**
+ * The rules we ship with for the clutter that's common on news sites and
+ * blogs.  These are applied in addition to any filter lists the user installs.
+ */
+const DEFAULT_FILTER_LIST = `
+! cookie and consent banners
+##.cookie-banner
+##.cookie-consent
+##.cookie-notice
+##.cookies-banner
+##.gdpr-banner
+##.gdpr-consent
+##.consent-banner
+##.cc-window
+##.qc-cmp-ui-container
+##.qc-cmp2-container
+##.fc-consent-root
+##[id^="sp_message_container"]
+##[id^="onetrust-"]
+##.optanon-alert-box-wrapper
+##.truste_box_overlay
+###CybotCookiebotDialog
+##.evidon-banner
+! newsletter and subscription modals
+##.newsletter-modal
+##.newsletter-popup
+##.newsletter-signup-modal
+##.subscribe-modal
+##.subscription-modal
+##.tp-modal
+##.tp-backdrop
+##.paywall-modal
+##.modal-backdrop
+! sidebars and social widgets
+##aside.sidebar
+##.sidebar-ads
+##.social-share-bar
+##.share-bar-sticky
+##.outbrain
+##.OUTBRAIN
+##.taboola
+##[id^="taboola-"]
+! ad slots
+##.ad-slot
+##.adsbygoogle
+##[id^="div-gpt-ad"]
+##.dfp-ad
+`;
+
+/**
+ * Loads the filter lists used to block ads and clutter when capturing web
+ * pages.
+ *
+ * Filter lists use the EasyList syntax and are kept in the adblock directory
+ * within the config dir.  Any *.txt file placed there (for example a
+ * downloaded copy of EasyList) is loaded along with the user's own rules in
+ * user.txt which can be edited per domain from the capture UI.
+ */
+export class AdBlockFilterLists {
+
+    public readonly dir: string;
+
+    constructor(dir: string = FilePaths.join(new Directories().configDir, "adblock")) {
+        this.dir = dir;
+    }
+
+    /**
+     * Load the rules from the default list, all installed filter lists and
+     * the user list.
+     */
+    public async load(): Promise<AdBlockRule[]> {
+
+        const result = AdBlockRules.parse(DEFAULT_FILTER_LIST, 'default');
+
+        for (const name of await this.listFilterLists()) {
+
+            try {
+                const data = await Files.readFileAsync(FilePaths.join(this.dir, name));
+                result.push(...AdBlockRules.parse(data.toString('utf-8'), name));
+            } catch (e) {
+                log.error("Unable to load filter list: " + name, e);
+            }
+
+        }
+
+        log.info(`Loaded ${result.length} ad block rules`);
+
+        return result;
+
+    }
+
+    /**
+     * Get the user's rules which are specific to the given domain.
+     */
+    public async getDomainRules(domain: string): Promise<DomainRules> {
+
+        domain = domain.toLowerCase();
+
+        const rules = AdBlockRules.parse(await this.readUserList())
+                                  .filter(rule => this.isDomainRule(rule, domain));
+
+        return {
+            domain,
+            blocked: rules.filter(rule => ! rule.exception).map(rule => rule.selector),
+            allowed: rules.filter(rule => rule.exception).map(rule => rule.selector)
+        };
+
+    }
+
+    /**
+     * Replace the user's rules for the given domain.  Rules for other domains
+     * and comments in the user list are kept.
+     */
+    public async setDomainRules(domainRules: DomainRules): Promise<void> {
+
+        const domain = domainRules.domain.toLowerCase();
+
+        const lines = (await this.readUserList())
+            .split(/\r?\n/)
+            .filter(line => {
+                const rule = AdBlockRules.parseLine(line);
+                return ! rule || ! this.isDomainRule(rule, domain);
+            });
+
+        // drop trailing blank lines so that they don't accumulate.
+        while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+            lines.pop();
+        }
+
+        const toRule = (selector: string, exception: boolean): AdBlockRule => {
+            return {selector: selector.trim(), domains: [domain], excludedDomains: [], exception};
+        };
+
+        const selectors = (values: ReadonlyArray<string>) => values.filter(value => value.trim() !== '');
+
+        lines.push(...selectors(domainRules.blocked).map(selector => AdBlockRules.format(toRule(selector, false))));
+        lines.push(...selectors(domainRules.allowed).map(selector => AdBlockRules.format(toRule(selector, true))));
+
+        await Files.createDirAsync(this.dir);
+        await Files.writeFileAsync(FilePaths.join(this.dir, USER_FILTER_LIST), lines.join('\n') + '\n');
+
+    }
+
+    private isDomainRule(rule: AdBlockRule, domain: string) {
+        return rule.domains.length === 1 && rule.domains[0] === domain && rule.excludedDomains.length === 0;
+    }
+
+    private async readUserList(): Promise<string> {
+
+        const path = FilePaths.join(this.dir, USER_FILTER_LIST);
+
+        if (! await Files.existsAsync(path)) {
+            return '';
+        }
+
+        return (await Files.readFileAsync(path)).toString('utf-8');
+
+    }
+
+    private async listFilterLists(): Promise<string[]> {
+
+        if (! await Files.existsAsync(this.dir)) {
+            return [];
+        }
+
+        const names = await Files.readdirAsync(this.dir);
+
+        return names.filter(name => name.endsWith('.txt')).sort();
+
+    }
+
+}
+
+/**
+ * The user's rules for a single domain.
+ */
+export interface DomainRules {
+
+    readonly domain: string;
+
+    /**
+     * Selectors of elements to remove.
+     */
+    readonly blocked: ReadonlyArray<string>;
+
+    /**
+     * Selectors which shouldn't be removed on this domain even though another
+     * filter list blocks them.
+     */
+    readonly allowed: ReadonlyArray<string>;
+
+}
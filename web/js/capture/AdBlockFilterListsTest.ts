@@ -0,0 +1,51 @@
+import {assert} from 'chai';
+import os from 'os';
+import {AdBlockFilterLists} from './AdBlockFilterLists';
+import {FilePaths} from '../util/FilePaths';
+import {Files} from '../util/Files';
+
+const tmpdir = os.tmpdir();
+
+describe('AdBlockFilterLists', function() {
+
+    const dir = FilePaths.join(tmpdir, 'adblock-filter-lists-test');
+
+    let filterLists: AdBlockFilterLists;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dir);
+        await Files.createDirAsync(dir);
+
+        filterLists = new AdBlockFilterLists(dir);
+
+    });
+
+    it("load installed filter lists", async function() {
+
+        await Files.writeFileAsync(FilePaths.join(dir, 'easylist.txt'), "! EasyList\n##.ad-banner\n");
+
+        const rules = await filterLists.load();
+
+        assert.ok(rules.some(rule => rule.source === 'default'));
+        assert.ok(rules.some(rule => rule.source === 'easylist.txt' && rule.selector === '.ad-banner'));
+
+    });
+
+    it("edit the rules for a domain", async function() {
+
+        await Files.writeFileAsync(FilePaths.join(dir, 'user.txt'), "! my rules\nother.com##.popup\nexample.com##.old\n");
+
+        await filterLists.setDomainRules({domain: 'example.com', blocked: ['.sidebar', ' '], allowed: ['.cookie-banner']});
+
+        assert.deepEqual(await filterLists.getDomainRules('example.com'),
+                         {domain: 'example.com', blocked: ['.sidebar'], allowed: ['.cookie-banner']});
+
+        const data = await Files.readFileAsync(FilePaths.join(dir, 'user.txt'));
+
+        assert.equal(data.toString('utf-8'),
+                     "! my rules\nother.com##.popup\nexample.com##.sidebar\nexample.com#@#.cookie-banner\n");
+
+    });
+
+});
@@ -0,0 +1,171 @@
+import {Logger} from '../logger/Logger';
+import {Browser} from './Browser';
+import {BrowserProfiles} from './BrowserProfiles';
+import {Capture} from './Capture';
+import {CaptureResult} from './CaptureResult';
+import {PHZImporter} from '../apps/repository/importers/PHZImporter';
+import {PersistenceLayer} from '../datastore/PersistenceLayer';
+import {Tag} from '../tags/Tag';
+
+const log = Logger.create();
+
+/**
+ * Captures a list of URLs one at a time and imports each into the repository.
+ * Used from the command line (see scripts/capture-batch.ts) so that a reading
+ * list can be archived without any interaction.
+ */
+export class BatchCapture {
+
+    private readonly persistenceLayer: PersistenceLayer;
+
+    private readonly opts: BatchCaptureOpts;
+
+    private readonly phzImporter: PHZImporter;
+
+    constructor(persistenceLayer: PersistenceLayer, opts: BatchCaptureOpts) {
+        this.persistenceLayer = persistenceLayer;
+        this.opts = opts;
+        this.phzImporter = new PHZImporter({get: () => this.persistenceLayer});
+    }
+
+    /**
+     * Capture every URL.  A failure for one URL doesn't stop the others.
+     *
+     * @param listener Called with the result of each URL as soon as it's
+     * done.
+     */
+    public async execute(urls: ReadonlyArray<string>,
+                         listener: (result: BatchCaptureResult) => void = () => { /* noop */ }): Promise<BatchCaptureResult[]> {
+
+        const results: BatchCaptureResult[] = [];
+
+        for (const url of urls) {
+
+            let result: BatchCaptureResult;
+
+            try {
+                result = await this.captureURL(url);
+            } catch (e) {
+                log.error("Unable to capture: " + url, e);
+                result = {url, status: 'failed', error: e.message};
+            }
+
+            results.push(result);
+            listener(result);
+
+        }
+
+        return results;
+
+    }
+
+    private async captureURL(url: string): Promise<BatchCaptureResult> {
+
+        log.info("Capturing: " + url);
+
+        const browserProfile = BrowserProfiles.toBrowserProfile(this.opts.browser, this.opts.profile);
+
+        // we already know all the inputs here...
+        browserProfile.navigation.navigated.dispatchEvent({link: url});
+        browserProfile.navigation.captured.dispatchEvent({});
+
+        const capture = new Capture(browserProfile, {
+            amp: this.opts.amp,
+            readerMode: this.opts.readerMode
+        });
+
+        const captureResult = await this.withTimeout(capture, url);
+
+        const fileImportResult
+            = await this.phzImporter.importFileWithStatus(captureResult.path, this.opts.tags);
+
+        const status = fileImportResult.status === 'imported' ? 'imported' : 'duplicate';
+
+        return {
+            url,
+            status,
+            fingerprint: fileImportResult.fingerprint,
+            path: captureResult.path,
+            title: fileImportResult.importedFile ? fileImportResult.importedFile.docInfo.title : undefined
+        };
+
+    }
+
+    /**
+     * Start the capture and destroy it when it fails or doesn't finish in
+     * time so that its hidden window doesn't stay open while we move on to
+     * the next URL.
+     */
+    private withTimeout(capture: Capture, url: string): Promise<CaptureResult> {
+
+        return new Promise<CaptureResult>((resolve, reject) => {
+
+            const timeout = setTimeout(() => {
+                capture.destroy();
+                reject(new Error(`Timed out after ${this.opts.timeout}ms capturing: ${url}`));
+            }, this.opts.timeout);
+
+            capture.start().then(result => {
+                clearTimeout(timeout);
+                resolve(result);
+            }).catch(err => {
+                clearTimeout(timeout);
+                capture.destroy();
+                reject(err);
+            });
+
+        });
+
+    }
+
+}
+
+export interface BatchCaptureOpts {
+
+    readonly browser: Browser;
+
+    /**
+     * The name of the browser profile to use (see BrowserProfiles).
+     */
+    readonly profile: string;
+
+    readonly amp: boolean;
+
+    readonly readerMode: boolean;
+
+    /**
+     * The tags to add to every imported doc.
+     */
+    readonly tags: ReadonlyArray<Tag>;
+
+    /**
+     * The maximum time to wait for each URL in milliseconds.
+     */
+    readonly timeout: number;
+
+}
+
+export type BatchCaptureStatus = 'imported' | 'duplicate' | 'failed';
+
+/**
+ * The result for one URL.  Printed as one line of JSON by the command line
+ * tool.
+ */
+export interface BatchCaptureResult {
+
+    readonly url: string;
+
+    readonly status: BatchCaptureStatus;
+
+    readonly fingerprint?: string;
+
+    /**
+     * The path of the captured PHZ file.
+     */
+    readonly path?: string;
+
+    readonly title?: string;
+
+    readonly error?: string;
+
+}
@@ -18,6 +18,7 @@ import BrowserRegistry from './BrowserRegistry';
 import {BrowserProfiles} from './BrowserProfiles';
 import {Objects} from '../util/Objects';
 import {Latch} from '../util/Latch';
+import {AdBlockFilterLists} from './AdBlockFilterLists';
 
 const log = Logger.create();
 
@@ -157,6 +158,17 @@ export class Capture {
 
     }
 
+    /**
+     * Stop the capture and close its window, e.g. when it's taking too long.
+     */
+    public destroy() {
+
+        this.stop();
+
+        Optional.of(this.driver).when(driver => driver.destroy());
+
+    }
+
     /**
      * Called when the onLoad handler is executed and we're ready to start the
      * capture.
@@ -197,8 +209,12 @@ export class Capture {
 
     public async executeContentCapture() {
 
+        const adBlockRules = this.captureOpts.adBlockRules || await new AdBlockFilterLists().load();
+
         const captureResult
-            = await ContentCaptureExecutor.execute(this.webContents!, this.driver!.browserProfile);
+            = await ContentCaptureExecutor.execute(this.webContents!,
+                                                   this.driver!.browserProfile,
+                                                   {adBlockRules, readerMode: this.captureOpts.readerMode});
 
         if (this.browserProfile.destroy) {
             Optional.of(this.driver).when(driver => driver.destroy());
@@ -1,5 +1,6 @@
 import {PendingWebRequestsCallback} from '../webrequests/PendingWebRequestsListener';
 import {Capture} from './Capture';
+import {AdBlockRule} from './renderer/AdBlockRules';
 
 export interface CaptureOpts {
 
@@ -29,6 +30,20 @@ export interface CaptureOpts {
      */
     readonly title?: string;
 
+    /**
+     * The cosmetic filter rules used to remove ads and clutter from the
+     * captured page.  When not given the rules are loaded from the
+     * AdBlockFilterLists.
+     */
+    readonly adBlockRules?: ReadonlyArray<AdBlockRule>;
+
+    /**
+     * When true, capture just the main article content along with its author,
+     * published date and lead image instead of the whole page.  The page as
+     * originally captured is kept as an alternate resource in the PHZ.
+     */
+    readonly readerMode?: boolean;
+
 }
 
 export class DefaultCaptureOpts implements CaptureOpts {
@@ -10,6 +10,7 @@ import {Directories} from '../datastore/Directories';
 import {CaptureResult} from './CaptureResult';
 import {Hashcodes} from '../Hashcodes';
 import {Captured} from './renderer/Captured';
+import {ContentCaptureOpts} from './renderer/ContentCapture';
 
 const log = Logger.create();
 
@@ -19,7 +20,9 @@ export class ContentCaptureExecutor {
 
     private static directories = new Directories();
 
-    public static async execute(webContents: WebContents, browserProfile: BrowserProfile): Promise<CaptureResult> {
+    public static async execute(webContents: WebContents,
+                                browserProfile: BrowserProfile,
+                                contentCaptureOpts: ContentCaptureOpts = {}): Promise<CaptureResult> {
 
         // TODO: this function should be cleaned up a bit.. it has too many moving
         // parts now and should be moved into smaller functions.
@@ -33,7 +36,9 @@ export class ContentCaptureExecutor {
         // this more aggressively.
         try {
 
-            const result: IResult<Captured> = await webContents.executeJavaScript("ContentCapture.execute()");
+            const script = `ContentCapture.execute(${JSON.stringify(contentCaptureOpts)})`;
+
+            const result: IResult<Captured> = await webContents.executeJavaScript(script);
             captured = Results.create<Captured>(result).get();
 
         } catch (e) {
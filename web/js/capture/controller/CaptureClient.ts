@@ -10,11 +10,12 @@ export class CaptureClient {
      * Send a message to the main process to start the capture for us.
      *
      */
-    public static startCapture(url: string, webContentsId?: number) {
+    public static startCapture(url: string, webContentsId?: number, readerMode?: boolean) {
 
         const startCaptureMessage: StartCaptureMessage = {
             url,
-            webContentsId
+            webContentsId,
+            readerMode
         };
 
         log.info("Sending message to start capture: ", startCaptureMessage);
@@ -27,5 +28,10 @@ export class CaptureClient {
 export interface StartCaptureMessage {
     readonly url: string;
     readonly webContentsId?: number;
+
+    /**
+     * Capture just the article.  See CaptureOpts.readerMode.
+     */
+    readonly readerMode?: boolean;
 }
 
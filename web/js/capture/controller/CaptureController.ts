@@ -37,7 +37,7 @@ export class CaptureController {
 
         ipcMain.on('capture-controller-start-capture', (event: Electron.Event, message: StartCaptureMessage) => {
 
-            this.startCapture(event.sender, message.url)
+            this.startCapture(event.sender, message.url, message.readerMode)
                 .catch( err => log.error("Could not start capture: ", err));
 
         });
@@ -50,12 +50,14 @@ export class CaptureController {
      * box that started the whole capture.
      *
      * @param url {string}
+     *
+     * @param readerMode {boolean} True to capture just the article.
      */
-    protected async startCapture(webContents: Electron.WebContents, url: string) {
+    protected async startCapture(webContents: Electron.WebContents, url: string, readerMode: boolean = false) {
 
         webContents = await this.loadApp(webContents, url);
 
-        const captureResult = await this.runCapture(webContents, url);
+        const captureResult = await this.runCapture(webContents, url, readerMode);
         //
         // let captureResult = {
         //     path: "/home/burton/.polar/stash/UK_unveils_new_Tempest_fighter_jet_model___BBC_News.phz"
@@ -102,8 +104,10 @@ export class CaptureController {
      *
      * @param url The URL to capture.
      *
+     * @param readerMode True to capture just the article.
+     *
      */
-    private async runCapture(webContents: Electron.WebContents, url: string) {
+    private async runCapture(webContents: Electron.WebContents, url: string, readerMode: boolean) {
 
         Preconditions.assertNotNull(webContents, "webContents");
 
@@ -111,7 +115,8 @@ export class CaptureController {
 
         const captureOpts: CaptureOpts = {
             pendingWebRequestsCallback: (event) => progressForwarder.pendingWebRequestsCallback(event),
-            amp: true
+            amp: true,
+            readerMode
         };
 
         const browser = BrowserRegistry.DEFAULT;
@@ -1,11 +1,17 @@
 import {Logger} from '../../logger/Logger';
 import {CaptureClient} from './CaptureClient';
+import {AdBlockFilterLists} from '../AdBlockFilterLists';
+import {AdBlockRules} from '../renderer/AdBlockRules';
+
+const log = Logger.create();
 
 /**
  * @renderer
  */
 export class StartCaptureUI {
 
+    private readonly adBlockFilterLists = new AdBlockFilterLists();
+
     constructor() {
         console.log("Ready to start capture...xxx");
 
@@ -18,6 +24,28 @@ export class StartCaptureUI {
         const form = <HTMLFormElement> document.getElementById("url-form");
         form.onsubmit = () => this.onSubmit();
 
+        // keep the rule editor on the domain of the URL being captured.
+        const urlElement = <HTMLInputElement> document.getElementById("url")!;
+        urlElement.onchange = () => {
+
+            const domain = AdBlockRules.toHostname(urlElement.value);
+
+            if (domain !== '') {
+                this.getElement("blocking-rules-domain").value = domain;
+                this.loadDomainRules(domain)
+                    .catch(err => log.error("Could not load blocking rules: ", err));
+            }
+
+        };
+
+        this.getElement("blocking-rules-domain").onchange = () => {
+            this.loadDomainRules(this.getElement("blocking-rules-domain").value)
+                .catch(err => log.error("Could not load blocking rules: ", err));
+        };
+
+        const rulesForm = <HTMLFormElement> document.getElementById("blocking-rules-form");
+        rulesForm.onsubmit = () => this.onSaveDomainRules();
+
     }
 
     public onSubmit() {
@@ -27,7 +55,9 @@ export class StartCaptureUI {
             const urlElement = <HTMLInputElement> document.getElementById("url")!;
             const url = urlElement.value;
 
-            CaptureClient.startCapture(url);
+            const readerModeElement = <HTMLInputElement> document.getElementById("reader-mode")!;
+
+            CaptureClient.startCapture(url, undefined, readerModeElement.checked);
 
         } catch (e) {
             console.error(e);
@@ -37,4 +67,43 @@ export class StartCaptureUI {
 
     }
 
+    public onSaveDomainRules() {
+
+        const domain = this.getElement("blocking-rules-domain").value.trim();
+
+        if (domain !== '') {
+
+            const toSelectors = (id: string) => this.getElement(id).value.split(/\r?\n/);
+
+            this.adBlockFilterLists.setDomainRules({
+                domain,
+                blocked: toSelectors("blocking-rules-blocked"),
+                allowed: toSelectors("blocking-rules-allowed")
+            }).then(() => this.setStatus("Saved rules for " + domain))
+              .catch(err => log.error("Could not save blocking rules: ", err));
+
+        }
+
+        return false;
+
+    }
+
+    private async loadDomainRules(domain: string) {
+
+        const domainRules = await this.adBlockFilterLists.getDomainRules(domain.trim());
+
+        this.getElement("blocking-rules-blocked").value = domainRules.blocked.join("\n");
+        this.getElement("blocking-rules-allowed").value = domainRules.allowed.join("\n");
+        this.setStatus("");
+
+    }
+
+    private setStatus(status: string) {
+        document.getElementById("blocking-rules-status")!.textContent = status;
+    }
+
+    private getElement(id: string) {
+        return <HTMLInputElement> document.getElementById(id)!;
+    }
+
 }
@@ -0,0 +1,192 @@
+/**
+ * Parses and matches EasyList style cosmetic (element hiding) filters.
+ *
+ * Only the cosmetic filters are supported:
+ *
+ *   ##.cookie-banner                 hide on every domain
+ *   example.com,~www.example.com##.sidebar   hide on example.com but not www
+ *   example.com#@#.sidebar           don't hide on example.com
+ *
+ * Network filters and the procedural extensions (#?#, #$#) are ignored since
+ * we only have the DOM to work with during capture.
+ */
+export class AdBlockRules {
+
+    /**
+     * Parse the lines of a filter list.  Comments, headers and unsupported
+     * filters are skipped.
+     */
+    public static parse(text: string, source?: string): AdBlockRule[] {
+
+        const result: AdBlockRule[] = [];
+
+        for (const line of text.split(/\r?\n/)) {
+
+            const rule = this.parseLine(line, source);
+
+            if (rule) {
+                result.push(rule);
+            }
+
+        }
+
+        return result;
+
+    }
+
+    public static parseLine(line: string, source?: string): AdBlockRule | undefined {
+
+        line = line.trim();
+
+        if (line === '' || line.startsWith('!') || line.startsWith('[')) {
+            return undefined;
+        }
+
+        let exception = false;
+        let idx = line.indexOf('#@#');
+
+        if (idx !== -1) {
+            exception = true;
+        } else {
+            idx = line.indexOf('##');
+        }
+
+        if (idx === -1) {
+            return undefined;
+        }
+
+        const selector = line.substring(idx + (exception ? 3 : 2)).trim();
+
+        if (selector === '') {
+            return undefined;
+        }
+
+        const domains: string[] = [];
+        const excludedDomains: string[] = [];
+
+        for (const domain of line.substring(0, idx).split(',')) {
+
+            const trimmed = domain.trim().toLowerCase();
+
+            if (trimmed === '') {
+                continue;
+            }
+
+            if (trimmed.startsWith('~')) {
+                excludedDomains.push(trimmed.substring(1));
+            } else {
+                domains.push(trimmed);
+            }
+
+        }
+
+        return {selector, domains, excludedDomains, exception, source};
+
+    }
+
+    /**
+     * Format a rule back into the filter list syntax.
+     */
+    public static format(rule: AdBlockRule): string {
+
+        const domains = [...rule.domains, ...rule.excludedDomains.map(current => '~' + current)];
+
+        return domains.join(',') + (rule.exception ? '#@#' : '##') + rule.selector;
+
+    }
+
+    /**
+     * True when the rule applies to documents from the given host.
+     */
+    public static appliesTo(rule: AdBlockRule, hostname: string): boolean {
+
+        hostname = hostname.toLowerCase();
+
+        if (rule.excludedDomains.some(domain => this.matchesDomain(hostname, domain))) {
+            return false;
+        }
+
+        return rule.domains.length === 0 ||
+               rule.domains.some(domain => this.matchesDomain(hostname, domain));
+
+    }
+
+    /**
+     * Compute the selectors of the elements to remove from the document at
+     * the given URL, taking exceptions into account.
+     */
+    public static selectorsForURL(rules: ReadonlyArray<AdBlockRule>, url: string): string[] {
+
+        const hostname = this.toHostname(url);
+
+        const selectors = new Set<string>();
+        const exceptions = new Set<string>();
+
+        for (const rule of rules) {
+
+            if (! this.appliesTo(rule, hostname)) {
+                continue;
+            }
+
+            if (rule.exception) {
+                exceptions.add(rule.selector);
+            } else {
+                selectors.add(rule.selector);
+            }
+
+        }
+
+        return Array.from(selectors).filter(selector => ! exceptions.has(selector));
+
+    }
+
+    public static toHostname(url: string): string {
+
+        try {
+            return new URL(url).hostname.toLowerCase();
+        } catch (e) {
+            // about:blank, data: URLs etc only get the generic rules.
+            return '';
+        }
+
+    }
+
+    /**
+     * A domain matches the host itself and all its subdomains.
+     */
+    private static matchesDomain(hostname: string, domain: string) {
+        return hostname === domain || hostname.endsWith('.' + domain);
+    }
+
+}
+
+export interface AdBlockRule {
+
+    /**
+     * The CSS selector of the elements to remove.
+     */
+    readonly selector: string;
+
+    /**
+     * The domains the rule is limited to.  When empty the rule applies to all
+     * domains.
+     */
+    readonly domains: ReadonlyArray<string>;
+
+    /**
+     * The domains the rule doesn't apply to.
+     */
+    readonly excludedDomains: ReadonlyArray<string>;
+
+    /**
+     * True when this is an exception (#@#) which stops the selector from being
+     * applied.
+     */
+    readonly exception: boolean;
+
+    /**
+     * The name of the filter list the rule was loaded from.
+     */
+    readonly source?: string;
+
+}
@@ -0,0 +1,59 @@
+import {assert} from 'chai';
+import {AdBlockRules} from './AdBlockRules';
+
+describe('AdBlockRules', function() {
+
+    it("parse", function() {
+
+        const rules = AdBlockRules.parse([
+            "[Adblock Plus 2.0]",
+            "! Title: test list",
+            "",
+            "##.cookie-banner",
+            "example.com,~www.example.com##.sidebar",
+            "example.com#@#.cookie-banner",
+            "||ads.example.com^",
+            "example.com#?#div:-abp-has(.ad)",
+        ].join("\n"), 'test');
+
+        assert.deepEqual(rules, [
+            {selector: '.cookie-banner', domains: [], excludedDomains: [], exception: false, source: 'test'},
+            {selector: '.sidebar', domains: ['example.com'], excludedDomains: ['www.example.com'], exception: false, source: 'test'},
+            {selector: '.cookie-banner', domains: ['example.com'], excludedDomains: [], exception: true, source: 'test'},
+        ]);
+
+        assert.deepEqual(rules.map(rule => AdBlockRules.format(rule)), [
+            "##.cookie-banner",
+            "example.com,~www.example.com##.sidebar",
+            "example.com#@#.cookie-banner",
+        ]);
+
+    });
+
+    it("selectorsForURL", function() {
+
+        const rules = AdBlockRules.parse([
+            "##.cookie-banner",
+            "##.newsletter-modal",
+            "example.com,~www.example.com##.sidebar",
+            "news.example.com#@#.cookie-banner",
+        ].join("\n"));
+
+        assert.deepEqual(AdBlockRules.selectorsForURL(rules, "https://other.com/article"),
+                         ['.cookie-banner', '.newsletter-modal']);
+
+        assert.deepEqual(AdBlockRules.selectorsForURL(rules, "https://blog.example.com/article"),
+                         ['.cookie-banner', '.newsletter-modal', '.sidebar']);
+
+        assert.deepEqual(AdBlockRules.selectorsForURL(rules, "https://www.example.com/article"),
+                         ['.cookie-banner', '.newsletter-modal']);
+
+        assert.deepEqual(AdBlockRules.selectorsForURL(rules, "https://news.example.com/article"),
+                         ['.newsletter-modal', '.sidebar']);
+
+        assert.deepEqual(AdBlockRules.selectorsForURL(rules, "about:blank"),
+                         ['.cookie-banner', '.newsletter-modal']);
+
+    });
+
+});
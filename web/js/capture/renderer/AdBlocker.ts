@@ -1,12 +1,47 @@
+import {AdBlockRule, AdBlockRules} from './AdBlockRules';
+
 /**
  * Ad block support.
  */
 export class AdBlocker {
 
-    public static cleanse(contentDoc: Document, url: string): AdBlockResult {
+    /**
+     * Remove ads and clutter from the document.
+     *
+     * @param rules The cosmetic filter rules to apply.  Rules that don't apply
+     * to the domain of the URL are skipped.
+     */
+    public static cleanse(contentDoc: Document,
+                          url: string,
+                          rules: ReadonlyArray<AdBlockRule> = []): AdBlockResult {
+
+        const filtered = new DomMutations();
+        const removed: SelectorMutations[] = [];
+
+        for (const selector of AdBlockRules.selectorsForURL(rules, url)) {
+
+            let mutations: IDomMutations;
+
+            try {
+                mutations = this.removeElements(selector, contentDoc);
+            } catch (e) {
+                // filter lists contain selectors that this version of
+                // Chrome can't parse.
+                console.warn("Skipping invalid selector: " + selector);
+                continue;
+            }
+
+            if (mutations.elementsRemoved > 0) {
+                filtered.elementsRemoved += mutations.elementsRemoved;
+                removed.push({selector, elementsRemoved: mutations.elementsRemoved});
+            }
+
+        }
 
         return {
-            amp: this.removeElements('amp-ad', contentDoc)
+            amp: this.removeElements('amp-ad', contentDoc),
+            filtered: Object.freeze(filtered),
+            removed
         };
 
     }
@@ -34,14 +69,30 @@ export class AdBlocker {
 }
 
 export interface AdBlockResult {
+
     readonly amp: IDomMutations;
+
+    /**
+     * The total elements removed by the filter rules.
+     */
+    readonly filtered?: IDomMutations;
+
+    /**
+     * The filter rule selectors that matched and how many elements each
+     * removed.
+     */
+    readonly removed?: ReadonlyArray<SelectorMutations>;
+
 }
 
 export interface IDomMutations {
     elementsRemoved: number;
 }
 
+export interface SelectorMutations extends IDomMutations {
+    readonly selector: string;
+}
+
 export class DomMutations implements IDomMutations {
     public elementsRemoved: number = 0;
 }
-
@@ -0,0 +1,512 @@
+/**
+ * @RendererContext
+ */
+
+/**
+ * Elements that are never part of the article content.
+ */
+const REMOVED_ELEMENTS = 'script, style, noscript, link, nav, aside, footer, form, button, input, select, textarea, iframe, object, embed, svg, [role="navigation"], [role="complementary"], [aria-hidden="true"]';
+
+/**
+ * Class names and IDs of site chrome within the article container.
+ */
+const CLUTTER_PATTERN = /comment|share|sharing|social|related|recommend|promo|sponsor|sidebar|newsletter|subscribe|signup|popup|modal|banner|advert|\bads?\b|footer|breadcrumb|pagination|widget|outbrain|taboola/i;
+
+/**
+ * Class names and IDs that hint that an element contains the article.
+ */
+const ARTICLE_PATTERN = /article|body|content|entry|main|post|story|text/i;
+
+/**
+ * The minimum number of characters of paragraph text for a document to be
+ * considered an article.
+ */
+const MIN_ARTICLE_TEXT_LENGTH = 250;
+
+/**
+ * The minimum length of a paragraph for it to count towards the score of its
+ * container.
+ */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * A readability style extractor that finds the main article within a page
+ * along with its metadata (author, published date, description and lead
+ * image) and renders it as a clean HTML document.
+ */
+export class ArticleExtractor {
+
+    /**
+     * Extract the article from the document.  The document isn't modified.
+     *
+     * @return The article or undefined when the page doesn't look like an
+     * article (for example an index page or a web app).
+     */
+    public static extract(doc: Document, url: string): Article | undefined {
+
+        const container = this.findContainer(doc);
+
+        if (! container) {
+            return undefined;
+        }
+
+        const content = <Element> container.cloneNode(true);
+
+        this.cleanup(content);
+
+        const textLength = this.textLength(content);
+
+        if (textLength < MIN_ARTICLE_TEXT_LENGTH) {
+            return undefined;
+        }
+
+        const metadata = this.extractMetadata(doc, url);
+
+        const html = this.toHTML(doc, url, metadata, content);
+
+        return {...metadata, content: html, textLength};
+
+    }
+
+    /**
+     * Extract the title, author, published date etc from the opengraph, meta,
+     * microdata and JSON-LD information in the page.
+     */
+    public static extractMetadata(doc: Document, url: string): ArticleMetadata {
+
+        const jsonLD = this.parseJSONLD(doc);
+
+        const title = this.first(
+            this.meta(doc, 'og:title'),
+            this.meta(doc, 'twitter:title'),
+            jsonLD.headline,
+            this.text(doc, 'h1'),
+            doc.title) || url;
+
+        const author = this.first(
+            this.meta(doc, 'author'),
+            this.meta(doc, 'article:author'),
+            this.toName(jsonLD.author),
+            this.text(doc, '[itemprop="author"] [itemprop="name"]'),
+            this.text(doc, '[itemprop="author"]'),
+            this.text(doc, '[rel="author"]'),
+            this.text(doc, '.byline, .author'));
+
+        const published = this.toISODate(this.first(
+            this.meta(doc, 'article:published_time'),
+            this.meta(doc, 'datePublished'),
+            jsonLD.datePublished,
+            this.attr(doc, '[itemprop="datePublished"]', 'content'),
+            this.attr(doc, '[itemprop="datePublished"]', 'datetime'),
+            this.attr(doc, 'article time[datetime], time[pubdate]', 'datetime')));
+
+        const description = this.first(
+            this.meta(doc, 'og:description'),
+            this.meta(doc, 'twitter:description'),
+            this.meta(doc, 'description'),
+            jsonLD.description);
+
+        const leadImage = this.toAbsoluteURL(this.first(
+            this.meta(doc, 'og:image'),
+            this.meta(doc, 'twitter:image'),
+            this.toImageURL(jsonLD.image)), url);
+
+        return {title, author, published, description, leadImage};
+
+    }
+
+    /**
+     * Find the element that contains the article, preferring the semantic
+     * elements and falling back to scoring the containers of paragraphs.
+     */
+    private static findContainer(doc: Document): Element | undefined {
+
+        if (! doc.body) {
+            return undefined;
+        }
+
+        for (const selector of ['[itemprop="articleBody"]', 'article', '[role="main"]', 'main']) {
+
+            const candidates = Array.from(doc.body.querySelectorAll(selector));
+
+            // only use the semantic element when it's unambiguous.  Index
+            // pages often have many <article> elements.
+            if (candidates.length === 1 && this.paragraphTextLength(candidates[0]) >= MIN_ARTICLE_TEXT_LENGTH) {
+                return candidates[0];
+            }
+
+        }
+
+        const scores = new Map<Element, number>();
+
+        const addScore = (element: Element | null, score: number) => {
+
+            if (element && element !== doc.documentElement) {
+                scores.set(element, (scores.get(element) || 0) + score);
+            }
+
+        };
+
+        for (const paragraph of Array.from(doc.body.querySelectorAll('p, pre, blockquote'))) {
+
+            const text = (paragraph.textContent || '').trim();
+
+            if (text.length < MIN_PARAGRAPH_LENGTH) {
+                continue;
+            }
+
+            // longer paragraphs with more commas are more likely to be prose.
+            const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+            const parent = paragraph.parentElement;
+
+            addScore(parent, score);
+            addScore(parent ? parent.parentElement : null, score / 2);
+
+        }
+
+        let result: Element | undefined;
+        let best = 0;
+
+        scores.forEach((score, element) => {
+
+            const hint = `${element.className} ${element.id}`;
+
+            if (CLUTTER_PATTERN.test(hint)) {
+                score *= 0.5;
+            } else if (ARTICLE_PATTERN.test(hint)) {
+                score *= 1.25;
+            }
+
+            if (score > best) {
+                best = score;
+                result = element;
+            }
+
+        });
+
+        return result;
+
+    }
+
+    /**
+     * Remove the site chrome, scripts and presentational attributes from the
+     * article content.
+     */
+    private static cleanup(content: Element) {
+
+        content.querySelectorAll(REMOVED_ELEMENTS).forEach(element => this.remove(element));
+
+        for (const element of Array.from(content.querySelectorAll('[class], [id]'))) {
+
+            const hint = `${element.className} ${element.id}`;
+
+            // keep elements that are mostly prose even if their name looks
+            // like clutter (e.g. 'post-content-with-share-buttons')
+            if (CLUTTER_PATTERN.test(hint) && this.paragraphTextLength(element) < MIN_ARTICLE_TEXT_LENGTH) {
+                this.remove(element);
+            }
+
+        }
+
+        for (const element of Array.from(content.querySelectorAll('*')).concat([content])) {
+
+            for (const attr of Array.from(element.attributes)) {
+
+                if (['style', 'class', 'id', 'width', 'height', 'align'].includes(attr.name) ||
+                    attr.name.startsWith('on') ||
+                    attr.name.startsWith('data-') && attr.name !== 'data-src') {
+
+                    element.removeAttribute(attr.name);
+
+                }
+
+            }
+
+            // lazy loaded images usually keep the real URL in data-src
+            if (element.tagName.toLowerCase() === 'img') {
+
+                const dataSrc = element.getAttribute('data-src');
+
+                if (dataSrc) {
+                    element.setAttribute('src', dataSrc);
+                    element.removeAttribute('data-src');
+                }
+
+            }
+
+        }
+
+    }
+
+    private static toHTML(doc: Document, url: string, metadata: ArticleMetadata, content: Element) {
+
+        const escape = (value: string) => {
+            return value.replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;');
+        };
+
+        const head = [
+            '<meta charset="utf-8">',
+            `<base href="${escape(url)}">`,
+            `<title>${escape(metadata.title)}</title>`,
+            `<meta name="polar-url" content="${escape(url)}">`,
+            `<style>${ARTICLE_STYLESHEET}</style>`
+        ];
+
+        if (metadata.description) {
+            head.push(`<meta name="description" content="${escape(metadata.description)}">`);
+        }
+
+        const body = [`<h1>${escape(metadata.title)}</h1>`];
+
+        const byline = [metadata.author, metadata.published ? metadata.published.substring(0, 10) : undefined]
+            .filter(current => current !== undefined)
+            .map(current => escape(current!));
+
+        if (byline.length > 0) {
+            body.push(`<p class="byline">${byline.join(' &middot; ')}</p>`);
+        }
+
+        const contentHTML = content.innerHTML;
+
+        // don't show the lead image twice when it's already in the content.
+        if (metadata.leadImage && ! contentHTML.includes(metadata.leadImage)) {
+            body.push(`<img class="lead-image" src="${escape(metadata.leadImage)}">`);
+        }
+
+        body.push(contentHTML);
+
+        const lang = doc.documentElement ? doc.documentElement.getAttribute('lang') : null;
+        const langAttr = lang ? ` lang="${escape(lang)}"` : '';
+
+        return `<!DOCTYPE html>\n<html${langAttr}><head>${head.join('')}</head><body><article>${body.join('\n')}</article></body></html>`;
+
+    }
+
+    private static remove(element: Element) {
+
+        if (element.parentElement) {
+            element.parentElement.removeChild(element);
+        }
+
+    }
+
+    private static textLength(element: Element) {
+        return (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+    }
+
+    private static paragraphTextLength(element: Element) {
+
+        return Array.from(element.querySelectorAll('p'))
+            .map(current => this.textLength(current))
+            .reduce((sum, current) => sum + current, 0);
+
+    }
+
+    private static meta(doc: Document, name: string): string | undefined {
+        return this.attr(doc, `meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`, 'content');
+    }
+
+    private static attr(doc: Document, selector: string, attr: string): string | undefined {
+
+        const element = doc.querySelector(selector);
+
+        if (element) {
+            return this.first(element.getAttribute(attr) || undefined);
+        }
+
+        return undefined;
+
+    }
+
+    private static text(doc: Document, selector: string): string | undefined {
+
+        const element = doc.querySelector(selector);
+
+        if (element) {
+            return this.first((element.textContent || '').replace(/\s+/g, ' '));
+        }
+
+        return undefined;
+
+    }
+
+    /**
+     * Return the first non-empty value, trimmed.
+     */
+    private static first(...values: Array<string | undefined>): string | undefined {
+
+        for (const value of values) {
+
+            if (typeof value === 'string' && value.trim() !== '') {
+                return value.trim();
+            }
+
+        }
+
+        return undefined;
+
+    }
+
+    /**
+     * Parse the first JSON-LD object describing an article.
+     */
+    private static parseJSONLD(doc: Document): any {
+
+        for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+
+            try {
+
+                const data = JSON.parse(script.textContent || '');
+
+                const items: any[] = Array.isArray(data) ? data : (data['@graph'] || [data]);
+
+                const article = items.find(item => item && typeof item.headline === 'string');
+
+                if (article) {
+                    return article;
+                }
+
+            } catch (e) {
+                // pages often have broken JSON-LD so just skip it.
+            }
+
+        }
+
+        return {};
+
+    }
+
+    private static toName(value: any): string | undefined {
+
+        if (Array.isArray(value)) {
+            return this.first(...value.map(current => this.toName(current)));
+        }
+
+        if (value && typeof value === 'object') {
+            return value.name;
+        }
+
+        return typeof value === 'string' ? value : undefined;
+
+    }
+
+    private static toImageURL(value: any): string | undefined {
+
+        if (Array.isArray(value)) {
+            return this.toImageURL(value[0]);
+        }
+
+        if (value && typeof value === 'object') {
+            return value.url;
+        }
+
+        return typeof value === 'string' ? value : undefined;
+
+    }
+
+    private static toISODate(value: string | undefined): string | undefined {
+
+        if (! value) {
+            return undefined;
+        }
+
+        const date = new Date(value);
+
+        if (isNaN(date.getTime())) {
+            return undefined;
+        }
+
+        return date.toISOString();
+
+    }
+
+    private static toAbsoluteURL(value: string | undefined, url: string): string | undefined {
+
+        if (! value) {
+            return undefined;
+        }
+
+        try {
+            return new URL(value, url).toString();
+        } catch (e) {
+            return undefined;
+        }
+
+    }
+
+}
+
+const ARTICLE_STYLESHEET = `
+body {
+    margin: 0;
+    background-color: #fff;
+    color: #222;
+    font-family: Georgia, Cambria, "Times New Roman", Times, serif;
+    font-size: 20px;
+    line-height: 1.6;
+}
+article {
+    max-width: 700px;
+    margin: 0 auto;
+    padding: 40px 20px;
+}
+h1 {
+    font-size: 36px;
+    line-height: 1.2;
+}
+.byline {
+    color: #666;
+    font-size: 16px;
+}
+img, video, figure {
+    max-width: 100%;
+    height: auto;
+}
+pre {
+    overflow-x: auto;
+    font-size: 15px;
+}
+blockquote {
+    margin-left: 0;
+    padding-left: 20px;
+    border-left: 3px solid #ccc;
+}
+`;
+
+export interface ArticleMetadata {
+
+    readonly title: string;
+
+    readonly author?: string;
+
+    /**
+     * The time the article was published as an ISO8601 string.
+     */
+    readonly published?: string;
+
+    readonly description?: string;
+
+    /**
+     * The absolute URL of the image representing the article.
+     */
+    readonly leadImage?: string;
+
+}
+
+export interface Article extends ArticleMetadata {
+
+    /**
+     * The article as a standalone HTML document.
+     */
+    readonly content: string;
+
+    /**
+     * The number of characters of text in the article.
+     */
+    readonly textLength: number;
+
+}
@@ -0,0 +1,98 @@
+import {assert} from 'chai';
+import {JSDOM} from 'jsdom';
+import {ArticleExtractor} from './ArticleExtractor';
+
+const PARAGRAPH = "This is a long paragraph of article text, with enough commas, words and sentences that it looks like prose to the extractor.";
+
+function createDoc(html: string) {
+    return new JSDOM(html, {url: 'https://news.example.com/2018/article'}).window.document;
+}
+
+describe('ArticleExtractor', function() {
+
+    it("extract the article and its metadata", function() {
+
+        const doc = createDoc(`
+            <html lang="en">
+            <head>
+                <title>Site name | The headline</title>
+                <meta property="og:title" content="The headline">
+                <meta property="og:description" content="What the article is about.">
+                <meta property="og:image" content="/images/lead.jpg">
+                <meta name="author" content="Alice Smith">
+                <meta property="article:published_time" content="2018-11-02T10:00:00Z">
+            </head>
+            <body>
+                <nav>Home News Sports</nav>
+                <div class="cookie-banner">We use cookies</div>
+                <div class="layout">
+                    <div class="story-body">
+                        <p>${PARAGRAPH}</p>
+                        <div class="share-buttons">Share on Twitter</div>
+                        <p>${PARAGRAPH}</p>
+                        <p>${PARAGRAPH}</p>
+                        <script>track();</script>
+                    </div>
+                    <div class="sidebar">
+                        <p>Related: another story</p>
+                    </div>
+                </div>
+                <footer>Copyright</footer>
+            </body>
+            </html>`);
+
+        const article = ArticleExtractor.extract(doc, doc.location!.href)!;
+
+        assert.ok(article);
+
+        assert.equal(article.title, 'The headline');
+        assert.equal(article.author, 'Alice Smith');
+        assert.equal(article.published, '2018-11-02T10:00:00.000Z');
+        assert.equal(article.description, 'What the article is about.');
+        assert.equal(article.leadImage, 'https://news.example.com/images/lead.jpg');
+
+        assert.include(article.content, PARAGRAPH);
+        assert.include(article.content, '<base href="https://news.example.com/2018/article">');
+        assert.include(article.content, '<img class="lead-image" src="https://news.example.com/images/lead.jpg">');
+
+        for (const clutter of ['Home News Sports', 'We use cookies', 'Share on Twitter', 'track()', 'another story', 'Copyright']) {
+            assert.notInclude(article.content, clutter);
+        }
+
+        // the source document isn't changed.
+        assert.ok(doc.querySelector('.share-buttons'));
+
+    });
+
+    it("use JSON-LD metadata", function() {
+
+        const doc = createDoc(`
+            <html>
+            <head>
+                <title>The headline</title>
+                <script type="application/ld+json">
+                    {"@type": "NewsArticle", "headline": "The headline", "datePublished": "2018-11-02",
+                     "author": [{"@type": "Person", "name": "Bob Jones"}]}
+                </script>
+            </head>
+            <body>
+                <article><p>${PARAGRAPH}</p><p>${PARAGRAPH}</p><p>${PARAGRAPH}</p></article>
+            </body>
+            </html>`);
+
+        const article = ArticleExtractor.extract(doc, doc.location!.href)!;
+
+        assert.equal(article.author, 'Bob Jones');
+        assert.equal(article.published, '2018-11-02T00:00:00.000Z');
+
+    });
+
+    it("no article in a page without prose", function() {
+
+        const doc = createDoc(`<html><body><ul><li><a href="/a">A</a></li><li><a href="/b">B</a></li></ul></body></html>`);
+
+        assert.isUndefined(ArticleExtractor.extract(doc, doc.location!.href));
+
+    });
+
+});
@@ -1,5 +1,6 @@
 import {Browser} from '../Browser';
 import {AdBlockResult} from './AdBlocker';
+import {ArticleMetadata} from './ArticleExtractor';
 
 export interface Captured {
 
@@ -30,6 +31,18 @@ export interface Captured {
      */
     browser?: Browser;
 
+    /**
+     * The article metadata when the page was captured in reader mode.
+     */
+    article?: ArticleMetadata;
+
+    /**
+     * The URLs of alternate representations of the page by type.  In reader
+     * mode the page URL holds just the article and the page as originally
+     * captured is kept as the 'original' alternate.
+     */
+    alternates?: {[type: string]: string};
+
 }
 
 export interface CapturedDoc {
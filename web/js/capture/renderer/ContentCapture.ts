@@ -6,11 +6,72 @@ import {Result} from '../../util/Result';
 import {Captured, CapturedDoc, DocTypeFormat, Overflow, ScrollBox} from './Captured';
 import {Results} from '../../util/Results';
 import {AdBlocker} from './AdBlocker';
+import {AdBlockRule} from './AdBlockRules';
+import {ArticleExtractor} from './ArticleExtractor';
+
+/**
+ * The fragment used for the URL of the original page when capturing in reader
+ * mode since the page URL then holds the article.
+ */
+const ORIGINAL_FRAGMENT = '#polar-original';
 
 export class ContentCapture {
 
-    public static execute(): Result<any> {
-        return Results.execute(() => ContentCapture.captureHTML());
+    public static execute(opts: ContentCaptureOpts = {}): Result<any> {
+
+        return Results.execute(() => {
+
+            const captured = ContentCapture.captureHTML(undefined, undefined, undefined, opts.adBlockRules);
+
+            if (opts.readerMode) {
+                ContentCapture.applyReaderMode(captured);
+            }
+
+            return captured;
+
+        });
+
+    }
+
+    /**
+     * Replace the main document with just the extracted article and keep the
+     * page as originally captured as the 'original' alternate.  When the page
+     * doesn't look like an article the capture is left as is.
+     */
+    public static applyReaderMode(captured: Captured, contentDoc: Document = document) {
+
+        const article = ArticleExtractor.extract(contentDoc, captured.url);
+
+        if (! article) {
+            console.warn("No article found in page.  Keeping the full page: " + captured.url);
+            return;
+        }
+
+        const original = captured.capturedDocuments[captured.url];
+
+        const originalURL = captured.url.replace(/#.*$/, '') + ORIGINAL_FRAGMENT;
+
+        captured.capturedDocuments[originalURL] = {...original, url: originalURL, href: originalURL};
+
+        captured.capturedDocuments[captured.url] = {
+            ...original,
+            title: article.title,
+            content: article.content,
+            contentTextLength: article.content.length,
+            docTypeFormat: 'html',
+            contentType: 'text/html'
+        };
+
+        captured.title = article.title;
+        captured.article = {
+            title: article.title,
+            author: article.author,
+            published: article.published,
+            description: article.description,
+            leadImage: article.leadImage
+        };
+        captured.alternates = {original: originalURL};
+
     }
 
 
@@ -30,10 +91,14 @@ export class ContentCapture {
      *
      * @param [result] The result we are building.
      *
+     * @param [adBlockRules] The cosmetic filter rules to apply to this document
+     * and its iframes.
+     *
      */
     public static captureHTML(contentDoc?: Document,
                               url?: string,
-                              result?: Captured): Captured {
+                              result?: Captured,
+                              adBlockRules: ReadonlyArray<AdBlockRule> = []): Captured {
 
         const ENABLE_IFRAMES = true;
 
@@ -91,7 +156,7 @@ export class ContentCapture {
         const cloneDoc: Document = <Document> contentDoc.cloneNode(true);
 
         result.capturedDocuments[url]
-            = ContentCapture.captureDoc(cloneDoc, contentDoc.location!.href);
+            = ContentCapture.captureDoc(cloneDoc, contentDoc.location!.href, adBlockRules);
 
         if (ENABLE_IFRAMES) {
 
@@ -116,7 +181,7 @@ export class ContentCapture {
 
                     console.log("Going to capture iframe: " + iframeHref);
                     console.log(iframe.outerHTML);
-                    ContentCapture.captureHTML(iframe.contentDocument, iframeHref, result);
+                    ContentCapture.captureHTML(iframe.contentDocument, iframeHref, result, adBlockRules);
 
                     ++nrHandled;
 
@@ -164,7 +229,9 @@ export class ContentCapture {
 
     }
 
-    private static captureDoc(cloneDoc: Document, url: string): CapturedDoc {
+    private static captureDoc(cloneDoc: Document,
+                              url: string,
+                              adBlockRules: ReadonlyArray<AdBlockRule>): CapturedDoc {
 
         if (!cloneDoc) {
             throw new Error("No cloneDoc");
@@ -237,7 +304,7 @@ export class ContentCapture {
             result.mutations.cleanupRemoveScripts = ContentCapture.cleanupRemoveScripts(cloneDoc, url);
             result.mutations.cleanupHead = ContentCapture.cleanupHead(cloneDoc, url);
             result.mutations.cleanupBase = ContentCapture.cleanupBase(cloneDoc, url);
-            result.mutations.adsBlocked = AdBlocker.cleanse(cloneDoc, url);
+            result.mutations.adsBlocked = AdBlocker.cleanse(cloneDoc, url, adBlockRules);
 
             // ***  add metadata into the HTML for polar
 
@@ -648,3 +715,17 @@ process.once('loaded', () => {
     global.ContentCapture = ContentCapture;
 });
 
+export interface ContentCaptureOpts {
+
+    /**
+     * The cosmetic filter rules used to remove ads and clutter from the
+     * captured documents.
+     */
+    readonly adBlockRules?: ReadonlyArray<AdBlockRule>;
+
+    /**
+     * Capture just the article instead of the whole page.
+     */
+    readonly readerMode?: boolean;
+
+}
@@ -1,10 +1,12 @@
 import {ActiveSelection} from '../../ui/popup/ActiveSelections';
 import {HighlightColor} from '../../metadata/BaseHighlight';
 import {AnnotationDescriptor} from '../../metadata/AnnotationDescriptor';
+import {HighlightCategory} from '../../metadata/HighlightCategories';
 
 export interface HighlightCreatedEvent {
     readonly activeSelection: ActiveSelection;
     readonly highlightColor: HighlightColor;
+    readonly highlightCategory?: HighlightCategory;
     readonly pageNum: number;
     readonly annotationDescriptor?: AnnotationDescriptor;
 }
@@ -8,6 +8,8 @@ import {Preconditions} from '../../Preconditions';
 import {ContextMenuType} from '../ContextMenuType';
 import {Messenger} from '../../electron/messenger/Messenger';
 import {AnnotationSidebarClient} from '../../annotation_sidebar/AnnotationSidebarClient';
+import {HighlightCategory} from '../../metadata/HighlightCategories';
+import {HighlightCategoriesStore} from '../../metadata/HighlightCategoriesStore';
 
 const log = Logger.create();
 
@@ -47,19 +49,30 @@ export class ElectronContextMenu {
 
         const window = BrowserWindow.getFocusedWindow();
 
-        const ctxMenu = this.createContextMenu(triggerEvent, sender);
+        // the categories are read each time so that edits made in the
+        // repository apply without restarting.
+        HighlightCategoriesStore.load()
+            .then(highlightCategories => {
 
-        // The documentation for this looks wrong and it actually takes three
-        // arguments not a object. Note that we should NOT include the mouse
-        // point as by default it uses the mouse point anyway which is almost
-        // always what we want.
-        ctxMenu.popup(<PopupOptions> {
-            window
-        });
+                const ctxMenu = this.createContextMenu(triggerEvent, sender, highlightCategories);
+
+                // The documentation for this looks wrong and it actually takes
+                // three arguments not a object. Note that we should NOT include
+                // the mouse point as by default it uses the mouse point anyway
+                // which is almost always what we want.
+                ctxMenu.popup(<PopupOptions> {
+                    window
+                });
+
+            })
+            .catch(err => log.error("Unable to create context menu: ", err));
 
     }
 
-    private async postContextMenuMessage(name: string, triggerEvent: TriggerEvent) {
+    /**
+     * @param data Additional fields to include in the message.
+     */
+    private async postContextMenuMessage(name: string, triggerEvent: TriggerEvent, data: any = {}) {
 
         log.info("postContextMenuMessage: " + name);
 
@@ -76,7 +89,8 @@ export class ElectronContextMenu {
                 points: triggerEvent.points,
                 pageNum: triggerEvent.pageNum,
                 matchingSelectors: triggerEvent.matchingSelectors,
-                docDescriptor: triggerEvent.docDescriptor
+                docDescriptor: triggerEvent.docDescriptor,
+                ...data
             }
         });
 
@@ -109,7 +123,9 @@ export class ElectronContextMenu {
      * @param triggerEvent {TriggerEvent}
      * @param sender
      */
-    private createContextMenu(triggerEvent: TriggerEvent, sender: WebContents) {
+    private createContextMenu(triggerEvent: TriggerEvent,
+                              sender: WebContents,
+                              highlightCategories: ReadonlyArray<HighlightCategory>) {
 
         Preconditions.assertNotNull(sender, "sender");
 
@@ -122,11 +138,11 @@ export class ElectronContextMenu {
         }
 
         if (triggerEvent.contextMenuTypes.includes(ContextMenuType.TEXT_HIGHLIGHT)) {
-            contextMenus.push(this.createTextHighlightContextMenu(triggerEvent, sender));
+            contextMenus.push(this.createTextHighlightContextMenu(triggerEvent, sender, highlightCategories));
         }
 
         if (triggerEvent.contextMenuTypes.includes(ContextMenuType.AREA_HIGHLIGHT)) {
-            contextMenus.push(this.createAreaHighlightContextMenu(triggerEvent, sender));
+            contextMenus.push(this.createAreaHighlightContextMenu(triggerEvent, sender, highlightCategories));
         }
 
         if (triggerEvent.contextMenuTypes.includes(ContextMenuType.PAGEMARK)) {
@@ -161,7 +177,9 @@ export class ElectronContextMenu {
      * @param sender
      * @return {Electron.Menu}
      */
-    private createTextHighlightContextMenu(triggerEvent: TriggerEvent, sender: WebContents): Menu {
+    private createTextHighlightContextMenu(triggerEvent: TriggerEvent,
+                                           sender: WebContents,
+                                           highlightCategories: ReadonlyArray<HighlightCategory>): Menu {
 
         const ctxMenu = new Menu();
 
@@ -176,6 +194,7 @@ export class ElectronContextMenu {
             //     // accelerator: 'CmdOrCtrl+A',
             //     click: () => this.postContextMenuMessage("add-comment", triggerEvent)
             // }),
+            this.createCategorySubmenu("set-text-highlight-category", triggerEvent, highlightCategories),
             new MenuItem({
                 label: 'Delete',
                 // accelerator: 'CmdOrCtrl+A',
@@ -193,7 +212,9 @@ export class ElectronContextMenu {
      * @param sender
      * @return {Electron.Menu}
      */
-    private createAreaHighlightContextMenu(triggerEvent: TriggerEvent, sender: WebContents): Menu {
+    private createAreaHighlightContextMenu(triggerEvent: TriggerEvent,
+                                           sender: WebContents,
+                                           highlightCategories: ReadonlyArray<HighlightCategory>): Menu {
 
         const ctxMenu = new Menu();
 
@@ -207,6 +228,7 @@ export class ElectronContextMenu {
             //     // accelerator: 'CmdOrCtrl+A',
             //     click: () => this.postContextMenuMessage("add-comment", triggerEvent)
             // }),
+            this.createCategorySubmenu("set-area-highlight-category", triggerEvent, highlightCategories),
             new MenuItem({
                 label: 'Delete',
                 // accelerator: 'CmdOrCtrl+A',
@@ -352,6 +374,22 @@ export class ElectronContextMenu {
 
     }
 
+    private createCategorySubmenu(name: string,
+                                  triggerEvent: TriggerEvent,
+                                  highlightCategories: ReadonlyArray<HighlightCategory>): MenuItem {
+
+        const menuItems = highlightCategories.map(category => new MenuItem({
+            label: category.name,
+            click: () => {
+                this.postContextMenuMessage(name, triggerEvent, {category})
+                    .catch(err => log.error("Unable to set category: ", err));
+            }
+        }));
+
+        return this.createSubmenu('Category', menuItems);
+
+    }
+
     public createSubmenu(label: string, menuItems: MenuItem[]): MenuItem {
 
         const submenu = new Menu();
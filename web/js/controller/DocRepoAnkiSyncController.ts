@@ -15,6 +15,8 @@ import {AnkiSyncEngine} from '../apps/sync/framework/anki/AnkiSyncEngine';
 import {DocMetaSupplierCollection} from '../metadata/DocMetaSupplierCollection';
 import {DocMeta} from '../metadata/DocMeta';
 import {IProvider} from '../util/Providers';
+import {SyncDiff, SyncDiffType} from '../apps/sync/framework/SyncTask';
+import {SettingsStore} from '../datastore/SettingsStore';
 
 const log = Logger.create();
 
@@ -55,6 +57,8 @@ export class DocRepoAnkiSyncController {
         let nrTasks = 0;
         let nrFailedTasks = 0;
 
+        let diffs: ReadonlyArray<SyncDiff> = [];
+
         const syncProgressListener: SyncProgressListener = syncProgress => {
 
             log.info("Sync progress: ", syncProgress);
@@ -65,6 +69,8 @@ export class DocRepoAnkiSyncController {
                 .filter(taskResult => taskResult.failed === true)
                 .map(taskResult => ++nrFailedTasks);
 
+            diffs = syncProgress.diffs;
+
             let message: string | undefined;
 
             syncProgress.taskResult.when(taskResult => {
@@ -92,7 +98,11 @@ export class DocRepoAnkiSyncController {
                     return (await persistenceLayer.getDocMeta(docMetaFile.fingerprint))!;
                 }});
 
-        const pendingSyncJob = await ankiSyncEngine.sync(docMetaSuppliers, syncProgressListener);
+        const settings = await SettingsStore.load();
+
+        const deleteNotes = settings.ankiSettings !== undefined && settings.ankiSettings.deleteNotes === true;
+
+        const pendingSyncJob = await ankiSyncEngine.sync(docMetaSuppliers, syncProgressListener, 'default', deleteNotes);
 
         this.syncBarProgress.dispatchEvent({
             task: 'anki-sync',
@@ -102,9 +112,16 @@ export class DocRepoAnkiSyncController {
 
         await pendingSyncJob.start();
 
+        const countDiffs = (type: SyncDiffType) => diffs.filter(diff => diff.type === type).length;
+
+        log.info("Anki sync changes: ", diffs);
+
+        const changes = `${countDiffs('created')} created, ${countDiffs('updated')} updated, ` +
+                        `${countDiffs('deleted')} deleted`;
+
         this.syncBarProgress.dispatchEvent({
             task: 'anki-sync',
-            message: `Anki sync complete. Completed ${nrTasks} with ${nrFailedTasks} failures.`,
+            message: `Anki sync complete (${changes}). Completed ${nrTasks} with ${nrFailedTasks} failures.`,
             percentage: 100
         });
 
@@ -0,0 +1,139 @@
+import {remote} from 'electron';
+import {Logger} from '../logger/Logger';
+import {PersistenceLayer} from '../datastore/PersistenceLayer';
+import {IEventDispatcher} from '../reactor/SimpleReactor';
+import {SyncBarProgress} from '../ui/sync_bar/SyncBar';
+import {IProvider} from '../util/Providers';
+import {Toaster} from '../ui/toaster/Toaster';
+import {SyncProgressListener} from '../apps/sync/framework/SyncProgressListener';
+import {SyncEngineRegistry} from '../apps/sync/framework/SyncEngineRegistry';
+import {CSVSyncEngine} from '../apps/sync/framework/file/CSVSyncEngine';
+import {ApkgSyncEngine} from '../apps/sync/framework/file/ApkgSyncEngine';
+import {DocMetaSupplierCollection} from '../metadata/DocMetaSupplierCollection';
+import {FlashcardFileFormat} from '../apps/sync/framework/file/FileSyncEngine';
+
+const log = Logger.create();
+
+/**
+ * Handles 'start-flashcard-file-sync' messages sent from the Tools menu and
+ * writes all flashcards to a deck file for people without AnkiConnect or
+ * using other SRS tools.
+ */
+export class DocRepoFlashcardFileSyncController {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+    private readonly syncBarProgress: IEventDispatcher<SyncBarProgress>;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>, syncBarProgress: IEventDispatcher<SyncBarProgress>) {
+        this.persistenceLayerProvider = persistenceLayerProvider;
+        this.syncBarProgress = syncBarProgress;
+    }
+
+    public start() {
+        window.addEventListener("message", event => this.onMessageReceived(event), false);
+    }
+
+    private onMessageReceived(event: any) {
+
+        switch (event.data.type) {
+
+            case "start-flashcard-file-sync":
+
+                const format: FlashcardFileFormat = event.data.format || 'csv';
+
+                this.onStartSync(format);
+
+                break;
+
+        }
+
+    }
+
+    private onStartSync(format: FlashcardFileFormat) {
+
+        const opts: Electron.SaveDialogOptions = {
+
+            title: "Export flashcards to " + format,
+            filters: [
+                {extensions: [format], name: format}
+            ]
+
+        };
+
+        remote.dialog.showSaveDialog(opts, (path: string) => {
+
+            if (path) {
+                this.doSync(path, format)
+                    .catch(err => log.error("Failed to export flashcards: ", err));
+            }
+
+        });
+
+    }
+
+    private async doSync(path: string, format: FlashcardFileFormat) {
+
+        const syncEngineRegistry = new SyncEngineRegistry();
+        syncEngineRegistry.register(new CSVSyncEngine(path));
+        syncEngineRegistry.register(new ApkgSyncEngine(path));
+
+        const syncEngine = syncEngineRegistry.getByName(format);
+
+        let nrCreated = 0;
+        let error: Error | undefined;
+
+        const syncProgressListener: SyncProgressListener = syncProgress => {
+
+            nrCreated = syncProgress.diffs.length;
+            error = syncProgress.error;
+
+            let message: string | undefined;
+
+            syncProgress.taskResult.when(taskResult => {
+                message = taskResult.message;
+            });
+
+            this.syncBarProgress.dispatchEvent({
+                task: 'flashcard-file-sync',
+                message,
+                percentage: syncProgress.percentage
+            });
+
+        };
+
+        const persistenceLayer = this.persistenceLayerProvider.get();
+
+        const docMetaFiles = await persistenceLayer.getDocMetaFiles();
+
+        const docMetaSuppliers: DocMetaSupplierCollection
+            = docMetaFiles.map(docMetaFile => {
+                return async () => (await persistenceLayer.getDocMeta(docMetaFile.fingerprint))!;
+            });
+
+        this.syncBarProgress.dispatchEvent({
+            task: 'flashcard-file-sync',
+            message: "Starting flashcard export...",
+            percentage: 0
+        });
+
+        const pendingSyncJob = await syncEngine.sync(docMetaSuppliers, syncProgressListener);
+
+        await pendingSyncJob.start();
+
+        if (error) {
+            log.error("Unable to write flashcards: ", error);
+            Toaster.error(`Unable to export flashcards to ${path}`);
+            return;
+        }
+
+        this.syncBarProgress.dispatchEvent({
+            task: 'flashcard-file-sync',
+            message: `Flashcard export complete. Exported ${nrCreated} flashcards.`,
+            percentage: 100
+        });
+
+        Toaster.success(`Exported ${nrCreated} flashcards to ${path}`);
+
+    }
+
+}
@@ -0,0 +1,117 @@
+import {remote} from 'electron';
+import {Logger} from '../logger/Logger';
+import {PersistenceLayer} from '../datastore/PersistenceLayer';
+import {IEventDispatcher} from '../reactor/SimpleReactor';
+import {SyncBarProgress} from '../ui/sync_bar/SyncBar';
+import {IProvider} from '../util/Providers';
+import {ExportFormat} from '../metadata/exporter/Exporters';
+import {LibraryExporter, LibraryExportFilter} from '../metadata/exporter/LibraryExporter';
+import {ZipBundleWriter} from '../metadata/exporter/writers/ZipBundleWriter';
+import {Toaster} from '../ui/toaster/Toaster';
+import {HighlightCategoriesStore} from '../metadata/HighlightCategoriesStore';
+import {RepoDocMetaManager} from '../../../apps/repository/js/RepoDocMetaManager';
+import {LibraryExportFilterModals} from '../ui/export/LibraryExportFilterModals';
+
+const log = Logger.create();
+
+/**
+ * Handles 'start-library-export' messages sent from the Tools menu and
+ * exports the whole repository into a zip file.  Unless the message has a
+ * filter the user is asked which documents to export first.
+ */
+export class DocRepoLibraryExportController {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+    private readonly syncBarProgress: IEventDispatcher<SyncBarProgress>;
+    private readonly repoDocMetaManager: RepoDocMetaManager;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
+                syncBarProgress: IEventDispatcher<SyncBarProgress>,
+                repoDocMetaManager: RepoDocMetaManager) {
+
+        this.persistenceLayerProvider = persistenceLayerProvider;
+        this.syncBarProgress = syncBarProgress;
+        this.repoDocMetaManager = repoDocMetaManager;
+
+    }
+
+    public start() {
+        window.addEventListener("message", event => this.onMessageReceived(event), false);
+    }
+
+    private onMessageReceived(event: any) {
+
+        switch (event.data.type) {
+
+            case "start-library-export":
+
+                const format: ExportFormat = event.data.format || 'markdown';
+
+                if (event.data.filter) {
+                    this.onStartExport(format, event.data.filter);
+                } else {
+                    LibraryExportFilterModals.show(this.repoDocMetaManager.tagsDB.tags(),
+                                                   filter => this.onStartExport(format, filter));
+                }
+
+                break;
+
+        }
+
+    }
+
+    private onStartExport(format: ExportFormat, filter: LibraryExportFilter) {
+
+        const opts: Electron.SaveDialogOptions = {
+
+            title: "Export library to " + format,
+            filters: [
+                {extensions: ['zip'], name: 'zip'}
+            ]
+
+        };
+
+        remote.dialog.showSaveDialog(opts, (path: string) => {
+
+            if (path) {
+                this.doExport(path, format, filter)
+                    .catch(err => log.error("Failed to export library: ", err));
+            }
+
+        });
+
+    }
+
+    private async doExport(path: string, format: ExportFormat, filter: LibraryExportFilter) {
+
+        const highlightCategories = await HighlightCategoriesStore.load();
+
+        const libraryExporter = new LibraryExporter(this.persistenceLayerProvider.get(), highlightCategories);
+
+        this.syncBarProgress.dispatchEvent({
+            task: 'library-export',
+            message: "Starting library export...",
+            percentage: 0
+        });
+
+        const result = await libraryExporter.doExport(new ZipBundleWriter(path), format, filter, progress => {
+
+            this.syncBarProgress.dispatchEvent({
+                task: 'library-export',
+                message: `Exporting ${progress.completed} of ${progress.total} documents...`,
+                percentage: progress.progress
+            });
+
+        });
+
+        this.syncBarProgress.dispatchEvent({
+            task: 'library-export',
+            message: `Library export complete. Exported ${result.entries.length} documents.`,
+            percentage: 100
+        });
+
+        Toaster.success(`Exported ${result.entries.length} documents to ${path}`);
+
+    }
+
+}
@@ -17,6 +17,7 @@ import {IEventDispatcher, SimpleReactor} from '../reactor/SimpleReactor';
 import {AsyncFunction} from '../util/AsyncWorkQueue';
 import * as firebase from '../firebase/lib/firebase';
 import {Dictionaries} from '../util/Dictionaries';
+import {DocMetaMerger} from './merge/DocMetaMerger';
 
 const log = Logger.create();
 
@@ -51,14 +52,21 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
 
     private readonly docMetaComparisonIndex = new DocMetaComparisonIndex();
 
+    /**
+     * Merges docs that were changed locally and in the cloud (on another
+     * device) so that neither copy replaces the other.
+     */
+    public readonly docMetaMerger: DocMetaMerger;
+
     private primarySnapshot?: SnapshotResult;
 
     public shutdownHook: AsyncFunction = ASYNC_NULL_FUNCTION;
 
-    constructor(local: Datastore, cloud: Datastore) {
+    constructor(local: Datastore, cloud: Datastore, docMetaMerger: DocMetaMerger = new DocMetaMerger()) {
         super();
         this.local = local;
         this.cloud = cloud;
+        this.docMetaMerger = docMetaMerger;
     }
 
     public async init(errorListener: ErrorListener = NULL_FUNCTION): Promise<InitResult> {
@@ -140,6 +148,8 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
 
                 this.docMetaComparisonIndex.remove(docMetaFileRef.fingerprint);
 
+                return this.docMetaMerger.removeBase(docMetaFileRef.fingerprint);
+
             })
             // this should never fail in practice.
             .catch(err => log.error("Could not handle delete: ", err));
@@ -166,6 +176,10 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
 
             this.docMetaComparisonIndex.updateUsingDocInfo(docInfo);
 
+            // once it's written to both datastores this is the version they
+            // have in common.
+            return this.docMetaMerger.updateBase(fingerprint, data);
+
         })
         // this should never fail in practice.
         .catch(err => log.error("Could not handle delete: ", err));
@@ -219,7 +233,7 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
         // TODO: we could resolve this by removing the mutations and just
         // sending the progress data.
 
-        await PersistenceLayers.synchronizeOrigins(localSyncOrigin, cloudSyncOrigin, ASYNC_NULL_FUNCTION);
+        await PersistenceLayers.synchronizeOrigins(localSyncOrigin, cloudSyncOrigin, ASYNC_NULL_FUNCTION, this.docMetaMerger);
 
     }
 
@@ -368,7 +382,7 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
 
         if (isPrimarySnapshot) {
 
-            await PersistenceLayers.synchronizeOrigins(localSyncOrigin, cloudSyncOrigin, deduplicatedListener.listener);
+            await PersistenceLayers.synchronizeOrigins(localSyncOrigin, cloudSyncOrigin, deduplicatedListener.listener, this.docMetaMerger);
 
         }
 
@@ -428,7 +442,7 @@ export class CloudAwareDatastore extends AbstractDatastore implements Datastore,
                 const localSyncOrigin = await toLocalSyncOrigin();
 
                 log.info("Transferring from cloud -> local...");
-                await PersistenceLayers.transfer(cloudSyncOrigin, localSyncOrigin, listener, 'cloud-to-local');
+                await PersistenceLayers.transfer(cloudSyncOrigin, localSyncOrigin, listener, 'cloud-to-local', this.docMetaMerger);
                 log.info("Transferring from cloud -> local...done");
 
             }
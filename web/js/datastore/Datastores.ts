@@ -19,6 +19,11 @@ const log = Logger.create();
 
 const ENV_POLAR_DATASTORE = 'POLAR_DATASTORE';
 
+/**
+ * When set, the disk datastore is encrypted at rest with this passphrase.
+ */
+const ENV_POLAR_ENCRYPTION_PASSPHRASE = 'POLAR_ENCRYPTION_PASSPHRASE';
+
 export class Datastores {
 
     public static create(): Datastore {
@@ -30,6 +35,21 @@ export class Datastores {
             return new MemoryDatastore();
         }
 
+        const passphrase = process.env[ENV_POLAR_ENCRYPTION_PASSPHRASE];
+
+        if (passphrase) {
+
+            log.info("Using encrypted disk datastore");
+
+            // EncryptedDatastore extends DelegatedDatastore which depends on
+            // this module so it has to be loaded on demand or the import
+            // cycle leaves DelegatedDatastore undefined when it's extended.
+            const {EncryptedDatastore} = require('./EncryptedDatastore');
+
+            return new EncryptedDatastore(new DiskDatastore(), passphrase);
+
+        }
+
         return new DiskDatastore();
 
     }
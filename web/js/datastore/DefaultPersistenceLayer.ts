@@ -10,7 +10,6 @@ import {ISODateTimeStrings} from '../metadata/ISODateTimeStrings';
 import {Backend} from './Backend';
 import {DatastoreFile} from './DatastoreFile';
 import {Optional} from '../util/ts/Optional';
-import {Reducers} from '../util/Reducers';
 import {DocInfo} from '../metadata/DocInfo';
 import {DatastoreMutation, DefaultDatastoreMutation} from './DatastoreMutation';
 import {DatastoreMutations} from './DatastoreMutations';
@@ -118,32 +117,7 @@ export class DefaultPersistenceLayer implements PersistenceLayer {
         // now update the lastUpdated times before we commit to disk.
         docMeta.docInfo.lastUpdated = ISODateTimeStrings.create();
 
-        docMeta.docInfo.nrComments = Object.values(docMeta.pageMetas)
-            .map(current => Dictionaries.countOf(current.comments))
-            .reduce(Reducers.SUM, 0);
-
-        docMeta.docInfo.nrNotes = Object.values(docMeta.pageMetas)
-            .map(current => Dictionaries.countOf(current.notes))
-            .reduce(Reducers.SUM, 0);
-
-        docMeta.docInfo.nrFlashcards = Object.values(docMeta.pageMetas)
-            .map(current => Dictionaries.countOf(current.flashcards))
-            .reduce(Reducers.SUM, 0);
-
-        docMeta.docInfo.nrTextHighlights = Object.values(docMeta.pageMetas)
-            .map(current => Dictionaries.countOf(current.textHighlights))
-            .reduce(Reducers.SUM, 0);
-
-        docMeta.docInfo.nrAreaHighlights = Object.values(docMeta.pageMetas)
-            .map(current => Dictionaries.countOf(current.areaHighlights))
-            .reduce(Reducers.SUM, 0);
-
-        docMeta.docInfo.nrAnnotations =
-            docMeta.docInfo.nrComments +
-            docMeta.docInfo.nrNotes +
-            docMeta.docInfo.nrFlashcards +
-            docMeta.docInfo.nrTextHighlights +
-            docMeta.docInfo.nrAreaHighlights;
+        DocMetas.updateAnnotationCounts(docMeta);
 
         if (docMeta.docInfo.added === undefined) {
             docMeta.docInfo.added = ISODateTimeStrings.create();
@@ -1,4 +1,4 @@
-import {Datastore, DocMetaSnapshotEvent, FileMeta, FileRef, InitResult,
+import {BinaryFileData, Datastore, DocMetaSnapshotEvent, FileMeta, FileRef, InitResult,
         DocMetaSnapshotEventListener, SnapshotResult, DatastoreID,
         AbstractDatastore} from './Datastore';
 import {Directories} from './Directories';
@@ -43,7 +43,7 @@ export class DelegatedDatastore extends AbstractDatastore implements Datastore {
         return this.delegate.delete(docMetaFileRef);
     }
 
-    public writeFile(backend: Backend, ref: FileRef, data: Buffer | string, meta: FileMeta = {}): Promise<DatastoreFile> {
+    public writeFile(backend: Backend, ref: FileRef, data: BinaryFileData, meta: FileMeta = {}): Promise<DatastoreFile> {
         return this.delegate.writeFile(backend, ref, data, meta);
     }
 
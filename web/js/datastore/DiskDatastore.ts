@@ -29,6 +29,8 @@ import {DatastoreMutation, DefaultDatastoreMutation} from './DatastoreMutation';
 import {Datastores} from './Datastores';
 import {NULL_FUNCTION} from '../util/Functions';
 import {Strings} from '../util/Strings';
+import {DocRevisionStore} from './history/DocRevisionStore';
+import {Backups} from './backup/Backups';
 
 const log = Logger.create();
 
@@ -48,6 +50,8 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
 
     public readonly directories: Directories;
 
+    public readonly docRevisionStore: DocRevisionStore;
+
     constructor() {
 
         super();
@@ -63,6 +67,8 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
         this.filesDir = this.directories.filesDir;
         this.logsDir = this.directories.logsDir;
 
+        this.docRevisionStore = new DocRevisionStore(FilePaths.join(this.dataDir, ".history"));
+
     }
 
     public async init(errorListener: ErrorListener = NULL_FUNCTION): Promise<DiskInitResult> {
@@ -126,11 +132,20 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
                                        datastoreMutation,
                                        () => true);
 
-        return {
+        const result: DiskDeleteResult = {
             docMetaFile: await deleteStatePathPromise,
             dataFile: await deleteDocPathPromise
         };
 
+        try {
+            await this.docRevisionStore.remove(docMetaFileRef.fingerprint);
+        } catch (e) {
+            // the delete itself worked so don't fail it.
+            log.error("Unable to remove revisions for: " + docMetaFileRef.fingerprint, e);
+        }
+
+        return result;
+
     }
 
     /**
@@ -206,6 +221,14 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
 
     }
 
+    /**
+     * The path on disk where the given file is stored.
+     */
+    public getFilePath(backend: Backend, ref: FileRef): string {
+        DatastoreFiles.assertSanitizedFileName(ref);
+        return this.createFileReference(backend, ref).path;
+    }
+
     public containsFile(backend: Backend, ref: FileRef): Promise<boolean> {
         DatastoreFiles.assertSanitizedFileName(ref);
         const fileReference = this.createFileReference(backend, ref);
@@ -265,7 +288,14 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
 
         this.datastoreMutations.handle(result, datastoreMutation, () => true);
 
-        return result;
+        await result;
+
+        try {
+            await this.docRevisionStore.record(fingerprint, data, docInfo);
+        } catch (e) {
+            // the write itself worked so don't fail it.
+            log.error("Unable to record revision for: " + fingerprint, e);
+        }
 
     }
 
@@ -310,30 +340,7 @@ export class DiskDatastore extends AbstractDatastore implements Datastore {
 
 
     public async createBackup(): Promise<void> {
-
-        const dataDir = this.directories.dataDir;
-
-        const now = new Date();
-
-        const ordYear = now.getUTCFullYear();
-        const ordMonth = now.getUTCMonth() + 1;
-        const ordDay = now.getUTCDate();
-
-        const year = Strings.lpad(ordYear, '0', 4);
-        const month = Strings.lpad(ordMonth, '0', 2);
-        const day = Strings.lpad(ordDay, '0', 2);
-
-        const backupDir = FilePaths.join(dataDir, `.backup-${year}-${month}-${day}`);
-
-        const acceptPredicate = (path: string, targetPath: string) => {
-            const result = path.indexOf(".backup-") === -1;
-            return result;
-        };
-
-        log.notice("Creating backup to: " + backupDir);
-
-        await Files.createDirectorySnapshot(dataDir, backupDir, acceptPredicate);
-
+        await new Backups(this.dataDir).createDaily();
     }
 
     public addDocMetaSnapshotEventListener(docMetaSnapshotEventListener: DocMetaSnapshotEventListener): void {
@@ -0,0 +1,651 @@
+import os from 'os';
+import {
+    Datastore,
+    DatastoreID,
+    DocMetaMutation,
+    DocMetaSnapshotEvent,
+    DocMetaSnapshotEventListener,
+    ErrorListener,
+    FileMeta,
+    FileRef,
+    InitResult,
+    SnapshotResult,
+    SyncDocs
+} from './Datastore';
+import {DelegatedDatastore} from './DelegatedDatastore';
+import {Backend} from './Backend';
+import {DatastoreFile} from './DatastoreFile';
+import {Optional} from '../util/ts/Optional';
+import {IDocInfo} from '../metadata/DocInfo';
+import {DatastoreMutation} from './DatastoreMutation';
+import {DocMetaFileRefs} from './DocMetaRef';
+import {DocMetas} from '../metadata/DocMetas';
+import {AsyncProviders} from '../util/Providers';
+import {FileHandle, FileHandles, Files} from '../util/Files';
+import {FilePaths} from '../util/FilePaths';
+import {Hashcodes} from '../Hashcodes';
+import {Logger} from '../logger/Logger';
+import fetch from '../util/Fetch';
+import {EncryptionKey, EncryptionKeys} from './encryption/EncryptionKeys';
+import {EncryptionKeyStore} from './encryption/EncryptionKeyStore';
+import {DiskDatastore} from './DiskDatastore';
+import {DocRevisionStore} from './history/DocRevisionStore';
+
+const log = Logger.create();
+
+/**
+ * Encrypted DocMeta is still written as JSON since datastores expect it, in
+ * the form {"encrypted":"<base64>"}.  DocMeta written before encryption was
+ * enabled doesn't start with this prefix and is returned as is.
+ */
+const ENCRYPTED_DOC_META_PREFIX = '{"encrypted":"';
+
+/**
+ * The prefix of the directories in the temp dir with decrypted files.  It's
+ * followed by the pid of the process that created it.
+ */
+const CACHE_DIR_PREFIX = 'polar-decrypted-';
+
+const ID_PREFIX = 'encrypted:';
+
+/**
+ * A datastore that encrypts DocMeta and binary files before they're written to
+ * the delegate and decrypts them when they're read.
+ *
+ * The data is encrypted with a random data key which is protected by a key
+ * derived from the user's passphrase (see EncryptionKeyStore).  The passphrase
+ * is verified on init.
+ *
+ * Files are decrypted into a private temporary directory when they're read so
+ * that they can be loaded by URL.  The directory is removed on stop and the
+ * directories left behind by processes that crashed or were killed are
+ * removed on init.  Writes never leave a plaintext copy so the URL of a
+ * written file is of its encrypted data.
+ */
+export class EncryptedDatastore extends DelegatedDatastore {
+
+    public readonly id: DatastoreID;
+
+    private readonly keyStore: EncryptionKeyStore;
+
+    private readonly cacheDir: string;
+
+    private passphrase?: string;
+
+    private key?: EncryptionKey;
+
+    constructor(delegate: Datastore,
+                passphrase: string,
+                keyStore: EncryptionKeyStore = new EncryptionKeyStore()) {
+
+        super(delegate);
+        this.id = ID_PREFIX + delegate.id;
+        this.passphrase = passphrase;
+        this.keyStore = keyStore;
+        this.cacheDir = FilePaths.join(os.tmpdir(), `${CACHE_DIR_PREFIX}${process.pid}-${Hashcodes.createRandomID()}`);
+
+    }
+
+    /**
+     * Init the delegate and unlock the data key.  The key is created the first
+     * time.  Fails with an IncorrectPassphraseException when the passphrase is
+     * wrong.
+     */
+    public async init(errorListener?: ErrorListener): Promise<InitResult> {
+
+        const result = await super.init();
+
+        if (! this.key) {
+
+            const passphrase = this.passphrase!;
+
+            if (await this.keyStore.exists()) {
+                this.key = await this.keyStore.unlock(passphrase);
+            } else {
+                log.notice("Creating new encryption key");
+                this.key = await this.keyStore.create(passphrase);
+            }
+
+            // we don't need to keep the passphrase in memory once we have the
+            // key.
+            this.passphrase = undefined;
+
+        }
+
+        await EncryptedDatastore.removeStaleCacheDirs();
+
+        await Files.createDirAsync(this.cacheDir, 0o700);
+
+        return result;
+
+    }
+
+    public async stop(): Promise<void> {
+
+        await Files.removeDirectoryRecursivelyAsync(this.cacheDir);
+
+        return super.stop();
+
+    }
+
+    public async changePassphrase(passphrase: string, newPassphrase: string): Promise<void> {
+        await this.keyStore.changePassphrase(passphrase, newPassphrase);
+    }
+
+    public async write(fingerprint: string,
+                       data: any,
+                       docInfo: IDocInfo,
+                       datastoreMutation?: DatastoreMutation<boolean>): Promise<void> {
+
+        return super.write(fingerprint, this.encryptDocMeta(data), docInfo, datastoreMutation);
+
+    }
+
+    public async getDocMeta(fingerprint: string): Promise<string | null> {
+
+        const data = await super.getDocMeta(fingerprint);
+
+        if (data === null) {
+            return null;
+        }
+
+        return this.decryptDocMeta(data);
+
+    }
+
+    public async writeFile(backend: Backend,
+                           ref: FileRef,
+                           data: Buffer | string | FileHandle,
+                           meta: FileMeta = {}): Promise<DatastoreFile> {
+
+        if (FileHandles.isFileHandle(data)) {
+            return this.writeFileHandle(backend, ref, <FileHandle> data, meta);
+        }
+
+        const buffer = this.toBuffer(<Buffer | string> data);
+
+        // the cached copy is now out of date.
+        await Files.removeAsync(this.toCachedFilePath(backend, ref));
+
+        return super.writeFile(backend, ref, this.getKey().encrypt(buffer), meta);
+
+    }
+
+    public async getFile(backend: Backend, ref: FileRef): Promise<Optional<DatastoreFile>> {
+
+        const optionalFile = await super.getFile(backend, ref);
+
+        if (! optionalFile.isPresent()) {
+            return optionalFile;
+        }
+
+        const datastoreFile = optionalFile.get();
+
+        if (datastoreFile.url.startsWith('file:')) {
+            return Optional.of(await this.decryptLocalFile(datastoreFile));
+        }
+
+        const data = await this.readURL(datastoreFile.url);
+
+        if (! EncryptionKeys.isEncrypted(data)) {
+            // written before encryption was enabled.
+            return optionalFile;
+        }
+
+        const url = await this.writeCachedFile(backend, ref, this.getKey().decrypt(data));
+
+        return Optional.of({...datastoreFile, url});
+
+    }
+
+    public async deleteFile(backend: Backend, ref: FileRef): Promise<void> {
+
+        await super.deleteFile(backend, ref);
+
+        await Files.removeAsync(this.toCachedFilePath(backend, ref));
+
+    }
+
+    public async snapshot(listener: DocMetaSnapshotEventListener): Promise<SnapshotResult> {
+        return super.snapshot(event => listener(this.decryptSnapshotEvent(event)));
+    }
+
+    public addDocMetaSnapshotEventListener(listener: DocMetaSnapshotEventListener): void {
+        super.addDocMetaSnapshotEventListener(event => listener(this.decryptSnapshotEvent(event)));
+    }
+
+    /**
+     * Encrypt the docs and files written before encryption was enabled.
+     * Anything already encrypted is skipped so this can be run again after
+     * being interrupted.
+     */
+    public async encryptExisting(): Promise<void> {
+
+        for (const docMetaRef of await this.getDocMetaFiles()) {
+
+            const {fingerprint} = docMetaRef;
+
+            const data = await super.getDocMeta(fingerprint);
+
+            if (data === null) {
+                continue;
+            }
+
+            const plaintext = this.decryptDocMeta(data);
+
+            const docInfo = DocMetas.deserialize(plaintext, fingerprint).docInfo;
+
+            for (const syncFile of SyncDocs.fromDocInfo(docInfo, 'created').files) {
+
+                const optionalFile = await super.getFile(syncFile.backend, syncFile.ref);
+
+                if (! optionalFile.isPresent() || ! optionalFile.get().url.startsWith('file:')) {
+                    continue;
+                }
+
+                const file = optionalFile.get();
+
+                const path = FilePaths.fromFileURL(file.url);
+
+                if (! await EncryptionKeys.isEncryptedFile(path)) {
+                    await this.writeFile(file.backend, file.ref, {path}, file.meta);
+                }
+
+            }
+
+            if (plaintext === data) {
+                await this.write(fingerprint, plaintext, docInfo);
+            }
+
+        }
+
+    }
+
+    /**
+     * Encrypt the revisions recorded before encryption was enabled.
+     */
+    public async encryptHistory(docRevisionStore: DocRevisionStore): Promise<void> {
+
+        await docRevisionStore.rewrite(data => {
+            return data.startsWith(ENCRYPTED_DOC_META_PREFIX) ? data : this.encryptDocMeta(data);
+        });
+
+    }
+
+    /**
+     * Decrypt the revisions in place so they can still be read once encryption
+     * is disabled.
+     */
+    public async decryptHistory(docRevisionStore: DocRevisionStore): Promise<void> {
+        await docRevisionStore.rewrite(data => this.decryptDocMeta(data));
+    }
+
+    /**
+     * A DocRevisionStore that decrypts the revisions recorded by the delegate.
+     */
+    public createDocRevisionStore(dir?: string): DocRevisionStore {
+        return new DocRevisionStore(dir, data => this.decryptDocMeta(data));
+    }
+
+    /**
+     * Write a plaintext copy of every doc and its files to the target
+     * datastore so that the user can move away from encryption.
+     */
+    public async exportTo(target: Datastore): Promise<void> {
+
+        for (const docMetaRef of await this.getDocMetaFiles()) {
+
+            const data = await this.getDocMeta(docMetaRef.fingerprint);
+
+            if (data === null) {
+                continue;
+            }
+
+            const docInfo = DocMetas.deserialize(data, docMetaRef.fingerprint).docInfo;
+
+            for (const syncFile of SyncDocs.fromDocInfo(docInfo, 'created').files) {
+
+                const optionalFile = await this.getFile(syncFile.backend, syncFile.ref);
+
+                if (optionalFile.isPresent()) {
+
+                    const file = optionalFile.get();
+
+                    if (await this.isSameFile(file, target)) {
+                        // the file was never encrypted and this is the same
+                        // file (we're decrypting in place).  Copying it onto
+                        // itself would truncate it.
+                        continue;
+                    }
+
+                    const fileData = file.url.startsWith('file:') ?
+                        {path: FilePaths.fromFileURL(file.url)} : await this.readURL(file.url);
+
+                    await target.writeFile(file.backend, file.ref, fileData, file.meta);
+
+                }
+
+            }
+
+            await target.write(docMetaRef.fingerprint, data, docInfo);
+
+        }
+
+    }
+
+    private async isSameFile(file: DatastoreFile, target: Datastore): Promise<boolean> {
+
+        if (! await target.containsFile(file.backend, file.ref)) {
+            return false;
+        }
+
+        const targetFile = await target.getFile(file.backend, file.ref);
+
+        return targetFile.isPresent() && targetFile.get().url === file.url;
+
+    }
+
+    private decryptSnapshotEvent(event: DocMetaSnapshotEvent): DocMetaSnapshotEvent {
+
+        const docMetaMutations = event.docMetaMutations.map(current => this.decryptDocMetaMutation(current));
+
+        return {...event, docMetaMutations};
+
+    }
+
+    private decryptDocMetaMutation(docMetaMutation: DocMetaMutation): DocMetaMutation {
+
+        if (docMetaMutation.mutationType === 'deleted') {
+            // there's no data to decrypt.
+            return docMetaMutation;
+        }
+
+        const {fingerprint} = docMetaMutation;
+
+        const dataProvider = AsyncProviders.memoize(async () => {
+            const data = await docMetaMutation.dataProvider();
+            return data === null ? null : this.decryptDocMeta(data);
+        });
+
+        const docMetaProvider = AsyncProviders.memoize(async () => DocMetas.deserialize((await dataProvider())!, fingerprint));
+        const docInfoProvider = AsyncProviders.memoize(async () => (await docMetaProvider()).docInfo);
+        const docMetaFileRefProvider = AsyncProviders.memoize(async () => DocMetaFileRefs.createFromDocInfo(await docInfoProvider()));
+
+        return {...docMetaMutation, dataProvider, docMetaProvider, docInfoProvider, docMetaFileRefProvider};
+
+    }
+
+    private encryptDocMeta(data: string): string {
+        const encrypted = this.getKey().encrypt(Buffer.from(data, 'utf-8'));
+        return JSON.stringify({encrypted: encrypted.toString('base64')});
+    }
+
+    private decryptDocMeta(data: string): string {
+
+        if (! data.startsWith(ENCRYPTED_DOC_META_PREFIX)) {
+            // written before encryption was enabled.
+            return data;
+        }
+
+        const encrypted = Buffer.from(JSON.parse(data).encrypted, 'base64');
+
+        return this.getKey().decrypt(encrypted).toString('utf-8');
+
+    }
+
+    private getKey(): EncryptionKey {
+
+        if (! this.key) {
+            throw new Error("Datastore not initialized");
+        }
+
+        return this.key;
+
+    }
+
+    /**
+     * Encrypt the file through a temporary file so that large files are
+     * never read into memory.
+     */
+    private async writeFileHandle(backend: Backend,
+                                  ref: FileRef,
+                                  fileHandle: FileHandle,
+                                  meta: FileMeta): Promise<DatastoreFile> {
+
+        const encryptedPath = FilePaths.join(this.cacheDir, 'encrypting-' + Hashcodes.createRandomID());
+
+        // the cached copy is now out of date.
+        await Files.removeAsync(this.toCachedFilePath(backend, ref));
+
+        try {
+            await this.getKey().encryptFile(fileHandle.path, encryptedPath);
+            return await super.writeFile(backend, ref, {path: encryptedPath}, meta);
+        } finally {
+            await Files.removeAsync(encryptedPath);
+        }
+
+    }
+
+    /**
+     * Decrypt a file stored on the local disk into the cache.
+     */
+    private async decryptLocalFile(datastoreFile: DatastoreFile): Promise<DatastoreFile> {
+
+        const src = FilePaths.fromFileURL(datastoreFile.url);
+
+        if (! await EncryptionKeys.isEncryptedFile(src)) {
+            // written before encryption was enabled.
+            return datastoreFile;
+        }
+
+        const path = await this.createCachedFilePath(datastoreFile.backend, datastoreFile.ref);
+
+        await this.getKey().decryptFile(src, path);
+
+        return {...datastoreFile, url: FilePaths.toFileURL(path)};
+
+    }
+
+    private toBuffer(data: Buffer | string): Buffer {
+
+        if (typeof data === 'string') {
+            return Buffer.from(data, 'utf-8');
+        }
+
+        return data;
+
+    }
+
+    private async readURL(url: string): Promise<Buffer> {
+
+        if (url.startsWith('file:')) {
+            return Files.readFileAsync(FilePaths.fromFileURL(url));
+        }
+
+        const response = await fetch(url);
+
+        if (! response.ok) {
+            throw new Error(`Unable to fetch ${url}: ${response.status}`);
+        }
+
+        return Buffer.from(await response.arrayBuffer());
+
+    }
+
+    private async writeCachedFile(backend: Backend, ref: FileRef, data: Buffer): Promise<string> {
+
+        const path = await this.createCachedFilePath(backend, ref);
+
+        await Files.writeFileAsync(path, data, {mode: 0o600});
+
+        return FilePaths.toFileURL(path);
+
+    }
+
+    private async createCachedFilePath(backend: Backend, ref: FileRef): Promise<string> {
+
+        const path = this.toCachedFilePath(backend, ref);
+
+        await Files.createDirAsync(FilePaths.dirname(path), 0o700);
+
+        return path;
+
+    }
+
+    private toCachedFilePath(backend: Backend, ref: FileRef) {
+        return FilePaths.join(this.cacheDir, backend, ref.name);
+    }
+
+    /**
+     * True when the datastore or one of the datastores it wraps (remote,
+     * cloud, etc) is encrypted.
+     */
+    public static isEncrypted(datastore: Datastore): boolean {
+        return datastore.id.includes(ID_PREFIX);
+    }
+
+    /**
+     * Remove the cache dirs of processes that are no longer running so that
+     * decrypted files don't outlive a crash.
+     */
+    private static async removeStaleCacheDirs() {
+
+        for (const name of await Files.readdirAsync(os.tmpdir())) {
+
+            if (! name.startsWith(CACHE_DIR_PREFIX)) {
+                continue;
+            }
+
+            const pid = parseInt(name.substring(CACHE_DIR_PREFIX.length), 10);
+
+            if (! isNaN(pid) && this.isRunning(pid)) {
+                continue;
+            }
+
+            try {
+                log.info("Removing stale decrypted files: " + name);
+                await Files.removeDirectoryRecursivelyAsync(FilePaths.join(os.tmpdir(), name));
+            } catch (e) {
+                log.warn("Unable to remove stale decrypted files: " + name, e);
+            }
+
+        }
+
+    }
+
+    private static isRunning(pid: number): boolean {
+
+        try {
+            // signal 0 only checks that the process exists.
+            process.kill(pid, 0);
+            return true;
+        } catch (e) {
+            // EPERM means it exists but belongs to another user.
+            return e.code === 'EPERM';
+        }
+
+    }
+
+}
+
+/**
+ * Enable, change or disable encryption of the data dir from the command line.
+ * The app must not be running.  The passphrase is read from the same
+ * environment variable the app uses:
+ *
+ *   POLAR_ENCRYPTION_PASSPHRASE=... node EncryptedDatastore.js enable
+ *   POLAR_ENCRYPTION_PASSPHRASE=... POLAR_NEW_ENCRYPTION_PASSPHRASE=... node EncryptedDatastore.js change-passphrase
+ *   POLAR_ENCRYPTION_PASSPHRASE=... node EncryptedDatastore.js disable
+ */
+async function main() {
+
+    const [command] = process.argv.slice(2);
+
+    const passphrase = process.env.POLAR_ENCRYPTION_PASSPHRASE;
+
+    if (! passphrase) {
+        throw new Error("POLAR_ENCRYPTION_PASSPHRASE is not set");
+    }
+
+    const keyStore = new EncryptionKeyStore();
+
+    switch (command) {
+
+        case 'enable':
+
+            if (await keyStore.exists()) {
+                throw new Error("Encryption is already enabled");
+            }
+
+            await withDatastore(new EncryptedDatastore(new DiskDatastore(), passphrase, keyStore), async datastore => {
+                await datastore.encryptExisting();
+                await datastore.encryptHistory(new DocRevisionStore());
+            });
+
+            log.info("Encryption enabled.  Start Polar with POLAR_ENCRYPTION_PASSPHRASE set.");
+            break;
+
+        case 'change-passphrase':
+
+            const newPassphrase = process.env.POLAR_NEW_ENCRYPTION_PASSPHRASE;
+
+            if (! newPassphrase) {
+                throw new Error("POLAR_NEW_ENCRYPTION_PASSPHRASE is not set");
+            }
+
+            await keyStore.changePassphrase(passphrase, newPassphrase);
+
+            log.info("Passphrase changed.");
+            break;
+
+        case 'disable':
+
+            // the docs and files are decrypted in place.  Unencrypted data is
+            // still readable so if this is interrupted it can just be run
+            // again.
+            const target = new DiskDatastore();
+
+            await target.init();
+
+            try {
+                await withDatastore(new EncryptedDatastore(new DiskDatastore(), passphrase, keyStore), async datastore => {
+                    await datastore.exportTo(target);
+                    await datastore.decryptHistory(new DocRevisionStore());
+                });
+            } finally {
+                await target.stop();
+            }
+
+            await keyStore.remove();
+
+            log.info("Encryption disabled.  Start Polar without POLAR_ENCRYPTION_PASSPHRASE.");
+            break;
+
+        default:
+            console.error("Usage: EncryptedDatastore.js enable|change-passphrase|disable");
+            process.exit(1);
+
+    }
+
+}
+
+async function withDatastore(datastore: EncryptedDatastore, delegate: (datastore: EncryptedDatastore) => Promise<void>) {
+
+    await datastore.init();
+
+    try {
+        await delegate(datastore);
+    } finally {
+        await datastore.stop();
+    }
+
+}
+
+if (require.main === module) {
+
+    main().catch(err => {
+        console.error(err.message);
+        process.exit(1);
+    });
+
+}
@@ -0,0 +1,244 @@
+import {assert} from 'chai';
+import os from 'os';
+import {EncryptedDatastore} from './EncryptedDatastore';
+import {DiskDatastore} from './DiskDatastore';
+import {MemoryDatastore} from './MemoryDatastore';
+import {GlobalDataDir} from './Directories';
+import {EncryptionKeyStore, IncorrectPassphraseException} from './encryption/EncryptionKeyStore';
+import {DocMetas, MockDocMetas} from '../metadata/DocMetas';
+import {FilePaths} from '../util/FilePaths';
+import {Files} from '../util/Files';
+import {Backend} from './Backend';
+import {DocRevisionStore} from './history/DocRevisionStore';
+
+const tmpdir = os.tmpdir();
+
+describe('EncryptedDatastore', function() {
+
+    const dataDir = FilePaths.join(tmpdir, 'encrypted-datastore-test');
+    const keyStorePath = FilePaths.join(tmpdir, 'encrypted-datastore-test-key.json');
+
+    let datastore: EncryptedDatastore;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dataDir);
+        await Files.removeAsync(keyStorePath);
+
+        GlobalDataDir.set(dataDir);
+
+        datastore = createDatastore('secret');
+        await datastore.init();
+
+    });
+
+    afterEach(async function() {
+        await datastore.stop();
+        GlobalDataDir.set(undefined);
+    });
+
+    function createDatastore(passphrase: string) {
+        return new EncryptedDatastore(new DiskDatastore(), passphrase, new EncryptionKeyStore(keyStorePath));
+    }
+
+    it("encrypt DocMeta at rest", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+
+        await datastore.writeDocMeta(docMeta);
+
+        const onDisk = await Files.readFileAsync(FilePaths.join(dataDir, '0x001', 'state.json'));
+        assert.notInclude(onDisk.toString('utf-8'), docMeta.docInfo.title!);
+
+        const data = await datastore.getDocMeta('0x001');
+        assert.equal(DocMetas.deserialize(data!, '0x001').docInfo.title, docMeta.docInfo.title);
+
+    });
+
+    it("encrypt files at rest", async function() {
+
+        const ref = {name: '0x001.pdf'};
+
+        await datastore.writeFile(Backend.STASH, ref, 'confidential pdf data');
+
+        const onDisk = await Files.readFileAsync(FilePaths.join(dataDir, 'stash', '0x001.pdf'));
+        assert.notInclude(onDisk.toString('utf-8'), 'confidential');
+
+        const file = await datastore.getFile(Backend.STASH, ref);
+        const data = await Files.readFileAsync(FilePaths.fromFileURL(file.get().url));
+
+        assert.equal(data.toString('utf-8'), 'confidential pdf data');
+
+    });
+
+    it("encrypt files written from a file handle", async function() {
+
+        const ref = {name: '0x001.pdf'};
+
+        const path = FilePaths.join(tmpdir, 'encrypted-datastore-test.pdf');
+        await Files.writeFileAsync(path, 'confidential pdf data '.repeat(10000));
+
+        await datastore.writeFile(Backend.STASH, ref, {path});
+
+        const onDisk = await Files.readFileAsync(FilePaths.join(dataDir, 'stash', '0x001.pdf'));
+        assert.notInclude(onDisk.toString('utf-8'), 'confidential');
+
+        const file = await datastore.getFile(Backend.STASH, ref);
+        const data = await Files.readFileAsync(FilePaths.fromFileURL(file.get().url));
+
+        assert.equal(data.toString('utf-8'), 'confidential pdf data '.repeat(10000));
+
+    });
+
+    it("store the key derivation with the key", async function() {
+
+        const data = JSON.parse((await Files.readFileAsync(keyStorePath)).toString('utf-8'));
+
+        assert.equal(data.version, 2);
+        assert.equal(data.keyDerivation.name, 'pbkdf2');
+
+    });
+
+    it("verify and change the passphrase", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+        await datastore.writeDocMeta(docMeta);
+
+        try {
+            await createDatastore('wrong').init();
+            assert.fail("Expected the wrong passphrase to fail");
+        } catch (e) {
+            assert.instanceOf(e, IncorrectPassphraseException);
+        }
+
+        await datastore.changePassphrase('secret', 'new secret');
+
+        const reopened = createDatastore('new secret');
+        await reopened.init();
+
+        assert.ok(await reopened.getDocMeta('0x001'));
+
+        await reopened.stop();
+
+    });
+
+    it("export to plaintext", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+        docMeta.docInfo.filename = '0x001.pdf';
+
+        await datastore.writeFile(Backend.STASH, {name: '0x001.pdf'}, 'pdf data');
+        await datastore.writeDocMeta(docMeta);
+
+        const target = new MemoryDatastore();
+        await target.init();
+
+        await datastore.exportTo(target);
+
+        const data = await target.getDocMeta('0x001');
+        assert.equal(DocMetas.deserialize(data!, '0x001').docInfo.title, docMeta.docInfo.title);
+
+        assert.ok(await target.containsFile(Backend.STASH, {name: '0x001.pdf'}));
+
+    });
+
+    it("encrypt existing data and decrypt it in place", async function() {
+
+        const statePath = FilePaths.join(dataDir, '0x001', 'state.json');
+        const stashPath = FilePaths.join(dataDir, 'stash', '0x001.pdf');
+
+        const diskDatastore = new DiskDatastore();
+        await diskDatastore.init();
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+        docMeta.docInfo.filename = '0x001.pdf';
+
+        await diskDatastore.writeFile(Backend.STASH, {name: '0x001.pdf'}, 'pdf data');
+        await diskDatastore.writeDocMeta(docMeta);
+
+        await datastore.encryptExisting();
+
+        assert.notInclude((await Files.readFileAsync(stashPath)).toString('utf-8'), 'pdf data');
+        assert.ok((await Files.readFileAsync(statePath)).toString('utf-8').startsWith('{"encrypted":"'));
+
+        const file = await datastore.getFile(Backend.STASH, {name: '0x001.pdf'});
+        assert.equal((await Files.readFileAsync(FilePaths.fromFileURL(file.get().url))).toString('utf-8'), 'pdf data');
+
+        await datastore.exportTo(diskDatastore);
+
+        assert.equal((await Files.readFileAsync(stashPath)).toString('utf-8'), 'pdf data');
+        assert.equal(DocMetas.deserialize((await Files.readFileAsync(statePath)).toString('utf-8'), '0x001').docInfo.title,
+                     docMeta.docInfo.title);
+
+        // running it again leaves the plaintext files alone.
+        await datastore.exportTo(diskDatastore);
+
+        assert.equal((await Files.readFileAsync(stashPath)).toString('utf-8'), 'pdf data');
+
+    });
+
+    it("remove decrypted files left behind by other processes", async function() {
+
+        // no process has this pid
+        const staleDir = FilePaths.join(tmpdir, 'polar-decrypted-999999999-test');
+
+        await Files.createDirAsync(staleDir);
+        await Files.writeFileAsync(FilePaths.join(staleDir, 'decrypted.pdf'), 'pdf data');
+
+        const reopened = createDatastore('secret');
+        await reopened.init();
+        await reopened.stop();
+
+        assert.isFalse(await Files.existsAsync(staleDir));
+
+    });
+
+    it("encrypt and decrypt the revision history", async function() {
+
+        const historyDir = FilePaths.join(dataDir, '.history');
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+
+        await datastore.writeDocMeta(docMeta);
+
+        const docRevisionStore = new DocRevisionStore(historyDir);
+
+        const [revision] = await docRevisionStore.list('0x001');
+
+        assert.notInclude(await docRevisionStore.get(revision), 'pageMetas');
+
+        const decryptingStore = datastore.createDocRevisionStore(historyDir);
+        assert.include(await decryptingStore.get(revision), 'pageMetas');
+
+        await datastore.decryptHistory(docRevisionStore);
+        assert.include(await docRevisionStore.get(revision), 'pageMetas');
+
+        await datastore.encryptHistory(docRevisionStore);
+        assert.notInclude(await docRevisionStore.get(revision), 'pageMetas');
+
+    });
+
+    it("remove the history of deleted docs", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+
+        await datastore.writeDocMeta(docMeta);
+
+        const historyDir = FilePaths.join(dataDir, '.history', '0x001');
+
+        assert.isTrue(await Files.existsAsync(historyDir));
+
+        await datastore.delete({fingerprint: '0x001', docInfo: docMeta.docInfo});
+
+        assert.isFalse(await Files.existsAsync(historyDir));
+
+    });
+
+    it("detect encrypted datastores", async function() {
+
+        assert.isTrue(EncryptedDatastore.isEncrypted(createDatastore('secret')));
+        assert.isFalse(EncryptedDatastore.isEncrypted(new MemoryDatastore()));
+
+    });
+
+});
@@ -8,6 +8,8 @@ import {IProvider} from "../util/Providers";
 import {ListenablePersistenceLayer} from './ListenablePersistenceLayer';
 import {Logger} from "../logger/Logger";
 import {RendererAnalytics} from '../ga/RendererAnalytics';
+import {SyncServerDatastore} from './SyncServerDatastore';
+import {SyncServerConnections} from './SyncServerConnections';
 
 const log = Logger.create();
 
@@ -131,6 +133,18 @@ export class PersistenceLayerManager implements IProvider<ListenablePersistenceL
             return CloudPersistenceLayerFactory.create();
         }
 
+        if (type === 'sync-server') {
+
+            const connection = SyncServerConnections.get();
+
+            if (! connection) {
+                throw new Error("No sync server connection");
+            }
+
+            return CloudPersistenceLayerFactory.create(new SyncServerDatastore(connection));
+
+        }
+
         throw new Error("Unknown type: " + type);
 
     }
@@ -151,7 +165,14 @@ export class PersistenceLayerManager implements IProvider<ListenablePersistenceL
 
 }
 
-export type PersistenceLayerType = 'local' | 'cloud';
+/**
+ * local: only the local disk.
+ *
+ * cloud: the local disk synced with Firebase.
+ *
+ * sync-server: the local disk synced with a self hosted SyncServer.
+ */
+export type PersistenceLayerType = 'local' | 'cloud' | 'sync-server';
 
 /**
  * The state of the persistence layer.
@@ -189,7 +210,7 @@ export class PersistenceLayerTypes {
             return 'local';
         }
 
-        if (currentType === 'local' || currentType === 'cloud') {
+        if (currentType === 'local' || currentType === 'cloud' || currentType === 'sync-server') {
             return currentType;
         }
 
@@ -20,6 +20,7 @@ import {Optional} from "../util/ts/Optional";
 import {DatastoreFile} from "./DatastoreFile";
 import {URLs} from "../util/URLs";
 import {Logger} from "../logger/Logger";
+import {DocMetaMerger} from './merge/DocMetaMerger';
 
 const log = Logger.create();
 
@@ -107,17 +108,21 @@ export class PersistenceLayers {
 
     /**
      * Make sure the latest version of the files are in both origins.
+     *
+     * @param docMetaMerger When given, docs changed in both origins are merged
+     *                      instead of the latest one replacing the other.
      */
     public static async synchronizeOrigins(localSyncOrigin: SyncOrigin,
                                            cloudSyncOrigin: SyncOrigin,
-                                           listener: DocMetaSnapshotEventListener = ASYNC_NULL_FUNCTION): Promise<void> {
+                                           listener: DocMetaSnapshotEventListener = ASYNC_NULL_FUNCTION,
+                                           docMetaMerger?: DocMetaMerger): Promise<void> {
 
         log.notice("Transferring from local -> cloud...");
-        const localToCloud = await PersistenceLayers.transfer(localSyncOrigin, cloudSyncOrigin, listener, 'local-to-cloud');
+        const localToCloud = await PersistenceLayers.transfer(localSyncOrigin, cloudSyncOrigin, listener, 'local-to-cloud', docMetaMerger);
         log.notice("Transferring from local -> cloud...done", localToCloud);
 
         log.notice("Transferring from cloud -> local...");
-        const cloudToLocal = await PersistenceLayers.transfer(cloudSyncOrigin, localSyncOrigin, listener, 'cloud-to-local');
+        const cloudToLocal = await PersistenceLayers.transfer(cloudSyncOrigin, localSyncOrigin, listener, 'cloud-to-local', docMetaMerger);
         log.notice("Transferring from cloud -> local...done", cloudToLocal);
 
     }
@@ -125,11 +130,16 @@ export class PersistenceLayers {
     /**
      * Synchronize the source with the target so that we know they are both in
      * sync.
+     *
+     * @param docMetaMerger When given, docs changed in both the source and
+     *                      target are merged instead of the latest one
+     *                      replacing the other.
      */
     public static async transfer(source: SyncOrigin,
                                  target: SyncOrigin,
                                  listener: DocMetaSnapshotEventListener = ASYNC_NULL_FUNCTION,
-                                 id: string = 'none'): Promise<TransferResult> {
+                                 id: string = 'none',
+                                 docMetaMerger?: DocMetaMerger): Promise<TransferResult> {
 
         // TODO: no errors are actually raised on the copy operations that are
         // operating in the async queue.  These need to be bubbled up.  This
@@ -224,7 +234,21 @@ export class PersistenceLayers {
 
             let doWriteDocMeta: boolean = ! targetSyncDoc;
 
-            if (targetSyncDoc) {
+            if (targetSyncDoc && docMetaMerger) {
+
+                if (UUIDs.compare(targetSyncDoc.uuid, sourceSyncDoc.uuid) !== 0) {
+
+                    const mergeType = await docMetaMerger.synchronize(source.datastore,
+                                                                      target.datastore,
+                                                                      sourceSyncDoc.fingerprint);
+
+                    if (mergeType) {
+                        ++result.docMeta.writes;
+                    }
+
+                }
+
+            } else if (targetSyncDoc) {
 
                 const cmp = UUIDs.compare(targetSyncDoc.uuid, sourceSyncDoc.uuid);
 
@@ -241,6 +265,10 @@ export class PersistenceLayers {
                 const data = await source.datastore.getDocMeta(sourceSyncDoc.fingerprint);
                 await target.datastore.write(sourceSyncDoc.fingerprint, data, sourceSyncDoc.docMetaFileRef.docInfo);
 
+                if (docMetaMerger && data) {
+                    await docMetaMerger.updateBase(sourceSyncDoc.fingerprint, data);
+                }
+
                 ++result.docMeta.writes;
 
             }
@@ -1,5 +1,6 @@
 import {DocRepoTableColumns} from "../../../apps/repository/js/doc_repo/DocRepoTableColumns";
 import {DeckNameStrategy} from "../apps/sync/framework/anki/AnkiSyncEngine";
+import {HighlightCategory} from '../metadata/HighlightCategories';
 
 /**
  * User settings for the UI.
@@ -13,6 +14,28 @@ export interface Settings {
 
     readonly documentRepository: DocumentRepositorySettings;
 
+    readonly backups?: BackupSettings;
+
+    /**
+     * The user defined highlight categories.  When undefined the default
+     * categories are used (see HighlightCategories).
+     */
+    readonly highlightCategories?: ReadonlyArray<HighlightCategory>;
+
+    /**
+     * The name shown as the author of comments.  When undefined the name of
+     * the user account is used (see Authors).
+     */
+    readonly authorName?: string;
+
+    /**
+     * When false, imported PDFs aren't looked up on Crossref and arXiv by
+     * their DOI or arXiv ID.  Enabled when undefined.
+     */
+    readonly enrichImportedMetadata?: boolean;
+
+    readonly ankiSettings?: AnkiSettings;
+
 }
 
 export interface DocumentRepositorySettings {
@@ -28,6 +51,43 @@ export interface AnkiSettings {
 
     readonly deckNameStrategy: DeckNameStrategy;
 
+    /**
+     * When true the notes of flashcards deleted in Polar are deleted from Anki
+     * too.  Otherwise they're only reported.
+     */
+    readonly deleteNotes?: boolean;
+
+}
+
+/**
+ * How often backups of the datastore are created automatically.
+ */
+export type BackupSchedule = 'manual' | 'hourly' | 'daily' | 'weekly';
+
+export interface BackupSettings {
+
+    readonly schedule: BackupSchedule;
+
+    /**
+     * The number of daily and weekly backups to keep.  The newest backup of
+     * each day (and week) is kept and all others are removed.
+     */
+    readonly retention: BackupRetention;
+
+    /**
+     * When set a zip archive of each backup is also written to this directory
+     * so that backups can be kept on another disk.
+     */
+    readonly archiveDir?: string;
+
+}
+
+export interface BackupRetention {
+
+    readonly daily: number;
+
+    readonly weekly: number;
+
 }
 
 export class DefaultSettings implements Settings {
@@ -40,4 +100,17 @@ export class DefaultSettings implements Settings {
         deckNameStrategy: 'per-document'
     };
 
+    public readonly backups: BackupSettings = new DefaultBackupSettings();
+
+}
+
+export class DefaultBackupSettings implements BackupSettings {
+
+    public readonly schedule: BackupSchedule = 'daily';
+
+    public readonly retention: BackupRetention = {
+        daily: 7,
+        weekly: 4
+    };
+
 }
@@ -0,0 +1,40 @@
+/**
+ * The sync server the user connected to which we keep in local storage like
+ * the persistence layer type.
+ */
+export class SyncServerConnections {
+
+    private static readonly KEY = 'polar-sync-server-connection';
+
+    public static get(): SyncServerConnection | undefined {
+
+        const value = window.localStorage.getItem(this.KEY);
+
+        if (! value) {
+            return undefined;
+        }
+
+        return JSON.parse(value);
+
+    }
+
+    public static set(connection: SyncServerConnection) {
+        window.localStorage.setItem(this.KEY, JSON.stringify(connection));
+    }
+
+    public static clear() {
+        window.localStorage.removeItem(this.KEY);
+    }
+
+}
+
+export interface SyncServerConnection {
+
+    /**
+     * The base URL of the server (for example http://localhost:8700).
+     */
+    readonly url: string;
+
+    readonly token?: string;
+
+}
@@ -0,0 +1,459 @@
+import WebSocket from 'ws';
+import {AbstractDatastore, Datastore, DeleteResult, DocMetaMutation, DocMetaSnapshotEvent, DocMetaSnapshotEventListener, ErrorListener, FileMeta, FileRef, InitResult, SnapshotResult} from './Datastore';
+import {Logger} from '../logger/Logger';
+import {DocMetaFileRef, DocMetaFileRefs, DocMetaRef} from './DocMetaRef';
+import {Backend} from './Backend';
+import {DatastoreFile} from './DatastoreFile';
+import {Optional} from '../util/ts/Optional';
+import {DocInfo, IDocInfo} from '../metadata/DocInfo';
+import {Preconditions} from '../Preconditions';
+import {Dictionaries} from '../util/Dictionaries';
+import {DatastoreMutation, DefaultDatastoreMutation} from './DatastoreMutation';
+import {NULL_FUNCTION} from '../util/Functions';
+import {DocMetas} from '../metadata/DocMetas';
+import {ProgressTracker} from '../util/ProgressTracker';
+import {AsyncProviders} from '../util/Providers';
+import {FileHandle, FileHandles, Files} from '../util/Files';
+import {IEventDispatcher, SimpleReactor} from '../reactor/SimpleReactor';
+import {SyncServerConnection} from './SyncServerConnections';
+import {FILE_META_HEADER, SyncServerEvent} from '../backend/syncserver/SyncServerEvent';
+import fetch, {RequestInit} from '../util/Fetch';
+
+const log = Logger.create();
+
+/**
+ * How long we wait before connecting again after losing the connection to the
+ * sync server.
+ */
+const RECONNECT_DELAY = 5000;
+
+/**
+ * A datastore backed by a self hosted SyncServer.  It's used as the cloud side
+ * of the CloudAwareDatastore in place of the FirebaseDatastore.
+ *
+ * Documents and files are read and written over HTTP and changes made by other
+ * clients are received over a web socket.  Every time we (re)connect we list
+ * all the documents on the server as a new batch so that changes made while
+ * we were disconnected aren't lost.
+ */
+export class SyncServerDatastore extends AbstractDatastore implements Datastore {
+
+    public readonly id = 'sync-server';
+
+    private readonly url: string;
+
+    private readonly token?: string;
+
+    private readonly docMetaSnapshotEventDispatcher: IEventDispatcher<DocMetaSnapshotEvent> = new SimpleReactor();
+
+    private readonly unsubscribers: Array<() => void> = [];
+
+    constructor(connection: SyncServerConnection) {
+        super();
+
+        Preconditions.assertPresent(connection, "connection");
+
+        this.url = connection.url.replace(/\/+$/, '');
+        this.token = connection.token;
+
+    }
+
+    public async init(errorListener: ErrorListener = NULL_FUNCTION): Promise<InitResult> {
+        return {};
+    }
+
+    public async stop() {
+
+        for (const unsubscriber of this.unsubscribers) {
+            unsubscriber();
+        }
+
+    }
+
+    public async snapshot(docMetaSnapshotEventListener: DocMetaSnapshotEventListener,
+                          errorListener: ErrorListener = NULL_FUNCTION): Promise<SnapshotResult> {
+
+        let batchID = 0;
+
+        let unsubscribed = false;
+
+        let webSocket: WebSocket | undefined;
+
+        let reconnectTimeout: any;
+
+        // the docs we've told the listener about so that we can detect the
+        // ones deleted while we were disconnected.
+        let known: {[fingerprint: string]: IDocInfo} = {};
+
+        // events are dispatched one batch at a time and in order.
+        let pending: Promise<void> = Promise.resolve();
+
+        const enqueue = (task: () => Promise<void>) => {
+
+            pending = pending.then(task)
+                .catch(err => {
+                    log.error("Could not handle sync server event: ", err);
+                    errorListener(err);
+                });
+
+        };
+
+        const handleConnected = async () => {
+
+            const docInfos = await this.getDocInfos();
+
+            const current: {[fingerprint: string]: IDocInfo} = {};
+
+            for (const docInfo of docInfos) {
+                current[docInfo.fingerprint] = docInfo;
+            }
+
+            const deleted: SyncServerEvent[] =
+                Object.values(known)
+                    .filter(docInfo => ! current[docInfo.fingerprint])
+                    .map(docInfo => ({mutationType: 'deleted', docInfo} as SyncServerEvent));
+
+            const created: SyncServerEvent[] =
+                docInfos.map(docInfo => ({mutationType: 'created', docInfo} as SyncServerEvent));
+
+            known = current;
+
+            await this.dispatchBatch([...deleted, ...created], batchID++, docMetaSnapshotEventListener);
+
+        };
+
+        const handleEvent = async (event: SyncServerEvent) => {
+
+            if (event.mutationType === 'deleted') {
+                delete known[event.docInfo.fingerprint];
+            } else {
+                known[event.docInfo.fingerprint] = event.docInfo;
+            }
+
+            await this.dispatchBatch([event], batchID++, docMetaSnapshotEventListener);
+
+        };
+
+        const connect = () => {
+
+            webSocket = new WebSocket(this.createURL('/api/v1/events').replace(/^http/, 'ws'),
+                                      {headers: this.createHeaders()});
+
+            webSocket.on('open', () => enqueue(handleConnected));
+
+            webSocket.on('message', (data: WebSocket.Data) => {
+
+                let event: SyncServerEvent;
+
+                try {
+                    event = JSON.parse(data.toString());
+                } catch (e) {
+                    log.error("Unable to parse sync server event: ", e);
+                    return;
+                }
+
+                enqueue(() => handleEvent(event));
+
+            });
+
+            webSocket.on('error', (err: Error) => {
+                log.warn("Sync server connection error: ", err.message);
+            });
+
+            webSocket.on('close', () => {
+
+                if (! unsubscribed) {
+                    log.info(`Lost connection to the sync server.  Reconnecting in ${RECONNECT_DELAY}ms`);
+                    reconnectTimeout = setTimeout(connect, RECONNECT_DELAY);
+                }
+
+            });
+
+        };
+
+        connect();
+
+        const unsubscribe = () => {
+
+            unsubscribed = true;
+
+            clearTimeout(reconnectTimeout);
+
+            if (webSocket) {
+                webSocket.close();
+            }
+
+        };
+
+        this.unsubscribers.push(unsubscribe);
+
+        return {
+            unsubscribe
+        };
+
+    }
+
+    public async contains(fingerprint: string): Promise<boolean> {
+        return await this.getDocMeta(fingerprint) !== null;
+    }
+
+    public async delete(docMetaFileRef: DocMetaFileRef,
+                        datastoreMutation: DatastoreMutation<boolean> = new DefaultDatastoreMutation()): Promise<Readonly<DeleteResult>> {
+
+        try {
+
+            // the server removes the PDF/PHZ stash file of the doc too.
+            await this.request('DELETE', this.createDocPath(docMetaFileRef.fingerprint));
+
+            datastoreMutation.written.resolve(true);
+            datastoreMutation.committed.resolve(true);
+
+            return {};
+
+        } catch (e) {
+            datastoreMutation.written.reject(e);
+            datastoreMutation.committed.reject(e);
+            throw e;
+        }
+
+    }
+
+    public async getDocMeta(fingerprint: string): Promise<string | null> {
+
+        const response = await this.request('GET', this.createDocPath(fingerprint), {}, true);
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        return await response.text();
+
+    }
+
+    public async getDocMetaFiles(): Promise<DocMetaRef[]> {
+
+        const docInfos = await this.getDocInfos();
+
+        return docInfos.map(docInfo => ({fingerprint: docInfo.fingerprint}));
+
+    }
+
+    public async writeFile(backend: Backend,
+                           ref: FileRef,
+                           data: FileHandle | Buffer | string,
+                           meta: FileMeta = {}): Promise<DatastoreFile> {
+
+        if (typeof data === 'string') {
+            data = Buffer.from(data);
+        } else if (FileHandles.isFileHandle(data)) {
+            const fileHandle = <FileHandle> data;
+            data = await Files.readFileAsync(fileHandle.path);
+        }
+
+        await this.request('PUT', this.createFilePath(backend, ref), {
+            body: <Buffer> data,
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                [FILE_META_HEADER]: encodeURIComponent(JSON.stringify(meta))
+            }
+        });
+
+        return {backend, ref, url: this.createFileURL(backend, ref), meta};
+
+    }
+
+    public async getFile(backend: Backend, ref: FileRef): Promise<Optional<DatastoreFile>> {
+
+        const response = await this.request('HEAD', this.createFilePath(backend, ref), {}, true);
+
+        if (response.status === 404) {
+            return Optional.empty();
+        }
+
+        const header = response.headers.get(FILE_META_HEADER);
+        const meta: FileMeta = header ? JSON.parse(decodeURIComponent(header)) : {};
+
+        return Optional.of({backend, ref, url: this.createFileURL(backend, ref), meta});
+
+    }
+
+    public async containsFile(backend: Backend, ref: FileRef): Promise<boolean> {
+        const datastoreFile = await this.getFile(backend, ref);
+        return datastoreFile.isPresent();
+    }
+
+    public async deleteFile(backend: Backend, ref: FileRef): Promise<void> {
+        await this.request('DELETE', this.createFilePath(backend, ref));
+    }
+
+    public async write(fingerprint: string,
+                       data: string,
+                       docInfo: DocInfo,
+                       datastoreMutation: DatastoreMutation<boolean> = new DefaultDatastoreMutation()) {
+
+        try {
+
+            docInfo = Object.assign({}, Dictionaries.onlyDefinedProperties(docInfo));
+
+            await this.request('PUT', this.createDocPath(fingerprint), {
+                body: JSON.stringify({data, docInfo}),
+                headers: {
+                    'Content-Type': 'application/json'
+                }
+            });
+
+            // the server has written it to disk so it's both written and
+            // committed.
+            datastoreMutation.written.resolve(true);
+            datastoreMutation.committed.resolve(true);
+
+        } catch (e) {
+            datastoreMutation.written.reject(e);
+            datastoreMutation.committed.reject(e);
+            throw e;
+        }
+
+    }
+
+    public addDocMetaSnapshotEventListener(docMetaSnapshotEventListener: DocMetaSnapshotEventListener): void {
+        this.docMetaSnapshotEventDispatcher.addEventListener(docMetaSnapshotEventListener);
+    }
+
+    private async getDocInfos(): Promise<ReadonlyArray<IDocInfo>> {
+
+        const response = await this.request('GET', '/api/v1/docs');
+
+        const json: {docInfos: IDocInfo[]} = await response.json();
+
+        return json.docInfos;
+
+    }
+
+    private async dispatchBatch(events: ReadonlyArray<SyncServerEvent>,
+                                batchID: number,
+                                docMetaSnapshotEventListener: DocMetaSnapshotEventListener) {
+
+        const progressTracker = new ProgressTracker(events.length, 'sync-server-snapshot');
+
+        const dispatchEvent = async (docMetaSnapshotEvent: DocMetaSnapshotEvent) => {
+            this.docMetaSnapshotEventDispatcher.dispatchEvent(docMetaSnapshotEvent);
+            await docMetaSnapshotEventListener(docMetaSnapshotEvent);
+        };
+
+        for (const event of events) {
+
+            await dispatchEvent({
+                datastore: this.id,
+                consistency: 'committed',
+                progress: progressTracker.incr(),
+                docMetaMutations: [this.toDocMetaMutation(event)],
+                batch: {
+                    id: batchID,
+                    terminated: false
+                }
+            });
+
+        }
+
+        await dispatchEvent({
+            datastore: this.id,
+            consistency: 'committed',
+            progress: progressTracker.terminate(),
+            docMetaMutations: [],
+            batch: {
+                id: batchID,
+                terminated: true
+            }
+        });
+
+    }
+
+    private toDocMetaMutation(event: SyncServerEvent): DocMetaMutation {
+
+        const docInfo = event.docInfo;
+        const fingerprint = docInfo.fingerprint;
+
+        const dataProvider = AsyncProviders.memoize(async () => {
+
+            if (event.mutationType === 'deleted') {
+                return null;
+            }
+
+            return await this.getDocMeta(fingerprint);
+
+        });
+
+        const docMetaProvider = AsyncProviders.memoize(async () => {
+            const data = await dataProvider();
+            Preconditions.assertPresent(data, `No data for docMeta with fingerprint: ${fingerprint}`);
+            return DocMetas.deserialize(data!, fingerprint);
+        });
+
+        return {
+            fingerprint,
+            dataProvider,
+            docMetaProvider,
+            docInfoProvider: AsyncProviders.of(docInfo),
+            docMetaFileRefProvider: AsyncProviders.of(DocMetaFileRefs.createFromDocInfo(docInfo)),
+            mutationType: event.mutationType
+        };
+
+    }
+
+    /**
+     * @param allowMissing When true a 404 is returned to the caller instead of
+     * failing.
+     */
+    private async request(method: string, path: string, init: RequestInit = {}, allowMissing: boolean = false) {
+
+        const headers = {...(init.headers || {}), ...this.createHeaders()};
+
+        const response = await fetch(this.createURL(path), {...init, method, headers});
+
+        if (response.ok || (allowMissing && response.status === 404)) {
+            return response;
+        }
+
+        throw new Error(`Sync server request failed: ${method} ${path}: ${response.status} ${response.statusText}`);
+
+    }
+
+    private createHeaders(): {[key: string]: string} {
+
+        if (! this.token) {
+            return {};
+        }
+
+        return {Authorization: `Bearer ${this.token}`};
+
+    }
+
+    private createURL(path: string) {
+        return this.url + path;
+    }
+
+    /**
+     * The URL for the file used by the viewer to load it so we have to include
+     * the token in the URL itself.
+     */
+    private createFileURL(backend: Backend, ref: FileRef) {
+
+        const url = this.createURL(this.createFilePath(backend, ref));
+
+        if (this.token) {
+            return `${url}?token=${encodeURIComponent(this.token)}`;
+        }
+
+        return url;
+
+    }
+
+    private createDocPath(fingerprint: string) {
+        return `/api/v1/docs/${encodeURIComponent(fingerprint)}`;
+    }
+
+    private createFilePath(backend: Backend, ref: FileRef) {
+        return `/api/v1/files/${backend}/${encodeURIComponent(ref.name)}`;
+    }
+
+}
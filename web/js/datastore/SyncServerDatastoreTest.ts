@@ -0,0 +1,184 @@
+import {assert} from 'chai';
+import os from 'os';
+import {SyncServer} from '../backend/syncserver/SyncServer';
+import {SyncServerConfig} from '../backend/syncserver/SyncServerConfig';
+import {FILE_META_HEADER} from '../backend/syncserver/SyncServerEvent';
+import {SyncServerDatastore} from './SyncServerDatastore';
+import {DocMetas, MockDocMetas} from '../metadata/DocMetas';
+import {FilePaths} from '../util/FilePaths';
+import {Files} from '../util/Files';
+import {Backend} from './Backend';
+import {DocMetaSnapshotEvent} from './Datastore';
+import {DefaultDatastoreMutation} from './DatastoreMutation';
+import {Latch} from '../util/Latch';
+import fetch from '../util/Fetch';
+
+const tmpdir = os.tmpdir();
+
+describe('SyncServerDatastore', function() {
+
+    const port = 8711;
+    const token = 'test-token';
+    const url = `http://127.0.0.1:${port}`;
+
+    const dataDir = FilePaths.join(tmpdir, 'sync-server-datastore-test');
+
+    let syncServer: SyncServer;
+    let datastore: SyncServerDatastore;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dataDir);
+
+        syncServer = new SyncServer(new SyncServerConfig(dataDir, port, '127.0.0.1', token));
+        await syncServer.start();
+
+        datastore = new SyncServerDatastore({url, token});
+        await datastore.init();
+
+    });
+
+    afterEach(async function() {
+        await datastore.stop();
+        await syncServer.stop();
+    });
+
+    it("write, read and delete a doc", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+
+        const datastoreMutation = new DefaultDatastoreMutation<boolean>();
+
+        await datastore.write('0x001', DocMetas.serialize(docMeta), docMeta.docInfo, datastoreMutation);
+
+        assert.ok(await datastoreMutation.committed.get());
+
+        assert.ok(await datastore.contains('0x001'));
+
+        const data = await datastore.getDocMeta('0x001');
+        assert.equal(DocMetas.deserialize(data!, '0x001').docInfo.uuid, docMeta.docInfo.uuid);
+
+        assert.deepEqual(await datastore.getDocMetaFiles(), [{fingerprint: '0x001'}]);
+
+        await datastore.delete({fingerprint: '0x001', docInfo: docMeta.docInfo});
+
+        assert.isNull(await datastore.getDocMeta('0x001'));
+        assert.deepEqual(await datastore.getDocMetaFiles(), []);
+
+    });
+
+    it("write and read a file", async function() {
+
+        const ref = {name: '0x001.phz'};
+
+        const datastoreFile = await datastore.writeFile(Backend.STASH, ref, 'hello world', {foo: 'bar'});
+
+        assert.ok(await datastore.containsFile(Backend.STASH, ref));
+
+        const file = await datastore.getFile(Backend.STASH, ref);
+
+        assert.deepEqual(file.get().meta, {foo: 'bar'});
+        assert.equal(file.get().url, datastoreFile.url);
+
+        const response = await fetch(file.get().url);
+        assert.equal(await response.text(), 'hello world');
+
+        await datastore.deleteFile(Backend.STASH, ref);
+
+        assert.ok(! await datastore.containsFile(Backend.STASH, ref));
+
+    });
+
+    it("snapshot with the existing docs and then changes from other clients", async function() {
+
+        const docMeta0 = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+        await datastore.write('0x001', DocMetas.serialize(docMeta0), docMeta0.docInfo);
+
+        const events: DocMetaSnapshotEvent[] = [];
+
+        const initialBatch = new Latch<boolean>();
+        const secondBatch = new Latch<boolean>();
+
+        await datastore.snapshot(async event => {
+
+            events.push(event);
+
+            if (event.batch!.terminated) {
+                (event.batch!.id === 0 ? initialBatch : secondBatch).resolve(true);
+            }
+
+        });
+
+        await initialBatch.get();
+
+        assert.deepEqual(events.map(event => event.docMetaMutations.map(current => current.fingerprint)),
+                         [['0x001'], []]);
+
+        const docMeta = await events[0].docMetaMutations[0].docMetaProvider();
+        assert.equal(docMeta.docInfo.uuid, docMeta0.docInfo.uuid);
+
+        // now write from another client.
+
+        const otherDatastore = new SyncServerDatastore({url, token});
+
+        const docMeta1 = MockDocMetas.createWithinInitialPagemarks('0x002', 2);
+        await otherDatastore.write('0x002', DocMetas.serialize(docMeta1), docMeta1.docInfo);
+
+        await secondBatch.get();
+
+        const mutation = events[2].docMetaMutations[0];
+
+        assert.equal(mutation.fingerprint, '0x002');
+        assert.equal(mutation.mutationType, 'created');
+        assert.equal(events[2].consistency, 'committed');
+
+    });
+
+    it("rejects invalid fingerprints", async function() {
+
+        const headers = {Authorization: `Bearer ${token}`};
+
+        for (const fingerprint of ['..', '..%2Fconfig', '0x001%2F..']) {
+            const response = await fetch(`${url}/api/v1/docs/${fingerprint}`, {headers});
+            assert.equal(response.status, 400, fingerprint);
+        }
+
+    });
+
+    it("rejects invalid file names and backends", async function() {
+
+        const headers = {Authorization: `Bearer ${token}`};
+
+        for (const path of ['stash/..', 'stash/..%2Fconfig', 'stash/0x001%2F..', 'unknown/0x001.pdf']) {
+            const response = await fetch(`${url}/api/v1/files/${path}`, {headers});
+            assert.equal(response.status, 400, path);
+        }
+
+    });
+
+    it("rejects invalid file meta", async function() {
+
+        const headers = {
+            Authorization: `Bearer ${token}`,
+            [FILE_META_HEADER]: '%7Bnot%20json'
+        };
+
+        const response = await fetch(`${url}/api/v1/files/stash/0x001.pdf`, {method: 'PUT', headers, body: 'pdf data'});
+        assert.equal(response.status, 400);
+
+    });
+
+    it("requires the token", async function() {
+
+        const unauthorized = new SyncServerDatastore({url, token: 'wrong'});
+
+        try {
+            await unauthorized.getDocMetaFiles();
+            assert.fail("Expected the request to fail");
+        } catch (e) {
+            assert.match(e.message, /401/);
+        }
+
+    });
+
+});
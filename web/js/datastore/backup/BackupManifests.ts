@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import {ISODateTimeString, ISODateTimeStrings} from '../../metadata/ISODateTimeStrings';
+
+/**
+ * The version of the manifest format.  Increment this when the format changes
+ * in a way older versions can't verify.
+ */
+export const BACKUP_MANIFEST_VERSION = 1;
+
+/**
+ * The name of the manifest inside of a backup directory or archive.
+ */
+export const BACKUP_MANIFEST_NAME = 'manifest.json';
+
+/**
+ * Creates and verifies the manifests that describe the contents of a backup.
+ */
+export class BackupManifests {
+
+    public static create(files: ReadonlyArray<BackupManifestFile>,
+                         created: ISODateTimeString = ISODateTimeStrings.create()): BackupManifest {
+
+        return {
+            version: BACKUP_MANIFEST_VERSION,
+            created,
+            files: [...files].sort((a, b) => a.path.localeCompare(b.path))
+        };
+
+    }
+
+    /**
+     * Compute the size and hash of the data in the stream without reading it
+     * all into memory since stash files can be large.
+     */
+    public static async digest(stream: NodeJS.ReadableStream): Promise<BackupFileDigest> {
+
+        const hash = crypto.createHash('sha256');
+
+        let size = 0;
+
+        await new Promise<void>((resolve, reject) => {
+
+            stream.on('data', (chunk: Buffer) => {
+                hash.update(chunk);
+                size += chunk.length;
+            });
+
+            stream.on('error', (err: Error) => reject(err));
+            stream.on('end', () => resolve());
+
+        });
+
+        return {size, sha256: hash.digest('hex')};
+
+    }
+
+    public static async toManifestFile(path: string, stream: NodeJS.ReadableStream): Promise<BackupManifestFile> {
+        return {path, ...await this.digest(stream)};
+    }
+
+    /**
+     * Verify every file in the manifest against the given reader.
+     */
+    public static async verify(manifest: BackupManifest, reader: BackupReader): Promise<BackupVerification> {
+
+        if (manifest.version > BACKUP_MANIFEST_VERSION) {
+            throw new Error("Unsupported backup manifest version: " + manifest.version);
+        }
+
+        const errors: BackupVerificationError[] = [];
+
+        for (const file of manifest.files) {
+
+            const stream = await reader.createReadStream(file.path);
+
+            if (! stream) {
+                errors.push({path: file.path, reason: 'missing'});
+                continue;
+            }
+
+            const digest = await this.digest(stream);
+
+            if (digest.size !== file.size || digest.sha256 !== file.sha256) {
+                errors.push({path: file.path, reason: 'corrupt'});
+            }
+
+        }
+
+        return {manifest, errors};
+
+    }
+
+}
+
+/**
+ * Reads files from a backup by their relative path, independent of whether the
+ * backup is a directory or a zip archive.
+ */
+export interface BackupReader {
+
+    /**
+     * Return the data for the file or undefined if it does not exist.
+     */
+    read(path: string): Promise<Buffer | undefined>;
+
+    /**
+     * Return a stream of the data for the file or undefined if it does not
+     * exist.
+     */
+    createReadStream(path: string): Promise<NodeJS.ReadableStream | undefined>;
+
+}
+
+export interface BackupManifest {
+
+    readonly version: number;
+
+    readonly created: ISODateTimeString;
+
+    readonly files: ReadonlyArray<BackupManifestFile>;
+
+}
+
+export interface BackupFileDigest {
+
+    readonly size: number;
+
+    readonly sha256: string;
+
+}
+
+export interface BackupManifestFile extends BackupFileDigest {
+
+    /**
+     * The path of the file relative to the data dir, always using '/' as the
+     * separator.
+     */
+    readonly path: string;
+
+}
+
+export interface BackupVerification {
+
+    readonly manifest: BackupManifest;
+
+    readonly errors: ReadonlyArray<BackupVerificationError>;
+
+}
+
+export interface BackupVerificationError {
+
+    readonly path: string;
+
+    readonly reason: 'missing' | 'corrupt';
+
+}
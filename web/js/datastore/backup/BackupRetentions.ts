@@ -0,0 +1,79 @@
+import {ISODateTimeString} from '../../metadata/ISODateTimeStrings';
+import {BackupRetention} from '../Settings';
+
+/**
+ * Decides which backups to keep based on a retention policy.
+ */
+export class BackupRetentions {
+
+    /**
+     * Return the backups to keep.  The newest backup is always kept along with
+     * the newest backup of each of the last `daily` days and each of the last
+     * `weekly` weeks that have backups.
+     */
+    public static select<T extends RetainedBackup>(backups: ReadonlyArray<T>,
+                                                   retention: BackupRetention): T[] {
+
+        const newestFirst = [...backups].sort((a, b) => b.created.localeCompare(a.created));
+
+        const keep = new Set<T>();
+
+        if (newestFirst.length > 0) {
+            keep.add(newestFirst[0]);
+        }
+
+        const selectByPeriod = (toPeriod: (backup: T) => string, limit: number) => {
+
+            const periods = new Set<string>();
+
+            for (const backup of newestFirst) {
+
+                if (periods.size >= limit) {
+                    break;
+                }
+
+                const period = toPeriod(backup);
+
+                if (! periods.has(period)) {
+                    periods.add(period);
+                    keep.add(backup);
+                }
+
+            }
+
+        };
+
+        selectByPeriod(backup => this.toDay(backup.created), retention.daily);
+        selectByPeriod(backup => this.toWeek(backup.created), retention.weekly);
+
+        return newestFirst.filter(backup => keep.has(backup));
+
+    }
+
+    private static toDay(created: ISODateTimeString) {
+        return created.substring(0, 10);
+    }
+
+    /**
+     * The week of the backup, identified by the date of its Monday (UTC).
+     */
+    private static toWeek(created: ISODateTimeString) {
+
+        const date = new Date(created);
+
+        // getUTCDay() is zero for Sunday so shift so Monday starts the week.
+        const offset = (date.getUTCDay() + 6) % 7;
+
+        date.setUTCDate(date.getUTCDate() - offset);
+
+        return date.toISOString().substring(0, 10);
+
+    }
+
+}
+
+export interface RetainedBackup {
+
+    readonly created: ISODateTimeString;
+
+}
@@ -0,0 +1,46 @@
+import {assert} from 'chai';
+import {BackupRetentions} from './BackupRetentions';
+
+describe('BackupRetentions', function() {
+
+    const backups = [
+        '2012-03-02T11:38:49.321Z',
+        '2012-03-02T09:00:00.000Z',
+        '2012-03-01T09:00:00.000Z',
+        '2012-02-28T09:00:00.000Z',
+        '2012-02-20T09:00:00.000Z',
+        '2012-02-14T09:00:00.000Z',
+        '2012-01-01T09:00:00.000Z',
+    ].map(created => ({created}));
+
+    function select(daily: number, weekly: number) {
+        return BackupRetentions.select(backups, {daily, weekly}).map(current => current.created);
+    }
+
+    it("keep the newest backup of each day", function() {
+
+        assert.deepEqual(select(3, 0), [
+            '2012-03-02T11:38:49.321Z',
+            '2012-03-01T09:00:00.000Z',
+            '2012-02-28T09:00:00.000Z',
+        ]);
+
+    });
+
+    it("keep the newest backup of each week", function() {
+
+        // 2012-02-27 is a Monday so 2012-02-28 through 2012-03-02 are in the
+        // same week.
+        assert.deepEqual(select(0, 3), [
+            '2012-03-02T11:38:49.321Z',
+            '2012-02-20T09:00:00.000Z',
+            '2012-02-14T09:00:00.000Z',
+        ]);
+
+    });
+
+    it("always keep the newest backup", function() {
+        assert.deepEqual(select(0, 0), ['2012-03-02T11:38:49.321Z']);
+    });
+
+});
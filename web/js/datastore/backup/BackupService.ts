@@ -0,0 +1,160 @@
+import {Logger} from '../../logger/Logger';
+import {SettingsStore} from '../SettingsStore';
+import {BackupSchedule, BackupSettings, DefaultBackupSettings, Settings} from '../Settings';
+import {Backup, Backups} from './Backups';
+import {BackupVerification} from './BackupManifests';
+
+const log = Logger.create();
+
+/**
+ * How often we check whether a scheduled backup is due.
+ */
+const CHECK_INTERVAL = 10 * 60 * 1000;
+
+const SCHEDULE_INTERVALS: {[schedule: string]: number} = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Runs in the main process and creates backups based on the schedule in the
+ * user settings, pruning old backups after each one.
+ */
+export class BackupService {
+
+    private readonly backups: Backups;
+
+    private settings: BackupSettings = new DefaultBackupSettings();
+
+    private timeout?: number;
+
+    /**
+     * Backup operations are serialized so that a scheduled backup never runs
+     * while a restore is in progress.
+     */
+    private queue: Promise<any> = Promise.resolve();
+
+    constructor(backups: Backups = new Backups()) {
+        this.backups = backups;
+    }
+
+    public async start() {
+
+        const settings = await SettingsStore.load();
+
+        this.settings = {...this.settings, ...(settings.backups || {})};
+
+        this.schedule(0);
+
+    }
+
+    public stop() {
+
+        if (this.timeout !== undefined) {
+            clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+
+    }
+
+    public getSettings(): BackupSettings {
+        return this.settings;
+    }
+
+    public async setSchedule(schedule: BackupSchedule) {
+        await this.updateSettings({...this.settings, schedule});
+    }
+
+    public async setArchiveDir(archiveDir: string | undefined) {
+        await this.updateSettings({...this.settings, archiveDir});
+    }
+
+    /**
+     * Create a backup now and prune the backups no longer retained.
+     */
+    public async create(): Promise<Backup> {
+
+        return this.enqueue(async () => {
+
+            const backup = await this.backups.create(this.settings.archiveDir);
+
+            await this.backups.prune(this.settings.retention, this.settings.archiveDir);
+
+            return backup;
+
+        });
+
+    }
+
+    public async verify(path: string): Promise<BackupVerification> {
+        return this.enqueue(() => this.backups.verify(path));
+    }
+
+    public async restore(path: string): Promise<BackupVerification> {
+        return this.enqueue(() => this.backups.restore(path));
+    }
+
+    public async list(): Promise<Backup[]> {
+        return this.enqueue(() => this.backups.list());
+    }
+
+    private async updateSettings(backupSettings: BackupSettings) {
+
+        this.settings = backupSettings;
+
+        const settings: Settings = await SettingsStore.load();
+        await SettingsStore.write({...settings, backups: backupSettings});
+
+    }
+
+    private schedule(delay: number) {
+
+        this.stop();
+
+        this.timeout = <any> setTimeout(async () => {
+
+            try {
+                await this.createWhenDue();
+            } catch (e) {
+                log.error("Unable to create scheduled backup: ", e);
+            }
+
+            this.schedule(CHECK_INTERVAL);
+
+        }, delay);
+
+    }
+
+    private async createWhenDue() {
+
+        const interval = SCHEDULE_INTERVALS[this.settings.schedule];
+
+        if (! interval) {
+            // manual backups only
+            return;
+        }
+
+        const backups = await this.list();
+
+        const latest = backups.length > 0 ? Date.parse(backups[0].created) : 0;
+
+        if (Date.now() - latest >= interval) {
+            log.info("Creating scheduled backup");
+            await this.create();
+        }
+
+    }
+
+    private enqueue<T>(func: () => Promise<T>): Promise<T> {
+
+        const result = this.queue.then(func);
+
+        // keep the queue going even when an operation fails.
+        this.queue = result.catch(() => { /* noop */ });
+
+        return result;
+
+    }
+
+}
@@ -0,0 +1,550 @@
+import JSZip from 'jszip';
+import fs from 'fs';
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Directories} from '../Directories';
+import {Strings} from '../../util/Strings';
+import {Logger} from '../../logger/Logger';
+import {ISODateTimeString, ISODateTimeStrings} from '../../metadata/ISODateTimeStrings';
+import {BackupRetention} from '../Settings';
+import {BackupRetentions} from './BackupRetentions';
+import {
+    BACKUP_MANIFEST_NAME,
+    BackupManifest,
+    BackupManifestFile,
+    BackupManifests,
+    BackupReader,
+    BackupVerification
+} from './BackupManifests';
+
+const log = Logger.create();
+
+const BACKUP_PREFIX = '.backup-';
+
+/**
+ * Top level directories in the data dir that are not documents and not part
+ * of a backup.
+ */
+const EXCLUDED_DIRS = ['logs', 'config'];
+
+/**
+ * Directories whose files are all backed up.
+ */
+const INCLUDED_DIRS = ['stash', 'files'];
+
+/**
+ * Creates, verifies, restores and rotates backups of the data dir.
+ *
+ * A backup is a .backup-YYYY-MM-DD directory in the data dir with a copy of
+ * every state.json and stash file along with a manifest of their hashes.  The
+ * files are copied rather than linked since the datastore (and recapturing a
+ * page) rewrites them in place which would silently change older backups.
+ *
+ * Hidden directories aren't backed up.  That includes the backups themselves
+ * and the revision history in .history which only has older copies of the
+ * same state.json files.
+ */
+export class Backups {
+
+    private readonly dataDir: string;
+
+    constructor(dataDir: string = new Directories().dataDir) {
+        this.dataDir = dataDir;
+    }
+
+    /**
+     * Create a new backup.
+     *
+     * @param archiveDir When given a zip archive of the backup is also written
+     * to this directory.
+     */
+    public async create(archiveDir?: string): Promise<Backup> {
+
+        const created = ISODateTimeStrings.create();
+
+        const path = await this.createBackupPath(created);
+
+        log.notice("Creating backup to: " + path);
+
+        await Files.createDirAsync(path);
+
+        const files: BackupManifestFile[] = [];
+
+        for (const relativePath of await this.listDataFiles()) {
+
+            const backupPath = FilePaths.join(path, ...relativePath.split('/'));
+
+            await this.createParentDirs(path, relativePath);
+            await Files.copyFileAsync(this.toDataPath(relativePath), backupPath);
+
+            files.push(await BackupManifests.toManifestFile(relativePath, Files.createReadStream(backupPath)));
+
+        }
+
+        const manifest = BackupManifests.create(files, created);
+
+        // the manifest is written last so that an interrupted backup is never
+        // mistaken for a complete one.
+        await Files.writeFileAsync(FilePaths.join(path, BACKUP_MANIFEST_NAME), JSON.stringify(manifest, null, "  "));
+
+        const backup: Backup = {id: FilePaths.basename(path), path, created, manifest};
+
+        if (archiveDir) {
+            await this.createArchive(backup, archiveDir);
+        }
+
+        log.notice(`Created backup with ${files.length} files: ${path}`);
+
+        return backup;
+
+    }
+
+    /**
+     * Create a backup unless one was already created today.  This is used
+     * before switching datastores which can happen many times a day and would
+     * otherwise create a backup each time.
+     */
+    public async createDaily(): Promise<Backup> {
+
+        const today = ISODateTimeStrings.create().substring(0, 10);
+
+        const backups = await this.list();
+
+        if (backups.length > 0 && backups[0].created.substring(0, 10) === today) {
+            log.info("Using existing backup from today: " + backups[0].path);
+            return backups[0];
+        }
+
+        return this.create();
+
+    }
+
+    /**
+     * List the backups in the data dir, newest first.
+     */
+    public async list(): Promise<Backup[]> {
+
+        if (! await Files.existsAsync(this.dataDir)) {
+            return [];
+        }
+
+        const backups: Backup[] = [];
+
+        for (const name of await Files.readdirAsync(this.dataDir)) {
+
+            if (! name.startsWith(BACKUP_PREFIX)) {
+                continue;
+            }
+
+            const path = FilePaths.join(this.dataDir, name);
+
+            if (await Files.fileType(path) !== 'directory') {
+                continue;
+            }
+
+            const manifest = await this.readManifest(new DirectoryBackupReader(path));
+
+            // older backups were created without a manifest so fall back to
+            // the date in their name.
+            const created = manifest ? manifest.created : name.substring(BACKUP_PREFIX.length, BACKUP_PREFIX.length + 10) + "T00:00:00.000Z";
+
+            backups.push({id: name, path, created, manifest});
+
+        }
+
+        return backups.sort((a, b) => b.created.localeCompare(a.created));
+
+    }
+
+    /**
+     * Verify that every file in the backup matches the hash in its manifest.
+     *
+     * @param path The path to a backup directory or a zip archive.
+     */
+    public async verify(path: string): Promise<BackupVerification> {
+
+        const reader = await this.createReader(path);
+
+        const manifest = await this.readManifest(reader);
+
+        if (! manifest) {
+            throw new Error("Backup has no manifest and can't be verified: " + path);
+        }
+
+        return BackupManifests.verify(manifest, reader);
+
+    }
+
+    /**
+     * Restore the data dir from a backup.  The backup is verified first and
+     * a new backup of the current data is created before anything is
+     * overwritten.  Documents added since the backup are kept.
+     *
+     * @param path The path to a backup directory or a zip archive.
+     */
+    public async restore(path: string): Promise<BackupVerification> {
+
+        const verification = await this.verify(path);
+
+        if (verification.errors.length > 0) {
+            throw new Error(`Backup failed verification with ${verification.errors.length} bad files: ${path}`);
+        }
+
+        for (const file of verification.manifest.files) {
+
+            if (file.path.startsWith('/') || file.path.split('/').includes('..')) {
+                throw new Error("Backup contains an invalid path: " + file.path);
+            }
+
+        }
+
+        await this.create();
+
+        const reader = await this.createReader(path);
+
+        for (const file of verification.manifest.files) {
+
+            const dataPath = this.toDataPath(file.path);
+            const tmpPath = dataPath + '.restore';
+
+            await this.createParentDirs(this.dataDir, file.path);
+            await Files.pipeAsync((await reader.createReadStream(file.path))!, Files.createWriteStream(tmpPath));
+
+            // so that an interrupted restore never leaves a partial file.
+            await Files.renameAsync(tmpPath, dataPath);
+
+        }
+
+        log.notice(`Restored ${verification.manifest.files.length} files from backup: ${path}`);
+
+        return verification;
+
+    }
+
+    /**
+     * Remove the backups (and their archives) no longer covered by the
+     * retention policy.  Only backups with a manifest are pruned.  Backups
+     * created by older versions are left alone for the user to remove.
+     *
+     * @return The backups that were removed.
+     */
+    public async prune(retention: BackupRetention, archiveDir?: string): Promise<Backup[]> {
+
+        const backups = (await this.list()).filter(backup => backup.manifest);
+
+        const kept = new Set(BackupRetentions.select(backups, retention));
+
+        const removed = backups.filter(backup => ! kept.has(backup));
+
+        for (const backup of removed) {
+
+            log.info("Removing expired backup: " + backup.path);
+
+            await Files.removeDirectoryRecursivelyAsync(backup.path);
+
+            if (archiveDir) {
+                await Files.removeAsync(this.toArchivePath(backup, archiveDir));
+            }
+
+        }
+
+        return removed;
+
+    }
+
+    /**
+     * The paths (relative to the data dir) of every file to back up.
+     */
+    private async listDataFiles(): Promise<string[]> {
+
+        const result: string[] = [];
+
+        for (const name of await Files.readdirAsync(this.dataDir)) {
+
+            if (name.startsWith('.') || EXCLUDED_DIRS.includes(name)) {
+                continue;
+            }
+
+            const path = FilePaths.join(this.dataDir, name);
+
+            if (await Files.fileType(path) !== 'directory') {
+                continue;
+            }
+
+            if (INCLUDED_DIRS.includes(name)) {
+
+                await Files.recursively(path, async filePath => {
+                    result.push(this.toRelativePath(filePath));
+                });
+
+                continue;
+
+            }
+
+            // this is a document directory
+            const statePath = FilePaths.join(path, 'state.json');
+
+            if (await Files.existsAsync(statePath)) {
+                result.push(this.toRelativePath(statePath));
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private async createArchive(backup: Backup, archiveDir: string) {
+
+        const path = this.toArchivePath(backup, archiveDir);
+
+        log.notice("Creating backup archive: " + path);
+
+        const zip = new JSZip();
+
+        zip.file(BACKUP_MANIFEST_NAME, JSON.stringify(backup.manifest, null, "  "));
+
+        for (const file of backup.manifest!.files) {
+            zip.file(file.path, Files.createReadStream(FilePaths.join(backup.path, file.path)));
+        }
+
+        await new Promise<void>((resolve, reject) => {
+
+            const options: JSZip.JSZipGeneratorOptions<'nodebuffer'> = {
+                type: 'nodebuffer',
+                streamFiles: true,
+                compression: "DEFLATE"
+            };
+
+            zip.generateNodeStream(options)
+                .on('error', (err: Error) => reject(err))
+                .pipe(fs.createWriteStream(path))
+                .on('error', (err: Error) => reject(err))
+                .on('finish', () => resolve());
+
+        });
+
+    }
+
+    private async createReader(path: string): Promise<BackupReader> {
+
+        if (! await Files.existsAsync(path)) {
+            throw new Error("Backup does not exist: " + path);
+        }
+
+        if (await Files.fileType(path) === 'directory') {
+            return new DirectoryBackupReader(path);
+        }
+
+        const zip = await JSZip.loadAsync(await Files.readFileAsync(path));
+
+        return new ZipBackupReader(zip);
+
+    }
+
+    private async readManifest(reader: BackupReader): Promise<BackupManifest | undefined> {
+
+        const data = await reader.read(BACKUP_MANIFEST_NAME);
+
+        if (! data) {
+            return undefined;
+        }
+
+        return JSON.parse(data.toString('utf-8'));
+
+    }
+
+    /**
+     * Backups are named after the day they were created with a counter
+     * appended when there is more than one backup on the same day.
+     */
+    private async createBackupPath(created: ISODateTimeString) {
+
+        const day = created.substring(0, 10);
+
+        for (let idx = 0; ; ++idx) {
+
+            const suffix = idx === 0 ? '' : '-' + Strings.lpad(idx, '0', 2);
+
+            const path = FilePaths.join(this.dataDir, BACKUP_PREFIX + day + suffix);
+
+            if (! await Files.existsAsync(path)) {
+                return path;
+            }
+
+        }
+
+    }
+
+    private async createParentDirs(baseDir: string, relativePath: string) {
+
+        const dirs = relativePath.split('/').slice(0, -1);
+
+        let path = baseDir;
+
+        for (const dir of dirs) {
+            path = FilePaths.join(path, dir);
+            await Files.createDirAsync(path);
+        }
+
+    }
+
+    private toRelativePath(path: string) {
+        return path.substring(this.dataDir.length + 1).split(FilePaths.SEP).join('/');
+    }
+
+    private toDataPath(relativePath: string) {
+        return FilePaths.join(this.dataDir, ...relativePath.split('/'));
+    }
+
+    private toArchivePath(backup: Backup, archiveDir: string) {
+        return FilePaths.join(archiveDir, backup.id.substring(1) + ".zip");
+    }
+
+}
+
+class DirectoryBackupReader implements BackupReader {
+
+    private readonly dir: string;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    public async read(path: string): Promise<Buffer | undefined> {
+
+        const filePath = FilePaths.join(this.dir, ...path.split('/'));
+
+        if (! await Files.existsAsync(filePath)) {
+            return undefined;
+        }
+
+        return Files.readFileAsync(filePath);
+
+    }
+
+    public async createReadStream(path: string): Promise<NodeJS.ReadableStream | undefined> {
+
+        const filePath = FilePaths.join(this.dir, ...path.split('/'));
+
+        if (! await Files.existsAsync(filePath)) {
+            return undefined;
+        }
+
+        return Files.createReadStream(filePath);
+
+    }
+
+}
+
+class ZipBackupReader implements BackupReader {
+
+    private readonly zip: JSZip;
+
+    constructor(zip: JSZip) {
+        this.zip = zip;
+    }
+
+    public async read(path: string): Promise<Buffer | undefined> {
+
+        const file = this.zip.file(path);
+
+        if (! file) {
+            return undefined;
+        }
+
+        return file.async('nodebuffer');
+
+    }
+
+    public async createReadStream(path: string): Promise<NodeJS.ReadableStream | undefined> {
+
+        const file = this.zip.file(path);
+
+        if (! file) {
+            return undefined;
+        }
+
+        return file.nodeStream();
+
+    }
+
+}
+
+export interface Backup {
+
+    /**
+     * The name of the backup directory.
+     */
+    readonly id: string;
+
+    readonly path: string;
+
+    readonly created: ISODateTimeString;
+
+    /**
+     * The manifest of the backup.  Backups created by older versions don't
+     * have one.
+     */
+    readonly manifest?: BackupManifest;
+
+}
+
+/**
+ * Command line access to backups so that they can be verified and restored
+ * without starting the app:
+ *
+ *   node Backups.js create|list|verify <path>|restore <path>
+ */
+async function main() {
+
+    const [command, path] = process.argv.slice(2);
+
+    const backups = new Backups();
+
+    switch (command) {
+
+        case 'create':
+            const backup = await backups.create();
+            log.info("Created backup: " + backup.path);
+            break;
+
+        case 'list':
+            for (const current of await backups.list()) {
+                log.info(`${current.created}  ${current.path}${current.manifest ? '' : '  (no manifest)'}`);
+            }
+            break;
+
+        case 'verify':
+        case 'restore':
+
+            const verification = command === 'verify' ? await backups.verify(path) : await backups.restore(path);
+
+            for (const error of verification.errors) {
+                console.error(`${error.reason}: ${error.path}`);
+            }
+
+            log.info(`Checked ${verification.manifest.files.length} files with ${verification.errors.length} errors`);
+
+            if (verification.errors.length > 0) {
+                process.exit(1);
+            }
+
+            break;
+
+        default:
+            console.error("Usage: Backups.js create|list|verify <path>|restore <path>");
+            process.exit(1);
+
+    }
+
+}
+
+if (require.main === module) {
+
+    main().catch(err => {
+        console.error(err.message);
+        process.exit(1);
+    });
+
+}
@@ -0,0 +1,151 @@
+import {assert} from 'chai';
+import os from 'os';
+import {Backups} from './Backups';
+import {FilePaths} from '../../util/FilePaths';
+import {Files} from '../../util/Files';
+
+const tmpdir = os.tmpdir();
+
+describe('Backups', function() {
+
+    const dataDir = FilePaths.join(tmpdir, 'backups-test');
+    const archiveDir = FilePaths.join(tmpdir, 'backups-test-archives');
+
+    const statePath = FilePaths.join(dataDir, '0x001', 'state.json');
+    const stashPath = FilePaths.join(dataDir, 'stash', '0x001.pdf');
+
+    let backups: Backups;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dataDir);
+        await Files.removeDirectoryRecursivelyAsync(archiveDir);
+
+        await Files.createDirAsync(dataDir);
+        await Files.createDirAsync(archiveDir);
+        await Files.createDirAsync(FilePaths.join(dataDir, '0x001'));
+        await Files.createDirAsync(FilePaths.join(dataDir, 'stash'));
+        await Files.createDirAsync(FilePaths.join(dataDir, 'logs'));
+
+        await Files.writeFileAsync(statePath, '{"version": 1}');
+        await Files.writeFileAsync(stashPath, 'pdf data');
+        await Files.writeFileAsync(FilePaths.join(dataDir, 'logs', 'polar.log'), 'log data');
+
+        backups = new Backups(dataDir);
+
+    });
+
+    it("create a backup with a manifest and verify it", async function() {
+
+        const backup = await backups.create(archiveDir);
+
+        assert.deepEqual(backup.manifest!.files.map(file => file.path), ['0x001/state.json', 'stash/0x001.pdf']);
+
+        const verification = await backups.verify(backup.path);
+        assert.deepEqual(verification.errors, []);
+
+        const archiveVerification = await backups.verify(FilePaths.join(archiveDir, backup.id.substring(1) + '.zip'));
+        assert.deepEqual(archiveVerification.errors, []);
+
+        assert.deepEqual((await backups.list()).map(current => current.id), [backup.id]);
+
+    });
+
+    it("backups are not changed by later writes", async function() {
+
+        const backup = await backups.create();
+
+        await Files.writeFileAsync(statePath, '{"version": 2}');
+
+        const verification = await backups.verify(backup.path);
+        assert.deepEqual(verification.errors, []);
+
+    });
+
+    it("stash files rewritten in place don't change the backup", async function() {
+
+        const backup = await backups.create();
+
+        // recapturing a page rewrites the same stash file.
+        await Files.writeFileAsync(stashPath, 'new pdf data');
+
+        assert.deepEqual((await backups.verify(backup.path)).errors, []);
+
+    });
+
+    it("createDaily reuses the backup from today", async function() {
+
+        const backup = await backups.createDaily();
+
+        assert.equal((await backups.createDaily()).id, backup.id);
+        assert.equal((await backups.list()).length, 1);
+
+    });
+
+    it("detect corrupt and missing files", async function() {
+
+        const backup = await backups.create();
+
+        await Files.writeFileAsync(FilePaths.join(backup.path, '0x001', 'state.json'), '{"version": 0}');
+        await Files.removeAsync(FilePaths.join(backup.path, 'stash', '0x001.pdf'));
+
+        const verification = await backups.verify(backup.path);
+
+        assert.deepEqual(verification.errors, [
+            {path: '0x001/state.json', reason: 'corrupt'},
+            {path: 'stash/0x001.pdf', reason: 'missing'}
+        ]);
+
+        try {
+            await backups.restore(backup.path);
+            assert.fail("Expected the restore to fail");
+        } catch (e) {
+            assert.match(e.message, /failed verification/);
+        }
+
+    });
+
+    it("restore a backup", async function() {
+
+        const backup = await backups.create();
+
+        await Files.writeFileAsync(statePath, '{"version": 2}');
+        await Files.removeAsync(stashPath);
+
+        await backups.restore(backup.path);
+
+        assert.equal((await Files.readFileAsync(statePath)).toString('utf-8'), '{"version": 1}');
+        assert.equal((await Files.readFileAsync(stashPath)).toString('utf-8'), 'pdf data');
+
+        // the data from before the restore is backed up too.
+        assert.equal((await backups.list()).length, 2);
+
+    });
+
+    it("prune old backups", async function() {
+
+        const first = await backups.create();
+        const second = await backups.create();
+
+        const removed = await backups.prune({daily: 1, weekly: 1});
+
+        assert.deepEqual(removed.map(current => current.id), [first.id]);
+        assert.deepEqual((await backups.list()).map(current => current.id), [second.id]);
+
+    });
+
+    it("backups without a manifest are never pruned", async function() {
+
+        const legacyPath = FilePaths.join(dataDir, '.backup-2012-03-02');
+        await Files.createDirAsync(legacyPath);
+
+        const backup = await backups.create();
+
+        const removed = await backups.prune({daily: 1, weekly: 0});
+
+        assert.deepEqual(removed, []);
+        assert.deepEqual((await backups.list()).map(current => current.id), [backup.id, '.backup-2012-03-02']);
+
+    });
+
+});
@@ -0,0 +1,142 @@
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Directories} from '../Directories';
+import {DecryptionException, EncryptionKey, EncryptionKeys, KeyDerivation} from './EncryptionKeys';
+
+/**
+ * Keeps the data key used by the EncryptedDatastore, wrapped with a key
+ * derived from the user's passphrase.  The passphrase itself is never stored.
+ */
+export class EncryptionKeyStore {
+
+    private readonly path: string;
+
+    constructor(path: string = FilePaths.join(new Directories().configDir, "encryption.json")) {
+        this.path = path;
+    }
+
+    public async exists(): Promise<boolean> {
+        return Files.existsAsync(this.path);
+    }
+
+    /**
+     * Create a new data key protected by the given passphrase.
+     */
+    public async create(passphrase: string): Promise<EncryptionKey> {
+
+        if (await this.exists()) {
+            throw new Error("Encryption key already exists: " + this.path);
+        }
+
+        const key = EncryptionKeys.create();
+
+        await this.write(key, passphrase);
+
+        return key;
+
+    }
+
+    /**
+     * Get the data key, verifying the passphrase.
+     */
+    public async unlock(passphrase: string): Promise<EncryptionKey> {
+
+        const data = await this.read();
+
+        const wrappingKey = await EncryptionKeys.derive(passphrase, Buffer.from(data.salt, 'hex'), data.keyDerivation);
+
+        try {
+            return EncryptionKeys.unwrap(Buffer.from(data.key, 'base64'), wrappingKey);
+        } catch (e) {
+
+            if (e instanceof DecryptionException) {
+                throw new IncorrectPassphraseException("Incorrect passphrase");
+            }
+
+            throw e;
+
+        }
+
+    }
+
+    /**
+     * Protect the data key with a new passphrase.  The data itself doesn't
+     * change since it's encrypted with the data key.
+     */
+    public async changePassphrase(passphrase: string, newPassphrase: string): Promise<void> {
+
+        const key = await this.unlock(passphrase);
+
+        await this.write(key, newPassphrase);
+
+    }
+
+    public async remove(): Promise<void> {
+        await Files.removeAsync(this.path);
+    }
+
+    private async read(): Promise<EncryptionKeyData> {
+
+        if (! await this.exists()) {
+            throw new Error("No encryption key: " + this.path);
+        }
+
+        const buffer = await Files.readFileAsync(this.path);
+        return JSON.parse(buffer.toString('utf-8'));
+
+    }
+
+    private async write(key: EncryptionKey, passphrase: string) {
+
+        const salt = EncryptionKeys.createSalt();
+
+        const keyDerivation = EncryptionKeys.createKeyDerivation();
+
+        const wrappingKey = await EncryptionKeys.derive(passphrase, salt, keyDerivation);
+
+        const data: EncryptionKeyData = {
+            version: 2,
+            keyDerivation,
+            salt: salt.toString('hex'),
+            key: key.wrap(wrappingKey).toString('base64')
+        };
+
+        // write to a temp file first so that an interrupted write never loses
+        // the key which would make all the data unreadable.
+        const tmpPath = this.path + '.tmp';
+
+        await Files.writeFileAsync(tmpPath, JSON.stringify(data, null, "  "), {mode: 0o600});
+        await Files.renameAsync(tmpPath, this.path);
+
+    }
+
+}
+
+interface EncryptionKeyData {
+
+    readonly version: number;
+
+    /**
+     * How the passphrase key is derived.
+     */
+    readonly keyDerivation: KeyDerivation;
+
+    /**
+     * The salt for deriving the passphrase key, in hex.
+     */
+    readonly salt: string;
+
+    /**
+     * The data key wrapped with the passphrase key, in base64.
+     */
+    readonly key: string;
+
+}
+
+export class IncorrectPassphraseException extends Error {
+
+    public constructor(message: string) {
+        super(message);
+    }
+
+}
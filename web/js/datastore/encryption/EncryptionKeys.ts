@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import {Files} from '../../util/Files';
+
+const ALGORITHM = 'aes-256-gcm';
+
+const KEY_LENGTH = 32;
+
+const IV_LENGTH = 12;
+
+const TAG_LENGTH = 16;
+
+/**
+ * Every encrypted payload starts with this header so that we can tell it
+ * apart from plaintext written before encryption was enabled.
+ */
+const HEADER = Buffer.from('PLRENC1', 'utf-8');
+
+/**
+ * A symmetric key used to encrypt and decrypt data with AES-256-GCM.  The
+ * authentication tag means that decrypting with the wrong key (or corrupt
+ * data) fails instead of returning garbage.
+ */
+export class EncryptionKey {
+
+    private readonly key: Buffer;
+
+    constructor(key: Buffer) {
+        this.key = key;
+    }
+
+    public encrypt(data: Buffer): Buffer {
+
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+
+        const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+        return Buffer.concat([HEADER, iv, cipher.getAuthTag(), encrypted]);
+
+    }
+
+    public decrypt(data: Buffer): Buffer {
+
+        if (! EncryptionKeys.isEncrypted(data)) {
+            throw new DecryptionException("Data is not encrypted");
+        }
+
+        let offset = HEADER.length;
+
+        const iv = data.slice(offset, offset += IV_LENGTH);
+        const tag = data.slice(offset, offset += TAG_LENGTH);
+        const encrypted = data.slice(offset);
+
+        try {
+
+            const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
+            decipher.setAuthTag(tag);
+
+            return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+
+        } catch (e) {
+            throw new DecryptionException("Unable to decrypt data: wrong key or corrupt data");
+        }
+
+    }
+
+    /**
+     * Encrypt a file into another file without reading it into memory.  The
+     * result is the same as encrypt() so it can be decrypted either way.
+     */
+    public async encryptFile(src: string, dest: string): Promise<void> {
+
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+
+        const output = Files.createWriteStream(dest, {mode: 0o600});
+
+        // the tag is only known once everything is encrypted so we reserve
+        // space for it and write it at the end.
+        output.write(Buffer.concat([HEADER, iv, Buffer.alloc(TAG_LENGTH)]));
+
+        await Files.pipeAsync(Files.createReadStream(src), cipher, output);
+
+        const fd = await Files.openAsync(dest, 'r+');
+
+        try {
+            await Files.writeAsync(fd, cipher.getAuthTag(), HEADER.length + IV_LENGTH);
+        } finally {
+            await Files.closeAsync(fd);
+        }
+
+    }
+
+    /**
+     * Decrypt a file written by encrypt() or encryptFile() into another file
+     * without reading it into memory.
+     */
+    public async decryptFile(src: string, dest: string): Promise<void> {
+
+        const prefix = await EncryptionKeys.readPrefix(src);
+
+        if (! EncryptionKeys.isEncrypted(prefix)) {
+            throw new DecryptionException("Data is not encrypted");
+        }
+
+        const iv = prefix.slice(HEADER.length, HEADER.length + IV_LENGTH);
+        const tag = prefix.slice(HEADER.length + IV_LENGTH);
+
+        const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
+        decipher.setAuthTag(tag);
+
+        const input = Files.createReadStream(src, {start: prefix.length});
+        const output = Files.createWriteStream(dest, {mode: 0o600});
+
+        try {
+            await Files.pipeAsync(input, decipher, output);
+        } catch (e) {
+
+            // don't leave partially decrypted data behind.
+            await Files.removeAsync(dest);
+
+            throw new DecryptionException("Unable to decrypt data: wrong key or corrupt data");
+
+        }
+
+    }
+
+    /**
+     * Encrypt this key with another key.  The data is encrypted with a random
+     * key which is wrapped with the passphrase key so that changing the
+     * passphrase doesn't require re-encrypting everything.
+     */
+    public wrap(wrappingKey: EncryptionKey): Buffer {
+        return wrappingKey.encrypt(this.key);
+    }
+
+}
+
+export class EncryptionKeys {
+
+    /**
+     * Create a new random key.
+     */
+    public static create(): EncryptionKey {
+        return new EncryptionKey(crypto.randomBytes(KEY_LENGTH));
+    }
+
+    /**
+     * The key derivation used for new keys.  Electron 3 ships Node 10.2 which
+     * doesn't have crypto.scrypt so we use PBKDF2 with a high iteration count.
+     */
+    public static createKeyDerivation(): KeyDerivation {
+        return {name: 'pbkdf2', digest: 'sha512', iterations: 210000};
+    }
+
+    /**
+     * Derive a key from a passphrase.
+     */
+    public static derive(passphrase: string,
+                         salt: Buffer,
+                         keyDerivation: KeyDerivation = this.createKeyDerivation()): Promise<EncryptionKey> {
+
+        return new Promise((resolve, reject) => {
+
+            const callback = (err: Error | null, key: Buffer) => err ? reject(err) : resolve(new EncryptionKey(key));
+
+            crypto.pbkdf2(passphrase, salt, keyDerivation.iterations, KEY_LENGTH, keyDerivation.digest, callback);
+
+        });
+
+    }
+
+    public static createSalt(): Buffer {
+        return crypto.randomBytes(16);
+    }
+
+    public static unwrap(data: Buffer, wrappingKey: EncryptionKey): EncryptionKey {
+        return new EncryptionKey(wrappingKey.decrypt(data));
+    }
+
+    /**
+     * True if the file was written by encrypt() or encryptFile().
+     */
+    public static async isEncryptedFile(path: string): Promise<boolean> {
+        return this.isEncrypted(await this.readPrefix(path));
+    }
+
+    /**
+     * Read the header, IV and tag at the start of an encrypted file.
+     */
+    public static async readPrefix(path: string): Promise<Buffer> {
+
+        const fd = await Files.openAsync(path, 'r');
+
+        try {
+
+            const buffer = Buffer.alloc(HEADER.length + IV_LENGTH + TAG_LENGTH);
+            const bytesRead = await Files.readAsync(fd, buffer, 0, buffer.length, 0);
+
+            return buffer.slice(0, bytesRead);
+
+        } finally {
+            await Files.closeAsync(fd);
+        }
+
+    }
+
+    public static isEncrypted(data: Buffer): boolean {
+        return data.length >= HEADER.length + IV_LENGTH + TAG_LENGTH &&
+               data.slice(0, HEADER.length).equals(HEADER);
+    }
+
+}
+
+/**
+ * How the key protecting the data key is derived from the passphrase.  This is
+ * stored with the key so that it can be changed without breaking existing keys.
+ */
+export interface KeyDerivation {
+    readonly name: 'pbkdf2';
+    readonly digest: string;
+    readonly iterations: number;
+}
+
+export class DecryptionException extends Error {
+
+    public constructor(message: string) {
+        super(message);
+    }
+
+}
@@ -6,17 +6,21 @@ import {RemoteDatastores} from '../RemoteDatastores';
 import {CloudAwareDatastore} from '../CloudAwareDatastore';
 import {FirebaseDatastore} from '../FirebaseDatastore';
 import {LazyWriteListenablePersistenceLayer} from '../LazyWriteListenablePersistenceLayer';
+import {Datastore} from '../Datastore';
 
 const log = Logger.create();
 
 export class CloudPersistenceLayerFactory {
 
-    public static create(): ListenablePersistenceLayer {
+    /**
+     * @param cloud The datastore we sync with (Firebase or a self hosted sync
+     * server).
+     */
+    public static create(cloud: Datastore = new FirebaseDatastore()): ListenablePersistenceLayer {
 
-        log.info("Using remote persistence layer and cloud aware data store");
+        log.info(`Using remote persistence layer and cloud aware data store with ${cloud.id}`);
 
         const local = RemoteDatastores.create();
-        const cloud = new FirebaseDatastore();
 
         const datastore = new CloudAwareDatastore(local, cloud);
 
@@ -0,0 +1,144 @@
+import * as _ from 'lodash';
+import {DocMeta} from '../../metadata/DocMeta';
+import {AnnotationType} from '../../metadata/AnnotationType';
+import {Texts} from '../../metadata/Texts';
+
+/**
+ * The annotation dictionaries of a PageMeta that we compare.
+ */
+const ANNOTATION_FIELDS: {[field: string]: AnnotationType} = {
+    textHighlights: AnnotationType.TEXT_HIGHLIGHT,
+    areaHighlights: AnnotationType.AREA_HIGHLIGHT,
+    comments: AnnotationType.COMMENT,
+    flashcards: AnnotationType.FLASHCARD,
+    pagemarks: AnnotationType.PAGEMARK
+};
+
+/**
+ * Computes which annotations differ between two revisions of a DocMeta.
+ */
+export class DocRevisionDiffs {
+
+    /**
+     * @param before The earlier revision or undefined when the document was
+     * created in the later revision.
+     * @param after The later revision.
+     */
+    public static diff(before: DocMeta | undefined, after: DocMeta): DocRevisionDiff {
+
+        const beforeAnnotations = this.toAnnotations(before);
+        const afterAnnotations = this.toAnnotations(after);
+
+        const added: DocRevisionAnnotation[] = [];
+        const removed: DocRevisionAnnotation[] = [];
+        const changed: DocRevisionAnnotation[] = [];
+
+        for (const key of Object.keys(afterAnnotations)) {
+
+            const beforeAnnotation = beforeAnnotations[key];
+            const afterAnnotation = afterAnnotations[key];
+
+            if (! beforeAnnotation) {
+                added.push(afterAnnotation.annotation);
+            } else if (! _.isEqual(beforeAnnotation.value, afterAnnotation.value)) {
+                changed.push(afterAnnotation.annotation);
+            }
+
+        }
+
+        for (const key of Object.keys(beforeAnnotations)) {
+
+            if (! afterAnnotations[key]) {
+                removed.push(beforeAnnotations[key].annotation);
+            }
+
+        }
+
+        return {added, removed, changed};
+
+    }
+
+    private static toAnnotations(docMeta: DocMeta | undefined) {
+
+        const result: {[key: string]: {annotation: DocRevisionAnnotation, value: any}} = {};
+
+        if (! docMeta) {
+            return result;
+        }
+
+        for (const pageMeta of Object.values(docMeta.pageMetas)) {
+
+            const pageNum = pageMeta.pageInfo.num;
+
+            for (const field of Object.keys(ANNOTATION_FIELDS)) {
+
+                const values: {[id: string]: any} = (<any> pageMeta)[field] || {};
+
+                for (const id of Object.keys(values)) {
+
+                    const value = values[id];
+
+                    const annotation: DocRevisionAnnotation = {
+                        id,
+                        type: ANNOTATION_FIELDS[field],
+                        pageNum,
+                        text: this.toText(value)
+                    };
+
+                    result[`${pageNum}:${field}:${id}`] = {annotation, value};
+
+                }
+
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private static toText(value: any): string | undefined {
+
+        if (value.text) {
+            return Texts.toPlainText(value.text);
+        }
+
+        if (value.content) {
+            return Texts.toPlainText(value.content);
+        }
+
+        if (value.fields) {
+            const fields = Object.values(value.fields);
+            return fields.length > 0 ? Texts.toPlainText(<any> fields[0]) : undefined;
+        }
+
+        return undefined;
+
+    }
+
+}
+
+export interface DocRevisionDiff {
+
+    readonly added: ReadonlyArray<DocRevisionAnnotation>;
+
+    readonly removed: ReadonlyArray<DocRevisionAnnotation>;
+
+    readonly changed: ReadonlyArray<DocRevisionAnnotation>;
+
+}
+
+export interface DocRevisionAnnotation {
+
+    readonly id: string;
+
+    readonly type: AnnotationType;
+
+    readonly pageNum: number;
+
+    /**
+     * The text of the highlight, comment, etc (if it has any).
+     */
+    readonly text?: string;
+
+}
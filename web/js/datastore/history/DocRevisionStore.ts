@@ -0,0 +1,198 @@
+import zlib from 'zlib';
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Directories} from '../Directories';
+import {Hashcodes} from '../../Hashcodes';
+import {ISODateTimeStrings} from '../../metadata/ISODateTimeStrings';
+import {IDocInfo} from '../../metadata/DocInfo';
+import {Logger} from '../../logger/Logger';
+import {DocRevision, DocRevisions} from './DocRevisions';
+
+const log = Logger.create();
+
+function gzip(data: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => zlib.gzip(data, (err, result) => err ? reject(err) : resolve(result)));
+}
+
+function gunzip(data: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => zlib.gunzip(data, (err, result) => err ? reject(err) : resolve(result)));
+}
+
+/**
+ * Keeps the revision history of every DocMeta so that a document can be
+ * restored to an earlier version.
+ *
+ * Each document has a directory in .history with a gzipped copy of the DocMeta
+ * for each revision and an index (revisions.json) describing them.
+ *
+ * The DocMeta is stored as written to disk so when the datastore is encrypted
+ * the revisions are encrypted too and the decoder decrypts them when they're
+ * read.  The history is removed along with the document and isn't part of
+ * backups.
+ */
+export class DocRevisionStore {
+
+    private readonly dir: string;
+
+    private readonly decoder: DocMetaDecoder;
+
+    private queue: Promise<any> = Promise.resolve();
+
+    constructor(dir: string = FilePaths.join(new Directories().dataDir, ".history"),
+                decoder: DocMetaDecoder = data => data) {
+        this.dir = dir;
+        this.decoder = decoder;
+    }
+
+    /**
+     * Add a revision for the DocMeta that was just written.
+     */
+    public async record(fingerprint: string, data: string, docInfo: IDocInfo): Promise<void> {
+
+        await this.enqueue(async () => {
+
+            const revisions = await this.read(fingerprint);
+
+            const latest = revisions.length > 0 ? revisions[revisions.length - 1] : undefined;
+
+            if (latest && docInfo.uuid && latest.uuid === docInfo.uuid) {
+                // the same version written again.
+                return;
+            }
+
+            const revision: DocRevision = {
+                id: Hashcodes.createRandomID(),
+                fingerprint,
+                created: ISODateTimeStrings.create(),
+                uuid: docInfo.uuid,
+                nrAnnotations: docInfo.nrAnnotations
+            };
+
+            await Files.createDirAsync(this.dir);
+            await Files.createDirAsync(this.toDir(fingerprint));
+            await Files.writeFileAsync(this.toPath(revision), await gzip(Buffer.from(data, 'utf-8')));
+
+            const kept = DocRevisions.prune([...revisions, revision]);
+
+            const keptIDs = new Set(kept.map(current => current.id));
+
+            for (const removed of revisions.filter(current => ! keptIDs.has(current.id))) {
+                await Files.removeAsync(this.toPath(removed));
+            }
+
+            await this.write(fingerprint, kept);
+
+        });
+
+    }
+
+    /**
+     * The revisions of the document, oldest first.
+     */
+    public async list(fingerprint: string): Promise<DocRevision[]> {
+        return this.enqueue(() => this.read(fingerprint));
+    }
+
+    /**
+     * Get the DocMeta data for a revision.
+     */
+    public async get(revision: DocRevision): Promise<string> {
+        return this.decoder(await this.readRevision(revision));
+    }
+
+    /**
+     * Remove the history of a document that was deleted.
+     */
+    public async remove(fingerprint: string): Promise<void> {
+        await this.enqueue(() => Files.removeDirectoryRecursivelyAsync(this.toDir(fingerprint)));
+    }
+
+    /**
+     * Rewrite the DocMeta of every revision in place.  Used to encrypt or
+     * decrypt the history when encryption is enabled or disabled.
+     */
+    public async rewrite(transform: (data: string) => string): Promise<void> {
+
+        await this.enqueue(async () => {
+
+            if (! await Files.existsAsync(this.dir)) {
+                return;
+            }
+
+            for (const fingerprint of await Files.readdirAsync(this.dir)) {
+
+                for (const revision of await this.read(fingerprint)) {
+
+                    if (! await Files.existsAsync(this.toPath(revision))) {
+                        continue;
+                    }
+
+                    const data = transform(await this.readRevision(revision));
+
+                    await Files.writeFileAsync(this.toPath(revision), await gzip(Buffer.from(data, 'utf-8')));
+
+                }
+
+            }
+
+        });
+
+    }
+
+    private async readRevision(revision: DocRevision): Promise<string> {
+        const data = await Files.readFileAsync(this.toPath(revision));
+        const buffer = await gunzip(data);
+        return buffer.toString('utf-8');
+    }
+
+    private async read(fingerprint: string): Promise<DocRevision[]> {
+
+        const path = this.toIndexPath(fingerprint);
+
+        if (! await Files.existsAsync(path)) {
+            return [];
+        }
+
+        try {
+            const data = await Files.readFileAsync(path);
+            return JSON.parse(data.toString('utf-8'));
+        } catch (e) {
+            log.warn("Unable to read revisions for: " + fingerprint, e);
+            return [];
+        }
+
+    }
+
+    private async write(fingerprint: string, revisions: ReadonlyArray<DocRevision>) {
+        await Files.writeFileAsync(this.toIndexPath(fingerprint), JSON.stringify(revisions, null, "  "));
+    }
+
+    private enqueue<T>(func: () => Promise<T>): Promise<T> {
+
+        const result = this.queue.then(func);
+
+        // keep the queue going even when an operation fails.
+        this.queue = result.catch(() => { /* noop */ });
+
+        return result;
+
+    }
+
+    private toDir(fingerprint: string) {
+        return FilePaths.join(this.dir, fingerprint);
+    }
+
+    private toIndexPath(fingerprint: string) {
+        return FilePaths.join(this.toDir(fingerprint), "revisions.json");
+    }
+
+    private toPath(revision: DocRevision) {
+        return FilePaths.join(this.toDir(revision.fingerprint), revision.id + ".json.gz");
+    }
+
+}
+
+/**
+ * Turns the DocMeta data as it was written to disk back into plaintext.
+ */
+export type DocMetaDecoder = (data: string) => string;
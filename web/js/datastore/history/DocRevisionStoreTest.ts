@@ -0,0 +1,96 @@
+import {assert} from 'chai';
+import os from 'os';
+import {DocRevisionStore} from './DocRevisionStore';
+import {DocMetas, MockDocMetas} from '../../metadata/DocMetas';
+import {FilePaths} from '../../util/FilePaths';
+import {Files} from '../../util/Files';
+import {UUIDs} from '../../metadata/UUIDs';
+import {DocRevisionDiffs} from './DocRevisionDiffs';
+import {Comments} from '../../metadata/Comments';
+import {AnnotationType} from '../../metadata/AnnotationType';
+
+const tmpdir = os.tmpdir();
+
+describe('DocRevisionStore', function() {
+
+    const fingerprint = "0x001";
+
+    const dir = FilePaths.join(tmpdir, 'doc-revision-store-test');
+
+    let docRevisionStore: DocRevisionStore;
+
+    beforeEach(async function() {
+        await Files.removeDirectoryRecursivelyAsync(dir);
+        docRevisionStore = new DocRevisionStore(dir);
+    });
+
+    it("record and read revisions", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks(fingerprint, 2);
+
+        docMeta.docInfo.uuid = UUIDs.create();
+        await docRevisionStore.record(fingerprint, DocMetas.serialize(docMeta), docMeta.docInfo);
+
+        // writing the same version again doesn't create a revision.
+        await docRevisionStore.record(fingerprint, DocMetas.serialize(docMeta), docMeta.docInfo);
+
+        const comment = Comments.createTextComment("hello world", 'page:1');
+        docMeta.getPageMeta(1).comments[comment.id] = comment;
+
+        docMeta.docInfo.uuid = UUIDs.create();
+        await docRevisionStore.record(fingerprint, DocMetas.serialize(docMeta), docMeta.docInfo);
+
+        const revisions = await docRevisionStore.list(fingerprint);
+
+        assert.equal(revisions.length, 2);
+
+        const before = DocMetas.deserialize(await docRevisionStore.get(revisions[0]), fingerprint);
+        const after = DocMetas.deserialize(await docRevisionStore.get(revisions[1]), fingerprint);
+
+        assert.equal(after.docInfo.uuid, docMeta.docInfo.uuid);
+
+        const diff = DocRevisionDiffs.diff(before, after);
+
+        assert.deepEqual(diff.added, [{id: comment.id, type: AnnotationType.COMMENT, pageNum: 1, text: "hello world"}]);
+        assert.deepEqual(diff.removed, []);
+        assert.deepEqual(diff.changed, []);
+
+        assert.deepEqual(DocRevisionDiffs.diff(after, before).removed, diff.added);
+
+    });
+
+    it("remove the history of a document", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks(fingerprint, 2);
+
+        await docRevisionStore.record(fingerprint, DocMetas.serialize(docMeta), docMeta.docInfo);
+        await docRevisionStore.remove(fingerprint);
+
+        assert.deepEqual(await docRevisionStore.list(fingerprint), []);
+        assert.isFalse(await Files.existsAsync(FilePaths.join(dir, fingerprint)));
+
+    });
+
+    it("rewrite and decode revisions", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks(fingerprint, 2);
+        const data = DocMetas.serialize(docMeta);
+
+        await docRevisionStore.record(fingerprint, data, docMeta.docInfo);
+        await docRevisionStore.rewrite(current => current.toUpperCase());
+
+        const [revision] = await docRevisionStore.list(fingerprint);
+
+        assert.equal(await docRevisionStore.get(revision), data.toUpperCase());
+
+        const decodingStore = new DocRevisionStore(dir, current => current.toLowerCase());
+
+        assert.equal(await decodingStore.get(revision), data.toLowerCase());
+
+    });
+
+    it("no revisions", async function() {
+        assert.deepEqual(await docRevisionStore.list(fingerprint), []);
+    });
+
+});
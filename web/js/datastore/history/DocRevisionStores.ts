@@ -0,0 +1,33 @@
+import {remote} from 'electron';
+import {Datastore} from '../Datastore';
+import {EncryptedDatastore} from '../EncryptedDatastore';
+import {DocRevisionStore} from './DocRevisionStore';
+
+declare var global: any;
+
+/**
+ * The renderers read the history through the DocRevisionStore of the main
+ * process since only the main process has the key to decrypt it.
+ */
+export class DocRevisionStores {
+
+    /**
+     * Create the store for the datastore of the main process and share it
+     * with the renderers.
+     */
+    public static createMain(datastore: Datastore): DocRevisionStore {
+
+        const docRevisionStore = datastore instanceof EncryptedDatastore ?
+            datastore.createDocRevisionStore() : new DocRevisionStore();
+
+        global.docRevisionStore = docRevisionStore;
+
+        return docRevisionStore;
+
+    }
+
+    public static getRemote(): DocRevisionStore {
+        return remote.getGlobal("docRevisionStore");
+    }
+
+}
@@ -0,0 +1,89 @@
+import {ISODateTimeString} from '../../metadata/ISODateTimeStrings';
+import {UUID} from '../../metadata/UUID';
+
+/**
+ * We always keep this many of the most recent revisions.
+ */
+const NR_RECENT_REVISIONS = 20;
+
+/**
+ * The most revisions we keep for a document.
+ */
+const MAX_REVISIONS = 100;
+
+const HOUR = 60 * 60 * 1000;
+
+const DAY = 24 * HOUR;
+
+/**
+ * Revisions older than this (other than the most recent ones) are dropped.
+ */
+const MAX_AGE = 30 * DAY;
+
+export class DocRevisions {
+
+    /**
+     * Decide which revisions to keep so that the history stays bounded.
+     * Documents are written every time a pagemark or annotation changes so we
+     * keep all the recent revisions, then the last revision of every hour for
+     * the last day and the last revision of every day for the last month.
+     *
+     * @param revisions The revisions, oldest first.
+     * @return The revisions to keep, oldest first.
+     */
+    public static prune(revisions: ReadonlyArray<DocRevision>, now: Date = new Date()): DocRevision[] {
+
+        const kept: DocRevision[] = [];
+
+        const buckets = new Set<string>();
+
+        const newestFirst = [...revisions].reverse();
+
+        newestFirst.forEach((revision, idx) => {
+
+            if (idx < NR_RECENT_REVISIONS) {
+                kept.push(revision);
+                return;
+            }
+
+            const created = Date.parse(revision.created);
+            const age = now.getTime() - created;
+
+            if (age > MAX_AGE) {
+                return;
+            }
+
+            const bucket = age < DAY ? `hour:${Math.floor(created / HOUR)}` : `day:${Math.floor(created / DAY)}`;
+
+            if (! buckets.has(bucket)) {
+                buckets.add(bucket);
+                kept.push(revision);
+            }
+
+        });
+
+        return kept.slice(0, MAX_REVISIONS).reverse();
+
+    }
+
+}
+
+/**
+ * A version of a DocMeta as it was written to the datastore.
+ */
+export interface DocRevision {
+
+    readonly id: string;
+
+    readonly fingerprint: string;
+
+    readonly created: ISODateTimeString;
+
+    /**
+     * The UUID of the DocMeta in this revision.
+     */
+    readonly uuid?: UUID;
+
+    readonly nrAnnotations?: number;
+
+}
@@ -0,0 +1,62 @@
+import {assert} from 'chai';
+import {DocRevision, DocRevisions} from './DocRevisions';
+
+describe('DocRevisions', function() {
+
+    const now = new Date('2019-01-31T12:00:00.000Z');
+
+    function createRevisions(count: number, interval: number): DocRevision[] {
+
+        const result: DocRevision[] = [];
+
+        for (let idx = count - 1; idx >= 0; --idx) {
+            result.push({
+                id: `${idx}`,
+                fingerprint: '0x001',
+                created: new Date(now.getTime() - (idx * interval)).toISOString()
+            });
+        }
+
+        return result;
+
+    }
+
+    it("keeps all the recent revisions", function() {
+
+        const revisions = createRevisions(20, 1000);
+
+        assert.deepEqual(DocRevisions.prune(revisions, now), revisions);
+
+    });
+
+    it("keeps one revision per hour for older revisions", function() {
+
+        // one revision every 10 minutes for the last 10 hours
+        const revisions = createRevisions(60, 10 * 60 * 1000);
+
+        const kept = DocRevisions.prune(revisions, now);
+
+        // the 20 recent ones cover the last 3h20m and then the newest one for
+        // each of the older hours.
+        assert.equal(kept.length, 20 + 7);
+
+        assert.deepEqual(kept.slice(-20), revisions.slice(-20));
+        assert.equal(kept[0].id, '55');
+
+    });
+
+    it("drops old revisions", function() {
+
+        const day = 24 * 60 * 60 * 1000;
+
+        const revisions = createRevisions(60, day);
+
+        const kept = DocRevisions.prune(revisions, now);
+
+        // 20 recent and then one per day up to 30 days old.
+        assert.equal(kept.length, 30 + 1);
+        assert.equal(kept[0].id, '30');
+
+    });
+
+});
@@ -0,0 +1,541 @@
+import {Datastore} from '../Datastore';
+import {Directories} from '../Directories';
+import {Backend} from '../Backend';
+import {DocMeta} from '../../metadata/DocMeta';
+import {DocMetas} from '../../metadata/DocMetas';
+import {DocInfo} from '../../metadata/DocInfo';
+import {TextHighlight} from '../../metadata/TextHighlight';
+import {AreaHighlight} from '../../metadata/AreaHighlight';
+import {Comment} from '../../metadata/Comment';
+import {Flashcard} from '../../metadata/Flashcard';
+import {Note} from '../../metadata/Note';
+import {Pagemark} from '../../metadata/Pagemark';
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Logger} from '../../logger/Logger';
+import {DocRevisionStore} from '../history/DocRevisionStore';
+import {DocRevision} from '../history/DocRevisions';
+import {Backups} from '../backup/Backups';
+import {Datastores} from '../Datastores';
+
+const log = Logger.create();
+
+/**
+ * The annotation dictionaries of a PageMeta and the classes that validate them.
+ */
+const ANNOTATION_CLASSES: {[field: string]: any} = {
+    textHighlights: TextHighlight,
+    areaHighlights: AreaHighlight,
+    comments: Comment,
+    flashcards: Flashcard,
+    notes: Note,
+    pagemarks: Pagemark
+};
+
+/**
+ * The DocInfo counters that DocMetas.updateAnnotationCounts maintains.
+ */
+const COUNTERS = ['nrComments', 'nrNotes', 'nrFlashcards', 'nrTextHighlights', 'nrAreaHighlights', 'nrAnnotations'];
+
+/**
+ * The name of the directory in the data dir where orphaned files are moved
+ * when repairing.  They're kept instead of deleted in case they're still
+ * needed.
+ */
+const ORPHANS_DIR = '.orphans';
+
+/**
+ * Verifies that the DocMetas in the datastore can be read and are consistent
+ * with each other and the files in the data dir, and optionally repairs what
+ * it can.
+ */
+export class DatastoreIntegrityChecker {
+
+    private readonly datastore: Datastore;
+
+    private readonly directories: Directories;
+
+    private readonly docRevisionStore: DocRevisionStore;
+
+    constructor(datastore: Datastore,
+                directories: Directories = new Directories(),
+                docRevisionStore: DocRevisionStore = new DocRevisionStore(FilePaths.join(directories.dataDir, ".history"))) {
+
+        this.datastore = datastore;
+        this.directories = directories;
+        this.docRevisionStore = docRevisionStore;
+
+    }
+
+    public async check(): Promise<IntegrityReport> {
+
+        const issues: IntegrityIssue[] = [];
+
+        const docMetaFiles = await this.datastore.getDocMetaFiles();
+
+        // the stash files referenced by a DocMeta
+        const stashFiles = new Set<string>();
+
+        // the raw DocMeta data so that we can find references to images.
+        const docMetaData: string[] = [];
+
+        // true when an invalid doc might reference a stash file we don't know
+        // about.
+        let hasUnknownStashFiles = false;
+
+        for (const docMetaFile of docMetaFiles) {
+
+            const {fingerprint} = docMetaFile;
+
+            const data = await this.datastore.getDocMeta(fingerprint);
+
+            if (data === null) {
+                continue;
+            }
+
+            docMetaData.push(data);
+
+            let docMeta: DocMeta;
+
+            try {
+                docMeta = DocMetas.deserialize(data, fingerprint);
+                DocInfo.prototype.validate.call(docMeta.docInfo);
+            } catch (e) {
+
+                const revisions = await this.docRevisionStore.list(fingerprint);
+
+                issues.push({
+                    type: 'invalid-doc-meta',
+                    fingerprint,
+                    message: e.message,
+                    repairable: revisions.length > 0
+                });
+
+                // the doc still owns its file and the repair restores a
+                // revision that references it.
+                const filenames = await this.readFilenames(data, revisions);
+
+                filenames.forEach(filename => stashFiles.add(filename));
+
+                if (filenames.length === 0) {
+                    hasUnknownStashFiles = true;
+                }
+
+                continue;
+
+            }
+
+            if (docMeta.docInfo.filename) {
+
+                stashFiles.add(docMeta.docInfo.filename);
+
+                if (! await this.datastore.containsFile(Backend.STASH, {name: docMeta.docInfo.filename})) {
+
+                    issues.push({
+                        type: 'missing-file',
+                        fingerprint,
+                        backend: Backend.STASH,
+                        name: docMeta.docInfo.filename,
+                        message: "Missing file: " + docMeta.docInfo.filename,
+                        repairable: false
+                    });
+
+                }
+
+            }
+
+            issues.push(...this.checkAnnotations(docMeta));
+            issues.push(...this.checkCounters(docMeta));
+
+        }
+
+        for (const name of await this.listFiles(Backend.STASH)) {
+
+            if (! stashFiles.has(name)) {
+                issues.push(this.createOrphanedFileIssue(Backend.STASH, name, ! hasUnknownStashFiles));
+            }
+
+        }
+
+        for (const name of await this.listFiles(Backend.IMAGE)) {
+
+            // images are referenced by name from within the annotations.
+            if (! docMetaData.some(data => data.includes(name))) {
+                issues.push(this.createOrphanedFileIssue(Backend.IMAGE, name));
+            }
+
+        }
+
+        return {nrDocs: docMetaFiles.length, issues};
+
+    }
+
+    /**
+     * Repair the repairable issues in the report.  A backup of the data dir is
+     * created first.
+     *
+     * @return The issues that were repaired.
+     */
+    public async repair(report: IntegrityReport): Promise<IntegrityIssue[]> {
+
+        const repairable = report.issues.filter(issue => issue.repairable);
+
+        if (repairable.length === 0) {
+            return [];
+        }
+
+        await new Backups(this.directories.dataDir).create();
+
+        const repaired: IntegrityIssue[] = [];
+
+        // DocMeta issues are repaired per doc so that each doc is only written
+        // once.
+        const fingerprints = new Set(repairable.filter(issue => issue.type !== 'orphaned-file')
+                                               .map(issue => issue.fingerprint!));
+
+        for (const fingerprint of Array.from(fingerprints)) {
+
+            const issues = repairable.filter(issue => issue.fingerprint === fingerprint);
+
+            try {
+                await this.repairDocMeta(fingerprint, issues);
+                repaired.push(...issues);
+            } catch (e) {
+                log.error("Unable to repair doc: " + fingerprint, e);
+            }
+
+        }
+
+        for (const issue of repairable.filter(current => current.type === 'orphaned-file')) {
+
+            try {
+                await this.moveOrphanedFile(issue.backend!, issue.name!);
+                repaired.push(issue);
+            } catch (e) {
+                log.error("Unable to move orphaned file: " + issue.name, e);
+            }
+
+        }
+
+        return repaired;
+
+    }
+
+    private checkAnnotations(docMeta: DocMeta): IntegrityIssue[] {
+
+        const issues: IntegrityIssue[] = [];
+
+        for (const pageMeta of Object.values(docMeta.pageMetas)) {
+
+            for (const field of Object.keys(ANNOTATION_CLASSES)) {
+
+                const annotations: {[id: string]: any} = (<any> pageMeta)[field] || {};
+
+                for (const id of Object.keys(annotations)) {
+
+                    try {
+                        this.validateAnnotation(field, annotations[id]);
+                    } catch (e) {
+
+                        // these aren't repaired since the only repair would be
+                        // deleting the user's annotation.
+                        issues.push({
+                            type: 'invalid-annotation',
+                            fingerprint: docMeta.docInfo.fingerprint,
+                            pageNum: pageMeta.pageInfo.num,
+                            field,
+                            id,
+                            message: `Invalid ${field} ${id} on page ${pageMeta.pageInfo.num}: ${e.message}`,
+                            repairable: false
+                        });
+
+                    }
+
+                }
+
+            }
+
+        }
+
+        return issues;
+
+    }
+
+    private validateAnnotation(field: string, value: any) {
+
+        if (! value || typeof value !== 'object') {
+            throw new Error("Not an object");
+        }
+
+        // validate without running the constructors which would fill in
+        // defaults.
+        const annotation = Object.assign(Object.create(ANNOTATION_CLASSES[field].prototype), value);
+
+        annotation.validate();
+
+    }
+
+    private checkCounters(docMeta: DocMeta): IntegrityIssue[] {
+
+        const docInfo = docMeta.docInfo;
+
+        // compute the counters on a copy so that the DocMeta isn't changed.
+        const expected: any = {};
+
+        DocMetas.updateAnnotationCounts(<DocMeta> <any> {docInfo: expected, pageMetas: docMeta.pageMetas});
+
+        const mismatched = COUNTERS.filter(counter => ((<any> docInfo)[counter] || 0) !== expected[counter]);
+
+        if (mismatched.length === 0) {
+            return [];
+        }
+
+        const details = mismatched.map(counter => `${counter} is ${(<any> docInfo)[counter] || 0} but should be ${expected[counter]}`);
+
+        return [{
+            type: 'mismatched-counter',
+            fingerprint: docInfo.fingerprint,
+            message: details.join(', '),
+            repairable: true
+        }];
+
+    }
+
+    private async repairDocMeta(fingerprint: string, issues: ReadonlyArray<IntegrityIssue>) {
+
+        let docMeta: DocMeta;
+
+        if (issues.some(issue => issue.type === 'invalid-doc-meta')) {
+            docMeta = await this.readLatestValidRevision(fingerprint);
+        } else {
+            docMeta = DocMetas.deserialize((await this.datastore.getDocMeta(fingerprint))!, fingerprint);
+        }
+
+        DocMetas.updateAnnotationCounts(docMeta);
+
+        log.notice("Repaired doc: " + fingerprint);
+
+        await this.datastore.writeDocMeta(docMeta);
+
+    }
+
+    /**
+     * The stash filenames of an invalid DocMeta from its raw JSON and from its
+     * latest readable revision.
+     */
+    private async readFilenames(data: string, revisions: ReadonlyArray<DocRevision>): Promise<string[]> {
+
+        const toFilename = (json: string): string | undefined => {
+
+            try {
+                const docInfo = JSON.parse(json).docInfo;
+                return docInfo && typeof docInfo.filename === 'string' ? docInfo.filename : undefined;
+            } catch (e) {
+                return undefined;
+            }
+
+        };
+
+        const result: string[] = [];
+
+        const filename = toFilename(data);
+
+        if (filename) {
+            result.push(filename);
+        }
+
+        for (const revision of [...revisions].reverse()) {
+
+            const revisionFilename = toFilename(await this.docRevisionStore.get(revision));
+
+            if (revisionFilename) {
+                result.push(revisionFilename);
+                break;
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private async readLatestValidRevision(fingerprint: string): Promise<DocMeta> {
+
+        const revisions = await this.docRevisionStore.list(fingerprint);
+
+        for (const revision of [...revisions].reverse()) {
+
+            try {
+                return DocMetas.deserialize(await this.docRevisionStore.get(revision), fingerprint);
+            } catch (e) {
+                log.warn(`Revision ${revision.id} of ${fingerprint} is also invalid`);
+            }
+
+        }
+
+        throw new Error("No valid revision for: " + fingerprint);
+
+    }
+
+    private async moveOrphanedFile(backend: Backend, name: string) {
+
+        const dir = this.toDir(backend);
+        const orphansDir = FilePaths.join(this.directories.dataDir, ORPHANS_DIR);
+        const targetDir = FilePaths.join(orphansDir, backend);
+
+        await Files.createDirAsync(orphansDir);
+        await Files.createDirAsync(targetDir);
+
+        for (const fileName of [name, name + '.meta']) {
+
+            const path = FilePaths.join(dir, fileName);
+
+            if (await Files.existsAsync(path)) {
+                await Files.renameAsync(path, FilePaths.join(targetDir, fileName));
+            }
+
+        }
+
+    }
+
+    /**
+     * List the names of the files for a backend (excluding their .meta files).
+     */
+    private async listFiles(backend: Backend): Promise<string[]> {
+
+        const dir = this.toDir(backend);
+
+        if (! await Files.existsAsync(dir)) {
+            return [];
+        }
+
+        const result: string[] = [];
+
+        for (const name of await Files.readdirAsync(dir)) {
+
+            if (name.endsWith('.meta')) {
+                continue;
+            }
+
+            if (await Files.fileType(FilePaths.join(dir, name)) === 'file') {
+                result.push(name);
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private toDir(backend: Backend) {
+
+        if (backend === Backend.STASH) {
+            return this.directories.stashDir;
+        }
+
+        return FilePaths.join(this.directories.filesDir, backend);
+
+    }
+
+    /**
+     * @param repairable False when the file might still be referenced by a
+     * doc we couldn't read.
+     */
+    private createOrphanedFileIssue(backend: Backend, name: string, repairable: boolean = true): IntegrityIssue {
+
+        return {
+            type: 'orphaned-file',
+            backend,
+            name,
+            message: `File isn't referenced by any doc: ${backend}/${name}`,
+            repairable
+        };
+
+    }
+
+}
+
+export type IntegrityIssueType = 'invalid-doc-meta' | 'missing-file' | 'orphaned-file' | 'invalid-annotation' | 'mismatched-counter';
+
+export interface IntegrityIssue {
+
+    readonly type: IntegrityIssueType;
+
+    readonly message: string;
+
+    /**
+     * True when repair() is able to fix this issue.
+     */
+    readonly repairable: boolean;
+
+    readonly fingerprint?: string;
+
+    /**
+     * The backend and name of the file for file issues.
+     */
+    readonly backend?: Backend;
+
+    readonly name?: string;
+
+    /**
+     * The location of the annotation for annotation issues.
+     */
+    readonly pageNum?: number;
+
+    readonly field?: string;
+
+    readonly id?: string;
+
+}
+
+export interface IntegrityReport {
+
+    readonly nrDocs: number;
+
+    readonly issues: ReadonlyArray<IntegrityIssue>;
+
+}
+
+/**
+ * Check the data dir from the command line:
+ *
+ *   node DatastoreIntegrityChecker.js [--repair]
+ */
+async function main() {
+
+    const repair = process.argv.includes('--repair');
+
+    const datastore = Datastores.create();
+    await datastore.init();
+
+    const checker = new DatastoreIntegrityChecker(datastore);
+
+    const report = await checker.check();
+
+    for (const issue of report.issues) {
+        log.info(`${issue.type}${issue.fingerprint ? ' ' + issue.fingerprint : ''}: ${issue.message}`);
+    }
+
+    log.info(`Checked ${report.nrDocs} docs and found ${report.issues.length} issues`);
+
+    if (repair) {
+        const repaired = await checker.repair(report);
+        log.info(`Repaired ${repaired.length} issues`);
+    }
+
+    await datastore.stop();
+
+    if (report.issues.length > 0 && ! repair) {
+        process.exit(1);
+    }
+
+}
+
+if (require.main === module) {
+
+    main().catch(err => {
+        console.error(err.message);
+        process.exit(1);
+    });
+
+}
@@ -0,0 +1,122 @@
+import {assert} from 'chai';
+import os from 'os';
+import {DatastoreIntegrityChecker} from './DatastoreIntegrityChecker';
+import {DiskDatastore} from '../DiskDatastore';
+import {GlobalDataDir} from '../Directories';
+import {Backend} from '../Backend';
+import {DocMetas, MockDocMetas} from '../../metadata/DocMetas';
+import {FilePaths} from '../../util/FilePaths';
+import {Files} from '../../util/Files';
+
+const tmpdir = os.tmpdir();
+
+describe('DatastoreIntegrityChecker', function() {
+
+    const dataDir = FilePaths.join(tmpdir, 'datastore-integrity-checker-test');
+
+    let datastore: DiskDatastore;
+    let checker: DatastoreIntegrityChecker;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(dataDir);
+
+        GlobalDataDir.set(dataDir);
+
+        datastore = new DiskDatastore();
+        await datastore.init();
+
+        checker = new DatastoreIntegrityChecker(datastore);
+
+        // a healthy doc
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 2);
+        docMeta.docInfo.filename = '0x001.pdf';
+        DocMetas.updateAnnotationCounts(docMeta);
+
+        await datastore.writeFile(Backend.STASH, {name: '0x001.pdf'}, 'pdf data');
+        await datastore.writeDocMeta(docMeta);
+
+    });
+
+    afterEach(function() {
+        GlobalDataDir.set(undefined);
+    });
+
+    it("no issues with a healthy datastore", async function() {
+
+        const report = await checker.check();
+
+        assert.equal(report.nrDocs, 1);
+        assert.deepEqual(report.issues, []);
+
+    });
+
+    it("report and repair issues", async function() {
+
+        // a doc with a missing file, an invalid annotation and wrong counters
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x002', 2);
+        docMeta.docInfo.filename = '0x002.pdf';
+        DocMetas.updateAnnotationCounts(docMeta);
+        docMeta.docInfo.nrFlashcards = 5;
+        (<any> docMeta.pageMetas[1].textHighlights).bad = {id: 'bad', rects: {}, text: 'no created time'};
+
+        await datastore.writeDocMeta(docMeta);
+
+        // a doc that was valid once and is now corrupt
+        const docMeta3 = MockDocMetas.createWithinInitialPagemarks('0x003', 2);
+        docMeta3.docInfo.filename = '0x003.pdf';
+        await datastore.writeFile(Backend.STASH, {name: '0x003.pdf'}, 'pdf data');
+        await datastore.writeDocMeta(docMeta3);
+        await Files.writeFileAsync(FilePaths.join(dataDir, '0x003', 'state.json'), '{"docInfo": ');
+
+        await datastore.writeFile(Backend.STASH, {name: 'orphan.pdf'}, 'orphan');
+
+        const report = await checker.check();
+
+        assert.deepEqual(report.issues.map(issue => [issue.type, issue.fingerprint || issue.name, issue.repairable]), [
+            ['missing-file', '0x002', false],
+            ['invalid-annotation', '0x002', false],
+            ['mismatched-counter', '0x002', true],
+            ['invalid-doc-meta', '0x003', true],
+            ['orphaned-file', 'orphan.pdf', true],
+        ]);
+
+        const repaired = await checker.repair(report);
+        assert.equal(repaired.length, 3);
+
+        const repairedReport = await checker.check();
+        assert.deepEqual(repairedReport.issues.map(issue => issue.type), ['missing-file', 'invalid-annotation']);
+
+        // the invalid annotation is kept
+        const docMeta2 = DocMetas.deserialize((await datastore.getDocMeta('0x002'))!, '0x002');
+        assert.ok(docMeta2.pageMetas[1].textHighlights.bad);
+        assert.equal(docMeta2.docInfo.nrFlashcards, 0);
+
+        assert.ok(await Files.existsAsync(FilePaths.join(dataDir, '.orphans', 'stash', 'orphan.pdf')));
+
+        const docMeta3Data = await datastore.getDocMeta('0x003');
+        assert.equal(DocMetas.deserialize(docMeta3Data!, '0x003').docInfo.fingerprint, '0x003');
+
+        // the file of the corrupt doc isn't an orphan
+        assert.ok(await datastore.containsFile(Backend.STASH, {name: '0x003.pdf'}));
+
+    });
+
+    it("files are not orphans when an unreadable doc could reference them", async function() {
+
+        // a doc that is corrupt and has no history
+        await Files.createDirAsync(FilePaths.join(dataDir, '0x004'));
+        await Files.writeFileAsync(FilePaths.join(dataDir, '0x004', 'state.json'), '{"docInfo": ');
+
+        await datastore.writeFile(Backend.STASH, {name: '0x004.pdf'}, 'pdf data');
+
+        const report = await checker.check();
+
+        assert.deepEqual(report.issues.map(issue => [issue.type, issue.fingerprint || issue.name, issue.repairable]), [
+            ['invalid-doc-meta', '0x004', false],
+            ['orphaned-file', '0x004.pdf', false],
+        ]);
+
+    });
+
+});
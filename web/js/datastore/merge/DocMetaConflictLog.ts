@@ -0,0 +1,103 @@
+import {DocMetaConflict} from './DocMetaConflicts';
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Directories} from '../Directories';
+import {Logger} from '../../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * The maximum number of conflicts we keep.  Older conflicts are dropped.
+ */
+const MAX_CONFLICTS = 1000;
+
+/**
+ * Log of the conflicts found while merging DocMetas stored as JSON in the data
+ * dir.  The log is read on every operation so that the datastore and the
+ * repository UI can share it.
+ */
+export class DocMetaConflictLog {
+
+    private readonly path: string;
+
+    private queue: Promise<any> = Promise.resolve();
+
+    constructor(path: string = FilePaths.join(new Directories().dataDir, "conflicts.json")) {
+        this.path = path;
+    }
+
+    public async list(): Promise<DocMetaConflict[]> {
+        return this.enqueue(() => this.read());
+    }
+
+    /**
+     * The conflicts the user still has to look at.
+     */
+    public async listUnresolved(): Promise<DocMetaConflict[]> {
+
+        const conflicts = await this.list();
+
+        return conflicts.filter(conflict => ! conflict.resolved);
+
+    }
+
+    public async append(conflicts: ReadonlyArray<DocMetaConflict>): Promise<void> {
+
+        if (conflicts.length === 0) {
+            return;
+        }
+
+        await this.enqueue(async () => {
+
+            const current = await this.read();
+
+            await this.write([...current, ...conflicts].slice(-MAX_CONFLICTS));
+
+        });
+
+    }
+
+    public async resolve(id: string): Promise<void> {
+
+        await this.enqueue(async () => {
+
+            const current = await this.read();
+
+            await this.write(current.map(conflict => conflict.id === id ? {...conflict, resolved: true} : conflict));
+
+        });
+
+    }
+
+    private async read(): Promise<DocMetaConflict[]> {
+
+        if (! await Files.existsAsync(this.path)) {
+            return [];
+        }
+
+        try {
+            const data = await Files.readFileAsync(this.path);
+            return JSON.parse(data.toString('utf-8'));
+        } catch (e) {
+            log.warn("Unable to read conflict log: ", e);
+            return [];
+        }
+
+    }
+
+    private async write(conflicts: ReadonlyArray<DocMetaConflict>) {
+        await Files.writeFileAsync(this.path, JSON.stringify(conflicts, null, "  "));
+    }
+
+    private enqueue<T>(func: () => Promise<T>): Promise<T> {
+
+        const result = this.queue.then(func);
+
+        // keep the queue going even when an operation fails.
+        this.queue = result.catch(() => { /* noop */ });
+
+        return result;
+
+    }
+
+}
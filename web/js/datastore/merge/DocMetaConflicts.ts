@@ -0,0 +1,111 @@
+import * as _ from 'lodash';
+import {ISODateTimeString, ISODateTimeStrings} from '../../metadata/ISODateTimeStrings';
+import {Hashcodes} from '../../Hashcodes';
+import {DocMeta} from '../../metadata/DocMeta';
+import {DocMetas} from '../../metadata/DocMetas';
+
+export class DocMetaConflicts {
+
+    public static create(fingerprint: string,
+                         path: ReadonlyArray<string>,
+                         type: DocMetaConflictType,
+                         kept: any,
+                         discarded: any): DocMetaConflict {
+
+        return {
+            id: Hashcodes.createRandomID(),
+            fingerprint,
+            path,
+            type,
+            kept,
+            discarded,
+
+            // keeping a change over a delete never loses data so it only
+            // needs to be logged.
+            resolved: type === 'deleted-modified',
+            created: ISODateTimeStrings.create()
+        };
+
+    }
+
+    /**
+     * Create a copy of the DocMeta with the value discarded by the conflict
+     * restored in place of the value that was kept.
+     */
+    public static restore(docMeta: DocMeta, conflict: DocMetaConflict): DocMeta {
+
+        const json = JSON.parse(DocMetas.serialize(docMeta, ""));
+
+        if (conflict.discarded === undefined) {
+            _.unset(json, [...conflict.path]);
+        } else {
+            _.set(json, [...conflict.path], conflict.discarded);
+        }
+
+        return DocMetas.deserialize(JSON.stringify(json), docMeta.docInfo.fingerprint);
+
+    }
+
+    /**
+     * A short description of what the conflict is about (a text highlight on
+     * page 3, the title, etc).
+     */
+    public static describe(conflict: DocMetaConflict): string {
+
+        const [root, ...rest] = conflict.path;
+
+        if (root === 'pageMetas' && rest.length >= 2) {
+            const [pageNum, field] = rest;
+            return `${_.lowerCase(field).replace(/s$/, '')} on page ${pageNum}`;
+        }
+
+        return _.lowerCase(rest.length > 0 ? rest[0] : root);
+
+    }
+
+}
+
+/**
+ * A conflict between the changes to a DocMeta on two devices.
+ *
+ * modified-both: the same value was changed on both devices and only the
+ * latest change was kept.
+ *
+ * deleted-modified: the value was deleted on one device and changed on the
+ * other and the change was kept.
+ */
+export type DocMetaConflictType = 'modified-both' | 'deleted-modified';
+
+export interface DocMetaConflict {
+
+    readonly id: string;
+
+    readonly fingerprint: string;
+
+    /**
+     * The path of the conflicting value in the DocMeta (for example
+     * ['pageMetas', '3', 'textHighlights', '12345']).
+     */
+    readonly path: ReadonlyArray<string>;
+
+    readonly type: DocMetaConflictType;
+
+    /**
+     * The value kept in the merged DocMeta.
+     */
+    readonly kept: any;
+
+    /**
+     * The value that was replaced by the kept value or undefined when the
+     * value was deleted.
+     */
+    readonly discarded: any;
+
+    /**
+     * False when the user should decide which value to keep.
+     */
+    readonly resolved: boolean;
+
+    readonly created: ISODateTimeString;
+
+}
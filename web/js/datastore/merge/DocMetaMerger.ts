@@ -0,0 +1,153 @@
+import {Datastore} from '../Datastore';
+import {DocMetas} from '../../metadata/DocMetas';
+import {DocMeta} from '../../metadata/DocMeta';
+import {UUIDs} from '../../metadata/UUIDs';
+import {MergeBaseStore} from './MergeBaseStore';
+import {DocMetaConflictLog} from './DocMetaConflictLog';
+import {DocMetaMerges} from './DocMetaMerges';
+import {Logger} from '../../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Reconciles the copies of a DocMeta in two datastores instead of letting the
+ * one with the latest UUID replace the other.
+ *
+ * We keep the last version both datastores agreed on (the base).  When only
+ * one side changed since the base it's copied over the other (a fast forward)
+ * and when both changed they're merged with DocMetaMerges and the result is
+ * written to both.  Conflicts are written to the conflict log.
+ */
+export class DocMetaMerger {
+
+    public readonly mergeBaseStore: MergeBaseStore;
+
+    public readonly conflictLog: DocMetaConflictLog;
+
+    constructor(mergeBaseStore: MergeBaseStore = new MergeBaseStore(),
+                conflictLog: DocMetaConflictLog = new DocMetaConflictLog()) {
+
+        this.mergeBaseStore = mergeBaseStore;
+        this.conflictLog = conflictLog;
+
+    }
+
+    /**
+     * Make sure the target has the changes from the source for a doc that's
+     * present in both.
+     *
+     * @return The result or undefined when the target didn't need to change.
+     */
+    public async synchronize(source: Datastore,
+                             target: Datastore,
+                             fingerprint: string): Promise<DocMetaMergeType | undefined> {
+
+        const sourceDocMeta = await this.getDocMeta(source, fingerprint);
+        const targetDocMeta = await this.getDocMeta(target, fingerprint);
+
+        if (! sourceDocMeta || ! targetDocMeta) {
+            return undefined;
+        }
+
+        const sourceUUID = sourceDocMeta.docInfo.uuid;
+        const targetUUID = targetDocMeta.docInfo.uuid;
+
+        if (UUIDs.compare(sourceUUID, targetUUID) === 0) {
+            return undefined;
+        }
+
+        const base = await this.getBase(fingerprint);
+
+        if (base) {
+
+            const baseUUID = base.docInfo.uuid;
+
+            if (UUIDs.compare(targetUUID, baseUUID) === 0) {
+
+                // only the source changed.
+                const data = DocMetas.serialize(sourceDocMeta);
+                await target.write(fingerprint, data, sourceDocMeta.docInfo);
+                await this.updateBase(fingerprint, data);
+
+                return 'fast-forward';
+
+            }
+
+            if (UUIDs.compare(sourceUUID, baseUUID) === 0) {
+                // only the target changed so it will be transferred the other
+                // way.
+                return undefined;
+            }
+
+        }
+
+        log.info(`Merging diverged copies of ${fingerprint} with base: ${base ? base.docInfo.uuid : 'none'}`);
+
+        const mergeResult = DocMetaMerges.merge(base, sourceDocMeta, targetDocMeta);
+
+        const mergedDocMeta = mergeResult.docMeta;
+        const data = DocMetas.serialize(mergedDocMeta);
+
+        await target.write(fingerprint, data, mergedDocMeta.docInfo);
+        await source.write(fingerprint, data, mergedDocMeta.docInfo);
+
+        await this.updateBase(fingerprint, data);
+
+        if (mergeResult.conflicts.length > 0) {
+            log.warn(`Found ${mergeResult.conflicts.length} conflicts merging ${fingerprint}`);
+            await this.conflictLog.append(mergeResult.conflicts);
+        }
+
+        return 'merged';
+
+    }
+
+    /**
+     * Record the data as the version that both datastores have.
+     */
+    public async updateBase(fingerprint: string, data: string): Promise<void> {
+        await this.mergeBaseStore.put(fingerprint, data);
+    }
+
+    public async removeBase(fingerprint: string): Promise<void> {
+        await this.mergeBaseStore.remove(fingerprint);
+    }
+
+    private async getBase(fingerprint: string): Promise<DocMeta | undefined> {
+
+        try {
+
+            const data = await this.mergeBaseStore.get(fingerprint);
+
+            if (data) {
+                return DocMetas.deserialize(data, fingerprint);
+            }
+
+        } catch (e) {
+            log.warn("Unable to read merge base for: " + fingerprint, e);
+        }
+
+        return undefined;
+
+    }
+
+    private async getDocMeta(datastore: Datastore, fingerprint: string): Promise<DocMeta | undefined> {
+
+        const data = await datastore.getDocMeta(fingerprint);
+
+        if (! data) {
+            return undefined;
+        }
+
+        return DocMetas.deserialize(data, fingerprint);
+
+    }
+
+}
+
+/**
+ * fast-forward: the source was copied to the target.
+ *
+ * merged: the source and target were merged and written to both.
+ */
+export type DocMetaMergeType = 'fast-forward' | 'merged';
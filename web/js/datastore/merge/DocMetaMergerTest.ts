@@ -0,0 +1,114 @@
+import {assert} from 'chai';
+import os from 'os';
+import {DocMetaMerger} from './DocMetaMerger';
+import {MergeBaseStore} from './MergeBaseStore';
+import {DocMetaConflictLog} from './DocMetaConflictLog';
+import {MemoryDatastore} from '../MemoryDatastore';
+import {DocMetas, MockDocMetas} from '../../metadata/DocMetas';
+import {DocMeta} from '../../metadata/DocMeta';
+import {Comments} from '../../metadata/Comments';
+import {UUIDs} from '../../metadata/UUIDs';
+import {FilePaths} from '../../util/FilePaths';
+import {Files} from '../../util/Files';
+import {Datastore} from '../Datastore';
+
+const tmpdir = os.tmpdir();
+
+describe('DocMetaMerger', function() {
+
+    const fingerprint = "0x001";
+
+    const mergeBaseDir = FilePaths.join(tmpdir, 'doc-meta-merger-test');
+    const conflictLogPath = FilePaths.join(tmpdir, 'doc-meta-merger-test-conflicts.json');
+
+    let local: Datastore;
+    let cloud: Datastore;
+    let docMetaMerger: DocMetaMerger;
+
+    beforeEach(async function() {
+
+        await Files.removeDirectoryRecursivelyAsync(mergeBaseDir);
+
+        if (await Files.existsAsync(conflictLogPath)) {
+            await Files.unlinkAsync(conflictLogPath);
+        }
+
+        local = new MemoryDatastore();
+        cloud = new MemoryDatastore();
+
+        await Promise.all([local.init(), cloud.init()]);
+
+        docMetaMerger = new DocMetaMerger(new MergeBaseStore(mergeBaseDir), new DocMetaConflictLog(conflictLogPath));
+
+    });
+
+    async function write(datastore: Datastore, docMeta: DocMeta) {
+        docMeta.docInfo.uuid = UUIDs.create();
+        await datastore.write(fingerprint, DocMetas.serialize(docMeta), docMeta.docInfo);
+    }
+
+    async function read(datastore: Datastore) {
+        return DocMetas.deserialize((await datastore.getDocMeta(fingerprint))!, fingerprint);
+    }
+
+    async function writeBase() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks(fingerprint, 3);
+
+        await write(local, docMeta);
+
+        const data = (await local.getDocMeta(fingerprint))!;
+
+        await cloud.write(fingerprint, data, docMeta.docInfo);
+        await docMetaMerger.updateBase(fingerprint, data);
+
+        return docMeta;
+
+    }
+
+    it("fast forward when only one side changed", async function() {
+
+        const docMeta = await writeBase();
+
+        const comment = Comments.createTextComment("from the laptop", 'page:1');
+        docMeta.getPageMeta(1).comments[comment.id] = comment;
+        await write(local, docMeta);
+
+        assert.equal(await docMetaMerger.synchronize(local, cloud, fingerprint), 'fast-forward');
+        assert.ok((await read(cloud)).getPageMeta(1).comments[comment.id]);
+
+        // the cloud is now the same as the local copy.
+        assert.isUndefined(await docMetaMerger.synchronize(cloud, local, fingerprint));
+
+    });
+
+    it("an older copy from another device doesn't replace newer changes", async function() {
+
+        const docMeta = await writeBase();
+
+        const laptop = DocMetas.deserialize(DocMetas.serialize(docMeta), fingerprint);
+        const desktop = DocMetas.deserialize(DocMetas.serialize(docMeta), fingerprint);
+
+        const laptopComment = Comments.createTextComment("from the laptop", 'page:1');
+        laptop.getPageMeta(1).comments[laptopComment.id] = laptopComment;
+        await write(local, laptop);
+
+        const desktopComment = Comments.createTextComment("from the desktop", 'page:2');
+        desktop.getPageMeta(2).comments[desktopComment.id] = desktopComment;
+        await write(cloud, desktop);
+
+        assert.equal(await docMetaMerger.synchronize(cloud, local, fingerprint), 'merged');
+
+        for (const datastore of [local, cloud]) {
+            const merged = await read(datastore);
+            assert.ok(merged.getPageMeta(1).comments[laptopComment.id]);
+            assert.ok(merged.getPageMeta(2).comments[desktopComment.id]);
+        }
+
+        assert.isUndefined(await docMetaMerger.synchronize(local, cloud, fingerprint));
+
+        assert.deepEqual(await docMetaMerger.conflictLog.list(), []);
+
+    });
+
+});
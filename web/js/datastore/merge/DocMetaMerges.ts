@@ -0,0 +1,312 @@
+import * as _ from 'lodash';
+import {DocMeta} from '../../metadata/DocMeta';
+import {DocMetas} from '../../metadata/DocMetas';
+import {UUIDs} from '../../metadata/UUIDs';
+import {ISODateTimeStrings} from '../../metadata/ISODateTimeStrings';
+import {Sets} from '../../util/Sets';
+import {DocMetaConflict, DocMetaConflicts} from './DocMetaConflicts';
+
+/**
+ * Three-way merge of two copies of a DocMeta that were edited on different
+ * devices since they were last in sync (the base).
+ *
+ * Annotations (pagemarks, highlights, comments, flashcards, etc) are merged by
+ * their key in the page meta so that annotations created on either device are
+ * kept.  When the same annotation was changed on both devices the one with the
+ * later lastUpdated wins.  DocInfo is merged field by field.
+ *
+ * Without a base we can't tell a deletion from a creation so annotations
+ * present on either side are kept.
+ */
+export class DocMetaMerges {
+
+    public static merge(base: DocMeta | undefined,
+                        source: DocMeta,
+                        target: DocMeta): DocMetaMergeResult {
+
+        const fingerprint = source.docInfo.fingerprint;
+
+        const merger = new ThreeWayMerger(fingerprint, this.isNewer(source, target) ? 'source' : 'target');
+
+        const toJSON = (docMeta?: DocMeta) => docMeta ? JSON.parse(DocMetas.serialize(docMeta, "")) : undefined;
+
+        const baseJSON = toJSON(base);
+        const sourceJSON = toJSON(source);
+        const targetJSON = toJSON(target);
+
+        const merged: any = {...(merger.winner === 'source' ? sourceJSON : targetJSON)};
+
+        merged.docInfo = {
+            ..._.pick(merged.docInfo, DERIVED_DOC_INFO_FIELDS),
+            ...merger.mergeFields(['docInfo'],
+                                  _.get(baseJSON, 'docInfo'),
+                                  sourceJSON.docInfo,
+                                  targetJSON.docInfo,
+                                  ['tags', ...DERIVED_DOC_INFO_FIELDS])
+        };
+
+        merged.docInfo.lastOpened = _.max([sourceJSON.docInfo.lastOpened, targetJSON.docInfo.lastOpened]);
+
+        merged.docInfo.tags = merger.mergeDict(['docInfo', 'tags'],
+                                               _.get(baseJSON, 'docInfo.tags'),
+                                               sourceJSON.docInfo.tags,
+                                               targetJSON.docInfo.tags);
+
+        merged.pageMetas = this.mergePageMetas(merger, baseJSON, sourceJSON, targetJSON);
+
+        merged.attachments = merger.mergeDict(['attachments'],
+                                              _.get(baseJSON, 'attachments'),
+                                              sourceJSON.attachments,
+                                              targetJSON.attachments);
+
+        merged.reviews = merger.mergeDict(['reviews'],
+                                          _.get(baseJSON, 'reviews'),
+                                          sourceJSON.reviews,
+                                          targetJSON.reviews,
+                                          review => _.get(review, 'schedule.reviewed'));
+
+        const docMeta = DocMetas.deserialize(JSON.stringify(merged), fingerprint);
+
+        DocMetas.updateAnnotationCounts(docMeta);
+
+        docMeta.docInfo.progress = DocMetas.computeProgress(docMeta) * 100;
+
+        docMeta.docInfo.lastUpdated = ISODateTimeStrings.create();
+        docMeta.docInfo.uuid = UUIDs.create();
+
+        return {docMeta, conflicts: merger.conflicts};
+
+    }
+
+    private static mergePageMetas(merger: ThreeWayMerger, baseJSON: any, sourceJSON: any, targetJSON: any) {
+
+        const result: {[num: string]: any} = {};
+
+        const pageNums = Sets.union(Object.keys(sourceJSON.pageMetas),
+                                    Object.keys(targetJSON.pageMetas));
+
+        for (const pageNum of pageNums) {
+
+            const basePageMeta = _.get(baseJSON, ['pageMetas', pageNum]);
+            const sourcePageMeta = sourceJSON.pageMetas[pageNum];
+            const targetPageMeta = targetJSON.pageMetas[pageNum];
+
+            // pages are never removed from a document.
+            const pageInfo = merger.pick(sourcePageMeta, targetPageMeta).pageInfo;
+
+            const pageMeta: any = {pageInfo};
+
+            const fields = Sets.union(Object.keys(sourcePageMeta || {}),
+                                      Object.keys(targetPageMeta || {}))
+                .filter(field => field !== 'pageInfo');
+
+            for (const field of fields) {
+
+                pageMeta[field] = merger.mergeDict(['pageMetas', pageNum, field],
+                                                   _.get(basePageMeta, field),
+                                                   _.get(sourcePageMeta, field),
+                                                   _.get(targetPageMeta, field));
+
+            }
+
+            result[pageNum] = pageMeta;
+
+        }
+
+        return result;
+
+    }
+
+    private static isNewer(source: DocMeta, target: DocMeta) {
+        return UUIDs.compare(source.docInfo.uuid, target.docInfo.uuid) >= 0;
+    }
+
+}
+
+/**
+ * DocInfo fields that are computed from the rest of the DocMeta (or the time
+ * it was written) and never conflict.
+ */
+const DERIVED_DOC_INFO_FIELDS = [
+    'uuid',
+    'lastUpdated',
+    'lastOpened',
+    'progress',
+    'nrComments',
+    'nrNotes',
+    'nrFlashcards',
+    'nrTextHighlights',
+    'nrAreaHighlights',
+    'nrAnnotations'
+];
+
+/**
+ * Computes the timestamp used to pick a winner when a value changed on both
+ * sides.
+ */
+type TimestampFunction = (value: any) => string | undefined;
+
+const DEFAULT_TIMESTAMP_FUNCTION: TimestampFunction = value => _.get(value, 'lastUpdated');
+
+class ThreeWayMerger {
+
+    public readonly conflicts: DocMetaConflict[] = [];
+
+    private readonly fingerprint: string;
+
+    /**
+     * The side with the newest DocMeta which wins when there is no other way
+     * to decide.
+     */
+    public readonly winner: DocMetaMergeSide;
+
+    constructor(fingerprint: string, winner: DocMetaMergeSide) {
+        this.fingerprint = fingerprint;
+        this.winner = winner;
+    }
+
+    public pick<T>(source: T, target: T): T {
+
+        if (this.winner === 'source') {
+            return source !== undefined ? source : target;
+        }
+
+        return target !== undefined ? target : source;
+
+    }
+
+    /**
+     * Merge each field of an object on its own.
+     *
+     * @param excluded Fields that the caller merges.
+     */
+    public mergeFields(path: ReadonlyArray<string>,
+                       base: any,
+                       source: any,
+                       target: any,
+                       excluded: ReadonlyArray<string> = []): any {
+
+        const result: any = {};
+
+        const fields = Sets.union(Object.keys(source || {}), Object.keys(target || {}))
+            .filter(field => ! excluded.includes(field));
+
+        for (const field of fields) {
+
+            const value = this.mergeValue([...path, field],
+                                          _.get(base, field),
+                                          _.get(source, field),
+                                          _.get(target, field),
+                                          () => undefined);
+
+            if (value !== undefined) {
+                result[field] = value;
+            }
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Merge a dictionary of values keyed by ID (annotations, tags, etc).
+     */
+    public mergeDict(path: ReadonlyArray<string>,
+                     base: {[key: string]: any} | undefined,
+                     source: {[key: string]: any} | undefined,
+                     target: {[key: string]: any} | undefined,
+                     timestampFunction: TimestampFunction = DEFAULT_TIMESTAMP_FUNCTION): {[key: string]: any} {
+
+        const result: {[key: string]: any} = {};
+
+        const keys = Sets.union(Object.keys(base || {}),
+                                Sets.union(Object.keys(source || {}), Object.keys(target || {})));
+
+        for (const key of keys) {
+
+            const value = this.mergeValue([...path, key],
+                                          _.get(base, key),
+                                          _.get(source, key),
+                                          _.get(target, key),
+                                          timestampFunction);
+
+            if (value !== undefined) {
+                result[key] = value;
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private mergeValue(path: ReadonlyArray<string>,
+                       base: any,
+                       source: any,
+                       target: any,
+                       timestampFunction: TimestampFunction): any {
+
+        if (_.isEqual(source, target)) {
+            return source;
+        }
+
+        if (_.isEqual(source, base)) {
+            // only changed (or deleted) in the target.
+            return target;
+        }
+
+        if (_.isEqual(target, base)) {
+            return source;
+        }
+
+        if (base === undefined && (source === undefined || target === undefined)) {
+            // without a base we have no way to know if this was deleted so
+            // keep it.
+            return source !== undefined ? source : target;
+        }
+
+        if (source === undefined || target === undefined) {
+
+            // deleted on one side and changed on the other.  Keep the change
+            // so nothing is lost.
+
+            const kept = source !== undefined ? source : target;
+
+            this.conflicts.push(DocMetaConflicts.create(this.fingerprint, path, 'deleted-modified', kept, undefined));
+
+            return kept;
+
+        }
+
+        // changed on both sides.  The latest change wins.
+
+        const sourceTimestamp = timestampFunction(source);
+        const targetTimestamp = timestampFunction(target);
+
+        let winner = this.winner;
+
+        if (sourceTimestamp && targetTimestamp && sourceTimestamp !== targetTimestamp) {
+            winner = sourceTimestamp > targetTimestamp ? 'source' : 'target';
+        }
+
+        const kept = winner === 'source' ? source : target;
+        const discarded = winner === 'source' ? target : source;
+
+        this.conflicts.push(DocMetaConflicts.create(this.fingerprint, path, 'modified-both', kept, discarded));
+
+        return kept;
+
+    }
+
+}
+
+export type DocMetaMergeSide = 'source' | 'target';
+
+export interface DocMetaMergeResult {
+
+    readonly docMeta: DocMeta;
+
+    readonly conflicts: ReadonlyArray<DocMetaConflict>;
+
+}
@@ -0,0 +1,187 @@
+import {assert} from 'chai';
+import {DocMetaMerges} from './DocMetaMerges';
+import {DocMetaConflicts} from './DocMetaConflicts';
+import {DocMeta} from '../../metadata/DocMeta';
+import {DocMetas, MockDocMetas} from '../../metadata/DocMetas';
+import {Comments} from '../../metadata/Comments';
+import {Texts} from '../../metadata/Texts';
+import {TextType} from '../../metadata/TextType';
+import {UUIDs} from '../../metadata/UUIDs';
+import {TestingTime} from '../../test/TestingTime';
+
+describe('DocMetaMerges', function() {
+
+    const fingerprint = "0x001";
+
+    beforeEach(function() {
+        TestingTime.freeze();
+    });
+
+    afterEach(function() {
+        TestingTime.unfreeze();
+    });
+
+    function copy(docMeta: DocMeta): DocMeta {
+
+        const result = DocMetas.deserialize(DocMetas.serialize(docMeta), fingerprint);
+        result.docInfo.uuid = UUIDs.create();
+        return result;
+
+    }
+
+    function createBase() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks(fingerprint, 3);
+        docMeta.docInfo.uuid = UUIDs.create();
+
+        const comment = Comments.createTextComment("base comment", 'page:1');
+        docMeta.getPageMeta(1).comments[comment.id] = comment;
+
+        return {docMeta, comment};
+
+    }
+
+    function updateComment(docMeta: DocMeta, id: string, text: string, lastUpdated: string) {
+
+        const comments = docMeta.getPageMeta(1).comments;
+
+        comments[id] = Object.assign(Object.create(Object.getPrototypeOf(comments[id])), comments[id], {
+            content: Texts.create(text, TextType.TEXT),
+            lastUpdated
+        });
+
+    }
+
+    it("annotations created on both sides are kept", function() {
+
+        const {docMeta: base} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        const sourceComment = Comments.createTextComment("from the laptop", 'page:2');
+        source.getPageMeta(2).comments[sourceComment.id] = sourceComment;
+
+        const targetComment = Comments.createTextComment("from the desktop", 'page:3');
+        target.getPageMeta(3).comments[targetComment.id] = targetComment;
+
+        const mergeResult = DocMetaMerges.merge(base, source, target);
+
+        const docMeta = mergeResult.docMeta;
+
+        assert.ok(docMeta.getPageMeta(2).comments[sourceComment.id]);
+        assert.ok(docMeta.getPageMeta(3).comments[targetComment.id]);
+        assert.equal(Object.keys(docMeta.getPageMeta(1).comments).length, 1);
+        assert.equal(docMeta.docInfo.nrComments, 3);
+        assert.equal(mergeResult.conflicts.length, 0);
+
+    });
+
+    it("deletions are kept", function() {
+
+        const {docMeta: base, comment} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        delete source.getPageMeta(1).comments[comment.id];
+
+        const mergeResult = DocMetaMerges.merge(base, source, target);
+
+        assert.isUndefined(mergeResult.docMeta.getPageMeta(1).comments[comment.id]);
+        assert.equal(mergeResult.conflicts.length, 0);
+
+    });
+
+    it("the latest change wins when changed on both sides", function() {
+
+        const {docMeta: base, comment} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        updateComment(source, comment.id, "newer", '2012-03-02T12:00:00.000Z');
+        updateComment(target, comment.id, "older", '2012-03-02T11:50:00.000Z');
+
+        // the target DocMeta is newer but the source comment is.
+        target.docInfo.uuid = UUIDs.create();
+
+        const mergeResult = DocMetaMerges.merge(base, source, target);
+
+        assert.equal(mergeResult.docMeta.getPageMeta(1).comments[comment.id].content.TEXT, "newer");
+
+        assert.equal(mergeResult.conflicts.length, 1);
+
+        const conflict = mergeResult.conflicts[0];
+
+        assert.equal(conflict.type, 'modified-both');
+        assert.isFalse(conflict.resolved);
+        assert.deepEqual(conflict.path, ['pageMetas', '1', 'comments', comment.id]);
+        assert.equal(conflict.discarded.content.TEXT, "older");
+        assert.equal(DocMetaConflicts.describe(conflict), 'comment on page 1');
+
+        const restored = DocMetaConflicts.restore(mergeResult.docMeta, conflict);
+
+        assert.equal(restored.getPageMeta(1).comments[comment.id].content.TEXT, "older");
+
+    });
+
+    it("changes are kept over deletes", function() {
+
+        const {docMeta: base, comment} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        delete source.getPageMeta(1).comments[comment.id];
+        updateComment(target, comment.id, "changed", '2012-03-02T12:00:00.000Z');
+
+        const mergeResult = DocMetaMerges.merge(base, source, target);
+
+        assert.equal(mergeResult.docMeta.getPageMeta(1).comments[comment.id].content.TEXT, "changed");
+        assert.equal(mergeResult.conflicts.length, 1);
+        assert.equal(mergeResult.conflicts[0].type, 'deleted-modified');
+        assert.isTrue(mergeResult.conflicts[0].resolved);
+
+    });
+
+    it("without a base nothing is deleted", function() {
+
+        const {docMeta: base, comment} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        delete source.getPageMeta(1).comments[comment.id];
+
+        const mergeResult = DocMetaMerges.merge(undefined, source, target);
+
+        assert.ok(mergeResult.docMeta.getPageMeta(1).comments[comment.id]);
+        assert.equal(mergeResult.conflicts.length, 0);
+
+    });
+
+    it("doc info is merged by field", function() {
+
+        const {docMeta: base} = createBase();
+
+        const source = copy(base);
+        const target = copy(base);
+
+        source.docInfo.title = "A new title";
+        source.docInfo.lastUpdated = '2012-03-02T12:00:00.000Z';
+        target.docInfo.flagged = true;
+        target.docInfo.lastUpdated = '2012-03-02T12:30:00.000Z';
+
+        const mergeResult = DocMetaMerges.merge(base, source, target);
+
+        const docInfo = mergeResult.docMeta.docInfo;
+
+        assert.equal(docInfo.title, "A new title");
+        assert.isTrue(docInfo.flagged);
+        assert.equal(mergeResult.conflicts.length, 0);
+        assert.ok(UUIDs.compare(docInfo.uuid, target.docInfo.uuid) > 0);
+
+    });
+
+});
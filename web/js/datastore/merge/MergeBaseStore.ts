@@ -0,0 +1,54 @@
+import {Files} from '../../util/Files';
+import {FilePaths} from '../../util/FilePaths';
+import {Directories} from '../Directories';
+
+/**
+ * Keeps the last version of each DocMeta that was known to be the same in the
+ * local and cloud datastores.  This is the common ancestor (base) for a three
+ * way merge when the two copies are edited on different devices.
+ */
+export class MergeBaseStore {
+
+    private readonly dir: string;
+
+    constructor(dir: string = FilePaths.join(new Directories().dataDir, ".merge-base")) {
+        this.dir = dir;
+    }
+
+    public async get(fingerprint: string): Promise<string | undefined> {
+
+        const path = this.toPath(fingerprint);
+
+        if (! await Files.existsAsync(path)) {
+            return undefined;
+        }
+
+        const data = await Files.readFileAsync(path);
+
+        return data.toString('utf-8');
+
+    }
+
+    public async put(fingerprint: string, data: string): Promise<void> {
+
+        await Files.createDirAsync(this.dir);
+
+        await Files.writeFileAsync(this.toPath(fingerprint), data);
+
+    }
+
+    public async remove(fingerprint: string): Promise<void> {
+
+        const path = this.toPath(fingerprint);
+
+        if (await Files.existsAsync(path)) {
+            await Files.unlinkAsync(path);
+        }
+
+    }
+
+    private toPath(fingerprint: string) {
+        return FilePaths.join(this.dir, fingerprint + ".json");
+    }
+
+}
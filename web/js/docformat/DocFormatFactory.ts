@@ -1,6 +1,7 @@
 import {HTMLFormat} from './HTMLFormat';
 import {PDFFormat} from './PDFFormat';
 import {DocFormat} from './DocFormat';
+import {EPUBFormat} from './EPUBFormat';
 
 
 /**
@@ -19,6 +20,8 @@ export class DocFormatFactory {
             return new HTMLFormat();
         } else if (polarDocFormat === "pdf") {
             return new PDFFormat();
+        } else if (polarDocFormat === "epub") {
+            return new EPUBFormat();
         } else if(polarDocFormat == null) {
             return new PDFFormat();
         } else {
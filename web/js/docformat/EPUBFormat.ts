@@ -0,0 +1,61 @@
+import {CurrentState, DocFormat} from './DocFormat';
+import {notNull} from '../Preconditions';
+import {Optional} from '../util/ts/Optional';
+
+/**
+ * EPUBs are rendered directly into the viewer with one .page per chapter so,
+ * unlike the HTML format, there is no iframe and the annotations are placed
+ * the same way as with PDFs.
+ */
+export class EPUBFormat extends DocFormat {
+
+    public readonly name: string;
+
+    constructor() {
+        super();
+        this.name = "epub";
+    }
+
+    /**
+     * Get the current doc fingerprint or null if it hasn't been loaded yet.
+     */
+    public currentDocFingerprint(): string | undefined {
+
+        const content = this.queryFingerprintElement().getAttribute("content");
+
+        if (content) {
+            return content;
+        }
+
+        return undefined;
+
+    }
+
+    public setCurrentDocFingerprint(fingerprint: string) {
+        this.queryFingerprintElement().setAttribute("content", fingerprint);
+    }
+
+    /**
+     * Get the current state of the doc.
+     */
+    public currentState(event: any): CurrentState {
+
+        const pageElement = notNull(this.getCurrentPageElement());
+
+        return {
+            nrPages: document.querySelectorAll(".page").length,
+            currentPageNumber: this.getPageNumFromPageElement(pageElement),
+            pageElement
+        };
+
+    }
+
+    public targetDocument(): HTMLDocument | null {
+        return document;
+    }
+
+    private queryFingerprintElement(): Element {
+        return Optional.of(document.querySelector("meta[name='polar-fingerprint']")).get();
+    }
+
+}
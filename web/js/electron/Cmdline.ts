@@ -27,7 +27,7 @@ export class Cmdline {
     }
 
     static isDoc(arg: string): boolean {
-        return arg.endsWith(".pdf") || arg.endsWith(".chtml") || arg.endsWith(".phz")
+        return arg.endsWith(".pdf") || arg.endsWith(".chtml") || arg.endsWith(".phz") || arg.endsWith(".epub");
     }
 
     static isURL(arg: string): boolean {
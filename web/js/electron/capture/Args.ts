@@ -1,5 +1,8 @@
 import {ArgsParser} from '../../util/ArgsParser';
 import {Objects} from '../../util/Objects';
+import {Cmdline} from '../Cmdline';
+import {Tag} from '../../tags/Tag';
+import {Tags} from '../../tags/Tags';
 
 
 export class Args {
@@ -22,4 +25,92 @@ export class Args {
 
     }
 
+    /**
+     * Parse the command line for capturing a list of URLs.  Captures are
+     * hidden by default since this is usually run unattended.
+     */
+    public static parseBatch(argv: any[]): BatchArgs {
+
+        const result = Objects.defaults(ArgsParser.parse(argv), {
+            browser: "DEFAULT",
+            profile: "HIDDEN",
+            amp: true,
+            readerMode: false,
+            tags: "",
+            timeout: 120000
+        });
+
+        // values like --tags=2018 are parsed as numbers.
+        return {...result, tags: String(result.tags)};
+
+    }
+
+    /**
+     * Parse a file with one URL per line.  Blank lines and lines starting with
+     * # are ignored.
+     */
+    public static parseURLList(text: string): string[] {
+
+        const result: string[] = [];
+
+        for (const line of text.split(/\r?\n/).map(current => current.trim())) {
+
+            if (line === '' || line.startsWith('#')) {
+                continue;
+            }
+
+            if (! Cmdline.isURL(line)) {
+                throw new Error("Not a URL: " + line);
+            }
+
+            result.push(line);
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Parse a comma separated list of tags like 'news,weekly'.
+     */
+    public static parseTags(value: string): Tag[] {
+
+        return value.split(',')
+            .map(label => label.trim())
+            .filter(label => label !== '')
+            .map(label => {
+                Tags.assertValid(label);
+                return {id: label, label};
+            });
+
+    }
+
+}
+
+export interface BatchArgs {
+
+    /**
+     * The path to the file with the URLs to capture, one per line.
+     */
+    readonly urls?: string;
+
+    readonly browser: string;
+
+    readonly profile: string;
+
+    readonly amp: boolean;
+
+    readonly readerMode: boolean;
+
+    /**
+     * Comma separated tags to add to every captured doc.
+     */
+    readonly tags: string;
+
+    /**
+     * The maximum time to wait for each URL in milliseconds.
+     */
+    readonly timeout: number;
+
 }
@@ -18,7 +18,45 @@ describe('Args', function() {
 
         });
 
-        it("change browser", function () {
+        it("batch", function() {
+            assertJSON(Args.parseBatch(["--urls=/tmp/urls.txt", "--tags=news,weekly", "--reader-mode=true"]), {
+                "urls": "/tmp/urls.txt",
+                "tags": "news,weekly",
+                "readerMode": true,
+                "browser": "DEFAULT",
+                "profile": "HIDDEN",
+                "amp": true,
+                "timeout": 120000
+            });
+        });
+
+        it("parseURLList", function() {
+
+            const urls = Args.parseURLList([
+                "# weekly reading list",
+                "https://www.example.com/article-1",
+                "",
+                "  http://www.example.com/article-2  ",
+            ].join("\n"));
+
+            assert.deepEqual(urls, ["https://www.example.com/article-1", "http://www.example.com/article-2"]);
+
+            assert.throws(() => Args.parseURLList("not a url"));
+
+        });
+
+        it("parseTags", function() {
+
+            assert.deepEqual(Args.parseTags("news, weekly,"), [
+                {id: 'news', label: 'news'},
+                {id: 'weekly', label: 'weekly'}
+            ]);
+
+            assert.deepEqual(Args.parseTags(""), []);
+
+        });
+
+        it("change browser", function() {
             assertJSON(Args.parse(["--browser=TEST_BROWSER"]), {
                 "browser": "TEST_BROWSER",
                 "quit": true,
@@ -13,6 +13,12 @@ export abstract class WebResource {
 
     public abstract load(loader: URLLoader): void;
 
+    /**
+     * Create a new resource for the same file or URL with the given fragment
+     * (e.g. page=3) replacing any existing one.
+     */
+    public abstract withHash(hash: string): WebResource;
+
     public static createFile(path: string): WebResource {
         return new FileWebResource(path);
     }
@@ -33,7 +39,9 @@ class FileWebResource extends WebResource {
     public readonly type = WebResourceType.FILE;
     public readonly file: string;
 
-    constructor(file: string) {
+    public readonly hash?: string;
+
+    constructor(file: string, hash?: string) {
         super();
 
         if (!fs.existsSync(file)) {
@@ -41,22 +49,38 @@ class FileWebResource extends WebResource {
         }
 
         this.file = file;
+        this.hash = hash;
 
     }
 
     public loadBrowserWindow(browserWindow: BrowserWindow): void {
+
+        if (this.hash) {
+            browserWindow.loadURL(this.toURL());
+            return;
+        }
+
         browserWindow.loadFile(this.file);
+
     }
 
     public loadWebContents(webContents: WebContents): void {
         log.info("Loading file: ", this.file);
         // webContents.loadFile(this.file);
-        webContents.loadURL('file://' + this.file);
+        webContents.loadURL(this.toURL());
     }
 
     public load(loader: URLLoader): void {
         log.info("Loading file: ", this.file);
-        loader.loadURL('file://' + this.file);
+        loader.loadURL(this.toURL());
+    }
+
+    public withHash(hash: string): WebResource {
+        return new FileWebResource(this.file, hash);
+    }
+
+    private toURL() {
+        return 'file://' + this.file + (this.hash ? '#' + this.hash : '');
     }
 
     public toString(): string {
@@ -90,6 +114,10 @@ class URLWebResource extends WebResource {
         loader.loadURL(this.url);
     }
 
+    public withHash(hash: string): WebResource {
+        return new URLWebResource(this.url.replace(/#.*$/, '') + '#' + hash);
+    }
+
     public toString(): string {
         return `${this.type}: ${this.url}`;
     }
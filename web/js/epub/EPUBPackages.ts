@@ -0,0 +1,269 @@
+import {Fingerprints} from '../util/Fingerprints';
+
+/**
+ * Parses the container and package (OPF) documents of an EPUB.  This is done
+ * with simple pattern matching so that it works the same in the main process
+ * (when importing) and in the renderer (when viewing) where we don't have the
+ * same XML parsers available.
+ */
+export class EPUBPackages {
+
+    /**
+     * Parse the path of the package document from META-INF/container.xml
+     */
+    public static parseRootfilePath(containerXML: string): string {
+
+        for (const element of this.matchElements(containerXML, 'rootfile')) {
+
+            const attributes = this.parseAttributes(element);
+
+            if (attributes['full-path'] &&
+                (! attributes['media-type'] || attributes['media-type'] === 'application/oebps-package+xml')) {
+
+                return attributes['full-path'];
+
+            }
+
+        }
+
+        throw new Error("No rootfile in container.xml");
+
+    }
+
+    /**
+     * Parse the package document found at the given path within the EPUB.
+     * Chapters are returned in reading (spine) order with their paths resolved
+     * relative to the root of the EPUB.
+     */
+    public static parse(path: string, opf: string): EPUBPackage {
+
+        const packageAttributes = this.parseAttributes(this.matchElements(opf, 'package')[0] || '');
+
+        const metadata = this.matchElementsWithContent(opf, 'metadata').map(current => current.content)[0] || '';
+
+        const identifiers = this.matchElementsWithContent(metadata, 'dc:identifier');
+
+        const uniqueIdentifier =
+            identifiers.filter(current => current.attributes.id === packageAttributes['unique-identifier'])
+                       .map(current => this.toText(current.content))[0] ||
+            identifiers.map(current => this.toText(current.content))[0];
+
+        const manifest: {[id: string]: EPUBManifestItem} = {};
+
+        for (const element of this.matchElements(opf, 'item')) {
+
+            const attributes = this.parseAttributes(element);
+
+            if (attributes.id && attributes.href) {
+
+                manifest[attributes.id] = {
+                    id: attributes.id,
+                    path: this.resolve(path, attributes.href),
+                    mediaType: attributes['media-type']
+                };
+
+            }
+
+        }
+
+        const chapters: EPUBChapter[] = [];
+
+        for (const element of this.matchElements(opf, 'itemref')) {
+
+            const attributes = this.parseAttributes(element);
+
+            const item = manifest[attributes.idref];
+
+            if (item) {
+                chapters.push({id: item.id, path: item.path});
+            }
+
+        }
+
+        // when the package doesn't declare an identifier the package document
+        // itself is the most stable thing we can fingerprint.
+        const fingerprint = Fingerprints.create(uniqueIdentifier ? `epub:${uniqueIdentifier}` : opf);
+
+        return {
+            path,
+            fingerprint,
+            identifier: uniqueIdentifier,
+            title: this.matchContent(metadata, 'dc:title')[0],
+            creators: this.matchContent(metadata, 'dc:creator'),
+            language: this.matchContent(metadata, 'dc:language')[0],
+            description: this.matchContent(metadata, 'dc:description')[0],
+            published: this.matchContent(metadata, 'dc:date')[0],
+            manifest: Object.values(manifest),
+            chapters
+        };
+
+    }
+
+    /**
+     * Resolve an href in a document at the given path to a path relative to the
+     * root of the EPUB.
+     */
+    public static resolve(path: string, href: string): string {
+
+        href = decodeURIComponent(href.replace(/#.*$/, ''));
+
+        const result = path.split('/').slice(0, -1);
+
+        for (const segment of href.split('/')) {
+
+            if (segment === '..') {
+                result.pop();
+            } else if (segment !== '.' && segment !== '') {
+                result.push(segment);
+            }
+
+        }
+
+        return result.join('/');
+
+    }
+
+    private static matchElements(xml: string, name: string): string[] {
+        return xml.match(new RegExp(`<${name}(\\s[^>]*)?/?>`, 'g')) || [];
+    }
+
+    private static matchElementsWithContent(xml: string, name: string): ElementWithContent[] {
+
+        const result: ElementWithContent[] = [];
+
+        const regexp = new RegExp(`<${name}(\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g');
+
+        let match: RegExpExecArray | null = regexp.exec(xml);
+
+        while (match !== null) {
+
+            result.push({
+                attributes: this.parseAttributes(match[0]),
+                content: match[2]
+            });
+
+            match = regexp.exec(xml);
+
+        }
+
+        return result;
+
+    }
+
+    private static matchContent(xml: string, name: string): string[] {
+
+        return this.matchElementsWithContent(xml, name)
+            .map(current => this.toText(current.content))
+            .filter(current => current !== '');
+
+    }
+
+    private static toText(content: string): string {
+        return this.decode(content.replace(/<[^>]+>/g, '')).trim();
+    }
+
+    private static parseAttributes(element: string): {[name: string]: string} {
+
+        const result: {[name: string]: string} = {};
+
+        const tag = element.replace(/>[\s\S]*$/, '');
+
+        const regexp = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+        let match: RegExpExecArray | null = regexp.exec(tag);
+
+        while (match !== null) {
+            result[match[1]] = this.decode(match[3] !== undefined ? match[3] : match[4]);
+            match = regexp.exec(tag);
+        }
+
+        return result;
+
+    }
+
+    private static decode(value: string): string {
+
+        return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (entity, code: string) => {
+
+            switch (code) {
+                case 'amp':
+                    return '&';
+                case 'lt':
+                    return '<';
+                case 'gt':
+                    return '>';
+                case 'quot':
+                    return '"';
+                case 'apos':
+                    return "'";
+            }
+
+            if (code.startsWith('#x')) {
+                return String.fromCharCode(parseInt(code.substring(2), 16));
+            }
+
+            return String.fromCharCode(parseInt(code.substring(1), 10));
+
+        });
+
+    }
+
+}
+
+interface ElementWithContent {
+    readonly attributes: {[name: string]: string};
+    readonly content: string;
+}
+
+export interface EPUBPackage {
+
+    /**
+     * The path of the package document within the EPUB.
+     */
+    readonly path: string;
+
+    /**
+     * A fingerprint computed from the unique identifier of the package so
+     * that the same book always has the same fingerprint no matter where it
+     * was downloaded from or what the file was named.
+     */
+    readonly fingerprint: string;
+
+    readonly identifier?: string;
+
+    readonly title?: string;
+
+    readonly creators: ReadonlyArray<string>;
+
+    readonly language?: string;
+
+    readonly description?: string;
+
+    readonly published?: string;
+
+    readonly manifest: ReadonlyArray<EPUBManifestItem>;
+
+    /**
+     * The chapters in reading order.  Each chapter is rendered as one page.
+     */
+    readonly chapters: ReadonlyArray<EPUBChapter>;
+
+}
+
+export interface EPUBManifestItem {
+
+    readonly id: string;
+
+    readonly path: string;
+
+    readonly mediaType?: string;
+
+}
+
+export interface EPUBChapter {
+
+    readonly id: string;
+
+    readonly path: string;
+
+}
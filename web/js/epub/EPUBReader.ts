@@ -0,0 +1,70 @@
+import JSZip from 'jszip';
+import {EPUBPackage, EPUBPackages} from './EPUBPackages';
+
+/**
+ * Reads the package and the chapters from an EPUB file.  The data is passed
+ * in directly so this can be used with a file read from disk or one fetched
+ * over HTTP in the viewer.
+ */
+export class EPUBReader {
+
+    private zip?: JSZip;
+
+    private epubPackage?: EPUBPackage;
+
+    /**
+     * Init must be called to load the entries which we can work with.
+     */
+    public async init(data: Buffer | ArrayBuffer | Uint8Array) {
+
+        this.zip = new JSZip();
+
+        await this.zip.loadAsync(data);
+
+        const containerXML = await this.readText('META-INF/container.xml');
+
+        const path = EPUBPackages.parseRootfilePath(containerXML);
+
+        this.epubPackage = EPUBPackages.parse(path, await this.readText(path));
+
+    }
+
+    public getPackage(): EPUBPackage {
+
+        if (! this.epubPackage) {
+            throw new Error("Not initialized");
+        }
+
+        return this.epubPackage;
+
+    }
+
+    public async readText(path: string): Promise<string> {
+        return await this.getZipFile(path).async('text');
+    }
+
+    public async readBase64(path: string): Promise<string> {
+        return await this.getZipFile(path).async('base64');
+    }
+
+    public contains(path: string): boolean {
+        return this.zip !== undefined && this.zip.file(path) !== null;
+    }
+
+    private getZipFile(path: string): JSZip.JSZipObject {
+
+        if (this.zip === undefined) {
+            throw new Error("No zip.");
+        }
+
+        const zipFile = this.zip.file(path);
+
+        if (! zipFile) {
+            throw new Error("No zip entry for path: " + path);
+        }
+
+        return zipFile;
+
+    }
+
+}
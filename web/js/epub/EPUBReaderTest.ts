@@ -0,0 +1,61 @@
+import {assert} from 'chai';
+import {EPUBReader} from './EPUBReader';
+import {MockEPUBs} from './MockEPUBs';
+import {EPUBPackages} from './EPUBPackages';
+
+describe('EPUBReader', function() {
+
+    it("basic", async function() {
+
+        const epubReader = new EPUBReader();
+        await epubReader.init(await MockEPUBs.create());
+
+        const epubPackage = epubReader.getPackage();
+
+        assert.equal(epubPackage.path, 'OEBPS/content.opf');
+        assert.equal(epubPackage.identifier, 'urn:uuid:0d4d4d5a-3d8e-4b7a-9f2e-000000000001');
+        assert.equal(epubPackage.title, "Alice's Adventures in Wonderland");
+        assert.deepEqual(epubPackage.creators, ['Lewis Carroll']);
+        assert.equal(epubPackage.language, 'en');
+        assert.equal(epubPackage.published, '1865-11-26');
+
+        assert.deepEqual(epubPackage.chapters, [
+            {id: 'chapter-1', path: 'OEBPS/text/chapter 1.xhtml'},
+            {id: 'chapter-2', path: 'OEBPS/text/chapter2.xhtml'}
+        ]);
+
+        const text = await epubReader.readText(epubPackage.chapters[1].path);
+
+        assert.ok(text.includes("Curiouser and curiouser!"));
+
+    });
+
+    it("fingerprints are stable", async function() {
+
+        const read = async (identifier: string) => {
+            const epubReader = new EPUBReader();
+            await epubReader.init(await MockEPUBs.create(identifier));
+            return epubReader.getPackage().fingerprint;
+        };
+
+        assert.equal(await read('urn:uuid:1'), await read('urn:uuid:1'));
+        assert.notEqual(await read('urn:uuid:1'), await read('urn:uuid:2'));
+
+    });
+
+    it("resolve", function() {
+
+        assert.equal(EPUBPackages.resolve('OEBPS/content.opf', 'text/chapter1.xhtml'), 'OEBPS/text/chapter1.xhtml');
+        assert.equal(EPUBPackages.resolve('OEBPS/text/chapter1.xhtml', '../images/cover.png'), 'OEBPS/images/cover.png');
+        assert.equal(EPUBPackages.resolve('OEBPS/text/chapter1.xhtml', './chapter2.xhtml#section-1'), 'OEBPS/text/chapter2.xhtml');
+        assert.equal(EPUBPackages.resolve('content.opf', 'chapter%201.xhtml'), 'chapter 1.xhtml');
+
+    });
+
+    it("missing container", async function() {
+
+        assert.throws(() => EPUBPackages.parseRootfilePath("<container></container>"));
+
+    });
+
+});
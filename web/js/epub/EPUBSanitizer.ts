@@ -0,0 +1,148 @@
+/**
+ * The elements kept in a chapter.  Anything else is replaced with its content.
+ */
+const ALLOWED_ELEMENTS = new Set([
+
+    // HTML
+    'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo', 'big',
+    'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'col', 'colgroup',
+    'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption',
+    'figure', 'font', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+    'hgroup', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol',
+    'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'section', 'small',
+    'span', 'strike', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td',
+    'tfoot', 'th', 'thead', 'time', 'tr', 'tt', 'u', 'ul', 'var', 'wbr',
+
+    // SVG (mostly used for cover pages)
+    'svg', 'g', 'image', 'path', 'rect', 'circle', 'ellipse', 'line',
+    'polyline', 'polygon', 'text', 'tspan', 'defs', 'title', 'desc',
+    'lineargradient', 'radialgradient', 'stop', 'clippath', 'symbol', 'use',
+
+]);
+
+/**
+ * Elements which are removed along with their content since they can run
+ * code, load other documents, or apply to the whole viewer.
+ */
+const REMOVED_ELEMENTS = new Set([
+    'script', 'style', 'link', 'meta', 'base', 'iframe', 'frame', 'frameset',
+    'object', 'embed', 'applet', 'form', 'input', 'button', 'textarea',
+    'select', 'noscript', 'template', 'audio', 'video', 'source', 'track',
+    'canvas', 'foreignobject', 'animate', 'set', 'animatemotion',
+    'animatetransform', 'head',
+]);
+
+/**
+ * Attributes whose value is a URL.
+ */
+const URL_ATTRIBUTES = new Set([
+    'href', 'src', 'poster', 'background', 'cite', 'longdesc', 'data', 'usemap'
+]);
+
+/**
+ * Attributes which are always removed.
+ */
+const REMOVED_ATTRIBUTES = new Set([
+    'srcset', 'action', 'formaction'
+]);
+
+/**
+ * EPUB chapters are untrusted content rendered into the viewer which has node
+ * integration so we only keep the elements, attributes and URLs needed to
+ * display the book.
+ */
+export class EPUBSanitizer {
+
+    /**
+     * Sanitize the children of the element in place.
+     */
+    public static sanitize(element: Element) {
+
+        for (const child of Array.from(element.children)) {
+            this.sanitizeElement(child);
+        }
+
+    }
+
+    /**
+     * True for URLs that are relative or use a scheme which can't run code.
+     */
+    public static isSafeURL(value: string): boolean {
+
+        // browsers ignore whitespace and control characters in the scheme so
+        // 'java\nscript:' is still a javascript URL.
+        const url = value.replace(/[\u0000- ]/g, '');
+
+        const match = url.match(/^([a-z][a-z0-9+.-]*):/i);
+
+        if (! match) {
+            // relative
+            return true;
+        }
+
+        switch (match[1].toLowerCase()) {
+
+            case 'http':
+            case 'https':
+            case 'mailto':
+                return true;
+
+            case 'data':
+                return /^data:image\//i.test(url);
+
+            default:
+                return false;
+
+        }
+
+    }
+
+    private static sanitizeElement(element: Element) {
+
+        const name = element.localName.toLowerCase();
+
+        if (REMOVED_ELEMENTS.has(name)) {
+            element.remove();
+            return;
+        }
+
+        this.sanitizeAttributes(element);
+        this.sanitize(element);
+
+        if (! ALLOWED_ELEMENTS.has(name)) {
+
+            // keep the content (which is already sanitized) but not the
+            // element itself.
+
+            const parent = element.parentNode!;
+
+            while (element.firstChild) {
+                parent.insertBefore(element.firstChild, element);
+            }
+
+            parent.removeChild(element);
+
+        }
+
+    }
+
+    private static sanitizeAttributes(element: Element) {
+
+        for (const attr of Array.from(element.attributes)) {
+
+            const name = (attr.localName || attr.name).toLowerCase();
+
+            if (name.startsWith('on') || REMOVED_ATTRIBUTES.has(name)) {
+                element.removeAttributeNode(attr);
+                continue;
+            }
+
+            if (URL_ATTRIBUTES.has(name) && ! this.isSafeURL(attr.value)) {
+                element.removeAttributeNode(attr);
+            }
+
+        }
+
+    }
+
+}
@@ -0,0 +1,67 @@
+import {assert} from 'chai';
+import {JSDOM} from 'jsdom';
+import {EPUBSanitizer} from './EPUBSanitizer';
+
+function sanitize(html: string) {
+
+    const body = new JSDOM(`<html><body>${html}</body></html>`).window.document.body;
+
+    EPUBSanitizer.sanitize(body);
+
+    return body.innerHTML;
+
+}
+
+describe('EPUBSanitizer', function() {
+
+    it("keep the content", function() {
+
+        assert.equal(sanitize('<h1 class="title">Chapter 1</h1><p>Some <em>text</em> <a href="chapter2.xhtml#s1">next</a></p>'),
+                     '<h1 class="title">Chapter 1</h1><p>Some <em>text</em> <a href="chapter2.xhtml#s1">next</a></p>');
+
+    });
+
+    it("remove scripts, frames and embedded objects", function() {
+
+        assert.equal(sanitize('<p>a</p><script>alert(1)</script><iframe src="x.html"></iframe><object data="x.swf"></object><embed src="x.swf"><style>body {}</style>'),
+                     '<p>a</p>');
+
+    });
+
+    it("remove event handlers", function() {
+
+        assert.equal(sanitize('<img src="cover.jpg" onerror="alert(1)"><svg onload="alert(1)"><rect width="1"></rect></svg>'),
+                     '<img src="cover.jpg"><svg><rect width="1"></rect></svg>');
+
+    });
+
+    it("remove unsafe URLs", function() {
+
+        assert.equal(sanitize('<a href="javascript:alert(1)">a</a><a href=" java\nscript:alert(1)">b</a><img src="file:///etc/passwd">'),
+                     '<a>a</a><a>b</a><img>');
+
+        assert.equal(sanitize('<a href="https://example.com/">a</a><img src="data:image/png;base64,AAAA">'),
+                     '<a href="https://example.com/">a</a><img src="data:image/png;base64,AAAA">');
+
+    });
+
+    it("unwrap unknown elements", function() {
+
+        assert.equal(sanitize('<custom-element onclick="alert(1)"><p>text</p><script>alert(1)</script></custom-element>'),
+                     '<p>text</p>');
+
+    });
+
+    it("isSafeURL", function() {
+
+        assert.ok(EPUBSanitizer.isSafeURL('images/cover.jpg'));
+        assert.ok(EPUBSanitizer.isSafeURL('#note-1'));
+        assert.ok(EPUBSanitizer.isSafeURL('mailto:author@example.com'));
+
+        assert.isFalse(EPUBSanitizer.isSafeURL('JavaScript:alert(1)'));
+        assert.isFalse(EPUBSanitizer.isSafeURL('data:text/html,<script>alert(1)</script>'));
+        assert.isFalse(EPUBSanitizer.isSafeURL('vbscript:msgbox'));
+
+    });
+
+});
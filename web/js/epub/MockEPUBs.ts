@@ -0,0 +1,69 @@
+import JSZip from 'jszip';
+
+/**
+ * Creates small EPUB files for testing.
+ */
+export class MockEPUBs {
+
+    public static async create(identifier: string = 'urn:uuid:0d4d4d5a-3d8e-4b7a-9f2e-000000000001'): Promise<Buffer> {
+
+        const zip = new JSZip();
+
+        zip.file('mimetype', 'application/epub+zip');
+
+        zip.file('META-INF/container.xml', `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+    <rootfiles>
+        <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+    </rootfiles>
+</container>`);
+
+        zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+    <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <dc:identifier id="isbn">9780000000000</dc:identifier>
+        <dc:identifier id="book-id">${identifier}</dc:identifier>
+        <dc:title>Alice&apos;s Adventures in Wonderland</dc:title>
+        <dc:creator id="author">Lewis Carroll</dc:creator>
+        <dc:language>en</dc:language>
+        <dc:date>1865-11-26</dc:date>
+    </metadata>
+    <manifest>
+        <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+        <item id="chapter-1" href="text/chapter%201.xhtml" media-type="application/xhtml+xml"/>
+        <item id="chapter-2" href="text/chapter2.xhtml" media-type="application/xhtml+xml"/>
+        <item id="cover" href="images/cover.png" media-type="image/png"/>
+    </manifest>
+    <spine>
+        <itemref idref="chapter-1"/>
+        <itemref idref="chapter-2"/>
+    </spine>
+</package>`);
+
+        zip.file('OEBPS/text/chapter 1.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>Down the Rabbit-Hole</title></head>
+<body>
+<h1>Down the Rabbit-Hole</h1>
+<img src="../images/cover.png" alt="cover"/>
+<p>Alice was beginning to get very tired of sitting by her sister on the bank.</p>
+<p><a href="chapter2.xhtml">Next</a></p>
+</body>
+</html>`);
+
+        zip.file('OEBPS/text/chapter2.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>The Pool of Tears</title></head>
+<body>
+<h1>The Pool of Tears</h1>
+<p>Curiouser and curiouser!</p>
+</body>
+</html>`);
+
+        zip.file('OEBPS/images/cover.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+        return await zip.generateAsync({type: 'nodebuffer'});
+
+    }
+
+}
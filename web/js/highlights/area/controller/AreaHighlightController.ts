@@ -9,6 +9,8 @@ import {AreaHighlights} from '../../../metadata/AreaHighlights';
 import {AnnotationPointers} from '../../../annotations/AnnotationPointers';
 import {TriggerEvent} from '../../../contextmenu/TriggerEvent';
 import {Optional} from '../../../util/ts/Optional';
+import {AreaHighlight} from '../../../metadata/AreaHighlight';
+import {HighlightCategories, HighlightCategory} from '../../../metadata/HighlightCategories';
 
 
 const log = Logger.create();
@@ -62,6 +64,10 @@ export class AreaHighlightController {
             this.onDeleteAreaHighlight(event.data);
         }
 
+        if (event.data && event.data.type === "set-area-highlight-category") {
+            this.onAreaHighlightCategorySet(event.data, event.data.category);
+        }
+
     }
 
     /**
@@ -86,6 +92,26 @@ export class AreaHighlightController {
 
     }
 
+    /**
+     * Move an area highlight to another category.
+     */
+    private onAreaHighlightCategorySet(triggerEvent: TriggerEvent, category: HighlightCategory) {
+
+        const annotationPointers
+            = AnnotationPointers.toAnnotationPointers(".area-highlight", triggerEvent);
+
+        Optional.first(...annotationPointers).map(annotationPointer => {
+
+            const pageMeta = this.model.docMeta.getPageMeta(annotationPointer.pageNum);
+            const areaHighlight = pageMeta.areaHighlights[annotationPointer.id];
+
+            pageMeta.areaHighlights[annotationPointer.id]
+                = HighlightCategories.apply(areaHighlight, category, val => new AreaHighlight(val));
+
+        });
+
+    }
+
     private onDeleteAreaHighlight(triggerEvent: TriggerEvent) {
 
         const annotationPointers
@@ -26,6 +26,8 @@ import {PagemarkMode} from '../../../metadata/PagemarkMode';
 import {TypedMessage} from '../../../util/TypedMessage';
 import {HighlightCreatedEvent} from '../../../comments/react/HighlightCreatedEvent';
 import {HighlightColor} from '../../../metadata/BaseHighlight';
+import {HighlightCategories, HighlightCategory} from '../../../metadata/HighlightCategories';
+import {TextHighlight} from '../../../metadata/TextHighlight';
 
 const {TextHighlightRows} = require("./TextHighlightRows");
 
@@ -132,43 +134,48 @@ export class TextHighlightController {
 
                 const typedMessage: TypedMessage<HighlightCreatedEvent> = event.data;
 
-                this.doHighlight(typedMessage.value.highlightColor)
+                this.doHighlight(typedMessage.value.highlightColor, typedMessage.value.highlightCategory)
                     .catch(err => log.error("Unable to create text highlight", err));
 
                 break;
 
+            case "set-text-highlight-category":
+                this.onTextHighlightCategorySet(event.data, event.data.category);
+                break;
+
         }
 
     }
 
-    private async doHighlight(highlightColor: HighlightColor = 'yellow') {
+    private async doHighlight(highlightColor: HighlightColor = 'yellow',
+                              highlightCategory?: HighlightCategory) {
 
         if (this.docFormat.name === "html") {
-            await this.doHighlightModern(highlightColor);
+            await this.doHighlightModern(highlightColor, highlightCategory);
         } else {
-            this.doHighlightLegacy(highlightColor);
+            this.doHighlightLegacy(highlightColor, highlightCategory);
         }
 
     }
 
-    public doHighlightLegacy(highlightColor: HighlightColor) {
+    public doHighlightLegacy(highlightColor: HighlightColor, highlightCategory?: HighlightCategory) {
 
-        const textHighlighter = this.createLegacyTextHighlighter(highlightColor);
+        const textHighlighter = this.createLegacyTextHighlighter(highlightColor, highlightCategory);
         textHighlighter.doHighlight();
 
     }
 
-    public async doHighlightModern(highlightColor: HighlightColor) {
+    public async doHighlightModern(highlightColor: HighlightColor, highlightCategory?: HighlightCategory) {
 
         log.info("Doing modern text highlight");
-        await this.onTextHighlightCreatedModern(highlightColor);
+        await this.onTextHighlightCreatedModern(highlightColor, highlightCategory);
 
     }
 
     /**
      * Set text highlighting in the current document with the highlighter.
      */
-    public createLegacyTextHighlighter(highlightColor: HighlightColor) {
+    public createLegacyTextHighlighter(highlightColor: HighlightColor, highlightCategory?: HighlightCategory) {
 
         let sequence = 0;
 
@@ -201,7 +208,9 @@ export class TextHighlightController {
 
                 (async () =>  {
 
-                    await controller.onTextHighlightCreatedLegacy("." + highlightClazz, highlightColor);
+                    await controller.onTextHighlightCreatedLegacy("." + highlightClazz,
+                                                                  highlightColor,
+                                                                  highlightCategory);
 
                     // the underlying <span> highlights need to be removed now.
 
@@ -232,7 +241,9 @@ export class TextHighlightController {
      * Called by the controller when we have a new highlight created so that
      * we can update the model.
      */
-    private async onTextHighlightCreatedLegacy(selector: string, highlightColor: HighlightColor) {
+    private async onTextHighlightCreatedLegacy(selector: string,
+                                               highlightColor: HighlightColor,
+                                               highlightCategory?: HighlightCategory) {
 
         await this.createTextHighlight(async () => {
 
@@ -255,7 +266,7 @@ export class TextHighlightController {
 
             const textSelections = TextExtracter.toTextSelections(textHighlightRows);
 
-            return TextHighlightRecords.create(rects, textSelections, {TEXT: text}, highlightColor);
+            return TextHighlightRecords.create(rects, textSelections, {TEXT: text}, highlightColor, highlightCategory);
 
         });
 
@@ -265,7 +276,8 @@ export class TextHighlightController {
      * Called by the controller when we have a new highlight created so that
      * we can update the model.
      */
-    private async onTextHighlightCreatedModern(highlightColor: HighlightColor) {
+    private async onTextHighlightCreatedModern(highlightColor: HighlightColor,
+                                               highlightCategory?: HighlightCategory) {
 
         // FIXME: get the new highlighter working FIRST without text and without
         // rows , or other advanced features.
@@ -288,7 +300,7 @@ export class TextHighlightController {
 
             const textSelections = TextSelections.compute(selectedContent);
 
-            return TextHighlightRecords.create(rects, textSelections, {TEXT: text}, highlightColor);
+            return TextHighlightRecords.create(rects, textSelections, {TEXT: text}, highlightColor, highlightCategory);
 
         });
 
@@ -424,6 +436,27 @@ export class TextHighlightController {
 
     }
 
+    /**
+     * Move a text highlight to another category.  The highlight is replaced
+     * so that the view redraws it in the color of the new category.
+     */
+    private onTextHighlightCategorySet(triggerEvent: TriggerEvent, category: HighlightCategory) {
+
+        const annotationPointers
+            = AnnotationPointers.toAnnotationPointers(".text-highlight", triggerEvent);
+
+        Optional.first(...annotationPointers).map(annotationPointer => {
+
+            const pageMeta = this.model.docMeta.getPageMeta(annotationPointer.pageNum);
+            const textHighlight = pageMeta.textHighlights[annotationPointer.id];
+
+            pageMeta.textHighlights[annotationPointer.id]
+                = HighlightCategories.apply(textHighlight, category, val => new TextHighlight(val));
+
+        });
+
+    }
+
     private toImage(screenshotID: string, rel: string, dimensions: IDimensions) {
 
         return new Image({
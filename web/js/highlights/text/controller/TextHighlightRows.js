@@ -83,6 +83,26 @@ class TextHighlightRows {
         // make sure we're working on the right element or our math won't be right.
         Elements.requireClass(element, "text-highlight-span");
 
+        if(docFormat.name === "epub") {
+
+            // EPUB chapters are rendered as regular flowing HTML within the
+            // .page so there's no positioned text layer to work from.  The
+            // highlight is just the position of the span relative to the page.
+
+            let pageRect = element.closest(".page").getBoundingClientRect();
+            let spanRect = element.getBoundingClientRect();
+
+            let rect = Rects.validate(Rects.createFromBasicRect({
+                left: spanRect.left - pageRect.left,
+                top: spanRect.top - pageRect.top,
+                width: spanRect.width,
+                height: spanRect.height
+            }));
+
+            return new RectElement(rect, element);
+
+        }
+
         let textHighlightSpanOffset = Elements.offset(element);
 
         if(docFormat.name === "html") {
@@ -7,28 +7,38 @@ export class ConsoleLogger implements ILogger {
 
     public readonly name: string = 'console-logger';
 
+    private readonly target: Console;
+
+    /**
+     * @param target The console to write to.  Scripts that print their
+     * results to stdout pass a console that writes to stderr.
+     */
+    constructor(target: Console = console) {
+        this.target = target;
+    }
+
     public notice(msg: string, ...args: any[]) {
-        console.log(msg, ...args);
+        this.target.log(msg, ...args);
     }
 
     public info(msg: string, ...args: any[]) {
-        console.log(msg, ...args);
+        this.target.log(msg, ...args);
     }
 
     public warn(msg: string, ...args: any[]) {
-        console.warn(msg, ...args);
+        this.target.warn(msg, ...args);
     }
 
     public error(msg: string, ...args: any[]) {
-        console.error(msg, ...args);
+        this.target.error(msg, ...args);
     }
 
     public verbose(msg: string, ...args: any[]) {
-        console.log(msg, ...args);
+        this.target.log(msg, ...args);
     }
 
     public debug(msg: string, ...args: any[]) {
-        console.log(msg, ...args);
+        this.target.log(msg, ...args);
     }
 
     public async sync(): Promise<void> {
@@ -14,6 +14,8 @@ export class Author extends SerializedObject {
     constructor(val: any) {
         super(val);
 
+        this.init(val);
+
     }
 
 }
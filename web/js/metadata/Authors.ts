@@ -0,0 +1,25 @@
+import os from 'os';
+import {Author} from './Author';
+import {Settings} from '../datastore/Settings';
+import {SettingsStore} from '../datastore/SettingsStore';
+
+/**
+ * The author of the annotations created by the current user.
+ */
+export class Authors {
+
+    public static async load(): Promise<Author> {
+        return this.fromSettings(await SettingsStore.load());
+    }
+
+    public static fromSettings(settings: Settings): Author {
+
+        if (settings.authorName && settings.authorName.trim() !== '') {
+            return new Author({name: settings.authorName.trim()});
+        }
+
+        return new Author({name: os.userInfo().username});
+
+    }
+
+}
@@ -2,6 +2,7 @@ import {Image} from './Image';
 import {ExtendedAnnotation} from './ExtendedAnnotation';
 import {Preconditions} from '../Preconditions';
 import {Rect} from '../Rect';
+import {Tag} from '../tags/Tag';
 
 
 export class BaseHighlight extends ExtendedAnnotation {
@@ -28,6 +29,17 @@ export class BaseHighlight extends ExtendedAnnotation {
      */
     public color?: HighlightColor;
 
+    /**
+     * The ID of the highlight category (see HighlightCategories).  Highlights
+     * created before categories were introduced only have a color.
+     */
+    public category?: string;
+
+    /**
+     * Tags added from the highlight category.
+     */
+    public tags?: {[id: string]: Tag};
+
     constructor(val: any) {
 
         super(val);
@@ -2,11 +2,45 @@
  * Basically just like a note but it's a comment in a discussion stream.
  */
 import {Note} from './Note';
+import {Text} from './Text';
+import {ISODateTimeString} from './ISODateTimeStrings';
 
 export class Comment extends Note {
 
+    /**
+     * The ID of the comment this comment is a reply to.  Replies have the same
+     * ref as the comment they reply to so the whole thread stays attached to
+     * the same annotation.
+     */
+    public inReplyTo?: string;
+
+    /**
+     * True when the discussion started by this comment has been resolved.
+     * Only used on the first comment of a thread.
+     */
+    public resolved?: boolean;
+
+    /**
+     * The previous versions of the content, oldest first.
+     */
+    public history?: CommentRevision[];
+
     constructor(val: any) {
         super(val);
     }
 
 }
+
+/**
+ * The content of a comment before it was edited.
+ */
+export interface CommentRevision {
+
+    readonly content: Text;
+
+    /**
+     * The time this version of the content was written.
+     */
+    readonly lastUpdated: ISODateTimeString;
+
+}
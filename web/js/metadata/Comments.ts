@@ -4,12 +4,13 @@ import {Hashcodes} from '../Hashcodes';
 import {TextType} from './TextType';
 import {Texts} from './Texts';
 import {Ref} from './Refs';
+import {Author} from './Author';
 
 let sequenceGenerator: number = 0;
 
 export class Comments {
 
-    public static createTextComment(text: string, ref: Ref) {
+    public static createTextComment(text: string, ref: Ref, author?: Author) {
 
         const content = Texts.create(text, TextType.TEXT);
 
@@ -17,11 +18,11 @@ export class Comments {
         const created = ISODateTimeStrings.create();
         const lastUpdated = created;
 
-        return new Comment({content, id, guid: id, created, lastUpdated, ref });
+        return new Comment({content, id, guid: id, created, lastUpdated, ref, author});
 
     }
 
-    public static createHTMLComment(text: string, ref: Ref) {
+    public static createHTMLComment(text: string, ref: Ref, author?: Author) {
 
         const content = Texts.create(text, TextType.HTML);
 
@@ -29,8 +30,133 @@ export class Comments {
         const created = ISODateTimeStrings.create();
         const lastUpdated = created;
 
-        return new Comment({content, id, guid: id, created, lastUpdated, ref });
+        return new Comment({content, id, guid: id, created, lastUpdated, ref, author});
 
     }
 
+    /**
+     * Create a reply to the given comment.  The reply is attached to the same
+     * annotation as the comment.
+     */
+    public static createReply(comment: Comment, text: string, author?: Author) {
+
+        const reply = this.createHTMLComment(text, comment.ref!, author);
+        reply.inReplyTo = comment.id;
+
+        return reply;
+
+    }
+
+    /**
+     * Return a copy of the comment with new content.  The previous content is
+     * kept in the history of the comment.
+     */
+    public static edit(comment: Comment, text: string) {
+
+        const history = [
+            ...comment.history || [],
+            {content: comment.content, lastUpdated: comment.lastUpdated}
+        ];
+
+        return new Comment({
+            ...comment,
+            content: Texts.create(text, TextType.HTML),
+            history,
+            lastUpdated: ISODateTimeStrings.create()
+        });
+
+    }
+
+    public static resolve(comment: Comment, resolved: boolean) {
+
+        return new Comment({
+            ...comment,
+            resolved,
+            lastUpdated: ISODateTimeStrings.create()
+        });
+
+    }
+
+    /**
+     * Group comments into threads.  Every comment which isn't a reply starts a
+     * thread and replies (including replies to replies) are added to the
+     * thread of the comment they reply to.  Replies to comments which no
+     * longer exist start their own thread.
+     *
+     * Threads are sorted newest first and the replies within each thread
+     * oldest first.
+     */
+    public static toThreads<C extends ThreadedComment>(comments: ReadonlyArray<C>): ReadonlyArray<CommentThread<C>> {
+
+        const index: {[id: string]: C} = {};
+
+        for (const comment of comments) {
+            index[comment.id] = comment;
+        }
+
+        const computeRoot = (comment: C): C => {
+
+            const visited: {[id: string]: boolean} = {};
+
+            let current = comment;
+
+            while (current.inReplyTo && index[current.inReplyTo] && ! visited[current.id]) {
+                visited[current.id] = true;
+                current = index[current.inReplyTo];
+            }
+
+            return current;
+
+        };
+
+        const threads: {[id: string]: CommentThread<C>} = {};
+
+        for (const comment of comments) {
+
+            const root = computeRoot(comment);
+
+            if (! threads[root.id]) {
+                threads[root.id] = {root, replies: []};
+            }
+
+            if (root !== comment) {
+                threads[root.id].replies.push(comment);
+            }
+
+        }
+
+        for (const thread of Object.values(threads)) {
+            thread.replies.sort((c0, c1) => c0.created.localeCompare(c1.created));
+        }
+
+        return Object.values(threads)
+            .sort((t0, t1) => -t0.root.created.localeCompare(t1.root.created));
+
+    }
+
+}
+
+/**
+ * The fields needed to group comments (or the sidebar representation of
+ * comments) into threads.
+ */
+export interface ThreadedComment {
+
+    readonly id: string;
+
+    readonly created: string;
+
+    readonly inReplyTo?: string;
+
+}
+
+export interface CommentThread<C extends ThreadedComment> {
+
+    /**
+     * The comment which started the thread.
+     */
+    readonly root: C;
+
+    readonly replies: C[];
+
 }
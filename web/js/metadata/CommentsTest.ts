@@ -0,0 +1,92 @@
+import {assert} from 'chai';
+import {Comments} from './Comments';
+import {Author} from './Author';
+import {TestingTime} from '../test/TestingTime';
+
+TestingTime.freeze();
+
+describe('Comments', function() {
+
+    const author = new Author({name: 'Alice'});
+
+    it("createReply", function() {
+
+        const comment = Comments.createHTMLComment("hello", 'text-highlight:0x001', author);
+        const reply = Comments.createReply(comment, "world", new Author({name: 'Bob'}));
+
+        assert.notEqual(reply.id, comment.id);
+        assert.equal(reply.inReplyTo, comment.id);
+        assert.equal(reply.ref, comment.ref);
+        assert.equal(reply.author!.name, 'Bob');
+
+    });
+
+    it("edit", function() {
+
+        const comment = Comments.createHTMLComment("first", 'text-highlight:0x001', author);
+
+        TestingTime.forward(1000);
+
+        const edited = Comments.edit(Comments.edit(comment, "second"), "third");
+
+        assert.equal(edited.id, comment.id);
+        assert.equal(edited.content.HTML, "third");
+        assert.equal(edited.author!.name, 'Alice');
+        assert.deepEqual(edited.history!.map(current => current.content.HTML), ["first", "second"]);
+        assert.equal(edited.history![0].lastUpdated, comment.lastUpdated);
+        assert.notEqual(edited.lastUpdated, comment.lastUpdated);
+
+        // the original is unchanged
+        assert.isUndefined(comment.history);
+
+    });
+
+    it("resolve", function() {
+
+        const comment = Comments.createHTMLComment("hello", 'text-highlight:0x001');
+
+        const resolved = Comments.resolve(comment, true);
+
+        assert.ok(resolved.resolved);
+        assert.isFalse(Comments.resolve(resolved, false).resolved);
+        assert.isUndefined(comment.resolved);
+
+    });
+
+    it("toThreads", function() {
+
+        const first = Comments.createHTMLComment("first", 'text-highlight:0x001');
+
+        TestingTime.forward(1000);
+
+        const second = Comments.createHTMLComment("second", 'text-highlight:0x001');
+
+        TestingTime.forward(1000);
+
+        const reply = Comments.createReply(first, "reply");
+
+        TestingTime.forward(1000);
+
+        const nested = Comments.createReply(reply, "nested");
+
+        const orphan = Comments.createReply(first, "orphan");
+        orphan.inReplyTo = 'missing';
+
+        const threads = Comments.toThreads([nested, second, orphan, reply, first]);
+
+        const summary = threads.map(thread => {
+            return {
+                root: thread.root.content.HTML,
+                replies: thread.replies.map(current => current.content.HTML)
+            };
+        });
+
+        assert.deepEqual(summary, [
+            {root: 'orphan', replies: []},
+            {root: 'second', replies: []},
+            {root: 'first', replies: ['reply', 'nested']},
+        ]);
+
+    });
+
+});
@@ -4,7 +4,7 @@
  */
 import {Image} from './Image';
 import {Author} from './Author';
-import {ISODateTimeString} from './ISODateTimeStrings';
+import {ISODateString, ISODateTimeString} from './ISODateTimeStrings';
 
 export interface DocDetail {
 
@@ -22,6 +22,11 @@ export interface DocDetail {
 
     readonly description?: string;
 
+    /**
+     * The time the document was originally published.
+     */
+    readonly published?: ISODateString | ISODateTimeString;
+
     /**
      * The network URL for the document where we originally fetched it.
      */
@@ -66,6 +71,8 @@ export interface UpdatableDocDetails {
 
     description?: string;
 
+    published?: ISODateString | ISODateTimeString;
+
     /**
      * The network URL for the document where we originally fetched it.
      */
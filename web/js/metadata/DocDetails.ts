@@ -18,7 +18,7 @@ export class DocDetails {
             const targetDocDetails: UpdatableDocDetails = docInfo;
 
             const typedKeys: Array<keyof UpdatableDocDetails>
-                = ['title', 'subtitle', 'description', 'url', 'filename'];
+                = ['title', 'subtitle', 'description', 'published', 'url', 'filename'];
 
             const sourceDocDetails: UpdatableDocDetails = docDetail;
 
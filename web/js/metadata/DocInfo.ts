@@ -9,6 +9,7 @@ import {ISODateTimeString, ISODateString} from './ISODateTimeStrings';
 import {Tag} from '../tags/Tag';
 import {Hashcode} from './Hashcode';
 import {UUID} from './UUID';
+import {Author} from './Author';
 
 export class DocInfo extends SerializedObject implements IDocInfo {
 
@@ -38,9 +39,11 @@ export class DocInfo extends SerializedObject implements IDocInfo {
     public hashcode?: Hashcode;
     public referrer?: string;
     public shareStrategy?: ShareStrategy;
-    public storedResources?: Set<StoredResource>;
+    public storedResources?: StoredResource[];
     public mutating?: boolean;
     public published?: ISODateString | ISODateTimeString;
+    public authors?: Author[];
+    public doi?: string;
 
     constructor(val: IDocInfo) {
 
@@ -208,7 +211,11 @@ export interface IDocInfo {
 
     shareStrategy?: ShareStrategy;
 
-    storedResources?: Set<StoredResource>;
+    /**
+     * The resources stored for this document.  This is an array and not a Set
+     * so that it's kept when the DocInfo is serialized as JSON.
+     */
+    storedResources?: StoredResource[];
 
     /**
      * When true, we're mutating this entire DocMeta as a batch.  Setting it to
@@ -226,6 +233,16 @@ export interface IDocInfo {
      */
     published?: ISODateString | ISODateTimeString;
 
+    /**
+     * The authors of this document in the order given by the publisher.
+     */
+    authors?: Author[];
+
+    /**
+     * The DOI (digital object identifier) of this document if it has one.
+     */
+    doi?: string;
+
 }
 
 /**
@@ -5,6 +5,7 @@ import {Preconditions} from '../Preconditions';
 import {AnnotationInfos} from './AnnotationInfos';
 import {AnnotationInfo} from './AnnotationInfo';
 import {Attachment} from './Attachment';
+import {FlashcardReview} from './FlashcardReview';
 
 
 /**
@@ -20,6 +21,12 @@ export class DocMeta extends SerializedObject implements  IDocMeta {
 
     public attachments: {[id: string]: Attachment} = {};
 
+    /**
+     * The review history of the flashcards in this document keyed by
+     * flashcard ID.
+     */
+    public reviews: {[id: string]: FlashcardReview} = {};
+
     // constructor(template?: DocMeta) {
     //
     //     super(template);
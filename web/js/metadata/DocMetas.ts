@@ -12,6 +12,8 @@ import {forDict} from '../util/Functions';
 import {TextHighlights} from './TextHighlights';
 import {Preconditions} from '../Preconditions';
 import {Errors} from '../util/Errors';
+import {Dictionaries} from '../util/Dictionaries';
+import {Reducers} from '../util/Reducers';
 
 const log = Logger.create();
 
@@ -164,6 +166,11 @@ export class DocMetas {
             docMeta.attachments = {};
         }
 
+        if (!docMeta.reviews) {
+            log.debug("No reviews. Adding empty map.");
+            docMeta.reviews = {};
+        }
+
         if (docMeta.docInfo) {
 
             if (!docMeta.docInfo.pagemarkType) {
@@ -198,6 +205,41 @@ export class DocMetas {
 
     }
 
+    /**
+     * Update the annotation counts in the DocInfo from the annotations in the
+     * page metas.
+     */
+    public static updateAnnotationCounts(docMeta: DocMeta) {
+
+        docMeta.docInfo.nrComments = Object.values(docMeta.pageMetas)
+            .map(current => Dictionaries.countOf(current.comments))
+            .reduce(Reducers.SUM, 0);
+
+        docMeta.docInfo.nrNotes = Object.values(docMeta.pageMetas)
+            .map(current => Dictionaries.countOf(current.notes))
+            .reduce(Reducers.SUM, 0);
+
+        docMeta.docInfo.nrFlashcards = Object.values(docMeta.pageMetas)
+            .map(current => Dictionaries.countOf(current.flashcards))
+            .reduce(Reducers.SUM, 0);
+
+        docMeta.docInfo.nrTextHighlights = Object.values(docMeta.pageMetas)
+            .map(current => Dictionaries.countOf(current.textHighlights))
+            .reduce(Reducers.SUM, 0);
+
+        docMeta.docInfo.nrAreaHighlights = Object.values(docMeta.pageMetas)
+            .map(current => Dictionaries.countOf(current.areaHighlights))
+            .reduce(Reducers.SUM, 0);
+
+        docMeta.docInfo.nrAnnotations =
+            docMeta.docInfo.nrComments +
+            docMeta.docInfo.nrNotes +
+            docMeta.docInfo.nrFlashcards +
+            docMeta.docInfo.nrTextHighlights +
+            docMeta.docInfo.nrAreaHighlights;
+
+    }
+
     /**
      * Make changes to the document so that they write as one batched mutation
      * at the end.
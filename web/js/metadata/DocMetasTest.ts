@@ -63,6 +63,7 @@ describe('DocMetas', function() {
                     "annotationInfo": {},
                     "version": 2,
                     "attachments": {},
+                    "reviews": {},
                     "docInfo": {
                         "progress": 100,
                         "pagemarkType": "SINGLE_COLUMN",
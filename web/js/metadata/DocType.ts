@@ -1,6 +1,7 @@
 export enum DocType {
     PDF = 'pdf',
     PHZ = 'phz',
+    EPUB = 'epub',
     VIDEO = 'video',
     PODCAST = 'podcast'
 }
@@ -0,0 +1,76 @@
+import {ISODateTimeString} from './ISODateTimeStrings';
+
+/**
+ * The review history and current schedule of a flashcard reviewed within
+ * Polar.  These are stored in the DocMeta keyed by flashcard ID.
+ */
+export interface FlashcardReview {
+
+    /**
+     * The ID of the flashcard being reviewed.
+     */
+    readonly flashcardID: string;
+
+    readonly schedule: ReviewSchedule;
+
+    /**
+     * Every review of this flashcard, oldest first.
+     */
+    readonly history: ReadonlyArray<ReviewRecord>;
+
+}
+
+/**
+ * The SM-2 scheduling state of a card.
+ */
+export interface ReviewSchedule {
+
+    /**
+     * The number of successful reviews in a row.
+     */
+    readonly repetitions: number;
+
+    /**
+     * The number of days between the last review and the next one.
+     */
+    readonly interval: number;
+
+    /**
+     * How quickly the interval grows.  Starts at 2.5 and never goes below 1.3.
+     */
+    readonly easeFactor: number;
+
+    /**
+     * The number of times the card was forgotten.
+     */
+    readonly lapses: number;
+
+    readonly reviewed: ISODateTimeString;
+
+    readonly due: ISODateTimeString;
+
+}
+
+export interface ReviewRecord {
+
+    readonly reviewed: ISODateTimeString;
+
+    readonly rating: ReviewRating;
+
+    /**
+     * The interval (in days) the card was scheduled with after this review.
+     */
+    readonly interval: number;
+
+}
+
+/**
+ * again: the card was forgotten.
+ *
+ * hard: recalled but with serious difficulty.
+ *
+ * good: recalled after some hesitation.
+ *
+ * easy: recalled perfectly.
+ */
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
@@ -0,0 +1,159 @@
+import {BaseHighlight, HighlightColor} from './BaseHighlight';
+import {Hashcodes} from '../Hashcodes';
+import {Tag} from '../tags/Tag';
+import {Tags} from '../tags/Tags';
+import {ISODateTimeStrings} from './ISODateTimeStrings';
+import {Settings} from '../datastore/Settings';
+
+/**
+ * The categories used until the user defines their own.  These match the
+ * colors of the original highlight bar.
+ */
+const DEFAULT_CATEGORIES: ReadonlyArray<HighlightCategory> = [
+    {id: 'yellow', name: 'Yellow', color: 'yellow'},
+    {id: 'red', name: 'Red', color: 'red'},
+    {id: 'green', name: 'Green', color: 'green'}
+];
+
+/**
+ * Highlight categories give highlight colors a meaning (for example claims,
+ * evidence and definitions).  They're defined by the user in the settings and
+ * each highlight records the ID of its category.
+ */
+export class HighlightCategories {
+
+    public static fromSettings(settings: Settings): ReadonlyArray<HighlightCategory> {
+
+        if (settings.highlightCategories && settings.highlightCategories.length > 0) {
+            return settings.highlightCategories;
+        }
+
+        return DEFAULT_CATEGORIES;
+
+    }
+
+    public static create(name: string, color: HighlightColor, tag?: string): HighlightCategory {
+
+        if (tag) {
+            Tags.assertValid(tag);
+        }
+
+        return {id: Hashcodes.createRandomID(), name, color, tag};
+
+    }
+
+    /**
+     * Find the category of the highlight.  Highlights created before they had
+     * a category are matched by their color.
+     */
+    public static find(categories: ReadonlyArray<HighlightCategory>,
+                       highlight: CategorizedAnnotation): HighlightCategory | undefined {
+
+        if (highlight.category) {
+            return categories.find(current => current.id === highlight.category);
+        }
+
+        const color = highlight.color || 'yellow';
+
+        return categories.find(current => current.color === color);
+
+    }
+
+    /**
+     * Return a copy of the highlight in the given category.  The color of the
+     * highlight is changed to the color of the category and the category tag
+     * (if any) is added.
+     */
+    public static apply<H extends BaseHighlight>(highlight: H,
+                                                 category: HighlightCategory,
+                                                 factory: (val: any) => H): H {
+
+        return factory({
+            ...<any> highlight,
+            ...this.toFields(category),
+            tags: {...highlight.tags || {}, ...this.toTags(category)},
+            lastUpdated: ISODateTimeStrings.create()
+        });
+
+    }
+
+    /**
+     * The fields to set on a newly created highlight in the category.
+     */
+    public static toFields(category: HighlightCategory): CategorizedAnnotation {
+        return {color: category.color, category: category.id};
+    }
+
+    public static toTags(category: HighlightCategory): {[id: string]: Tag} {
+
+        if (! category.tag) {
+            return {};
+        }
+
+        return Tags.toMap([{id: category.tag, label: category.tag}]);
+
+    }
+
+    /**
+     * Return true if the highlight is in one of the categories in the filter.
+     *
+     * @param highlight The highlight or undefined for annotations which aren't
+     * highlights.  Only highlights have categories so everything else is
+     * excluded when the filter isn't empty.
+     *
+     * @param categories The categories, used to match highlights created
+     * before categories were introduced by their color.
+     */
+    public static accept(highlight: CategorizedAnnotation | undefined,
+                         filter: HighlightCategoryFilter,
+                         categories: ReadonlyArray<HighlightCategory> = DEFAULT_CATEGORIES): boolean {
+
+        if (filter.length === 0) {
+            return true;
+        }
+
+        if (! highlight) {
+            return false;
+        }
+
+        const category = this.find(categories, highlight);
+
+        return category !== undefined && filter.includes(category.id);
+
+    }
+
+}
+
+export interface HighlightCategory {
+
+    /**
+     * A unique ID which stays the same when the category is renamed.
+     */
+    readonly id: string;
+
+    readonly name: string;
+
+    readonly color: HighlightColor;
+
+    /**
+     * The label of a tag to add to every highlight in the category.
+     */
+    readonly tag?: string;
+
+}
+
+/**
+ * The IDs of the categories to include.  Empty includes everything.
+ */
+export type HighlightCategoryFilter = ReadonlyArray<string>;
+
+/**
+ * The fields of an annotation used to determine its category.
+ */
+export interface CategorizedAnnotation {
+
+    readonly color?: HighlightColor;
+
+    readonly category?: string;
+
+}
@@ -0,0 +1,21 @@
+import {HighlightCategories, HighlightCategory} from './HighlightCategories';
+import {SettingsStore} from '../datastore/SettingsStore';
+
+/**
+ * Reads and writes the user defined highlight categories in the settings.
+ *
+ * This is kept out of HighlightCategories so that the metadata model (which
+ * is used to create highlights) doesn't depend on the datastore.
+ */
+export class HighlightCategoriesStore {
+
+    public static async load(): Promise<ReadonlyArray<HighlightCategory>> {
+        return HighlightCategories.fromSettings(await SettingsStore.load());
+    }
+
+    public static async write(categories: ReadonlyArray<HighlightCategory>): Promise<void> {
+        const settings = await SettingsStore.load();
+        await SettingsStore.write({...settings, highlightCategories: categories});
+    }
+
+}
@@ -0,0 +1,100 @@
+import {assert} from 'chai';
+import {HighlightCategories, HighlightCategory} from './HighlightCategories';
+import {TextHighlightRecords} from './TextHighlightRecords';
+import {TextHighlight} from './TextHighlight';
+import {MockDocMetas} from './DocMetas';
+import {Comments} from './Comments';
+import {Exporters} from './exporter/Exporters';
+import {BufferWriter} from './exporter/writers/BufferWriter';
+import {TestingTime} from '../test/TestingTime';
+import {Rect} from '../Rect';
+
+TestingTime.freeze();
+
+describe('HighlightCategories', function() {
+
+    const claims: HighlightCategory = {id: 'claims', name: 'Claims', color: 'red', tag: 'claim'};
+    const evidence: HighlightCategory = {id: 'evidence', name: 'Evidence', color: 'green'};
+
+    const categories = [claims, evidence];
+
+    function createTextHighlight(text: string, category?: HighlightCategory) {
+        // the ID is computed from the rects so give each highlight its own
+        const rects = [new Rect({top: text.length, left: 100, right: 200, bottom: 200, width: 100, height: 100})];
+
+        return TextHighlightRecords.create(rects, [{text}], {TEXT: text}, 'yellow', category).value;
+    }
+
+    it("create highlights in a category", function() {
+
+        const textHighlight = createTextHighlight("hello", claims);
+
+        assert.equal(textHighlight.color, 'red');
+        assert.equal(textHighlight.category, 'claims');
+        assert.deepEqual(textHighlight.tags, {claim: {id: 'claim', label: 'claim'}});
+
+    });
+
+    it("find", function() {
+
+        assert.equal(HighlightCategories.find(categories, {category: 'evidence', color: 'red'}), evidence);
+
+        // older highlights are matched by their color
+        assert.equal(HighlightCategories.find(categories, {color: 'red'}), claims);
+        assert.isUndefined(HighlightCategories.find(categories, {}));
+
+    });
+
+    it("apply", function() {
+
+        const textHighlight = createTextHighlight("hello", evidence);
+
+        const updated = HighlightCategories.apply(textHighlight, claims, val => new TextHighlight(val));
+
+        assert.equal(updated.id, textHighlight.id);
+        assert.equal(updated.color, 'red');
+        assert.equal(updated.category, 'claims');
+        assert.deepEqual(Object.keys(updated.tags!), ['claim']);
+        assert.ok(updated instanceof TextHighlight);
+
+    });
+
+    it("accept", function() {
+
+        assert.ok(HighlightCategories.accept(undefined, []));
+        assert.isFalse(HighlightCategories.accept(undefined, ['claims'], categories));
+
+        assert.ok(HighlightCategories.accept({category: 'claims'}, ['claims'], categories));
+        assert.isFalse(HighlightCategories.accept({category: 'evidence'}, ['claims'], categories));
+        assert.ok(HighlightCategories.accept({color: 'green'}, ['evidence'], categories));
+
+    });
+
+    it("export filtered by category", async function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 1);
+
+        const claim = createTextHighlight("the claim", claims);
+        const proof = createTextHighlight("the evidence", evidence);
+        const comment = Comments.createTextComment("a comment", 'page:1');
+
+        docMeta.pageMetas[1].textHighlights[claim.id] = claim;
+        docMeta.pageMetas[1].textHighlights[proof.id] = proof;
+        docMeta.pageMetas[1].comments[comment.id] = comment;
+
+        const writer = new BufferWriter();
+
+        await Exporters.exportDocMeta(writer, 'markdown', docMeta, {
+            categories: ['claims'],
+            highlightCategories: categories
+        });
+
+        const markdown = writer.toString();
+
+        assert.include(markdown, "the claim");
+        assert.notInclude(markdown, "the evidence");
+        assert.notInclude(markdown, "a comment");
+
+    });
+
+});
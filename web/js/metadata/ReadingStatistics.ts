@@ -0,0 +1,464 @@
+/**
+ * Reading statistics computed from the pagemarks in each document.  Every
+ * pagemark records when it was created so we can reconstruct when, and how
+ * much, we've been reading.
+ */
+import {IDocInfo} from './DocInfo';
+import {DocMeta} from './DocMeta';
+import {ISODateString, ISODateTimeString, ISODateTimeStrings} from './ISODateTimeStrings';
+import {PagemarkMode} from './PagemarkMode';
+import {ProgressChange} from './ProgressChange';
+import {DateStatMap, DateStats} from './Statistics';
+import {Dictionaries} from '../util/Dictionaries';
+import {Reducers} from '../util/Reducers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Pagemarks created further apart than this are considered separate reading
+ * sessions and the time between them isn't counted as reading time.
+ */
+const MAX_SESSION_GAP = 10 * 60 * 1000;
+
+/**
+ * Pagemarks created this close together were created at once (for example
+ * when marking a range of pages) and are treated as a single read.
+ */
+const BATCH_WINDOW = 1000;
+
+export class ReadingStatistics {
+
+    /**
+     * Extract the reading activity from the DocMeta so that we can compute
+     * stats without keeping the full DocMeta in memory.
+     */
+    public static toReadingActivity(docMeta: DocMeta): ReadingActivity {
+
+        const pagemarks: PagemarkActivity[] = [];
+        const annotations: ISODateTimeString[] = [];
+
+        for (const pageMeta of Object.values(docMeta.pageMetas)) {
+
+            for (const pagemark of Object.values(pageMeta.pagemarks || {})) {
+
+                if (! pagemark.created) {
+                    continue;
+                }
+
+                pagemarks.push({
+                    id: pagemark.id,
+                    pageNum: pageMeta.pageInfo.num,
+                    created: pagemark.created,
+                    percentage: pagemark.percentage,
+                    mode: pagemark.mode || PagemarkMode.READ
+                });
+
+            }
+
+            const children = [
+                ...Object.values(pageMeta.textHighlights || {}),
+                ...Object.values(pageMeta.areaHighlights || {}),
+                ...Object.values(pageMeta.comments || {}),
+                ...Object.values(pageMeta.flashcards || {}),
+            ];
+
+            for (const child of children) {
+
+                if (child.created) {
+                    annotations.push(child.created);
+                }
+
+            }
+
+        }
+
+        pagemarks.sort((a, b) => a.created.localeCompare(b.created));
+        annotations.sort((a, b) => a.localeCompare(b));
+
+        return {docInfo: docMeta.docInfo, pagemarks, annotations};
+
+    }
+
+    /**
+     * Reconstruct the history of the progress of a document from its
+     * pagemarks.  Ignored pagemarks count towards the progress just like they
+     * do in the DocInfo.
+     */
+    public static computeProgressChanges(readingActivity: ReadingActivity): ReadonlyArray<ProgressChange> {
+
+        const nrPages = readingActivity.docInfo.nrPages;
+
+        if (! nrPages) {
+            return [];
+        }
+
+        const result: ProgressChange[] = [];
+
+        let total = 0;
+
+        for (const pagemark of readingActivity.pagemarks) {
+
+            total += pagemark.percentage;
+
+            result.push(new ProgressChange({
+                id: pagemark.id,
+                changed: pagemark.created,
+                percentage: Math.min(100, total / nrPages)
+            }));
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Compute the number of pages read per day within the range.  Days without
+     * any reading are included with a value of zero.
+     */
+    public static computePagesReadRate(readingActivities: Iterable<ReadingActivity>,
+                                       dateRange: DateRange = {}): DateStats {
+
+        const result: DateStatMap = {};
+
+        for (const pagemark of this.readPagemarks(readingActivities, dateRange)) {
+
+            const key = this.toDate(pagemark.created);
+
+            const entry = Dictionaries.computeIfAbsent(result, key, () => {
+                return {date: key, value: 0};
+            });
+
+            entry.value += pagemark.percentage / 100;
+
+        }
+
+        const dates = Object.keys(result).sort();
+
+        const start = dateRange.start || dates[0];
+        const end = dateRange.end || this.toDate(ISODateTimeStrings.create());
+
+        if (! start) {
+            return [];
+        }
+
+        for (const date of this.dates(start, end)) {
+
+            Dictionaries.computeIfAbsent(result, date, () => {
+                return {date, value: 0};
+            });
+
+        }
+
+        return Object.values(result)
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+    }
+
+    /**
+     * Compute the current and longest streak of consecutive days with reading
+     * from the pages read per day.  The current streak isn't broken until a
+     * full day passes without any reading.
+     */
+    public static computeStreaks(pagesReadRate: DateStats,
+                                 today: ISODateString = this.toDate(ISODateTimeStrings.create())): Streaks {
+
+        const days = new Set(pagesReadRate.filter(current => current.value > 0)
+                                          .map(current => current.date));
+
+        let longest = 0;
+        let length = 0;
+        let previous: ISODateString | undefined;
+
+        for (const date of Array.from(days).sort()) {
+
+            if (previous && this.nextDate(previous) === date) {
+                ++length;
+            } else {
+                length = 1;
+            }
+
+            longest = Math.max(longest, length);
+            previous = date;
+
+        }
+
+        let current = 0;
+        let date = days.has(today) ? today : this.previousDate(today);
+
+        while (days.has(date)) {
+            ++current;
+            date = this.previousDate(date);
+        }
+
+        return {current, longest};
+
+    }
+
+    /**
+     * Estimate how long we spent reading within the range.  Pagemarks created
+     * within a few minutes of each other are part of the same reading session
+     * and the pages they cover were read in the time since the previous
+     * pagemark.
+     */
+    public static computeReadingTime(readingActivities: Iterable<ReadingActivity>,
+                                     dateRange: DateRange = {}): ReadingTime {
+
+        const pagemarks = this.readPagemarks(readingActivities, dateRange)
+            .sort((a, b) => a.created.localeCompare(b.created));
+
+        let pages = 0;
+        let timedPages = 0;
+        let duration = 0;
+
+        // the time the current batch of pagemarks was started and whether it
+        // was read within a session so its pages count towards the speed.
+        let batch: number | undefined;
+        let timed = false;
+
+        for (const pagemark of pagemarks) {
+
+            const created = ISODateTimeStrings.toUnixTimeMS(pagemark.created);
+            const nrPages = pagemark.percentage / 100;
+
+            pages += nrPages;
+
+            if (batch === undefined || created - batch > BATCH_WINDOW) {
+
+                const gap = batch !== undefined ? created - batch : undefined;
+
+                timed = gap !== undefined && gap <= MAX_SESSION_GAP;
+
+                if (timed) {
+                    duration += gap!;
+                }
+
+                batch = created;
+
+            }
+
+            if (timed) {
+                timedPages += nrPages;
+            }
+
+        }
+
+        const hours = duration / (60 * 60 * 1000);
+        const pagesPerHour = hours > 0 ? timedPages / hours : 0;
+
+        return {pages, duration, pagesPerHour};
+
+    }
+
+    /**
+     * Compute the fraction of the documents with each tag that were finished by
+     * the end of the range.  Only documents added by the end of the range are
+     * counted.
+     */
+    public static computeCompletionRateByTag(readingActivities: Iterable<ReadingActivity>,
+                                             dateRange: DateRange = {}): ReadonlyArray<TagCompletion> {
+
+        const counts: {[label: string]: TagCount} = {};
+
+        for (const readingActivity of readingActivities) {
+
+            const docInfo = readingActivity.docInfo;
+
+            if (dateRange.end && docInfo.added && this.toDate(docInfo.added) > dateRange.end) {
+                continue;
+            }
+
+            const progressChanges = this.computeProgressChanges(readingActivity)
+                .filter(current => ! dateRange.end || this.toDate(current.changed) <= dateRange.end);
+
+            const completed = progressChanges.length > 0 &&
+                              progressChanges[progressChanges.length - 1].percentage >= 100;
+
+            for (const tag of Object.values(docInfo.tags || {})) {
+
+                const count = Dictionaries.computeIfAbsent(counts, tag.label, () => {
+                    return {docs: 0, completed: 0};
+                });
+
+                ++count.docs;
+
+                if (completed) {
+                    ++count.completed;
+                }
+
+            }
+
+        }
+
+        return Object.entries(counts)
+            .map(([tag, count]) => {
+                return {tag, docs: count.docs, completed: count.completed, rate: count.completed / count.docs};
+            })
+            .sort((a, b) => b.rate - a.rate || b.docs - a.docs || a.tag.localeCompare(b.tag));
+
+    }
+
+    /**
+     * The number of annotations created per page read within the range.
+     */
+    public static computeAnnotationsPerPage(readingActivities: Iterable<ReadingActivity>,
+                                            dateRange: DateRange = {}): number {
+
+        const activities = Array.from(readingActivities);
+
+        const pages = this.readPagemarks(activities, dateRange)
+            .map(current => current.percentage / 100)
+            .reduce(Reducers.SUM, 0);
+
+        if (pages === 0) {
+            return 0;
+        }
+
+        const annotations = activities
+            .map(current => current.annotations.filter(created => this.inRange(created, dateRange)).length)
+            .reduce(Reducers.SUM, 0);
+
+        return annotations / pages;
+
+    }
+
+    /**
+     * The range covering the given number of days up to and including today.
+     */
+    public static toDateRange(days: number): DateRange {
+
+        const now = ISODateTimeStrings.toUnixTimeMS(ISODateTimeStrings.create());
+
+        return {
+            start: ISODateTimeStrings.toISODateString(new Date(now - ((days - 1) * DAY))),
+            end: ISODateTimeStrings.toISODateString(new Date(now))
+        };
+
+    }
+
+    private static readPagemarks(readingActivities: Iterable<ReadingActivity>,
+                                 dateRange: DateRange): PagemarkActivity[] {
+
+        const result: PagemarkActivity[] = [];
+
+        for (const readingActivity of readingActivities) {
+
+            result.push(...readingActivity.pagemarks
+                .filter(current => current.mode === PagemarkMode.READ)
+                .filter(current => this.inRange(current.created, dateRange)));
+
+        }
+
+        return result;
+
+    }
+
+    private static inRange(value: ISODateTimeString, dateRange: DateRange) {
+
+        const date = this.toDate(value);
+
+        return (! dateRange.start || date >= dateRange.start) &&
+               (! dateRange.end || date <= dateRange.end);
+
+    }
+
+    private static toDate(value: ISODateTimeString): ISODateString {
+        return ISODateTimeStrings.toISODateString(ISODateTimeStrings.parse(value));
+    }
+
+    private static nextDate(date: ISODateString): ISODateString {
+        return ISODateTimeStrings.toISODateString(new Date(Date.parse(date) + DAY));
+    }
+
+    private static previousDate(date: ISODateString): ISODateString {
+        return ISODateTimeStrings.toISODateString(new Date(Date.parse(date) - DAY));
+    }
+
+    private static dates(start: ISODateString, end: ISODateString): ISODateString[] {
+
+        const result: ISODateString[] = [];
+
+        for (let date = start; date <= end; date = this.nextDate(date)) {
+            result.push(date);
+        }
+
+        return result;
+
+    }
+
+}
+
+/**
+ * The pagemarks and annotation times of a document.
+ */
+export interface ReadingActivity {
+
+    readonly docInfo: IDocInfo;
+
+    /**
+     * The pagemarks sorted by the time they were created.
+     */
+    readonly pagemarks: ReadonlyArray<PagemarkActivity>;
+
+    /**
+     * The times the annotations in the document were created.
+     */
+    readonly annotations: ReadonlyArray<ISODateTimeString>;
+
+}
+
+export interface PagemarkActivity {
+    readonly id: string;
+    readonly pageNum: number;
+    readonly created: ISODateTimeString;
+    readonly percentage: number;
+    readonly mode: PagemarkMode;
+}
+
+/**
+ * An inclusive range of dates.  Either side can be omitted to leave the range
+ * open.
+ */
+export interface DateRange {
+    readonly start?: ISODateString;
+    readonly end?: ISODateString;
+}
+
+export interface Streaks {
+
+    /**
+     * The number of consecutive days, up to today, with reading.
+     */
+    readonly current: number;
+
+    readonly longest: number;
+
+}
+
+export interface ReadingTime {
+
+    /**
+     * The number of pages read.
+     */
+    readonly pages: number;
+
+    /**
+     * The estimated time spent reading in milliseconds.
+     */
+    readonly duration: number;
+
+    readonly pagesPerHour: number;
+
+}
+
+interface TagCount {
+    docs: number;
+    completed: number;
+}
+
+export interface TagCompletion {
+    readonly tag: string;
+    readonly docs: number;
+    readonly completed: number;
+    readonly rate: number;
+}
@@ -0,0 +1,203 @@
+import {assert} from 'chai';
+import {assertJSON} from '../test/Assertions';
+import {DocMetas} from './DocMetas';
+import {DocMeta} from './DocMeta';
+import {Pagemarks} from './Pagemarks';
+import {PagemarkMode} from './PagemarkMode';
+import {TestingTime} from '../test/TestingTime';
+import {ReadingStatistics} from './ReadingStatistics';
+import {TextHighlights} from './TextHighlights';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+describe('ReadingStatistics', function() {
+
+    beforeEach(function() {
+        TestingTime.freeze();
+    });
+
+    function createDocMeta(fingerprint: string, nrPages: number = 10) {
+        return DocMetas.create(fingerprint, nrPages, fingerprint + '.pdf');
+    }
+
+    function read(docMeta: DocMeta, pageNum: number, percentage: number = 100) {
+        Pagemarks.updatePagemark(docMeta, pageNum, Pagemarks.create({percentage}));
+    }
+
+    it("computePagesReadRate", function() {
+
+        const docMeta = createDocMeta('0x001');
+
+        read(docMeta, 1);
+        read(docMeta, 2, 50);
+
+        TestingTime.forward(2 * DAY);
+
+        read(docMeta, 3);
+
+        const ignored = Pagemarks.create({percentage: 100});
+        ignored.mode = PagemarkMode.IGNORED;
+        Pagemarks.updatePagemark(docMeta, 4, ignored);
+
+        const readingActivity = ReadingStatistics.toReadingActivity(docMeta);
+
+        assertJSON(ReadingStatistics.computePagesReadRate([readingActivity]), [
+            {
+                "date": "2012-03-02",
+                "value": 1.5
+            },
+            {
+                "date": "2012-03-03",
+                "value": 0
+            },
+            {
+                "date": "2012-03-04",
+                "value": 1
+            }
+        ]);
+
+        assertJSON(ReadingStatistics.computePagesReadRate([readingActivity], {start: '2012-03-03', end: '2012-03-05'}), [
+            {
+                "date": "2012-03-03",
+                "value": 0
+            },
+            {
+                "date": "2012-03-04",
+                "value": 1
+            },
+            {
+                "date": "2012-03-05",
+                "value": 0
+            }
+        ]);
+
+    });
+
+    it("computeStreaks", function() {
+
+        const pagesReadRate = [
+            {date: '2012-02-20', value: 1},
+            {date: '2012-02-21', value: 2},
+            {date: '2012-02-22', value: 3},
+            {date: '2012-02-23', value: 0},
+            {date: '2012-02-29', value: 1},
+            {date: '2012-03-01', value: 1},
+        ];
+
+        // we haven't read yet today but the streak isn't broken.
+        assertJSON(ReadingStatistics.computeStreaks(pagesReadRate, '2012-03-02'), {
+            "current": 2,
+            "longest": 3
+        });
+
+        assertJSON(ReadingStatistics.computeStreaks(pagesReadRate, '2012-03-03'), {
+            "current": 0,
+            "longest": 3
+        });
+
+    });
+
+    it("computeReadingTime", function() {
+
+        const docMeta = createDocMeta('0x001');
+
+        read(docMeta, 1);
+
+        TestingTime.forward(2 * MINUTE);
+        read(docMeta, 2);
+
+        TestingTime.forward(4 * MINUTE);
+        read(docMeta, 3);
+        read(docMeta, 4);
+
+        // a new session the next day.
+        TestingTime.forward(DAY);
+        read(docMeta, 5);
+
+        const readingTime = ReadingStatistics.computeReadingTime([ReadingStatistics.toReadingActivity(docMeta)]);
+
+        assert.equal(readingTime.pages, 5);
+        assert.equal(readingTime.duration, 6 * MINUTE);
+
+        // 3 pages in 6 minutes
+        assert.equal(readingTime.pagesPerHour, 30);
+
+    });
+
+    it("computeProgressChanges", function() {
+
+        const docMeta = createDocMeta('0x001', 2);
+
+        read(docMeta, 1);
+        TestingTime.forward(DAY);
+        read(docMeta, 2);
+
+        const progressChanges = ReadingStatistics.computeProgressChanges(ReadingStatistics.toReadingActivity(docMeta));
+
+        assert.deepEqual(progressChanges.map(current => current.percentage), [50, 100]);
+        assert.deepEqual(progressChanges.map(current => current.changed),
+                         ['2012-03-02T11:38:49.321Z', '2012-03-03T11:38:49.321Z']);
+
+    });
+
+    it("computeCompletionRateByTag", function() {
+
+        const finished = createDocMeta('0x001', 1);
+        finished.docInfo.tags = {news: {id: 'news', label: 'news'}};
+
+        const unread = createDocMeta('0x002', 1);
+        unread.docInfo.tags = {news: {id: 'news', label: 'news'}, papers: {id: 'papers', label: 'papers'}};
+
+        TestingTime.forward(DAY);
+        read(finished, 1);
+
+        const readingActivities = [finished, unread].map(current => ReadingStatistics.toReadingActivity(current));
+
+        assertJSON(ReadingStatistics.computeCompletionRateByTag(readingActivities), [
+            {
+                "tag": "news",
+                "docs": 2,
+                "completed": 1,
+                "rate": 0.5
+            },
+            {
+                "tag": "papers",
+                "docs": 1,
+                "completed": 0,
+                "rate": 0
+            }
+        ]);
+
+        // the doc wasn't finished yet at the end of the range.
+        assert.equal(ReadingStatistics.computeCompletionRateByTag(readingActivities, {end: '2012-03-02'})[0].completed, 0);
+
+    });
+
+    it("computeAnnotationsPerPage", function() {
+
+        const docMeta = createDocMeta('0x001');
+
+        read(docMeta, 1);
+        read(docMeta, 2);
+
+        const textHighlight = TextHighlights.createMockTextHighlight();
+        docMeta.getPageMeta(1).textHighlights[textHighlight.id] = textHighlight;
+
+        const readingActivity = ReadingStatistics.toReadingActivity(docMeta);
+
+        assert.equal(ReadingStatistics.computeAnnotationsPerPage([readingActivity]), 0.5);
+        assert.equal(ReadingStatistics.computeAnnotationsPerPage([readingActivity], {start: '2012-03-03'}), 0);
+
+    });
+
+    it("toDateRange", function() {
+
+        assertJSON(ReadingStatistics.toDateRange(7), {
+            "start": "2012-02-25",
+            "end": "2012-03-02"
+        });
+
+    });
+
+});
@@ -11,6 +11,7 @@ import {Question} from './Question';
 import {Flashcard} from './Flashcard';
 import {Author} from './Author';
 import {ISODateTimeString} from './ISODateTimeStrings';
+import {Tag} from '../tags/Tag';
 
 export class TextHighlight extends BaseHighlight {
 
@@ -92,4 +93,6 @@ export interface ITextHighlight {
     readonly lastUpdated: ISODateTimeString;
     readonly author?: Author;
     readonly color?: HighlightColor;
+    readonly category?: string;
+    readonly tags?: {[id: string]: Tag};
 }
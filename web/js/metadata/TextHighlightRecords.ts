@@ -6,6 +6,7 @@ import {TextRect} from './TextRect';
 import {IRect} from '../util/rects/IRect';
 import {ISODateTimeStrings} from './ISODateTimeStrings';
 import {HighlightColor} from './BaseHighlight';
+import {HighlightCategories, HighlightCategory} from './HighlightCategories';
 
 export class TextHighlightRecords {
 
@@ -15,13 +16,17 @@ export class TextHighlightRecords {
      * We also automatically assign the created and lastUpdated values of this
      * object as we're working with it.
      *
+     * @param category When given the color, category and tags of the
+     * highlight are set from the category.
+     *
      * @return an object with an "id" for a unique hash and a "value" of the
      * TextHighlight to use.
      */
     public static create(rects: IRect[],
                          textSelections: TextRect[],
                          text: Text,
-                         color: HighlightColor = 'yellow'): TextHighlightRecord {
+                         color: HighlightColor = 'yellow',
+                         category?: HighlightCategory): TextHighlightRecord {
 
         const id = Hashcodes.createID(rects);
 
@@ -40,7 +45,8 @@ export class TextHighlightRecords {
             questions: {},
             flashcards: {},
             guid: id,
-            color
+            color,
+            ...(category ? {...HighlightCategories.toFields(category), tags: HighlightCategories.toTags(category)} : {})
         });
 
         return {id, value: textHighlight};
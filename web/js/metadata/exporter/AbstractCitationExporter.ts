@@ -0,0 +1,172 @@
+import {AnnotationHolder} from "../AnnotationHolder";
+import {TextHighlight} from "../TextHighlight";
+import {AreaHighlight} from '../AreaHighlight';
+import {AbstractExporter} from './AbstractExporter';
+import {Flashcard} from '../Flashcard';
+import {Comment} from '../Comment';
+import {Texts} from "../Texts";
+import {DocInfo} from '../DocInfo';
+
+/**
+ * Base class for exporters that write a citation for the document with each
+ * text highlight attached as a quotation.  Other annotation types have no
+ * meaning in a citation so they are ignored.
+ *
+ * Citations are written on close once we've seen all the quotes.
+ */
+export abstract class AbstractCitationExporter extends AbstractExporter {
+
+    private docInfo?: DocInfo;
+
+    private quotes: Quote[] = [];
+
+    public async write(exportable: AnnotationHolder): Promise<void> {
+
+        if (! this.docInfo && exportable.docInfo) {
+            this.docInfo = exportable.docInfo;
+        }
+
+        await super.write(exportable);
+
+    }
+
+    protected async writeTextHighlight(textHighlight: TextHighlight, exportable: AnnotationHolder): Promise<void> {
+
+        const text = Texts.toString(textHighlight.text);
+
+        if (text) {
+
+            this.quotes.push({
+                text,
+                pageNum: exportable.pageInfo ? exportable.pageInfo.num : undefined,
+                created: textHighlight.created
+            });
+
+        }
+
+    }
+
+    protected async writeAreaHighlight(areaHighlight: AreaHighlight, exportable: AnnotationHolder): Promise<void> {
+        // noop
+    }
+
+    protected async writeComment(comment: Comment, exportable: AnnotationHolder): Promise<void> {
+        // noop
+    }
+
+    protected async writeFlashcard(flashcard: Flashcard, exportable: AnnotationHolder): Promise<void> {
+        // noop
+    }
+
+    public async close(err?: Error): Promise<void> {
+
+        if (this.docInfo) {
+
+            const quotes = [...this.quotes]
+                .sort((a, b) => (a.pageNum || 0) - (b.pageNum || 0) || a.created.localeCompare(b.created));
+
+            await this.writer!.write(this.render(this.docInfo, quotes));
+
+        }
+
+        return super.close(err);
+
+    }
+
+    /**
+     * Render the citation for the given document.
+     */
+    protected abstract render(docInfo: DocInfo, quotes: ReadonlyArray<Quote>): string;
+
+}
+
+export interface Quote {
+
+    readonly text: string;
+
+    /**
+     * The page number of the PageMeta holding the highlight.
+     */
+    readonly pageNum?: number;
+
+    readonly created: string;
+
+}
+
+export class Quotes {
+
+    public static format(quote: Quote) {
+
+        if (quote.pageNum !== undefined) {
+            return `"${quote.text}" (p. ${quote.pageNum})`;
+        }
+
+        return `"${quote.text}"`;
+
+    }
+
+}
+
+export class Citations {
+
+    /**
+     * Compute a citation key from the first word of the title and the year it
+     * was published.  We fall back to the fingerprint when there is no title.
+     */
+    public static createKey(docInfo: DocInfo): string {
+
+        const word = (docInfo.title || "").toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(current => current.length > 0)[0];
+
+        if (! word) {
+            return `polar_${docInfo.fingerprint}`.replace(/[^a-zA-Z0-9_]/g, '_');
+        }
+
+        const issued = this.toDateParts(docInfo);
+
+        return issued ? `${word}${issued[0]}` : word;
+
+    }
+
+    /**
+     * Parse the published date of the document into [year, month, day] parts
+     * depending on the precision available.
+     */
+    public static toDateParts(docInfo: DocInfo): number[] | undefined {
+
+        if (! docInfo.published) {
+            return undefined;
+        }
+
+        const match = docInfo.published.match(/^([0-9]{4})(-([0-9]{2}))?(-([0-9]{2}))?/);
+
+        if (! match) {
+            return undefined;
+        }
+
+        return [match[1], match[3], match[5]]
+            .filter(current => current !== undefined)
+            .map(current => parseInt(current));
+
+    }
+
+    public static toAuthors(docInfo: DocInfo): string[] {
+
+        return (docInfo.authors || [])
+            .map(current => current.name)
+            .filter(current => current && current.trim() !== '');
+
+    }
+
+    public static toTitle(docInfo: DocInfo): string | undefined {
+
+        if (docInfo.title && docInfo.subtitle) {
+            return `${docInfo.title}: ${docInfo.subtitle}`;
+        }
+
+        return docInfo.title || docInfo.filename;
+
+    }
+
+}
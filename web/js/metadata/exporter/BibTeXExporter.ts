@@ -0,0 +1,69 @@
+import {AbstractCitationExporter, Citations, Quote, Quotes} from './AbstractCitationExporter';
+import {DocInfo} from '../DocInfo';
+
+const ESCAPES: {[c: string]: string} = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '&': '\\&',
+    '%': '\\%',
+    '$': '\\$',
+    '#': '\\#',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Writes a BibTeX entry for the document with the text highlights as an
+ * annote field so they are imported as notes by reference managers.
+ */
+export class BibTeXExporter extends AbstractCitationExporter {
+
+    public readonly id: string = 'bibtex';
+
+    protected render(docInfo: DocInfo, quotes: ReadonlyArray<Quote>): string {
+
+        const fields: Array<[string, string | undefined]> = [];
+
+        const issued = Citations.toDateParts(docInfo);
+
+        const authors = Citations.toAuthors(docInfo);
+
+        fields.push(['title', Citations.toTitle(docInfo)]);
+        fields.push(['author', authors.length > 0 ? authors.join(" and ") : undefined]);
+        fields.push(['year', issued ? `${issued[0]}` : undefined]);
+        fields.push(['month', issued && issued.length > 1 ? MONTHS[issued[1] - 1] : undefined]);
+        fields.push(['url', docInfo.url]);
+        fields.push(['doi', docInfo.doi]);
+        fields.push(['abstract', docInfo.description]);
+
+        if (quotes.length > 0) {
+            fields.push(['annote', quotes.map(current => Quotes.format(current)).join("\n\n")]);
+        }
+
+        const body = fields
+            .filter(field => field[1] !== undefined)
+            .map(field => `  ${field[0]} = {${BibTeX.escape(field[1]!)}}`)
+            .join(",\n");
+
+        return `@misc{${Citations.createKey(docInfo)},\n${body}\n}\n`;
+
+    }
+
+}
+
+export class BibTeX {
+
+    /**
+     * Escape the characters that have a special meaning in BibTeX values.
+     */
+    public static escape(value: string): string {
+
+        return value.replace(/[\\{}&%$#_~^]/g, (c: string) => ESCAPES[c]);
+
+    }
+
+}
@@ -0,0 +1,52 @@
+import {BufferWriter} from './writers/BufferWriter';
+import {BibTeX, BibTeXExporter} from './BibTeXExporter';
+import {AnnotationType} from '../AnnotationType';
+import {assert} from 'chai';
+import {TestingTime} from '../../test/TestingTime';
+import {TextHighlights} from '../TextHighlights';
+import {PageInfo} from '../PageInfo';
+import {MockDocMetas} from '../DocMetas';
+
+describe('BibTeXExporter', function() {
+
+    it("basic", async function() {
+
+        TestingTime.freeze();
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 1);
+        const docInfo = docMeta.docInfo;
+        docInfo.title = "Attention is all you need";
+        docInfo.url = "https://arxiv.org/abs/1706.03762";
+        docInfo.published = "2017-06-12";
+
+        const writer = new BufferWriter();
+
+        const exporter = new BibTeXExporter();
+
+        await exporter.init(writer);
+
+        const textHighlight = TextHighlights.createMockTextHighlight();
+
+        await exporter.write({type: AnnotationType.TEXT_HIGHLIGHT, annotation: textHighlight,
+                              pageInfo: new PageInfo({num: 3}), docInfo});
+
+        await exporter.close();
+
+        const expected =
+            "@misc{attention2017,\n" +
+            "  title = {Attention is all you need},\n" +
+            "  year = {2017},\n" +
+            "  month = {jun},\n" +
+            "  url = {https://arxiv.org/abs/1706.03762},\n" +
+            "  annote = {\"hello world\" (p. 3)}\n" +
+            "}\n";
+
+        assert.equal(writer.toString(), expected);
+
+    });
+
+    it("escape", function() {
+        assert.equal(BibTeX.escape("50% of {R&D}_x"), "50\\% of \\{R\\&D\\}\\_x");
+    });
+
+});
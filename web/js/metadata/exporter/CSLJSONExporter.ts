@@ -0,0 +1,100 @@
+import {AbstractCitationExporter, Citations, Quote, Quotes} from './AbstractCitationExporter';
+import {DocInfo} from '../DocInfo';
+
+/**
+ * Writes the document as a CSL-JSON item (as used by Zotero, Mendeley, pandoc,
+ * etc) with the text highlights as an annote.
+ */
+export class CSLJSONExporter extends AbstractCitationExporter {
+
+    public readonly id: string = 'csl-json';
+
+    protected render(docInfo: DocInfo, quotes: ReadonlyArray<Quote>): string {
+
+        const issued = Citations.toDateParts(docInfo);
+
+        const item: CSLItem = {
+            id: Citations.createKey(docInfo),
+            type: this.toType(docInfo),
+            title: Citations.toTitle(docInfo),
+            author: this.toAuthors(docInfo),
+            URL: docInfo.url,
+            DOI: docInfo.doi,
+            abstract: docInfo.description,
+            issued: issued ? {'date-parts': [issued]} : undefined,
+            annote: quotes.length > 0 ? quotes.map(current => Quotes.format(current)).join("\n\n") : undefined
+        };
+
+        return JSON.stringify([item], null, "  ") + "\n";
+
+    }
+
+    private toAuthors(docInfo: DocInfo): CSLName[] | undefined {
+
+        const authors = Citations.toAuthors(docInfo);
+
+        if (authors.length === 0) {
+            return undefined;
+        }
+
+        return authors.map(name => {
+
+            const idx = name.trim().lastIndexOf(" ");
+
+            if (idx === -1) {
+                return {literal: name};
+            }
+
+            return {given: name.substring(0, idx).trim(), family: name.substring(idx + 1)};
+
+        });
+
+    }
+
+    private toType(docInfo: DocInfo) {
+
+        if (docInfo.filename && docInfo.filename.endsWith('.phz')) {
+            return 'webpage';
+        }
+
+        if (docInfo.filename && docInfo.filename.endsWith('.epub')) {
+            return 'book';
+        }
+
+        return 'article';
+
+    }
+
+}
+
+interface CSLItem {
+
+    readonly id: string;
+
+    readonly type: string;
+
+    readonly title?: string;
+
+    readonly author?: CSLName[];
+
+    readonly URL?: string;
+
+    readonly DOI?: string;
+
+    readonly abstract?: string;
+
+    readonly issued?: {'date-parts': number[][]};
+
+    readonly annote?: string;
+
+}
+
+interface CSLName {
+
+    readonly given?: string;
+
+    readonly family?: string;
+
+    readonly literal?: string;
+
+}
@@ -0,0 +1,56 @@
+import {BufferWriter} from './writers/BufferWriter';
+import {CSLJSONExporter} from './CSLJSONExporter';
+import {AnnotationType} from '../AnnotationType';
+import {TestingTime} from '../../test/TestingTime';
+import {TextHighlights} from '../TextHighlights';
+import {PageInfo} from '../PageInfo';
+import {MockDocMetas} from '../DocMetas';
+import {assertJSON} from '../../test/Assertions';
+
+describe('CSLJSONExporter', function() {
+
+    it("basic", async function() {
+
+        TestingTime.freeze();
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 1);
+        const docInfo = docMeta.docInfo;
+        docInfo.title = "Attention is all you need";
+        docInfo.published = "2017-06-12";
+
+        const writer = new BufferWriter();
+
+        const exporter = new CSLJSONExporter();
+
+        await exporter.init(writer);
+
+        const textHighlight = TextHighlights.createMockTextHighlight();
+
+        await exporter.write({type: AnnotationType.TEXT_HIGHLIGHT, annotation: textHighlight,
+                              pageInfo: new PageInfo({num: 3}), docInfo});
+
+        await exporter.close();
+
+        const expected = [
+            {
+                "id": "attention2017",
+                "type": "article",
+                "title": "Attention is all you need",
+                "issued": {
+                    "date-parts": [
+                        [
+                            2017,
+                            6,
+                            12
+                        ]
+                    ]
+                },
+                "annote": "\"hello world\" (p. 3)"
+            }
+        ];
+
+        assertJSON(writer.toString(), expected);
+
+    });
+
+});
@@ -8,8 +8,14 @@ import {AnnotationHolder} from '../AnnotationHolder';
 import {FileWriter} from './writers/FileWriter';
 import {MarkdownExporter} from './MarkdownExporter';
 import {JSONExporter} from './JSONExporter';
+import {HTMLExporter} from './HTMLExporter';
+import {BibTeXExporter} from './BibTeXExporter';
+import {CSLJSONExporter} from './CSLJSONExporter';
 import {DocMeta} from '../DocMeta';
 import {AnnotationHolders} from '../AnnotationHolders';
+import {AnnotationType} from '../AnnotationType';
+import {BaseHighlight} from '../BaseHighlight';
+import {HighlightCategories, HighlightCategory, HighlightCategoryFilter} from '../HighlightCategories';
 
 /**
  * Exporter provides a mechanism to write data from the internal Polar JSON
@@ -24,18 +30,36 @@ export class Exporters {
 
     public static async doExport(path: string,
                                  format: ExportFormat,
-                                 docMeta: DocMeta): Promise<void> {
+                                 docMeta: DocMeta,
+                                 opts: ExportOpts = {}): Promise<void> {
 
         const writer = new FileWriter(path);
 
         await writer.init();
 
+        await this.exportDocMeta(writer, format, docMeta, opts);
+
+        await writer.close();
+
+    }
+
+    /**
+     * Export all the annotations in the given DocMeta to an already
+     * initialized writer.  The writer is not closed so the caller can use this
+     * to write multiple documents or handle closing the writer itself.
+     */
+    public static async exportDocMeta(writer: Writable,
+                                      format: ExportFormat,
+                                      docMeta: DocMeta,
+                                      opts: ExportOpts = {}): Promise<void> {
+
         // create the exporter (markdown, html, etc)
         const exporter = this.toExporter(format);
 
         await exporter.init(writer);
 
         const annotationHolders = [...AnnotationHolders.fromDocMeta(docMeta)]
+            .filter(current => this.acceptCategory(current, opts))
             .sort((a, b) => a.annotation.created.localeCompare(b.annotation.created));
 
         for (const annotationHolder of annotationHolders) {
@@ -46,6 +70,34 @@ export class Exporters {
 
     }
 
+    private static acceptCategory(annotationHolder: AnnotationHolder, opts: ExportOpts) {
+
+        const isHighlight = [AnnotationType.TEXT_HIGHLIGHT, AnnotationType.AREA_HIGHLIGHT]
+            .includes(annotationHolder.type);
+
+        const highlight = isHighlight ? <BaseHighlight> annotationHolder.annotation : undefined;
+
+        return HighlightCategories.accept(highlight, opts.categories || [], opts.highlightCategories);
+
+    }
+
+    public static toExtension(format: ExportFormat) {
+
+        switch (format) {
+            case 'markdown':
+                return 'md';
+            case 'html':
+                return 'html';
+            case 'json':
+                return 'json';
+            case 'bibtex':
+                return 'bib';
+            case 'csl-json':
+                return 'json';
+        }
+
+    }
+
     private static toExporter(format: ExportFormat) {
 
         switch (format) {
@@ -57,7 +109,13 @@ export class Exporters {
                 return new JSONExporter();
 
             case 'html':
-                throw new Error("not supported yet");
+                return new HTMLExporter();
+
+            case 'bibtex':
+                return new BibTeXExporter();
+
+            case 'csl-json':
+                return new CSLJSONExporter();
 
         }
 
@@ -65,6 +123,21 @@ export class Exporters {
 
 }
 
+export interface ExportOpts {
+
+    /**
+     * Only export the highlights in these categories.
+     */
+    readonly categories?: HighlightCategoryFilter;
+
+    /**
+     * The user's categories, used to find the category of highlights
+     * created before categories were introduced.
+     */
+    readonly highlightCategories?: ReadonlyArray<HighlightCategory>;
+
+}
+
 /**
  *
  */
@@ -115,10 +188,25 @@ export interface Writer extends Writable {
 
 }
 
+/**
+ * A writer which produces multiple named entries in a single output such as
+ * a zip file. Each entry is written through its own Writer which must be
+ * closed before the next entry is created.
+ */
+export interface BundleWriter {
+
+    init(): Promise<void>;
+
+    createEntry(path: string): Promise<Writer>;
+
+    close(err?: Error): Promise<void>;
+
+}
+
 /**
  * A supplier that provides an exportable when called. We use a supplier to
  * avoid having to keep everything in memory during an export.
  */
 export type ExportableSupplier = () => Promise<ReadonlyArray<AnnotationHolder>>;
 
-export type ExportFormat = 'html' | 'markdown' | 'json';
+export type ExportFormat = 'html' | 'markdown' | 'json' | 'bibtex' | 'csl-json';
@@ -0,0 +1,204 @@
+import {AnnotationHolder} from "../AnnotationHolder";
+import {TextHighlight} from "../TextHighlight";
+import {AreaHighlight} from '../AreaHighlight';
+import {AbstractExporter} from './AbstractExporter';
+import {Flashcard} from '../Flashcard';
+import {Comment} from '../Comment';
+import {Text} from '../Text';
+import {Texts} from "../Texts";
+import {DocInfo} from '../DocInfo';
+import {HighlightColor} from '../BaseHighlight';
+import {HTMLSanitizer} from '../../highlights/text/selection/HTMLSanitizer';
+import {HTMLString} from '../../util/HTMLString';
+
+/**
+ * Exports annotations to a single, self-contained HTML document.  The styles
+ * are inlined and area highlight images are kept as their data: URLs so the
+ * resulting file can be opened by anyone without Polar installed.
+ *
+ * Annotations are grouped by the page they were created on so we buffer the
+ * rendered fragments and only write the document once the export is closed.
+ */
+export class HTMLExporter extends AbstractExporter {
+
+    public readonly id: string = 'html';
+
+    private docInfo?: DocInfo;
+
+    /**
+     * The rendered HTML for each annotation keyed by page number.
+     */
+    private pages: {[num: number]: HTMLString[]} = {};
+
+    public async write(exportable: AnnotationHolder): Promise<void> {
+
+        if (! this.docInfo && exportable.docInfo) {
+            this.docInfo = exportable.docInfo;
+        }
+
+        await super.write(exportable);
+
+    }
+
+    protected async writeAreaHighlight(areaHighlight: AreaHighlight, exportable: AnnotationHolder): Promise<void> {
+
+        const image = areaHighlight.image || Object.values(areaHighlight.images || {})[0];
+
+        const body = image ?
+            `<img class="area-highlight-image" src="${escape(image.src)}"/>` :
+            `<p class="missing-image">No image captured for this highlight.</p>`;
+
+        this.addFragment(exportable,
+                         `<div class="annotation area-highlight" style="${this.toColorStyle(areaHighlight.color)}">\n` +
+                         `${body}\n` +
+                         `${this.toFooter('area highlight', areaHighlight.created)}\n` +
+                         `</div>\n`);
+
+    }
+
+    protected async writeTextHighlight(textHighlight: TextHighlight, exportable: AnnotationHolder): Promise<void> {
+
+        this.addFragment(exportable,
+                         `<blockquote class="annotation text-highlight" style="${this.toColorStyle(textHighlight.color)}">\n` +
+                         `${this.toHTML(textHighlight.text)}\n` +
+                         `${this.toFooter('text highlight', textHighlight.created)}\n` +
+                         `</blockquote>\n`);
+
+    }
+
+    protected async writeComment(comment: Comment, exportable: AnnotationHolder): Promise<void> {
+
+        this.addFragment(exportable,
+                         `<div class="annotation comment">\n` +
+                         `${this.toHTML(comment.content)}\n` +
+                         `${this.toFooter('comment', comment.created)}\n` +
+                         `</div>\n`);
+
+    }
+
+    protected async writeFlashcard(flashcard: Flashcard, exportable: AnnotationHolder): Promise<void> {
+
+        const fields = Object.keys(flashcard.fields)
+            .map(fieldName => `<dt>${escape(fieldName)}</dt>\n` +
+                              `<dd>${this.toHTML(flashcard.fields[fieldName])}</dd>\n`)
+            .join("");
+
+        this.addFragment(exportable,
+                         `<div class="annotation flashcard">\n` +
+                         `<dl>\n${fields}</dl>\n` +
+                         `${this.toFooter('flashcard', flashcard.created)}\n` +
+                         `</div>\n`);
+
+    }
+
+    public async close(err?: Error): Promise<void> {
+
+        const writer = this.writer!;
+
+        const title = this.docInfo && this.docInfo.title ? this.docInfo.title : 'Annotations';
+
+        await writer.write("<!DOCTYPE html>\n");
+        await writer.write("<html>\n");
+        await writer.write("<head>\n");
+        await writer.write("<meta charset=\"utf-8\">\n");
+        await writer.write(`<title>${escape(title)}</title>\n`);
+        await writer.write(`<style>\n${STYLESHEET}</style>\n`);
+        await writer.write("</head>\n");
+        await writer.write("<body>\n");
+        await writer.write(`<h1>${escape(title)}</h1>\n`);
+
+        if (this.docInfo && this.docInfo.url) {
+            const url = escape(this.docInfo.url);
+            await writer.write(`<p class="source"><a href="${url}">${url}</a></p>\n`);
+        }
+
+        const pageNums = Object.keys(this.pages)
+            .map(current => parseInt(current))
+            .sort((a, b) => a - b);
+
+        for (const pageNum of pageNums) {
+
+            await writer.write(`<section class="page">\n`);
+            await writer.write(`<h2>Page ${pageNum}</h2>\n`);
+
+            for (const fragment of this.pages[pageNum]) {
+                await writer.write(fragment);
+            }
+
+            await writer.write(`</section>\n`);
+
+        }
+
+        await writer.write("</body>\n");
+        await writer.write("</html>\n");
+
+        return super.close(err);
+
+    }
+
+    private addFragment(exportable: AnnotationHolder, html: HTMLString) {
+
+        // annotations not bound to a page are placed on page zero so they sort
+        // before everything else.
+        const pageNum = exportable.pageInfo ? exportable.pageInfo.num : 0;
+
+        const fragments = this.pages[pageNum] = this.pages[pageNum] || [];
+        fragments.push(html);
+
+    }
+
+    private toHTML(text?: Text | string): HTMLString {
+
+        if (text && typeof text !== 'string' && text.HTML) {
+            return HTMLSanitizer.sanitize(text.HTML);
+        }
+
+        const body = Texts.toString(text) || "";
+
+        return `<p>${escape(body).replace(/\n/g, "<br/>\n")}</p>`;
+
+    }
+
+    private toFooter(type: string, created: string): HTMLString {
+        return `<div class="meta">${escape(type)} &middot; ${escape(created)}</div>`;
+    }
+
+    private toColorStyle(color?: HighlightColor) {
+
+        // highlights without a color are rendered in yellow which matches the
+        // default in the viewer.
+        return `border-left-color: ${COLORS[color || 'yellow']};`;
+
+    }
+
+}
+
+function escape(value: string): string {
+
+    return value.replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#39;');
+
+}
+
+const COLORS: {[color: string]: string} = {
+    yellow: 'rgb(255, 255, 0)',
+    red: 'rgb(255, 0, 0)',
+    green: 'rgb(0, 255, 0)',
+    blue: 'rgb(0, 0, 255)',
+    transparent: 'rgb(200, 200, 200)'
+};
+
+const STYLESHEET =
+    "body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; color: #222; }\n" +
+    "h1 { border-bottom: 1px solid #ddd; padding-bottom: 10px; }\n" +
+    "h2 { font-size: 18px; color: #555; margin-top: 30px; }\n" +
+    ".annotation { margin: 10px 0; padding: 5px 10px; border-left: 4px solid #ddd; }\n" +
+    ".text-highlight { font-style: italic; }\n" +
+    ".area-highlight-image { max-width: 100%; }\n" +
+    ".comment { background-color: #f5f5f5; }\n" +
+    ".flashcard dt { font-weight: bold; text-transform: capitalize; }\n" +
+    ".meta { font-size: 11px; color: #888; font-style: normal; }\n";
+
@@ -0,0 +1,63 @@
+import {BufferWriter} from './writers/BufferWriter';
+import {HTMLExporter} from './HTMLExporter';
+import {Comments} from '../Comments';
+import {AnnotationType} from '../AnnotationType';
+import {assert} from 'chai';
+import {TestingTime} from '../../test/TestingTime';
+import {TextHighlights} from '../TextHighlights';
+import {PageInfo} from '../PageInfo';
+
+describe('HTMLExporter', function() {
+
+    it("basic", async function() {
+
+        TestingTime.freeze();
+
+        const writer = new BufferWriter();
+
+        const exporter = new HTMLExporter();
+
+        await exporter.init(writer);
+
+        const comment = Comments.createTextComment("hello <world>", 'page:1');
+
+        await exporter.write({type: AnnotationType.COMMENT, annotation: comment, pageInfo: new PageInfo({num: 1})});
+
+        await exporter.close();
+
+        const html = writer.toString();
+
+        assert.ok(html.startsWith("<!DOCTYPE html>"));
+        assert.include(html, "<title>Annotations</title>");
+        assert.include(html, "<h2>Page 1</h2>");
+        assert.include(html, "<p>hello &lt;world&gt;</p>");
+
+    });
+
+    it("grouped by page", async function() {
+
+        TestingTime.freeze();
+
+        const writer = new BufferWriter();
+
+        const exporter = new HTMLExporter();
+
+        await exporter.init(writer);
+
+        const textHighlight = TextHighlights.createMockTextHighlight();
+        const comment = Comments.createTextComment("a comment", 'page:1');
+
+        await exporter.write({type: AnnotationType.TEXT_HIGHLIGHT, annotation: textHighlight, pageInfo: new PageInfo({num: 3})});
+        await exporter.write({type: AnnotationType.COMMENT, annotation: comment, pageInfo: new PageInfo({num: 1})});
+
+        await exporter.close();
+
+        const html = writer.toString();
+
+        assert.ok(html.indexOf("<h2>Page 1</h2>") < html.indexOf("<h2>Page 3</h2>"));
+        assert.ok(html.indexOf("a comment") < html.indexOf("hello world"));
+
+    });
+
+});
+
@@ -0,0 +1,266 @@
+import {BundleWriter, ExportFormat, Exporters, Writer} from './Exporters';
+import {PersistenceLayer} from '../../datastore/PersistenceLayer';
+import {DocInfo} from '../DocInfo';
+import {Filenames} from '../../util/Filenames';
+import {Logger} from '../../logger/Logger';
+import {ProgressListener, ProgressTracker} from '../../util/ProgressTracker';
+import {NULL_FUNCTION} from '../../util/Functions';
+import {isPresent} from '../../Preconditions';
+import {HighlightCategory, HighlightCategoryFilter} from '../HighlightCategories';
+
+const log = Logger.create();
+
+/**
+ * Exports every document in a PersistenceLayer into a bundle (usually a zip
+ * file) with one file per document and an index listing all the documents.
+ *
+ * DocMetas are read, exported, and released one at a time so that we never
+ * have the entire library in memory at once.
+ */
+export class LibraryExporter {
+
+    private readonly persistenceLayer: PersistenceLayer;
+
+    private readonly highlightCategories?: ReadonlyArray<HighlightCategory>;
+
+    /**
+     * @param highlightCategories The user's highlight categories used when
+     * filtering by category.
+     */
+    constructor(persistenceLayer: PersistenceLayer, highlightCategories?: ReadonlyArray<HighlightCategory>) {
+        this.persistenceLayer = persistenceLayer;
+        this.highlightCategories = highlightCategories;
+    }
+
+    public async doExport(bundleWriter: BundleWriter,
+                          format: ExportFormat,
+                          filter: LibraryExportFilter = {},
+                          progressListener: ProgressListener = NULL_FUNCTION): Promise<LibraryExportResult> {
+
+        const docMetaFiles = await this.persistenceLayer.getDocMetaFiles();
+
+        const progressTracker = new ProgressTracker(docMetaFiles.length, 'library-export');
+
+        const entries: LibraryIndexEntry[] = [];
+
+        const ext = Exporters.toExtension(format);
+
+        await bundleWriter.init();
+
+        try {
+
+            for (const docMetaFile of docMetaFiles) {
+
+                const docMeta = await this.persistenceLayer.getDocMeta(docMetaFile.fingerprint);
+
+                if (! docMeta) {
+                    log.warn("No DocMeta for fingerprint: " + docMetaFile.fingerprint);
+                } else if (LibraryExportFilters.accept(docMeta.docInfo, filter)) {
+
+                    const docInfo = docMeta.docInfo;
+                    const path = `docs/${LibraryExporter.toBasename(docInfo)}.${ext}`;
+
+                    await this.writeEntry(bundleWriter, path, async writer => {
+                        await Exporters.exportDocMeta(writer, format, docMeta, {
+                            categories: filter.categories,
+                            highlightCategories: this.highlightCategories
+                        });
+                    });
+
+                    entries.push({
+                        fingerprint: docInfo.fingerprint,
+                        title: docInfo.title || docInfo.filename || docInfo.fingerprint,
+                        path,
+                        tags: Object.values(docInfo.tags || {}).map(current => current.label),
+                        nrAnnotations: docInfo.nrAnnotations || 0
+                    });
+
+                }
+
+                progressListener(progressTracker.incr());
+
+            }
+
+            const indexFormat = LibraryIndexes.toIndexFormat(format);
+
+            await this.writeEntry(bundleWriter, `index.${Exporters.toExtension(indexFormat)}`, async writer => {
+                await writer.write(LibraryIndexes.render(indexFormat, entries));
+            });
+
+        } catch (e) {
+            await bundleWriter.close(e);
+            throw e;
+        }
+
+        await bundleWriter.close();
+
+        return {entries};
+
+    }
+
+    private async writeEntry(bundleWriter: BundleWriter,
+                             path: string,
+                             delegate: (writer: Writer) => Promise<void>) {
+
+        const writer = await bundleWriter.createEntry(path);
+
+        await writer.init();
+
+        try {
+            await delegate(writer);
+        } catch (e) {
+            await writer.close(e);
+            throw e;
+        }
+
+        await writer.close();
+
+    }
+
+    /**
+     * Compute a filename for the document that is readable but still unique
+     * across the library by including the fingerprint.
+     */
+    private static toBasename(docInfo: DocInfo) {
+
+        const title = docInfo.title || docInfo.filename;
+
+        if (title) {
+            return `${Filenames.sanitize(title).substring(0, 50)}-${docInfo.fingerprint}`;
+        }
+
+        return docInfo.fingerprint;
+
+    }
+
+}
+
+export class LibraryExportFilters {
+
+    /**
+     * Return true if the given document should be included in the export.
+     * All set constraints on the filter must match.
+     */
+    public static accept(docInfo: DocInfo, filter: LibraryExportFilter): boolean {
+
+        if (isPresent(filter.archived) && docInfo.archived !== filter.archived) {
+            return false;
+        }
+
+        if (isPresent(filter.flagged) && docInfo.flagged !== filter.flagged) {
+            return false;
+        }
+
+        if (filter.tags && filter.tags.length > 0) {
+
+            const tags = Object.values(docInfo.tags || {}).map(current => current.id);
+
+            for (const tag of filter.tags) {
+                if (! tags.includes(tag)) {
+                    return false;
+                }
+            }
+
+        }
+
+        return true;
+
+    }
+
+}
+
+export class LibraryIndexes {
+
+    /**
+     * Citation formats can't represent an index so we fall back to markdown.
+     */
+    public static toIndexFormat(format: ExportFormat): IndexFormat {
+
+        switch (format) {
+
+            case 'markdown':
+            case 'json':
+            case 'html':
+                return format;
+
+            default:
+                return 'markdown';
+
+        }
+
+    }
+
+    public static render(format: IndexFormat, entries: ReadonlyArray<LibraryIndexEntry>): string {
+
+        switch (format) {
+
+            case 'markdown':
+                return "# Polar Library\n\n" +
+                       entries.map(current => `- [${current.title}](${current.path}) (${current.nrAnnotations} annotations)\n`)
+                              .join("");
+
+            case 'json':
+                return JSON.stringify({version: 1, documents: entries}, null, "  ");
+
+            case 'html':
+                return "<!DOCTYPE html>\n<html>\n<head>\n<meta charset=\"utf-8\">\n<title>Polar Library</title>\n</head>\n<body>\n" +
+                       "<h1>Polar Library</h1>\n<ul>\n" +
+                       entries.map(current => `<li><a href="${encodeURI(current.path)}">${this.escape(current.title)}</a> (${current.nrAnnotations} annotations)</li>\n`)
+                              .join("") +
+                       "</ul>\n</body>\n</html>\n";
+
+        }
+
+    }
+
+    private static escape(value: string) {
+        return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+}
+
+export type IndexFormat = 'markdown' | 'json' | 'html';
+
+/**
+ * Constraints on which documents are exported.  Unset fields match every
+ * document.
+ */
+export interface LibraryExportFilter {
+
+    /**
+     * Only export documents with ALL of the given tag IDs.
+     */
+    readonly tags?: ReadonlyArray<string>;
+
+    readonly archived?: boolean;
+
+    readonly flagged?: boolean;
+
+    /**
+     * Only export the highlights in these categories.  Documents are still
+     * exported when they have no highlights in the categories.
+     */
+    readonly categories?: HighlightCategoryFilter;
+
+}
+
+export interface LibraryIndexEntry {
+
+    readonly fingerprint: string;
+
+    readonly title: string;
+
+    /**
+     * The path of the exported document within the bundle.
+     */
+    readonly path: string;
+
+    readonly tags: ReadonlyArray<string>;
+
+    readonly nrAnnotations: number;
+
+}
+
+export interface LibraryExportResult {
+    readonly entries: ReadonlyArray<LibraryIndexEntry>;
+}
@@ -0,0 +1,88 @@
+import {assert} from 'chai';
+import {BundleWriter, Writer} from './Exporters';
+import {BufferWriter} from './writers/BufferWriter';
+import {LibraryExporter, LibraryExportFilters} from './LibraryExporter';
+import {MemoryDatastore} from '../../datastore/MemoryDatastore';
+import {DefaultPersistenceLayer} from '../../datastore/DefaultPersistenceLayer';
+import {MockDocMetas} from '../DocMetas';
+import {Comments} from '../Comments';
+import {TestingTime} from '../../test/TestingTime';
+
+describe('LibraryExporter', function() {
+
+    it("basic", async function() {
+
+        TestingTime.freeze();
+
+        const persistenceLayer = new DefaultPersistenceLayer(new MemoryDatastore());
+        await persistenceLayer.init();
+
+        const docMeta0 = MockDocMetas.createWithinInitialPagemarks('0x001', 1);
+        docMeta0.docInfo.title = "First Document";
+        const comment = Comments.createTextComment("hello world", 'page:1');
+        docMeta0.pageMetas[1].comments[comment.id] = comment;
+
+        const docMeta1 = MockDocMetas.createWithinInitialPagemarks('0x002', 1);
+        docMeta1.docInfo.archived = true;
+
+        await persistenceLayer.writeDocMeta(docMeta0);
+        await persistenceLayer.writeDocMeta(docMeta1);
+
+        const bundleWriter = new MockBundleWriter();
+
+        const libraryExporter = new LibraryExporter(persistenceLayer);
+
+        const result = await libraryExporter.doExport(bundleWriter, 'markdown', {archived: false});
+
+        assert.equal(result.entries.length, 1);
+
+        assert.deepEqual(Object.keys(bundleWriter.entries).sort(),
+                         ['docs/First_Document-0x001.md', 'index.md']);
+
+        assert.include(bundleWriter.entries['docs/First_Document-0x001.md'].toString(), "hello world");
+        assert.include(bundleWriter.entries['index.md'].toString(),
+                       "- [First Document](docs/First_Document-0x001.md)");
+
+        assert.ok(bundleWriter.closed);
+
+    });
+
+});
+
+describe('LibraryExportFilters', function() {
+
+    it("tags", function() {
+
+        const docMeta = MockDocMetas.createWithinInitialPagemarks('0x001', 1);
+        docMeta.docInfo.tags = {
+            'wiki': {id: 'wiki', label: 'wiki'}
+        };
+
+        assert.ok(LibraryExportFilters.accept(docMeta.docInfo, {}));
+        assert.ok(LibraryExportFilters.accept(docMeta.docInfo, {tags: ['wiki']}));
+        assert.isFalse(LibraryExportFilters.accept(docMeta.docInfo, {tags: ['wiki', 'other']}));
+        assert.isFalse(LibraryExportFilters.accept(docMeta.docInfo, {flagged: true}));
+
+    });
+
+});
+
+class MockBundleWriter implements BundleWriter {
+
+    public readonly entries: {[path: string]: BufferWriter} = {};
+
+    public closed: boolean = false;
+
+    public async init(): Promise<void> {
+        // noop
+    }
+
+    public async createEntry(path: string): Promise<Writer> {
+        return this.entries[path] = new BufferWriter();
+    }
+
+    public async close(err?: Error): Promise<void> {
+        this.closed = true;
+    }
+
+}
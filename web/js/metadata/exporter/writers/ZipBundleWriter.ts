@@ -0,0 +1,188 @@
+import JSZip from 'jszip';
+import fs from 'fs';
+import {Readable} from 'stream';
+import {BundleWriter, Writer} from '../Exporters';
+import {Preconditions} from '../../../Preconditions';
+import {Files} from '../../../util/Files';
+import {FilePaths} from '../../../util/FilePaths';
+import {Hashcodes} from '../../../Hashcodes';
+
+/**
+ * Writes each entry of a bundle into a zip file.
+ *
+ * Entries are spooled to temporary files while they're written and only read
+ * back when the zip is streamed to disk on close so that the contents of a
+ * large library are never all in memory at once.
+ */
+export class ZipBundleWriter implements BundleWriter {
+
+    private readonly path: string;
+
+    private readonly spoolDir: string;
+
+    private zip?: JSZip;
+
+    private nrEntries: number = 0;
+
+    constructor(path: string) {
+        this.path = path;
+        this.spoolDir = FilePaths.createTempName('polar-zip-bundle-' + Hashcodes.createRandomID());
+    }
+
+    public async init(): Promise<void> {
+        await Files.createDirAsync(this.spoolDir);
+        this.zip = new JSZip();
+    }
+
+    public async createEntry(path: string): Promise<Writer> {
+
+        Preconditions.assertPresent(this.zip, "not initialized");
+
+        const spoolPath = FilePaths.join(this.spoolDir, `${this.nrEntries++}`);
+
+        return new ZipEntryWriter(this.zip!, path, spoolPath);
+
+    }
+
+    public async close(err?: Error): Promise<void> {
+
+        try {
+
+            if (err || ! this.zip) {
+                // don't write a partial archive.
+                return;
+            }
+
+            await this.writeZip(this.zip);
+
+        } finally {
+            await Files.removeDirectoryRecursivelyAsync(this.spoolDir);
+        }
+
+    }
+
+    private writeZip(zip: JSZip): Promise<void> {
+
+        return new Promise<void>((resolve, reject) => {
+
+            const options: JSZip.JSZipGeneratorOptions<'nodebuffer'> = {
+                type: 'nodebuffer',
+                streamFiles: true,
+                compression: "DEFLATE",
+                compressionOptions: {
+                    level: 9
+                }
+            };
+
+            zip.generateNodeStream(options)
+                .on('error', function(err: Error) {
+                    reject(err);
+                })
+                .pipe(fs.createWriteStream(this.path))
+                .on('error', function(err: Error) {
+                    reject(err);
+                })
+                .on('finish', function() {
+                    resolve();
+                });
+
+        });
+
+    }
+
+}
+
+class ZipEntryWriter implements Writer {
+
+    private readonly zip: JSZip;
+
+    private readonly path: string;
+
+    private readonly spoolPath: string;
+
+    private stream?: fs.WriteStream;
+
+    constructor(zip: JSZip, path: string, spoolPath: string) {
+        this.zip = zip;
+        this.path = path;
+        this.spoolPath = spoolPath;
+    }
+
+    public async init(): Promise<void> {
+        this.stream = Files.createWriteStream(this.spoolPath);
+    }
+
+    public async write(data: string): Promise<void> {
+
+        Preconditions.assertPresent(this.stream, "no stream");
+
+        const stream = this.stream!;
+
+        if (! stream.write(data)) {
+            await new Promise<void>(resolve => stream.once('drain', () => resolve()));
+        }
+
+    }
+
+    public async close(err?: Error): Promise<void> {
+
+        if (this.stream) {
+
+            const stream = this.stream;
+
+            await new Promise<void>((resolve, reject) => {
+                stream.once('error', reject);
+                stream.end(() => resolve());
+            });
+
+        }
+
+        if (! err) {
+            this.zip.file(this.path, new SpoolFileReadable(this.spoolPath));
+        }
+
+    }
+
+}
+
+/**
+ * Reads a spooled entry but only opens the file once the zip starts reading
+ * it.  JSZip takes the streams of all the entries up front so opening them
+ * right away would need a file descriptor per document.
+ */
+class SpoolFileReadable extends Readable {
+
+    private readonly path: string;
+
+    private stream?: fs.ReadStream;
+
+    constructor(path: string) {
+        super();
+        this.path = path;
+    }
+
+    public _read() {
+
+        if (this.stream) {
+            this.stream.resume();
+            return;
+        }
+
+        const stream = Files.createReadStream(this.path);
+
+        stream.on('data', chunk => {
+
+            if (! this.push(chunk)) {
+                stream.pause();
+            }
+
+        });
+
+        stream.on('end', () => this.push(null));
+        stream.on('error', err => this.emit('error', err));
+
+        this.stream = stream;
+
+    }
+
+}
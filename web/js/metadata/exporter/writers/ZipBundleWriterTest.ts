@@ -0,0 +1,43 @@
+import {assert} from 'chai';
+import JSZip from 'jszip';
+import {ZipBundleWriter} from './ZipBundleWriter';
+import {FilePaths} from '../../../util/FilePaths';
+import {Files} from '../../../util/Files';
+
+describe('ZipBundleWriter', function() {
+
+    it("basic", async function() {
+
+        const path = FilePaths.createTempName('zip-bundle-writer-test.zip');
+
+        const bundleWriter = new ZipBundleWriter(path);
+
+        await bundleWriter.init();
+
+        for (const name of ['docs/first.md', 'docs/second.md', 'index.md']) {
+
+            const writer = await bundleWriter.createEntry(name);
+            await writer.init();
+            await writer.write(`# ${name}\n`);
+            await writer.write("hello world\n");
+            await writer.close();
+
+        }
+
+        const failed = await bundleWriter.createEntry('failed.md');
+        await failed.init();
+        await failed.write("partial");
+        await failed.close(new Error("failed"));
+
+        await bundleWriter.close();
+
+        const zip = await JSZip.loadAsync(await Files.readFileAsync(path));
+
+        assert.deepEqual(Object.keys(zip.files).filter(current => ! zip.files[current].dir).sort(),
+                         ['docs/first.md', 'docs/second.md', 'index.md']);
+
+        assert.equal(await zip.file('docs/second.md').async('text'), "# docs/second.md\nhello world\n");
+
+    });
+
+});
@@ -0,0 +1,479 @@
+import JSZip from 'jszip';
+import {PHZReader} from './PHZReader';
+import {ResourceEntry} from './ResourceEntry';
+import {Resource} from './Resource';
+import {Files} from '../util/Files';
+import {FilePaths} from '../util/FilePaths';
+import {Logger} from '../logger/Logger';
+
+const log = Logger.create();
+
+const METADATA_PATH = 'metadata.json';
+
+const RESOURCES_PATH = 'resources.json';
+
+/**
+ * The metadata fields that every captured page has.
+ */
+const REQUIRED_METADATA_FIELDS = ['type', 'version', 'title', 'url'];
+
+/**
+ * Looks inside a PHZ archive so that broken captures can be debugged without
+ * unzipping them by hand.  Lists the files and resources, validates the
+ * metadata and resource index, and can extract and repack the archive.
+ */
+export class PHZInspector {
+
+    public readonly path: string;
+
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    public async inspect(): Promise<PHZInspection> {
+
+        const phzReader = new PHZReader(this.path);
+        await phzReader.init();
+
+        try {
+            return await this.doInspect(phzReader, phzReader.zip!);
+        } finally {
+            await phzReader.close();
+        }
+
+    }
+
+    /**
+     * Write every file in the archive to the given directory.
+     */
+    public async extract(dir: string): Promise<string[]> {
+
+        const zip = await this.readZip();
+
+        await Files.createDirAsync(dir);
+
+        const result: string[] = [];
+
+        for (const file of this.listFiles(zip)) {
+
+            const path = FilePaths.join(dir, ...this.toSafePath(file.name).split('/'));
+
+            await this.createParentDirs(dir, file.name);
+            await Files.writeFileAsync(path, await file.async('nodebuffer'));
+
+            result.push(file.name);
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Create a PHZ archive from a directory created with extract().
+     */
+    public static async repack(dir: string, path: string): Promise<void> {
+
+        if (! await Files.existsAsync(FilePaths.join(dir, RESOURCES_PATH))) {
+            throw new Error(`Not an extracted PHZ archive (no ${RESOURCES_PATH}): ${dir}`);
+        }
+
+        const zip = new JSZip();
+
+        const add = async (relativePath: string) => {
+
+            const filePath = relativePath === '' ? dir : FilePaths.join(dir, ...relativePath.split('/'));
+
+            for (const name of await Files.readdirAsync(filePath)) {
+
+                const childPath = relativePath === '' ? name : `${relativePath}/${name}`;
+
+                if (await Files.fileType(FilePaths.join(filePath, name)) === 'directory') {
+                    await add(childPath);
+                } else {
+                    zip.file(childPath, await Files.readFileAsync(FilePaths.join(filePath, name)));
+                }
+
+            }
+
+        };
+
+        await add('');
+
+        const data = await zip.generateAsync({
+            type: 'nodebuffer',
+            compression: 'DEFLATE',
+            compressionOptions: {level: 9}
+        });
+
+        await Files.writeFileAsync(path, data);
+
+    }
+
+    private async doInspect(phzReader: PHZReader, zip: JSZip): Promise<PHZInspection> {
+
+        const issues: PHZIssue[] = [];
+
+        const files: PHZFile[] = [];
+
+        for (const file of this.listFiles(zip)) {
+            const data = await file.async('nodebuffer');
+            files.push({path: file.name, size: data.length});
+        }
+
+        const metadata = await this.readJSON(zip, METADATA_PATH, issues);
+
+        if (metadata) {
+
+            for (const field of REQUIRED_METADATA_FIELDS) {
+
+                if (! metadata[field]) {
+                    issues.push({severity: 'error', type: 'invalid-metadata', path: METADATA_PATH, message: `Metadata has no ${field}`});
+                }
+
+            }
+
+        }
+
+        const resourcesData = await this.readJSON(zip, RESOURCES_PATH, issues);
+
+        const entries: ResourceEntry[] = resourcesData && resourcesData.entries ? Object.values(resourcesData.entries) : [];
+
+        const resources: PHZResource[] = [];
+
+        // the files that are accounted for by the index.
+        const knownPaths = new Set([METADATA_PATH, RESOURCES_PATH]);
+
+        for (const entry of entries) {
+
+            knownPaths.add(entry.path);
+            knownPaths.add(`${entry.id}-meta.json`);
+
+            const file = files.find(current => current.path === entry.path);
+
+            const resource: Partial<Resource> = entry.resource || {};
+
+            resources.push({
+                id: entry.id,
+                path: entry.path,
+                url: resource.url,
+                contentType: resource.contentType,
+                title: resource.title,
+                size: file ? file.size : undefined
+            });
+
+            if (! file) {
+                issues.push({severity: 'error', type: 'missing-resource', path: entry.path, url: resource.url,
+                             message: `Resource ${entry.id} is missing from the archive: ${entry.path}`});
+            }
+
+        }
+
+        const urls = new Set(resources.map(resource => resource.url));
+
+        if (metadata && metadata.url && ! urls.has(metadata.url)) {
+            issues.push({severity: 'error', type: 'missing-main-resource', url: metadata.url,
+                         message: "No resource for the main URL: " + metadata.url});
+        }
+
+        if (metadata && metadata.alternates) {
+
+            for (const type of Object.keys(metadata.alternates)) {
+
+                const url = metadata.alternates[type];
+
+                if (! urls.has(url)) {
+                    issues.push({severity: 'error', type: 'missing-referenced-resource', url,
+                                 message: `No resource for the ${type} alternate: ${url}`});
+                }
+
+            }
+
+        }
+
+        for (const resource of resources) {
+
+            if (resource.contentType !== 'text/html' || resource.size === undefined) {
+                continue;
+            }
+
+            const html = (await phzReader.getResource(<ResourceEntry> {path: resource.path})).toString('utf-8');
+
+            for (const url of PHZInspector.parseFrameURLs(html, resource.url)) {
+
+                if (! urls.has(url)) {
+                    // frames that were hidden or cross origin are skipped
+                    // during capture so this isn't necessarily an error.
+                    issues.push({severity: 'warning', type: 'missing-referenced-resource', path: resource.path, url,
+                                 message: `Frame in ${resource.path} isn't in the archive: ${url}`});
+                }
+
+            }
+
+        }
+
+        for (const file of files) {
+
+            if (! knownPaths.has(file.path)) {
+                issues.push({severity: 'warning', type: 'unknown-file', path: file.path,
+                             message: "File isn't referenced by the resource index: " + file.path});
+            }
+
+        }
+
+        return {path: this.path, metadata: metadata || undefined, files, resources, issues};
+
+    }
+
+    /**
+     * Find the URLs of the iframes in the HTML, resolved against the base URL.
+     * These are captured into the archive along with the main page.
+     */
+    public static parseFrameURLs(html: string, baseURL?: string): string[] {
+
+        const result: string[] = [];
+
+        const baseMatch = html.match(/<base[^>]+href=["']([^"']+)["']/i);
+        const base = baseMatch ? baseMatch[1] : baseURL;
+
+        const regexp = /<iframe[^>]+src=["']([^"']+)["']/gi;
+
+        while (true) {
+
+            const match = regexp.exec(html);
+
+            if (! match) {
+                break;
+            }
+
+            const src = match[1].replace(/&amp;/g, '&');
+
+            try {
+
+                const url = new URL(src, base).toString();
+
+                if (url.startsWith('http:') || url.startsWith('https:')) {
+                    result.push(url);
+                }
+
+            } catch (e) {
+                // not a valid URL so it can't be in the archive anyway.
+            }
+
+        }
+
+        return result;
+
+    }
+
+    private async readJSON(zip: JSZip, path: string, issues: PHZIssue[]): Promise<any | null> {
+
+        const file = zip.file(path);
+
+        if (! file) {
+            issues.push({severity: 'error', type: 'missing-file', path, message: "Archive has no " + path});
+            return null;
+        }
+
+        try {
+            return JSON.parse(await file.async('text'));
+        } catch (e) {
+            issues.push({severity: 'error', type: 'invalid-json', path, message: `Unable to parse ${path}: ${e.message}`});
+            return null;
+        }
+
+    }
+
+    private async readZip(): Promise<JSZip> {
+        const zip = new JSZip();
+        await zip.loadAsync(await Files.readFileAsync(this.path));
+        return zip;
+    }
+
+    private listFiles(zip: JSZip): JSZip.JSZipObject[] {
+
+        const result: JSZip.JSZipObject[] = [];
+
+        zip.forEach((relativePath, file) => {
+
+            if (! file.dir) {
+                result.push(file);
+            }
+
+        });
+
+        return result.sort((a, b) => a.name.localeCompare(b.name));
+
+    }
+
+    /**
+     * Entries in a zip file can contain '..' which would let them be written
+     * outside the target dir.
+     */
+    private toSafePath(path: string) {
+
+        if (path.startsWith('/') || path.split('/').includes('..')) {
+            throw new Error("Refusing to extract file outside the target dir: " + path);
+        }
+
+        return path;
+
+    }
+
+    private async createParentDirs(dir: string, path: string) {
+
+        const parts = path.split('/').slice(0, -1);
+
+        for (let idx = 1; idx <= parts.length; ++idx) {
+            await Files.createDirAsync(FilePaths.join(dir, ...parts.slice(0, idx)));
+        }
+
+    }
+
+}
+
+export type PHZIssueSeverity = 'error' | 'warning';
+
+export type PHZIssueType = 'missing-file' | 'invalid-json' | 'invalid-metadata' | 'missing-resource' |
+                           'missing-main-resource' | 'missing-referenced-resource' | 'unknown-file';
+
+export interface PHZIssue {
+
+    readonly severity: PHZIssueSeverity;
+
+    readonly type: PHZIssueType;
+
+    readonly message: string;
+
+    /**
+     * The path within the archive the issue relates to.
+     */
+    readonly path?: string;
+
+    readonly url?: string;
+
+}
+
+export interface PHZFile {
+
+    readonly path: string;
+
+    /**
+     * The uncompressed size in bytes.
+     */
+    readonly size: number;
+
+}
+
+export interface PHZResource {
+
+    readonly id: string;
+
+    readonly path: string;
+
+    readonly url?: string;
+
+    readonly contentType?: string;
+
+    readonly title?: string;
+
+    /**
+     * The size in bytes or undefined when the file is missing.
+     */
+    readonly size?: number;
+
+}
+
+export interface PHZInspection {
+
+    readonly path: string;
+
+    readonly metadata?: any;
+
+    /**
+     * Every file in the archive.
+     */
+    readonly files: ReadonlyArray<PHZFile>;
+
+    /**
+     * The resources from the resource index.
+     */
+    readonly resources: ReadonlyArray<PHZResource>;
+
+    readonly issues: ReadonlyArray<PHZIssue>;
+
+}
+
+/**
+ * Inspect PHZ archives from the command line:
+ *
+ *   node PHZInspector.js inspect <phz> [--json]
+ *   node PHZInspector.js validate <phz>
+ *   node PHZInspector.js extract <phz> <dir>
+ *   node PHZInspector.js repack <dir> <phz>
+ */
+async function main() {
+
+    const [command, source, target] = process.argv.slice(2).filter(arg => ! arg.startsWith('--'));
+
+    switch (command) {
+
+        case 'inspect':
+        case 'validate':
+
+            const inspection = await new PHZInspector(source).inspect();
+
+            if (process.argv.includes('--json')) {
+                process.stdout.write(JSON.stringify(inspection, null, "  ") + "\n");
+            } else {
+
+                if (command === 'inspect') {
+
+                    if (inspection.metadata) {
+                        log.info(`${inspection.metadata.title} (${inspection.metadata.url})`);
+                    }
+
+                    for (const resource of inspection.resources) {
+                        log.info(`${resource.path}  ${resource.contentType}  ${resource.size} bytes  ${resource.url}`);
+                    }
+
+                }
+
+                for (const issue of inspection.issues) {
+                    log.info(`${issue.severity}: ${issue.message}`);
+                }
+
+            }
+
+            if (inspection.issues.some(issue => issue.severity === 'error')) {
+                process.exit(1);
+            }
+
+            break;
+
+        case 'extract':
+            const extracted = await new PHZInspector(source).extract(target);
+            log.info(`Extracted ${extracted.length} files to ${target}`);
+            break;
+
+        case 'repack':
+            await PHZInspector.repack(source, target);
+            log.info("Wrote " + target);
+            break;
+
+        default:
+            console.error("Usage: PHZInspector inspect|validate <phz> [--json] | extract <phz> <dir> | repack <dir> <phz>");
+            process.exit(2);
+
+    }
+
+}
+
+if (require.main === module) {
+
+    main().catch(err => {
+        console.error(err.message);
+        process.exit(1);
+    });
+
+}
@@ -0,0 +1,82 @@
+import {assert} from 'chai';
+import JSZip from 'jszip';
+import {PHZInspector} from './PHZInspector';
+import {CapturedPHZWriter} from '../capture/CapturedPHZWriter';
+import {MockCapturedContent} from '../capture/MockCapturedContent';
+import {FilePaths} from '../util/FilePaths';
+import {Files} from '../util/Files';
+
+describe('PHZInspector', function() {
+
+    const path = FilePaths.tmpfile("phz-inspector-test.phz");
+
+    beforeEach(async function() {
+        await new CapturedPHZWriter(path).convert(MockCapturedContent.create());
+    });
+
+    it("inspect a valid archive", async function() {
+
+        const inspection = await new PHZInspector(path).inspect();
+
+        const captured = MockCapturedContent.create();
+
+        assert.equal(inspection.metadata.url, captured.url);
+        assert.equal(inspection.resources.length, Object.keys(captured.capturedDocuments).length);
+        assert.ok(inspection.resources.every(resource => resource.contentType === 'text/html' && resource.size! > 0));
+
+        assert.deepEqual(inspection.issues.filter(issue => issue.severity === 'error'), []);
+
+    });
+
+    it("report missing resources", async function() {
+
+        const zip = new JSZip();
+        await zip.loadAsync(await Files.readFileAsync(path));
+
+        const inspection = await new PHZInspector(path).inspect();
+        const removed = inspection.resources[0];
+
+        zip.remove(removed.path);
+        zip.file('stray.txt', 'stray');
+
+        await Files.writeFileAsync(path, await zip.generateAsync({type: 'nodebuffer'}));
+
+        const issues = (await new PHZInspector(path).inspect()).issues;
+
+        assert.ok(issues.some(issue => issue.type === 'missing-resource' && issue.path === removed.path));
+        assert.ok(issues.some(issue => issue.type === 'unknown-file' && issue.path === 'stray.txt'));
+
+    });
+
+    it("extract and repack", async function() {
+
+        const dir = FilePaths.tmpfile("phz-inspector-test-extracted");
+        const repacked = FilePaths.tmpfile("phz-inspector-test-repacked.phz");
+
+        await Files.removeDirectoryRecursivelyAsync(dir);
+
+        const extracted = await new PHZInspector(path).extract(dir);
+
+        assert.ok(extracted.includes('metadata.json'));
+        assert.ok(await Files.existsAsync(FilePaths.join(dir, 'resources.json')));
+
+        await PHZInspector.repack(dir, repacked);
+
+        const original = await new PHZInspector(path).inspect();
+        const inspection = await new PHZInspector(repacked).inspect();
+
+        assert.deepEqual(inspection.files, original.files);
+        assert.deepEqual(inspection.issues, original.issues);
+
+    });
+
+    it("parseFrameURLs", function() {
+
+        const html = `<html><head><base href="https://www.example.com/a/"></head>
+                      <body><iframe src="frame.html?x=1&amp;y=2"></iframe><iframe src="about:blank"></iframe></body></html>`;
+
+        assert.deepEqual(PHZInspector.parseFrameURLs(html), ['https://www.example.com/a/frame.html?x=1&y=2']);
+
+    });
+
+});
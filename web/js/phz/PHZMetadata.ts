@@ -1,5 +1,6 @@
 import {Browser} from '../capture/Browser';
 import {ScrollBox} from '../capture/renderer/Captured';
+import {ArticleMetadata} from '../capture/renderer/ArticleExtractor';
 
 /**
  * @Deprected use capture/renderer/Captured
@@ -12,6 +13,7 @@ export interface PHZMetadata {
     browser: Browser;
     scroll?: ScrollBox;
     scrollBox?: ScrollBox;
+    article?: ArticleMetadata;
 
     // public constructor(opts: any) {
     //     this.title = Preconditions.assertNotNull(opts.title, "title");
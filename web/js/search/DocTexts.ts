@@ -0,0 +1,203 @@
+import url from 'url';
+import {PDFJSStatic} from 'pdfjs-dist';
+import * as PDFJSDIST from 'pdfjs-dist';
+import {DocMeta} from '../metadata/DocMeta';
+import {IndexedEntry} from './FullTextIndex';
+import {Texts} from '../metadata/Texts';
+import {Text} from '../metadata/Text';
+import {PHZReader} from '../phz/PHZReader';
+import {EPUBReader} from '../epub/EPUBReader';
+import {Files} from '../util/Files';
+import {Promises} from '../util/Promises';
+
+const pdfjs: PDFJSStatic = <any> PDFJSDIST;
+
+/**
+ * Extracts the text we index from documents and their annotations.
+ */
+export class DocTexts {
+
+    /**
+     * The text of every text highlight, comment, and flashcard in the document.
+     */
+    public static annotationEntries(docMeta: DocMeta): IndexedEntry[] {
+
+        const result: IndexedEntry[] = [];
+
+        const add = (type: IndexedEntry['type'], pageNum: number, id: string, ...texts: Array<Text | string | undefined>) => {
+
+            const text = texts.map(current => this.toPlainText(current))
+                              .filter(current => current !== '')
+                              .join(' ');
+
+            if (text !== '') {
+                result.push({type, pageNum, id, text});
+            }
+
+        };
+
+        for (const pageMeta of Object.values(docMeta.pageMetas)) {
+
+            const pageNum = pageMeta.pageInfo.num;
+
+            for (const textHighlight of Object.values(pageMeta.textHighlights || {})) {
+                add('text-highlight', pageNum, textHighlight.id, textHighlight.text);
+            }
+
+            for (const comment of Object.values(pageMeta.comments || {})) {
+                add('comment', pageNum, comment.id, comment.content);
+            }
+
+            for (const flashcard of Object.values(pageMeta.flashcards || {})) {
+                add('flashcard', pageNum, flashcard.id, ...Object.values(flashcard.fields || {}));
+            }
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * The text of every page of the document at the given path.  Formats we
+     * can't extract text from just return no entries.
+     */
+    public static async pageEntries(path: string): Promise<IndexedEntry[]> {
+
+        const toEntries = (texts: string[]): IndexedEntry[] => {
+
+            return texts.map((text, idx) => ({type: <'page'> 'page', pageNum: idx + 1, text}))
+                        .filter(current => current.text.trim() !== '');
+
+        };
+
+        const lowerPath = path.toLowerCase();
+
+        if (lowerPath.endsWith('.pdf')) {
+            return toEntries(await this.getPDFTexts(path));
+        }
+
+        if (lowerPath.endsWith('.phz')) {
+            return toEntries(await this.getPHZTexts(path));
+        }
+
+        if (lowerPath.endsWith('.epub')) {
+            return toEntries(await this.getEPUBTexts(path));
+        }
+
+        return [];
+
+    }
+
+    /**
+     * Convert HTML to the plain text a user would read.
+     */
+    public static htmlToText(html: string): string {
+
+        return html.replace(/<(script|style|head)(\s[^>]*)?>[\s\S]*?<\/\1>/gi, ' ')
+                   .replace(/<[^>]+>/g, ' ')
+                   .replace(/&nbsp;/g, ' ')
+                   .replace(/&lt;/g, '<')
+                   .replace(/&gt;/g, '>')
+                   .replace(/&quot;/g, '"')
+                   .replace(/&#39;|&apos;/g, "'")
+                   .replace(/&amp;/g, '&')
+                   .replace(/\s+/g, ' ')
+                   .trim();
+
+    }
+
+    private static toPlainText(text: Text | string | undefined): string {
+
+        if (text && typeof text !== 'string' && text.HTML && ! text.TEXT && ! text.MARKDOWN) {
+            return this.htmlToText(text.HTML);
+        }
+
+        return (Texts.toString(text) || '').trim();
+
+    }
+
+    /**
+     * The pdf.js worker is configured by the app (the same way as for
+     * importing) and node uses pdf.js without a worker.
+     */
+    private static async getPDFTexts(path: string): Promise<string[]> {
+
+        const fileURL = url.format({
+            protocol: 'file',
+            slashes: true,
+            pathname: path,
+        });
+
+        const doc = await Promises.toPromise(pdfjs.getDocument(fileURL));
+
+        try {
+
+            const result: string[] = [];
+
+            for (let pageNum = 1; pageNum <= doc.numPages; ++pageNum) {
+
+                const page = await Promises.toPromise(doc.getPage(pageNum));
+                const textContent = await Promises.toPromise(page.getTextContent());
+
+                result.push(textContent.items.map(current => current.str).join(' '));
+
+            }
+
+            return result;
+
+        } finally {
+            doc.destroy();
+        }
+
+    }
+
+    /**
+     * Captured web pages are a single page so all the HTML content is joined.
+     */
+    private static async getPHZTexts(path: string): Promise<string[]> {
+
+        const phzReader = new PHZReader(path);
+
+        await phzReader.init();
+
+        try {
+
+            const resources = await phzReader.getResources();
+
+            const texts: string[] = [];
+
+            for (const resourceEntry of Object.values(resources.entries)) {
+
+                if (resourceEntry.resource.contentType === 'text/html') {
+                    const buffer = await phzReader.getResource(resourceEntry);
+                    texts.push(this.htmlToText(buffer.toString('utf-8')));
+                }
+
+            }
+
+            return [texts.join(' ')];
+
+        } finally {
+            await phzReader.close();
+        }
+
+    }
+
+    private static async getEPUBTexts(path: string): Promise<string[]> {
+
+        const epubReader = new EPUBReader();
+
+        await epubReader.init(await Files.readFileAsync(path));
+
+        const result: string[] = [];
+
+        for (const chapter of epubReader.getPackage().chapters) {
+            result.push(this.htmlToText(await epubReader.readText(chapter.path)));
+        }
+
+        return result;
+
+    }
+
+}
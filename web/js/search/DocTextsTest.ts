@@ -0,0 +1,62 @@
+import {assert} from 'chai';
+import {DocTexts} from './DocTexts';
+import {DocMetas} from '../metadata/DocMetas';
+import {TextHighlights} from '../metadata/TextHighlights';
+import {Comments} from '../metadata/Comments';
+import {Flashcards} from '../metadata/Flashcards';
+import {Refs} from '../metadata/Refs';
+import {FilePaths} from '../util/FilePaths';
+
+describe('DocTexts', function() {
+
+    it("annotationEntries", function() {
+
+        const docMeta = DocMetas.create('0x001', 2);
+
+        const pageMeta = docMeta.pageMetas[2];
+
+        const textHighlight = TextHighlights.createMockTextHighlight();
+        pageMeta.textHighlights[textHighlight.id] = textHighlight;
+
+        const ref = Refs.create(textHighlight.id, 'text-highlight');
+
+        const comment = Comments.createHTMLComment('<p>a <b>very</b> good point</p>', ref);
+        pageMeta.comments[comment.id] = comment;
+
+        const flashcard = Flashcards.createFrontBack('<p>front</p>', '<p>back</p>', ref);
+        pageMeta.flashcards[flashcard.id] = flashcard;
+
+        assert.deepEqual(DocTexts.annotationEntries(docMeta), [
+            {type: 'text-highlight', pageNum: 2, id: textHighlight.id, text: 'hello world'},
+            {type: 'comment', pageNum: 2, id: comment.id, text: 'a very good point'},
+            {type: 'flashcard', pageNum: 2, id: flashcard.id, text: 'front back'}
+        ]);
+
+    });
+
+    it("htmlToText", function() {
+
+        const html = '<html><head><title>ignored</title></head>' +
+                     '<body><script>ignored()</script><p>Tom &amp; Jerry&nbsp;&lt;3</p><p>again</p></body></html>';
+
+        assert.equal(DocTexts.htmlToText(html), 'Tom & Jerry <3 again');
+
+    });
+
+    it("pageEntries for PDFs", async function() {
+
+        const path = FilePaths.join(__dirname, "..", "..", "..", "docs", "example.pdf");
+
+        const entries = await DocTexts.pageEntries(path);
+
+        assert.ok(entries.length > 0);
+        assert.equal(entries[0].type, 'page');
+        assert.ok(entries[0].text.trim().length > 0);
+
+    });
+
+    it("pageEntries for unknown formats", async function() {
+        assert.deepEqual(await DocTexts.pageEntries('/tmp/missing.txt'), []);
+    });
+
+});
@@ -0,0 +1,399 @@
+import {ISODateTimeString} from '../metadata/ISODateTimeStrings';
+
+/**
+ * An in-memory inverted index over the text of every document in the library
+ * (the pages of the document and all of its annotations).
+ *
+ * Only the documents are persisted.  The postings are rebuilt when the index
+ * is loaded since they're cheap to compute but large to store.
+ */
+export class FullTextIndex {
+
+    private readonly docs: {[fingerprint: string]: IndexedDoc} = {};
+
+    /**
+     * Map from token to the keys of the entries containing that token.
+     */
+    private readonly postings: {[token: string]: Set<string>} = {};
+
+    public contains(fingerprint: string): boolean {
+        return this.docs[fingerprint] !== undefined;
+    }
+
+    public get(fingerprint: string): IndexedDoc | undefined {
+        return this.docs[fingerprint];
+    }
+
+    public fingerprints(): string[] {
+        return Object.keys(this.docs);
+    }
+
+    /**
+     * Add or replace the given document in the index.
+     */
+    public update(indexedDoc: IndexedDoc) {
+
+        this.remove(indexedDoc.fingerprint);
+
+        this.docs[indexedDoc.fingerprint] = indexedDoc;
+
+        indexedDoc.entries.forEach((entry, idx) => {
+
+            const key = FullTextIndex.toKey(indexedDoc.fingerprint, idx);
+
+            for (const token of FullTextIndexes.tokenize(entry.text)) {
+
+                let keys = this.postings[token];
+
+                if (! keys) {
+                    keys = new Set();
+                    this.postings[token] = keys;
+                }
+
+                keys.add(key);
+
+            }
+
+        });
+
+    }
+
+    public remove(fingerprint: string) {
+
+        const indexedDoc = this.docs[fingerprint];
+
+        if (! indexedDoc) {
+            return;
+        }
+
+        indexedDoc.entries.forEach((entry, idx) => {
+
+            const key = FullTextIndex.toKey(fingerprint, idx);
+
+            for (const token of FullTextIndexes.tokenize(entry.text)) {
+
+                const keys = this.postings[token];
+
+                if (keys) {
+
+                    keys.delete(key);
+
+                    if (keys.size === 0) {
+                        delete this.postings[token];
+                    }
+
+                }
+
+            }
+
+        });
+
+        delete this.docs[fingerprint];
+
+    }
+
+    /**
+     * Find all the entries which contain every term in the query.  The last
+     * term is treated as a prefix so results show up while the user is still
+     * typing.  Annotations rank above the page text since they're what the
+     * user was actually interested in.
+     */
+    public search(query: string, limit: number = 100): SearchResult[] {
+
+        const terms = FullTextIndexes.tokenize(query);
+
+        if (terms.length === 0) {
+            return [];
+        }
+
+        let keys: Set<string> | undefined;
+
+        terms.forEach((term, idx) => {
+
+            const prefix = idx === terms.length - 1;
+
+            const matching = new Set<string>();
+
+            for (const token of this.matchTokens(term, prefix)) {
+                this.postings[token].forEach(key => matching.add(key));
+            }
+
+            keys = keys === undefined ? matching : new Set(Array.from(keys).filter(key => matching.has(key)));
+
+        });
+
+        const results: SearchResult[] = [];
+
+        for (const key of Array.from(keys || [])) {
+
+            const {fingerprint, idx} = FullTextIndex.parseKey(key);
+
+            const indexedDoc = this.docs[fingerprint];
+            const entry = indexedDoc.entries[idx];
+
+            const score = FullTextIndexes.score(entry, terms);
+
+            results.push({
+                fingerprint,
+                title: indexedDoc.title,
+                filename: indexedDoc.filename,
+                pageNum: entry.pageNum,
+                type: entry.type,
+                id: entry.id,
+                snippet: FullTextIndexes.createSnippet(entry.text, terms),
+                score
+            });
+
+        }
+
+        return results.sort((a, b) => b.score - a.score || a.fingerprint.localeCompare(b.fingerprint) || a.pageNum - b.pageNum)
+                      .slice(0, limit);
+
+    }
+
+    public toJSON(): FullTextIndexData {
+        return {
+            version: 1,
+            docs: Object.values(this.docs)
+        };
+    }
+
+    public static fromJSON(data: FullTextIndexData): FullTextIndex {
+
+        const result = new FullTextIndex();
+
+        for (const indexedDoc of data.docs) {
+            result.update(indexedDoc);
+        }
+
+        return result;
+
+    }
+
+    private matchTokens(term: string, prefix: boolean): string[] {
+
+        if (! prefix) {
+            return this.postings[term] ? [term] : [];
+        }
+
+        return Object.keys(this.postings)
+            .filter(token => token.startsWith(term));
+
+    }
+
+    private static toKey(fingerprint: string, idx: number) {
+        return `${fingerprint}:${idx}`;
+    }
+
+    private static parseKey(key: string) {
+
+        const sep = key.lastIndexOf(':');
+
+        return {
+            fingerprint: key.substring(0, sep),
+            idx: parseInt(key.substring(sep + 1))
+        };
+
+    }
+
+}
+
+export class FullTextIndexes {
+
+    public static tokenize(text: string): string[] {
+        return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    }
+
+    /**
+     * The number of times each term occurs in the entry.  Annotations are
+     * weighted higher than the text of the page.
+     */
+    public static score(entry: IndexedEntry, terms: ReadonlyArray<string>): number {
+
+        const tokens = this.tokenize(entry.text);
+
+        let result = 0;
+
+        for (const term of terms) {
+            result += tokens.filter(token => token.startsWith(term)).length;
+        }
+
+        return entry.type === 'page' ? result : result * ANNOTATION_WEIGHT;
+
+    }
+
+    /**
+     * Create a short excerpt of the text around the first match along with the
+     * positions of all the matches within the excerpt so they can be
+     * highlighted.
+     */
+    public static createSnippet(text: string, terms: ReadonlyArray<string>): Snippet {
+
+        text = text.replace(/\s+/g, ' ').trim();
+
+        const lowerText = text.toLowerCase();
+
+        const first = Math.min(...terms.map(term => this.indexOfWord(lowerText, term, 0))
+                                       .filter(idx => idx !== -1));
+
+        let start = 0;
+        let end = text.length;
+
+        if (isFinite(first) && text.length > SNIPPET_LENGTH) {
+
+            start = Math.max(0, first - SNIPPET_CONTEXT);
+
+            // don't start in the middle of a word.
+            if (start > 0) {
+                const space = text.indexOf(' ', start);
+                start = space !== -1 && space < first ? space + 1 : start;
+            }
+
+            end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+            if (end < text.length) {
+                const space = text.lastIndexOf(' ', end);
+                end = space > first ? space : end;
+            }
+
+        } else {
+            end = Math.min(text.length, SNIPPET_LENGTH);
+        }
+
+        const prefix = start > 0 ? '…' : '';
+        const suffix = end < text.length ? '…' : '';
+
+        const snippetText = prefix + text.substring(start, end) + suffix;
+        const lowerSnippetText = snippetText.toLowerCase();
+
+        const matches: SnippetMatch[] = [];
+
+        for (const term of terms) {
+
+            let idx = this.indexOfWord(lowerSnippetText, term, 0);
+
+            while (idx !== -1) {
+                matches.push({start: idx, end: idx + term.length});
+                idx = this.indexOfWord(lowerSnippetText, term, idx + term.length);
+            }
+
+        }
+
+        matches.sort((a, b) => a.start - b.start);
+
+        return {text: snippetText, matches};
+
+    }
+
+    /**
+     * Find the term at the start of a word.
+     */
+    private static indexOfWord(text: string, term: string, from: number): number {
+
+        let idx = text.indexOf(term, from);
+
+        while (idx !== -1) {
+
+            if (idx === 0 || ! /[\p{L}\p{N}]/u.test(text.charAt(idx - 1))) {
+                return idx;
+            }
+
+            idx = text.indexOf(term, idx + 1);
+
+        }
+
+        return -1;
+
+    }
+
+}
+
+const ANNOTATION_WEIGHT = 2;
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * The number of characters to show before the first match.
+ */
+const SNIPPET_CONTEXT = 60;
+
+export interface FullTextIndexData {
+    readonly version: number;
+    readonly docs: ReadonlyArray<IndexedDoc>;
+}
+
+export interface IndexedDoc {
+
+    readonly fingerprint: string;
+
+    readonly title?: string;
+
+    readonly filename?: string;
+
+    /**
+     * Identifies the file the page text was extracted from so that we only
+     * have to extract it again when the file changes.
+     */
+    readonly contentKey: string;
+
+    /**
+     * The lastUpdated time of the DocInfo when the annotations were indexed.
+     */
+    readonly lastUpdated?: ISODateTimeString;
+
+    readonly entries: ReadonlyArray<IndexedEntry>;
+
+}
+
+/**
+ * page: the text of the page itself.
+ */
+export type IndexedEntryType = 'page' | 'text-highlight' | 'comment' | 'flashcard';
+
+export interface IndexedEntry {
+
+    readonly type: IndexedEntryType;
+
+    readonly pageNum: number;
+
+    /**
+     * The ID of the annotation when this is an annotation.
+     */
+    readonly id?: string;
+
+    readonly text: string;
+
+}
+
+export interface SearchResult {
+
+    readonly fingerprint: string;
+
+    readonly title?: string;
+
+    readonly filename?: string;
+
+    readonly pageNum: number;
+
+    readonly type: IndexedEntryType;
+
+    readonly id?: string;
+
+    readonly snippet: Snippet;
+
+    readonly score: number;
+
+}
+
+export interface Snippet {
+
+    readonly text: string;
+
+    readonly matches: ReadonlyArray<SnippetMatch>;
+
+}
+
+export interface SnippetMatch {
+    readonly start: number;
+    readonly end: number;
+}
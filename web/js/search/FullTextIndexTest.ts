@@ -0,0 +1,141 @@
+import {assert} from 'chai';
+import {FullTextIndex, FullTextIndexes, IndexedDoc} from './FullTextIndex';
+
+describe('FullTextIndex', function() {
+
+    const createDoc = (fingerprint: string, title: string, ...texts: string[]): IndexedDoc => {
+
+        return {
+            fingerprint,
+            title,
+            contentKey: fingerprint + '.pdf:hashcode',
+            entries: texts.map((text, idx) => ({type: <'page'> 'page', pageNum: idx + 1, text}))
+        };
+
+    };
+
+    it("basic", function() {
+
+        const index = new FullTextIndex();
+
+        index.update(createDoc('0x001', 'Alice', 'Down the rabbit hole', 'The pool of tears'));
+        index.update(createDoc('0x002', 'Looking Glass', 'Looking-glass house', 'The garden of live flowers'));
+
+        const results = index.search('rabbit');
+
+        assert.equal(results.length, 1);
+        assert.equal(results[0].fingerprint, '0x001');
+        assert.equal(results[0].title, 'Alice');
+        assert.equal(results[0].pageNum, 1);
+        assert.equal(results[0].type, 'page');
+        assert.deepEqual(results[0].snippet, {
+            text: 'Down the rabbit hole',
+            matches: [{start: 9, end: 15}]
+        });
+
+    });
+
+    it("requires every term", function() {
+
+        const index = new FullTextIndex();
+
+        index.update(createDoc('0x001', 'Alice', 'The pool of tears', 'A caucus race and a long tale'));
+
+        assert.deepEqual(index.search('pool tears').map(current => current.pageNum), [1]);
+        assert.deepEqual(index.search('pool tale'), []);
+
+    });
+
+    it("last term is a prefix", function() {
+
+        const index = new FullTextIndex();
+
+        index.update(createDoc('0x001', 'Alice', 'Advice from a caterpillar'));
+
+        assert.equal(index.search('cater').length, 1);
+        assert.equal(index.search('advice cater').length, 1);
+        assert.equal(index.search('adv caterpillar').length, 0);
+
+    });
+
+    it("annotations rank above pages", function() {
+
+        const index = new FullTextIndex();
+
+        index.update({
+            fingerprint: '0x001',
+            contentKey: '',
+            entries: [
+                {type: 'page', pageNum: 1, text: 'Who stole the tarts?'},
+                {type: 'text-highlight', pageNum: 2, id: '101', text: 'the tarts'}
+            ]
+        });
+
+        const results = index.search('tarts');
+
+        assert.deepEqual(results.map(current => current.type), ['text-highlight', 'page']);
+        assert.equal(results[0].id, '101');
+
+    });
+
+    it("update and remove", function() {
+
+        const index = new FullTextIndex();
+
+        index.update(createDoc('0x001', 'Alice', 'Down the rabbit hole'));
+        index.update(createDoc('0x001', 'Alice', 'The pool of tears'));
+
+        assert.equal(index.search('rabbit').length, 0);
+        assert.equal(index.search('pool').length, 1);
+
+        index.remove('0x001');
+
+        assert.equal(index.search('pool').length, 0);
+        assert.isFalse(index.contains('0x001'));
+
+    });
+
+    it("toJSON and fromJSON", function() {
+
+        const index = new FullTextIndex();
+
+        index.update(createDoc('0x001', 'Alice', 'Down the rabbit hole'));
+
+        const restored = FullTextIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+
+        assert.deepEqual(restored.fingerprints(), ['0x001']);
+        assert.equal(restored.search('rabbit').length, 1);
+
+    });
+
+    it("createSnippet of long text", function() {
+
+        const text = 'word '.repeat(100) + 'caterpillar ' + 'word '.repeat(100);
+
+        const snippet = FullTextIndexes.createSnippet(text, ['caterpillar']);
+
+        assert.isTrue(snippet.text.startsWith('…'));
+        assert.isTrue(snippet.text.endsWith('…'));
+        assert.isAtMost(snippet.text.length, 202);
+
+        assert.equal(snippet.matches.length, 1);
+
+        const match = snippet.matches[0];
+        assert.equal(snippet.text.substring(match.start, match.end), 'caterpillar');
+
+    });
+
+    it("createSnippet only matches at the start of words", function() {
+
+        const snippet = FullTextIndexes.createSnippet('Mock Turtle in a hammock', ['mock']);
+
+        assert.deepEqual(snippet.matches, [{start: 0, end: 4}]);
+
+    });
+
+    it("tokenize", function() {
+        assert.deepEqual(FullTextIndexes.tokenize("Curiouser and curiouser! Café 42"),
+                         ['curiouser', 'and', 'curiouser', 'café', '42']);
+    });
+
+});
@@ -0,0 +1,237 @@
+import {PersistenceLayer} from '../datastore/PersistenceLayer';
+import {IProvider} from '../util/Providers';
+import {FullTextIndex, IndexedDoc, IndexedEntry, SearchResult} from './FullTextIndex';
+import {IDocInfo} from '../metadata/DocInfo';
+import {DocTexts} from './DocTexts';
+import {Files} from '../util/Files';
+import {FilePaths} from '../util/FilePaths';
+import {Directories} from '../datastore/Directories';
+import {Backend} from '../datastore/Backend';
+import {EncryptedDatastore} from '../datastore/EncryptedDatastore';
+import {Logger} from '../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Keeps the FullTextIndex up to date with the documents in the persistence
+ * layer and persists it to disk.  The index holds the text of the documents
+ * so it's kept only in memory when the datastore is encrypted.
+ *
+ * Extracting the text of a document is expensive so the page text is only
+ * extracted again when the file changes.  The annotations are re-indexed every
+ * time the document is updated.  Updates are processed one at a time in the
+ * background.
+ */
+export class FullTextIndexer {
+
+    private readonly persistenceLayerProvider: IProvider<PersistenceLayer>;
+
+    private readonly indexPath: string;
+
+    private index: FullTextIndex = new FullTextIndex();
+
+    private queue: Promise<void> = Promise.resolve();
+
+    private nrQueued: number = 0;
+
+    constructor(persistenceLayerProvider: IProvider<PersistenceLayer>,
+                indexPath: string = FilePaths.join(new Directories().dataDir, "search-index.json")) {
+
+        this.persistenceLayerProvider = persistenceLayerProvider;
+        this.indexPath = indexPath;
+
+    }
+
+    /**
+     * Load the index from disk once the persistence layer is initialized.  A
+     * missing or corrupt index just means we start over with an empty one.
+     * When the datastore is encrypted a plaintext index left behind from
+     * before it was encrypted is removed instead.
+     */
+    public init(): Promise<void> {
+
+        return this.enqueue(async () => {
+
+            if (! await Files.existsAsync(this.indexPath)) {
+                return;
+            }
+
+            if (! this.isPersisted()) {
+                await Files.removeAsync(this.indexPath);
+                return;
+            }
+
+            try {
+                const data = await Files.readFileAsync(this.indexPath);
+                this.index = FullTextIndex.fromJSON(JSON.parse(data.toString('utf-8')));
+            } catch (e) {
+                log.warn("Unable to read full text index.  Rebuilding: ", e);
+            }
+
+        });
+
+    }
+
+    public search(query: string, limit?: number): SearchResult[] {
+        return this.index.search(query, limit);
+    }
+
+    /**
+     * Index the document in the background if it changed since it was last
+     * indexed.
+     */
+    public update(docInfo: IDocInfo): Promise<void> {
+        return this.enqueue(() => this.doUpdate(docInfo));
+    }
+
+    public remove(fingerprint: string): Promise<void> {
+
+        return this.enqueue(async () => {
+            this.index.remove(fingerprint);
+        });
+
+    }
+
+    /**
+     * Remove documents which were deleted from the persistence layer while we
+     * weren't running.
+     */
+    public prune(): Promise<void> {
+
+        return this.enqueue(async () => {
+
+            const docMetaRefs = await this.persistenceLayerProvider.get().getDocMetaFiles();
+
+            const fingerprints = new Set(docMetaRefs.map(current => current.fingerprint));
+
+            for (const fingerprint of this.index.fingerprints()) {
+
+                if (! fingerprints.has(fingerprint)) {
+                    this.index.remove(fingerprint);
+                }
+
+            }
+
+        });
+
+    }
+
+    private enqueue(work: () => Promise<void>): Promise<void> {
+
+        ++this.nrQueued;
+
+        this.queue = this.queue
+            .then(work)
+            .catch(err => log.error("Unable to update full text index: ", err))
+            .then(async () => {
+
+                // only write the index when we've caught up.
+
+                if (--this.nrQueued === 0) {
+                    await this.write();
+                }
+
+            })
+            .catch(err => log.error("Unable to write full text index: ", err));
+
+        return this.queue;
+
+    }
+
+    private async doUpdate(docInfo: IDocInfo) {
+
+        const existing = this.index.get(docInfo.fingerprint);
+        const contentKey = FullTextIndexer.toContentKey(docInfo);
+
+        const contentCurrent = existing !== undefined && existing.contentKey === contentKey;
+
+        if (contentCurrent && existing!.lastUpdated === docInfo.lastUpdated) {
+            return;
+        }
+
+        const docMeta = await this.persistenceLayerProvider.get().getDocMeta(docInfo.fingerprint);
+
+        if (! docMeta) {
+            return;
+        }
+
+        let pageEntries: IndexedEntry[] = [];
+        let indexedContentKey = '';
+
+        if (contentCurrent) {
+            pageEntries = existing!.entries.filter(current => current.type === 'page');
+            indexedContentKey = contentKey;
+        } else if (docInfo.filename) {
+
+            const path = await this.getLocalPath(docInfo.filename);
+
+            // the file might not be local yet if we're using the cloud so we
+            // leave the content key empty to try again later.
+            if (path) {
+
+                try {
+                    pageEntries = await DocTexts.pageEntries(path);
+                    indexedContentKey = contentKey;
+                } catch (e) {
+                    log.warn("Unable to extract text from: " + path, e);
+                }
+
+            }
+
+        }
+
+        const indexedDoc: IndexedDoc = {
+            fingerprint: docInfo.fingerprint,
+            title: docInfo.title,
+            filename: docInfo.filename,
+            contentKey: indexedContentKey,
+            lastUpdated: docInfo.lastUpdated,
+            entries: [...pageEntries, ...DocTexts.annotationEntries(docMeta)]
+        };
+
+        this.index.update(indexedDoc);
+
+    }
+
+    /**
+     * Get the path to a local copy of the file through the datastore so that
+     * we read the plaintext when the datastore is encrypted.
+     */
+    private async getLocalPath(filename: string): Promise<string | undefined> {
+
+        const file = await this.persistenceLayerProvider.get().getFile(Backend.STASH, {name: filename});
+
+        if (! file.isPresent() || ! file.get().url.startsWith('file:')) {
+            return undefined;
+        }
+
+        const path = FilePaths.fromFileURL(file.get().url);
+
+        if (! await Files.existsAsync(path)) {
+            return undefined;
+        }
+
+        return path;
+
+    }
+
+    private isPersisted() {
+        return ! EncryptedDatastore.isEncrypted(this.persistenceLayerProvider.get().datastore);
+    }
+
+    private async write() {
+
+        if (! this.isPersisted()) {
+            return;
+        }
+
+        await Files.writeFileAsync(this.indexPath, JSON.stringify(this.index.toJSON()));
+
+    }
+
+    private static toContentKey(docInfo: IDocInfo) {
+        const hashcode = docInfo.hashcode ? docInfo.hashcode.data : '';
+        return `${docInfo.filename || ''}:${hashcode}`;
+    }
+
+}
@@ -0,0 +1,53 @@
+import {DocMeta} from '../metadata/DocMeta';
+import {FlashcardReview, ReviewRating} from '../metadata/FlashcardReview';
+import {ReviewSchedules} from './ReviewSchedules';
+
+export class FlashcardReviews {
+
+    public static get(docMeta: DocMeta, flashcardID: string): FlashcardReview | undefined {
+        return (docMeta.reviews || {})[flashcardID];
+    }
+
+    /**
+     * Compute the review of the given flashcard after it was rated without
+     * changing anything.
+     */
+    public static create(existing: FlashcardReview | undefined,
+                         flashcardID: string,
+                         rating: ReviewRating,
+                         now: Date = new Date()): FlashcardReview {
+
+        const schedule = ReviewSchedules.compute(existing ? existing.schedule : undefined, rating, now);
+
+        const history = existing ? existing.history : [];
+
+        return {
+            flashcardID,
+            schedule,
+            history: [...history, {reviewed: schedule.reviewed, rating, interval: schedule.interval}]
+        };
+
+    }
+
+    /**
+     * Record a review of the given flashcard in the DocMeta and reschedule it.
+     * The caller is responsible for writing the DocMeta.
+     */
+    public static record(docMeta: DocMeta,
+                         flashcardID: string,
+                         rating: ReviewRating,
+                         now: Date = new Date()): FlashcardReview {
+
+        const review = this.create(this.get(docMeta, flashcardID), flashcardID, rating, now);
+
+        if (! docMeta.reviews) {
+            docMeta.reviews = {};
+        }
+
+        docMeta.reviews[flashcardID] = review;
+
+        return review;
+
+    }
+
+}
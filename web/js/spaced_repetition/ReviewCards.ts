@@ -0,0 +1,91 @@
+import {Flashcard} from '../metadata/Flashcard';
+import {FlashcardType} from '../metadata/FlashcardType';
+import {Text} from '../metadata/Text';
+import {HTMLString} from '../util/HTMLString';
+
+/**
+ * Renders flashcards as the question and answer shown during review.
+ */
+export class ReviewCards {
+
+    public static render(flashcard: Flashcard): RenderedCard {
+
+        const fields = flashcard.fields || {};
+
+        if (flashcard.type === FlashcardType.CLOZE || fields.text) {
+
+            const text = this.toHTML(fields.text);
+
+            return {
+                front: this.renderCloze(text, false),
+                back: this.renderCloze(text, true),
+                cloze: true
+            };
+
+        }
+
+        return {
+            front: this.toHTML(fields.front),
+            back: this.toHTML(fields.back),
+            cloze: false
+        };
+
+    }
+
+    /**
+     * Render cloze deletions in the Anki syntax ({{c1::answer::hint}}) either
+     * hidden (showing the hint when there is one) or revealed.
+     */
+    public static renderCloze(text: HTMLString, reveal: boolean): HTMLString {
+
+        return text.replace(/{{c\d+::([\s\S]*?)(?:::([\s\S]*?))?}}/g, (match, answer: string, hint?: string) => {
+
+            if (reveal) {
+                return `<span class="cloze cloze-revealed">${answer}</span>`;
+            }
+
+            return `<span class="cloze">[${hint || '…'}]</span>`;
+
+        });
+
+    }
+
+    private static toHTML(text?: Text): HTMLString {
+
+        if (! text) {
+            return '';
+        }
+
+        if (text.HTML) {
+            return text.HTML;
+        }
+
+        return this.escape(text.TEXT || text.MARKDOWN || '');
+
+    }
+
+    private static escape(value: string): HTMLString {
+
+        return value.replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;');
+
+    }
+
+}
+
+export interface RenderedCard {
+
+    /**
+     * The question shown before the answer is revealed.
+     */
+    readonly front: HTMLString;
+
+    readonly back: HTMLString;
+
+    /**
+     * True when the back is the front with the cloze deletions revealed.
+     */
+    readonly cloze: boolean;
+
+}
@@ -0,0 +1,34 @@
+import {assert} from 'chai';
+import {ReviewCards} from './ReviewCards';
+import {Flashcards} from '../metadata/Flashcards';
+import {Refs} from '../metadata/Refs';
+
+describe('ReviewCards', function() {
+
+    const ref = Refs.create('1', 'page');
+
+    it("front and back", function() {
+
+        const flashcard = Flashcards.createFrontBack('<p>question</p>', '<p>answer</p>', ref);
+
+        assert.deepEqual(ReviewCards.render(flashcard), {
+            front: '<p>question</p>',
+            back: '<p>answer</p>',
+            cloze: false
+        });
+
+    });
+
+    it("cloze", function() {
+
+        const flashcard = Flashcards.createCloze('The {{c1::cat}} sat on the {{c2::mat::thing}}', ref);
+
+        assert.deepEqual(ReviewCards.render(flashcard), {
+            front: 'The <span class="cloze">[…]</span> sat on the <span class="cloze">[thing]</span>',
+            back: 'The <span class="cloze cloze-revealed">cat</span> sat on the <span class="cloze cloze-revealed">mat</span>',
+            cloze: true
+        });
+
+    });
+
+});
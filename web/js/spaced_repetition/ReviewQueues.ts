@@ -0,0 +1,88 @@
+import {DocMeta} from '../metadata/DocMeta';
+import {IDocInfo} from '../metadata/DocInfo';
+import {Flashcard} from '../metadata/Flashcard';
+import {FlashcardReview} from '../metadata/FlashcardReview';
+import {FlashcardReviews} from './FlashcardReviews';
+import {ReviewSchedules} from './ReviewSchedules';
+
+export class ReviewQueues {
+
+    /**
+     * Build the queue of flashcards to review now.  Cards which are already
+     * scheduled come first (most overdue first) followed by new cards in the
+     * order they were created.
+     *
+     * @param maxNew The maximum number of new cards to introduce.
+     */
+    public static create(docMetas: ReadonlyArray<DocMeta>,
+                         now: Date = new Date(),
+                         maxNew: number = DEFAULT_MAX_NEW): ReviewCard[] {
+
+        const scheduled: ReviewCard[] = [];
+        const unscheduled: ReviewCard[] = [];
+
+        for (const docMeta of docMetas) {
+
+            for (const pageMeta of Object.values(docMeta.pageMetas)) {
+
+                for (const flashcard of Object.values(pageMeta.flashcards || {})) {
+
+                    const review = FlashcardReviews.get(docMeta, flashcard.id);
+
+                    if (! ReviewSchedules.isDue(review ? review.schedule : undefined, now)) {
+                        continue;
+                    }
+
+                    const reviewCard: ReviewCard = {
+                        fingerprint: docMeta.docInfo.fingerprint,
+                        docInfo: docMeta.docInfo,
+                        pageNum: pageMeta.pageInfo.num,
+                        flashcard,
+                        review
+                    };
+
+                    if (review) {
+                        scheduled.push(reviewCard);
+                    } else {
+                        unscheduled.push(reviewCard);
+                    }
+
+                }
+
+            }
+
+        }
+
+        scheduled.sort((a, b) => a.review!.schedule.due.localeCompare(b.review!.schedule.due));
+        unscheduled.sort((a, b) => (a.flashcard.created || '').localeCompare(b.flashcard.created || ''));
+
+        return [...scheduled, ...unscheduled.slice(0, maxNew)];
+
+    }
+
+}
+
+const DEFAULT_MAX_NEW = 20;
+
+/**
+ * A flashcard to review along with where it came from.
+ */
+export interface ReviewCard {
+
+    readonly fingerprint: string;
+
+    readonly docInfo: IDocInfo;
+
+    /**
+     * The page the flashcard was created on so we can link back to it.
+     */
+    readonly pageNum: number;
+
+    readonly flashcard: Flashcard;
+
+    /**
+     * The previous reviews or undefined if this is a new card.
+     */
+    readonly review?: FlashcardReview;
+
+}
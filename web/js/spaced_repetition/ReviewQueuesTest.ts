@@ -0,0 +1,85 @@
+import {assert} from 'chai';
+import {ReviewQueues} from './ReviewQueues';
+import {FlashcardReviews} from './FlashcardReviews';
+import {DocMetas} from '../metadata/DocMetas';
+import {DocMeta} from '../metadata/DocMeta';
+import {Flashcards} from '../metadata/Flashcards';
+import {Refs} from '../metadata/Refs';
+import {Flashcard} from '../metadata/Flashcard';
+
+describe('ReviewQueues', function() {
+
+    const now = new Date('2012-03-02T11:38:49.321Z');
+
+    const addFlashcard = (docMeta: DocMeta, pageNum: number, front: string): Flashcard => {
+
+        const flashcard = Flashcards.createFrontBack(front, 'back', Refs.create('1', 'page'));
+        docMeta.pageMetas[pageNum].flashcards[flashcard.id] = flashcard;
+        return flashcard;
+
+    };
+
+    it("new cards are due", function() {
+
+        const docMeta = DocMetas.create('0x001', 2);
+
+        const flashcard = addFlashcard(docMeta, 2, 'front');
+
+        const queue = ReviewQueues.create([docMeta], now);
+
+        assert.equal(queue.length, 1);
+        assert.equal(queue[0].fingerprint, '0x001');
+        assert.equal(queue[0].pageNum, 2);
+        assert.equal(queue[0].flashcard.id, flashcard.id);
+        assert.isUndefined(queue[0].review);
+
+    });
+
+    it("reviewed cards are scheduled", function() {
+
+        const docMeta = DocMetas.create('0x001', 2);
+
+        const flashcard = addFlashcard(docMeta, 1, 'front');
+
+        const review = FlashcardReviews.record(docMeta, flashcard.id, 'good', now);
+
+        assert.equal(review.history.length, 1);
+        assert.equal(review.history[0].rating, 'good');
+        assert.equal(docMeta.reviews[flashcard.id], review);
+
+        assert.equal(ReviewQueues.create([docMeta], now).length, 0);
+
+        const tomorrow = new Date('2012-03-03T12:00:00.000Z');
+
+        const queue = ReviewQueues.create([docMeta], tomorrow);
+
+        assert.equal(queue.length, 1);
+        assert.equal(queue[0].review, review);
+
+        const secondReview = FlashcardReviews.record(docMeta, flashcard.id, 'good', tomorrow);
+
+        assert.equal(secondReview.history.length, 2);
+        assert.equal(secondReview.schedule.interval, 6);
+
+    });
+
+    it("scheduled cards come first and new cards are limited", function() {
+
+        const docMeta = DocMetas.create('0x001', 1);
+
+        const reviewed = addFlashcard(docMeta, 1, 'reviewed');
+        FlashcardReviews.record(docMeta, reviewed.id, 'again', new Date('2012-03-01T11:38:49.321Z'));
+
+        addFlashcard(docMeta, 1, 'new 1');
+        addFlashcard(docMeta, 1, 'new 2');
+
+        const queue = ReviewQueues.create([docMeta], now, 1);
+
+        assert.equal(queue.length, 2);
+        assert.equal(queue[0].flashcard.id, reviewed.id);
+        assert.isDefined(queue[0].review);
+        assert.isUndefined(queue[1].review);
+
+    });
+
+});
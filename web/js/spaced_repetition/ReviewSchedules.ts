@@ -0,0 +1,106 @@
+import {ReviewRating, ReviewSchedule} from '../metadata/FlashcardReview';
+import {ISODateTimeString} from '../metadata/ISODateTimeStrings';
+
+/**
+ * Schedules flashcards with the SM-2 algorithm used by SuperMemo and (in a
+ * modified form) by Anki.
+ *
+ * https://www.supermemo.com/en/archives1990-2015/english/ol/sm2
+ */
+export class ReviewSchedules {
+
+    /**
+     * Compute the new schedule of a card after it was reviewed with the given
+     * rating.  New cards don't have a schedule yet.
+     */
+    public static compute(schedule: ReviewSchedule | undefined,
+                          rating: ReviewRating,
+                          now: Date = new Date()): ReviewSchedule {
+
+        const current = schedule || this.createInitial(now);
+
+        const quality = QUALITIES[rating];
+
+        let repetitions: number;
+        let interval: number;
+        let lapses = current.lapses;
+
+        if (quality < 3) {
+
+            // the card was forgotten so we start the repetitions over.
+            repetitions = 0;
+            interval = 1;
+            ++lapses;
+
+        } else {
+
+            repetitions = current.repetitions + 1;
+
+            if (repetitions === 1) {
+                interval = 1;
+            } else if (repetitions === 2) {
+                interval = 6;
+            } else {
+                interval = Math.round(current.interval * current.easeFactor);
+            }
+
+        }
+
+        const easeFactor =
+            Math.max(MIN_EASE_FACTOR,
+                     current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+        return {
+            repetitions,
+            interval,
+            easeFactor: Math.round(easeFactor * 100) / 100,
+            lapses,
+            reviewed: now.toISOString(),
+            due: this.addDays(now, interval)
+        };
+
+    }
+
+    /**
+     * True when the card has never been reviewed or is due on or before the
+     * given time.
+     */
+    public static isDue(schedule: ReviewSchedule | undefined, now: Date = new Date()): boolean {
+        return schedule === undefined || new Date(schedule.due).getTime() <= now.getTime();
+    }
+
+    private static createInitial(now: Date): ReviewSchedule {
+
+        return {
+            repetitions: 0,
+            interval: 0,
+            easeFactor: INITIAL_EASE_FACTOR,
+            lapses: 0,
+            reviewed: now.toISOString(),
+            due: now.toISOString()
+        };
+
+    }
+
+    private static addDays(date: Date, days: number): ISODateTimeString {
+        return new Date(date.getTime() + days * DAY_MS).toISOString();
+    }
+
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE_FACTOR = 2.5;
+
+const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * The SM-2 response quality (0-5) for each rating.  Anything below 3 means the
+ * card was forgotten.
+ */
+const QUALITIES: {[rating: string]: number} = {
+    again: 1,
+    hard: 3,
+    good: 4,
+    easy: 5
+};
@@ -0,0 +1,74 @@
+import {assert} from 'chai';
+import {ReviewSchedules} from './ReviewSchedules';
+
+describe('ReviewSchedules', function() {
+
+    const now = new Date('2012-03-02T11:38:49.321Z');
+
+    it("new card", function() {
+
+        const schedule = ReviewSchedules.compute(undefined, 'good', now);
+
+        assert.deepEqual(schedule, {
+            repetitions: 1,
+            interval: 1,
+            easeFactor: 2.5,
+            lapses: 0,
+            reviewed: '2012-03-02T11:38:49.321Z',
+            due: '2012-03-03T11:38:49.321Z'
+        });
+
+    });
+
+    it("intervals grow with each successful review", function() {
+
+        let schedule = ReviewSchedules.compute(undefined, 'good', now);
+        schedule = ReviewSchedules.compute(schedule, 'good', now);
+
+        assert.equal(schedule.interval, 6);
+
+        schedule = ReviewSchedules.compute(schedule, 'good', now);
+
+        assert.equal(schedule.repetitions, 3);
+        assert.equal(schedule.interval, 15);
+
+    });
+
+    it("ease factor", function() {
+
+        assert.equal(ReviewSchedules.compute(undefined, 'easy', now).easeFactor, 2.6);
+        assert.equal(ReviewSchedules.compute(undefined, 'hard', now).easeFactor, 2.36);
+
+        let schedule = ReviewSchedules.compute(undefined, 'again', now);
+
+        for (let i = 0; i < 10; ++i) {
+            schedule = ReviewSchedules.compute(schedule, 'again', now);
+        }
+
+        assert.equal(schedule.easeFactor, 1.3);
+
+    });
+
+    it("forgotten cards start over", function() {
+
+        let schedule = ReviewSchedules.compute(undefined, 'good', now);
+        schedule = ReviewSchedules.compute(schedule, 'good', now);
+        schedule = ReviewSchedules.compute(schedule, 'again', now);
+
+        assert.equal(schedule.repetitions, 0);
+        assert.equal(schedule.interval, 1);
+        assert.equal(schedule.lapses, 1);
+
+    });
+
+    it("isDue", function() {
+
+        const schedule = ReviewSchedules.compute(undefined, 'good', now);
+
+        assert.isTrue(ReviewSchedules.isDue(undefined, now));
+        assert.isFalse(ReviewSchedules.isDue(schedule, now));
+        assert.isTrue(ReviewSchedules.isDue(schedule, new Date('2012-03-03T11:38:49.321Z')));
+
+    });
+
+});
@@ -12,6 +12,7 @@ import {TypedMessage} from '../../util/TypedMessage';
 import {PopupStateEvent} from '../popup/PopupStateEvent';
 import {RendererAnalytics} from '../../ga/RendererAnalytics';
 import {ControlledAnnotationBars} from './ControlledAnnotationBars';
+import {HighlightCategoriesStore} from '../../metadata/HighlightCategoriesStore';
 
 const log = Logger.create();
 
@@ -124,7 +125,13 @@ export class AnnotationBarService {
             onComment
         };
 
-        ControlledAnnotationBars.create(annotationBarControlledPopupProps, annotationBarCallbacks);
+        HighlightCategoriesStore.load()
+            .then(highlightCategories => {
+                ControlledAnnotationBars.create(annotationBarControlledPopupProps,
+                                                annotationBarCallbacks,
+                                                highlightCategories);
+            })
+            .catch(err => log.error("Unable to create annotation bar: ", err));
 
     }
 
@@ -7,6 +7,18 @@ import {HighlightCreatedEvent} from '../../comments/react/HighlightCreatedEvent'
 import {HighlightColor} from '../../metadata/BaseHighlight';
 import {PopupStateEvent} from '../popup/PopupStateEvent';
 import {EventListener} from '../../reactor/EventListener';
+import {HighlightCategory} from '../../metadata/HighlightCategories';
+
+/**
+ * The colors of the highlighter icons.
+ */
+const HIGHLIGHT_COLORS: {[color in HighlightColor]: string} = {
+    yellow: 'rgba(255,255,0)',
+    red: 'rgba(255,0,0)',
+    green: 'rgba(0,255,0)',
+    blue: 'rgba(0,0,255)',
+    transparent: 'rgba(255,255,255)'
+};
 
 /**
  * An annotation bar that is placed exactly.
@@ -28,47 +40,24 @@ export class ControlledAnnotationBar extends React.Component<IProps, IState> {
 
                 <div className="rounded p-1 annotationbar text-center" style={{}}>
 
-                    <Button size="lg"
-                            type="button"
-                            className="btn p-1 m-1 annotationbar-btn"
-                            title=""
-                            aria-label=""
-                            onClick={() => this.dispatchOnHighlighted('yellow')}
-                            style={{ }}>
-
-                        <span className="fas fa-highlighter"
-                              aria-hidden="true"
-                              style={{ color: 'rgba(255,255,0)' }}/>
-
-                    </Button>
+                    {this.props.highlightCategories.map(category =>
 
-                    <Button size="lg"
-                            type="button"
-                            className="btn p-1 m-1 annotationbar-btn"
-                            title=""
-                            aria-label=""
-                            onClick={() => this.dispatchOnHighlighted('red')}
-                            style={{ }}>
+                        <Button size="lg"
+                                key={category.id}
+                                type="button"
+                                className="btn p-1 m-1 annotationbar-btn"
+                                title={category.name}
+                                aria-label={category.name}
+                                onClick={() => this.dispatchOnHighlighted(category)}
+                                style={{ }}>
 
-                        <span className="fas fa-highlighter annotationbar-btn-highlighter"
-                              aria-hidden="true"
-                              style={{color: 'rgba(255,0,0)'}}/>
+                            <span className="fas fa-highlighter"
+                                  aria-hidden="true"
+                                  style={{color: HIGHLIGHT_COLORS[category.color]}}/>
 
-                    </Button>
+                        </Button>
 
-                    <Button size="lg"
-                            type="button"
-                            className="btn p-1 m-1 annotationbar-btn annotationbar-btn-highlighter"
-                            title=""
-                            aria-label=""
-                            onClick={() => this.dispatchOnHighlighted('green')}
-                            style={{ }}>
-
-                        <span className="fas fa-highlighter"
-                              aria-hidden="true"
-                              style={{color: 'rgba(0,255,0)'}}/>
-
-                    </Button>
+                    )}
 
                 </div>
 
@@ -77,11 +66,12 @@ export class ControlledAnnotationBar extends React.Component<IProps, IState> {
 
     }
 
-    private dispatchOnHighlighted(highlightColor: HighlightColor) {
+    private dispatchOnHighlighted(highlightCategory: HighlightCategory) {
 
         const highlightCreatedEvent: HighlightCreatedEvent = {
             activeSelection: this.props.activeSelection,
-            highlightColor,
+            highlightColor: highlightCategory.color,
+            highlightCategory,
             pageNum: this.props.pageNum,
             annotationDescriptor: this.props.annotationDescriptor
         };
@@ -108,6 +98,11 @@ export interface IProps extends AnnotationBarCallbacks {
      */
     readonly annotationDescriptor?: AnnotationDescriptor;
 
+    /**
+     * The categories to show a highlight button for.
+     */
+    readonly highlightCategories: ReadonlyArray<HighlightCategory>;
+
 }
 
 export interface IState {
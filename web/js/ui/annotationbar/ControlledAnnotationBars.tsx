@@ -14,19 +14,22 @@ import {Optional} from '../../util/ts/Optional';
 import {Points} from '../../Points';
 import {DocFormatFactory} from '../../docformat/DocFormatFactory';
 import {HighlightCreatedEvent} from '../../comments/react/HighlightCreatedEvent';
+import {HighlightCategory} from '../../metadata/HighlightCategories';
 
 const log = Logger.create();
 
 export class ControlledAnnotationBars {
 
     public static create(controlledPopupProps: ControlledPopupProps,
-                         annotationBarCallbacks: AnnotationBarCallbacks) {
+                         annotationBarCallbacks: AnnotationBarCallbacks,
+                         highlightCategories: ReadonlyArray<HighlightCategory>) {
 
-        this.registerEventListener(annotationBarCallbacks);
+        this.registerEventListener(annotationBarCallbacks, highlightCategories);
 
     }
 
-    private static registerEventListener(annotationBarCallbacks: AnnotationBarCallbacks) {
+    private static registerEventListener(annotationBarCallbacks: AnnotationBarCallbacks,
+                                         highlightCategories: ReadonlyArray<HighlightCategory>) {
 
         const target = document.getElementById("viewerContainer")!;
 
@@ -50,7 +53,8 @@ export class ControlledAnnotationBars {
                     annotationBar = this.createAnnotationBar(pageNum,
                                                              pageElement,
                                                              annotationBarCallbacks,
-                                                             activeSelectionEvent);
+                                                             activeSelectionEvent,
+                                                             highlightCategories);
 
                     break;
 
@@ -117,7 +121,8 @@ export class ControlledAnnotationBars {
     private static createAnnotationBar(pageNum: number,
                                        pageElement: HTMLElement,
                                        annotationBarCallbacks: AnnotationBarCallbacks,
-                                       activeSelectionEvent: ActiveSelectionEvent) {
+                                       activeSelectionEvent: ActiveSelectionEvent,
+                                       highlightCategories: ReadonlyArray<HighlightCategory>) {
 
         const point: Point = {
             x: activeSelectionEvent.boundingClientRect.left + (activeSelectionEvent.boundingClientRect.width / 2),
@@ -152,7 +157,8 @@ export class ControlledAnnotationBars {
             <ControlledAnnotationBar activeSelection={activeSelectionEvent}
                                      onHighlighted={onHighlightedCallback}
                                      type='range'
-                                     pageNum={pageNum}/>,
+                                     pageNum={pageNum}
+                                     highlightCategories={highlightCategories}/>,
 
             annotationBar
 
@@ -7,7 +7,7 @@ import {Firebase} from '../../firebase/Firebase';
 import * as firebase from '../../firebase/lib/firebase';
 import {FirebaseUIAuth} from '../../firebase/FirebaseUIAuth';
 import {Logger} from '../../logger/Logger';
-import {PersistenceLayerManager} from '../../datastore/PersistenceLayerManager';
+import {PersistenceLayerManager, PersistenceLayerTypes} from '../../datastore/PersistenceLayerManager';
 import {CloudSyncOverviewModal} from './CloudSyncOverviewModal';
 import {CloudSyncConfiguredModal} from './CloudSyncConfiguredModal';
 import {RendererAnalytics} from '../../ga/RendererAnalytics';
@@ -15,6 +15,8 @@ import {Nav} from '../util/Nav';
 import {InviteUsersModal} from './InviteUsersModal';
 import {Invitations} from '../../datastore/Invitations';
 import {SimpleTooltip} from '../tooltip/SimpleTooltip';
+import {SyncServerModal} from './SyncServerModal';
+import {SyncServerConnection, SyncServerConnections} from '../../datastore/SyncServerConnections';
 
 const log = Logger.create();
 
@@ -73,9 +75,27 @@ export class CloudAuthButton extends React.Component<IProps, IState> {
                         and always up to date.
                     </SimpleTooltip>
 
+                    <Button id="use-sync-server"
+                            color="link"
+                            size="sm"
+                            onClick={() => this.changeAuthStage('sync-server')}>
+
+                        Use Sync Server
+
+                    </Button>
+
+                    <SimpleTooltip target="use-sync-server">
+                        Synchronize your repository with a sync server you run
+                        yourself.
+                    </SimpleTooltip>
+
                     <CloudLoginModal isOpen={this.state.stage === 'login'}
                                      onCancel={() => this.changeAuthStage()}/>
 
+                    <SyncServerModal isOpen={this.state.stage === 'sync-server'}
+                                     onCancel={() => this.changeAuthStage()}
+                                     onConnect={connection => this.connectSyncServer(connection)}/>
+
 
                     {/*<CloudSyncOverviewModal isOpen={this.state.stage === 'overview'}*/}
                                             {/*onCancel={() => this.changeAuthStage()}*/}
@@ -152,6 +172,48 @@ export class CloudAuthButton extends React.Component<IProps, IState> {
 
             );
 
+        } else if (this.state.mode === 'sync-server') {
+
+            return (
+                <div>
+
+                    <UncontrolledDropdown direction="down"
+                                          size="sm">
+
+                        <DropdownToggle color="primary" caret>
+                            <i className="fas fa-server" style={{marginRight: '5px'}}></i>
+
+                            Sync Server
+                        </DropdownToggle>
+                        <DropdownMenu>
+
+                            <DropdownItem id="sync-server-disconnect"
+                                          size="sm"
+                                          onClick={() => this.disconnectSyncServer()}
+                                          className="text-danger">
+
+                                <i className="fas fa-sign-out-alt mr-1"></i>
+
+                                Disconnect
+
+                                <SimpleTooltip target="sync-server-disconnect"
+                                               show={0}
+                                               placement="left">
+
+                                    Disconnect from the sync server. Your data
+                                    will no longer be synchronized between your
+                                    devices.
+
+                                </SimpleTooltip>
+
+                            </DropdownItem>
+
+                        </DropdownMenu>
+                    </UncontrolledDropdown>
+
+                </div>
+            );
+
         } else {
             return (<div></div>);
         }
@@ -167,6 +229,41 @@ export class CloudAuthButton extends React.Component<IProps, IState> {
 
     }
 
+    private connectSyncServer(connection: SyncServerConnection) {
+
+        const doConnect = async () => {
+
+            SyncServerConnections.set(connection);
+
+            await this.props.persistenceLayerManager.change('sync-server');
+
+            this.setState({mode: 'sync-server'});
+            this.changeAuthStage();
+
+        };
+
+        doConnect()
+            .catch(err => log.error("Unable to connect to sync server: ", err));
+
+    }
+
+    private disconnectSyncServer() {
+
+        const doDisconnect = async () => {
+
+            await this.props.persistenceLayerManager.change('local');
+
+            SyncServerConnections.clear();
+
+            this.setState({mode: 'needs-auth'});
+
+        };
+
+        doDisconnect()
+            .catch(err => log.error("Unable to disconnect from sync server: ", err));
+
+    }
+
     private onInvitedUsers(emailAddresses: ReadonlyArray<string>) {
 
         const handleInvitedUsers = async () => {
@@ -217,6 +314,10 @@ export class CloudAuthButton extends React.Component<IProps, IState> {
             mode = 'authenticated';
         }
 
+        if (PersistenceLayerTypes.get() === 'sync-server') {
+            mode = 'sync-server';
+        }
+
         this.setState({
               mode,
           });
@@ -238,6 +339,6 @@ interface IState {
     readonly stage?: AuthStage;
 }
 
-type AuthMode = 'none' | 'needs-auth' | 'authenticated';
+type AuthMode = 'none' | 'needs-auth' | 'authenticated' | 'sync-server';
 
-type AuthStage = 'overview' | 'login' | 'configured' | 'invite';
+type AuthStage = 'overview' | 'login' | 'configured' | 'invite' | 'sync-server';
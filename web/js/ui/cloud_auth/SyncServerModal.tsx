@@ -0,0 +1,101 @@
+import * as React from 'react';
+import {Button, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader} from 'reactstrap';
+import {SyncServerConnection} from '../../datastore/SyncServerConnections';
+
+/**
+ * Asks for the URL and token of a self hosted sync server.
+ */
+export class SyncServerModal extends React.Component<IProps, IState> {
+
+    private url: string = "http://localhost:8700";
+
+    private token: string = "";
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.onConnect = this.onConnect.bind(this);
+
+    }
+
+    public render() {
+
+        return (
+
+            <Modal isOpen={this.props.isOpen}>
+
+                <ModalHeader>Connect to Sync Server</ModalHeader>
+
+                <ModalBody>
+
+                    <p>
+                        Synchronize your repository with a sync server you run
+                        yourself instead of Polar cloud sync.
+                    </p>
+
+                    <Label for="sync-server-url">Server URL</Label>
+
+                    <Input id="sync-server-url"
+                           type="text"
+                           className="mb-2"
+                           defaultValue={this.url}
+                           onChange={event => this.url = event.target.value}/>
+
+                    <Label for="sync-server-token">Token</Label>
+
+                    <Input id="sync-server-token"
+                           type="password"
+                           placeholder="Leave empty when the server doesn't use a token"
+                           onChange={event => this.token = event.target.value}/>
+
+                </ModalBody>
+
+                <ModalFooter>
+
+                    <Button color="secondary"
+                            onClick={() => this.props.onCancel()}>
+                        Cancel
+                    </Button>
+
+                    <Button color="primary"
+                            onClick={() => this.onConnect()}>
+                        Connect
+                    </Button>
+
+                </ModalFooter>
+
+            </Modal>
+
+        );
+
+    }
+
+    private onConnect() {
+
+        const url = this.url.trim();
+
+        if (url === '') {
+            return;
+        }
+
+        const token = this.token.trim();
+
+        this.props.onConnect({url, token: token !== '' ? token : undefined});
+
+    }
+
+}
+
+interface IProps {
+
+    readonly isOpen: boolean;
+
+    readonly onCancel: () => void;
+
+    readonly onConnect: (connection: SyncServerConnection) => void;
+
+}
+
+interface IState {
+
+}
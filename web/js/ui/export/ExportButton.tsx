@@ -1,7 +1,7 @@
 import React from 'react';
 import {DropdownItem, DropdownMenu, DropdownToggle, UncontrolledDropdown} from 'reactstrap';
 import {Logger} from '../../logger/Logger';
-import {ExportFormat} from '../../metadata/exporter/Exporters';
+import {ExportFormat, Exporters} from '../../metadata/exporter/Exporters';
 import {remote} from 'electron';
 
 const log = Logger.create();
@@ -32,8 +32,11 @@ export class ExportButton extends React.Component<IProps, IState> {
 
                     <DropdownMenu>
                         <DropdownItem size="sm" onClick={() => this.doExport('markdown')}>Markdown</DropdownItem>
-                        {/*<DropdownItem size="sm" onClick={() => this.doExport('html')}>HTML</DropdownItem>*/}
+                        <DropdownItem size="sm" onClick={() => this.doExport('html')}>HTML</DropdownItem>
                         <DropdownItem size="sm" onClick={() => this.doExport('json')}>JSON</DropdownItem>
+                        <DropdownItem divider />
+                        <DropdownItem size="sm" onClick={() => this.doExport('bibtex')}>BibTeX</DropdownItem>
+                        <DropdownItem size="sm" onClick={() => this.doExport('csl-json')}>CSL-JSON</DropdownItem>
                     </DropdownMenu>
                 </UncontrolledDropdown>
 
@@ -43,22 +46,9 @@ export class ExportButton extends React.Component<IProps, IState> {
 
     }
 
-    private toExtension(format: ExportFormat) {
-
-        switch (format) {
-            case 'markdown':
-                return 'md';
-            case 'html':
-                return 'html';
-            case 'json':
-                return 'json';
-        }
-
-    }
-
     private doExport(format: ExportFormat) {
 
-        const ext = this.toExtension(format);
+        const ext = Exporters.toExtension(format);
 
         const opts: Electron.SaveDialogOptions = {
 
@@ -0,0 +1,137 @@
+import * as React from 'react';
+import {Button, FormGroup, Input, Label, Modal, ModalBody, ModalFooter, ModalHeader} from 'reactstrap';
+import Select from 'react-select';
+import {Tag} from '../../tags/Tag';
+import {LibraryExportFilter} from '../../metadata/exporter/LibraryExporter';
+import {TagSelectOption} from '../../../../apps/repository/js/TagSelectOption';
+
+/**
+ * Lets the user choose which documents are included in a library export
+ * before picking where to save it.
+ */
+export class LibraryExportFilterModal extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+            tags: [],
+            archived: 'any',
+            flagged: 'any'
+        };
+
+    }
+
+    public render() {
+
+        const options: TagSelectOption[] = this.props.tags.map(current => {
+            return {
+                value: current.id,
+                label: current.label
+            };
+        });
+
+        return (
+
+            <Modal isOpen={this.props.isOpen}>
+                <ModalHeader>Export library</ModalHeader>
+                <ModalBody>
+
+                    <FormGroup>
+
+                        <Label>Only documents with all of these tags</Label>
+
+                        <Select isMulti
+                                isClearable
+                                className="library-export-tags"
+                                classNamePrefix="select"
+                                onChange={(selected: any) => this.setState({tags: selected || []})}
+                                options={options}/>
+
+                    </FormGroup>
+
+                    <FormGroup>
+
+                        <Label>Archived</Label>
+
+                        <Input type="select"
+                               value={this.state.archived}
+                               onChange={event => this.setState({archived: event.target.value as BooleanFilter})}>
+
+                            <option value="any">All documents</option>
+                            <option value="true">Only archived documents</option>
+                            <option value="false">Exclude archived documents</option>
+
+                        </Input>
+
+                    </FormGroup>
+
+                    <FormGroup>
+
+                        <Label>Flagged</Label>
+
+                        <Input type="select"
+                               value={this.state.flagged}
+                               onChange={event => this.setState({flagged: event.target.value as BooleanFilter})}>
+
+                            <option value="any">All documents</option>
+                            <option value="true">Only flagged documents</option>
+                            <option value="false">Exclude flagged documents</option>
+
+                        </Input>
+
+                    </FormGroup>
+
+                </ModalBody>
+                <ModalFooter>
+
+                    <Button color="secondary"
+                            onClick={() => this.props.onCancel()}>
+                        Cancel
+                    </Button>
+
+                    <Button color="primary"
+                            onClick={() => this.props.onExport(this.toFilter())}>
+                        Export
+                    </Button>
+
+                </ModalFooter>
+            </Modal>
+
+        );
+
+    }
+
+    private toFilter(): LibraryExportFilter {
+
+        const toBoolean = (value: BooleanFilter) => value === 'any' ? undefined : value === 'true';
+
+        return {
+            tags: this.state.tags.map(current => current.value),
+            archived: toBoolean(this.state.archived),
+            flagged: toBoolean(this.state.flagged)
+        };
+
+    }
+
+}
+
+type BooleanFilter = 'any' | 'true' | 'false';
+
+interface IProps {
+    readonly isOpen: boolean;
+
+    /**
+     * The tags the user can filter by.
+     */
+    readonly tags: ReadonlyArray<Tag>;
+
+    readonly onExport: (filter: LibraryExportFilter) => void;
+    readonly onCancel: () => void;
+}
+
+interface IState {
+    readonly tags: ReadonlyArray<TagSelectOption>;
+    readonly archived: BooleanFilter;
+    readonly flagged: BooleanFilter;
+}
@@ -0,0 +1,38 @@
+import * as ReactDOM from 'react-dom';
+import * as React from 'react';
+import {Elements} from '../../util/Elements';
+import {Tag} from '../../tags/Tag';
+import {LibraryExportFilter} from '../../metadata/exporter/LibraryExporter';
+import {LibraryExportFilterModal} from './LibraryExportFilterModal';
+
+export class LibraryExportFilterModals {
+
+    /**
+     * Ask the user which documents to export.  onExport isn't called when the
+     * user cancels.
+     */
+    public static show(tags: ReadonlyArray<Tag>, onExport: (filter: LibraryExportFilter) => void) {
+
+        const target = Elements.createElementHTML(`<div class="library-export-filter"></div>`);
+
+        document.body.appendChild(target);
+
+        const onClose = () => {
+            ReactDOM.unmountComponentAtNode(target);
+            target.parentElement!.removeChild(target);
+        };
+
+        ReactDOM.render(
+            <LibraryExportFilterModal isOpen={true}
+                                      tags={tags}
+                                      onExport={filter => {
+                                          onClose();
+                                          onExport(filter);
+                                      }}
+                                      onCancel={onClose}/>,
+            target
+        );
+
+    }
+
+}
@@ -0,0 +1,64 @@
+import * as React from 'react';
+import Input from 'reactstrap/lib/Input';
+import {HighlightCategory, HighlightCategoryFilter} from '../../metadata/HighlightCategories';
+
+class Styles {
+
+    public static Select: React.CSSProperties = {
+        minWidth: '10em',
+        fontSize: '14px'
+    };
+
+}
+
+/**
+ * Select which highlight category to show.  Used to filter annotations and
+ * exports by category.
+ */
+export class HighlightCategorySelector extends React.Component<IProps, IState> {
+
+    constructor(props: IProps, context: any) {
+        super(props, context);
+
+        this.state = {
+        };
+
+    }
+
+    public render() {
+
+        const selected = this.props.filter.length > 0 ? this.props.filter[0] : '';
+
+        return (
+
+            <Input type="select"
+                   style={Styles.Select}
+                   className="p-0"
+                   value={selected}
+                   onChange={htmlInputElement => this.onChange(htmlInputElement.target.value)}>
+
+                <option value="">All categories</option>
+
+                {this.props.highlightCategories.map(category =>
+                    <option key={category.id} value={category.id}>{category.name}</option>)}
+
+            </Input>
+
+        );
+
+    }
+
+    private onChange(value: string) {
+        this.props.onChange(value === '' ? [] : [value]);
+    }
+
+}
+
+export interface IProps {
+    readonly highlightCategories: ReadonlyArray<HighlightCategory>;
+    readonly filter: HighlightCategoryFilter;
+    readonly onChange: (filter: HighlightCategoryFilter) => void;
+}
+
+export interface IState {
+}
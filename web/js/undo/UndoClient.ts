@@ -0,0 +1,29 @@
+import {Messenger} from '../electron/messenger/Messenger';
+import {Logger} from '../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Sends undo and redo from the Edit menu to the viewer (see UndoService).
+ */
+export class UndoClient {
+
+    public static undo() {
+        this.postMessage('undo');
+    }
+
+    public static redo() {
+        this.postMessage('redo');
+    }
+
+    private static postMessage(type: string) {
+
+        Messenger.postMessage({
+            message: {
+                type
+            }
+        }).catch(err => log.error("Could not post message", err));
+
+    }
+
+}
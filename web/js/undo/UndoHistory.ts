@@ -0,0 +1,300 @@
+import {DocMeta} from '../metadata/DocMeta';
+import {TraceEvent} from '../proxies/TraceEvent';
+import {MutationType} from '../proxies/MutationType';
+import {ObjectPaths} from '../proxies/ObjectPaths';
+import {Objects} from '../util/Objects';
+import {Logger} from '../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * The maximum number of operations we keep per document.
+ */
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Records the annotation edits made to a traced DocMeta (see Proxies) so that
+ * they can be undone and redone.
+ *
+ * All the mutations made within the same turn of the event loop are grouped
+ * into one operation.  Erasing a pagemark for example deletes the pagemark
+ * and updates the progress in docInfo and undoing it restores both.
+ *
+ * Operations are applied back through the DocMeta proxy so that the changes
+ * are persisted and the views update just like any other edit.
+ */
+export class UndoHistory {
+
+    private readonly docMeta: DocMeta;
+
+    private readonly limit: number;
+
+    private readonly undoStack: UndoableOperation[] = [];
+
+    private redoStack: UndoableOperation[] = [];
+
+    /**
+     * The operation we're currently recording mutations into.
+     */
+    private pending?: UndoableOperation;
+
+    /**
+     * True while we're undoing or redoing so that the resulting mutations
+     * aren't recorded as new operations.
+     */
+    private applying: boolean = false;
+
+    /**
+     * @param docMeta The traced DocMeta for the document.
+     */
+    constructor(docMeta: DocMeta, limit: number = DEFAULT_LIMIT) {
+        this.docMeta = docMeta;
+        this.limit = limit;
+    }
+
+    /**
+     * Start listening to mutations on every object in the DocMeta.  Objects
+     * added later inherit the listener from their parent.
+     */
+    public start(): this {
+
+        const traceListener = (traceEvent: TraceEvent) => this.onMutation(traceEvent);
+
+        for (const objectPathEntry of ObjectPaths.recurse(this.docMeta)) {
+
+            const value = objectPathEntry.value;
+
+            // frozen objects aren't traced so have no addTraceListener
+            if (typeof value.addTraceListener === 'function') {
+                value.addTraceListener(traceListener);
+            }
+
+        }
+
+        return this;
+
+    }
+
+    /**
+     * Finish the operation being recorded so that the next mutation starts a
+     * new one.  This is called automatically at the end of the event loop turn.
+     */
+    public checkpoint() {
+
+        if (! this.pending) {
+            return;
+        }
+
+        this.undoStack.push(this.pending);
+        this.pending = undefined;
+
+        while (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+
+    }
+
+    public canUndo(): boolean {
+        return this.pending !== undefined || this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Revert the most recent operation.  Returns false if there was nothing
+     * to undo.
+     */
+    public undo(): boolean {
+
+        this.checkpoint();
+
+        const operation = this.undoStack.pop();
+
+        if (! operation) {
+            return false;
+        }
+
+        this.apply([...operation.mutations].reverse(), mutation => this.revert(mutation));
+
+        this.redoStack.push(operation);
+
+        return true;
+
+    }
+
+    /**
+     * Apply the most recently undone operation again.  Returns false if there
+     * was nothing to redo.
+     */
+    public redo(): boolean {
+
+        this.checkpoint();
+
+        const operation = this.redoStack.pop();
+
+        if (! operation) {
+            return false;
+        }
+
+        this.apply(operation.mutations, mutation => this.reapply(mutation));
+
+        this.undoStack.push(operation);
+
+        return true;
+
+    }
+
+    /**
+     * Only annotations and the progress computed from the pagemarks can be
+     * undone.  Other changes like the DocInfo being replaced after another
+     * window updates it or the page dimensions computed on load aren't edits
+     * the user made.
+     */
+    public static isUndoable(traceEvent: TraceEvent): boolean {
+
+        if (traceEvent.mutationType === MutationType.INITIAL) {
+            return false;
+        }
+
+        if (traceEvent.path === '/docInfo') {
+            return traceEvent.property === 'progress';
+        }
+
+        const parts = traceEvent.path.split('/').filter(part => part !== '');
+
+        if (parts[0] !== 'pageMetas' || parts.length < 2) {
+            return false;
+        }
+
+        const member = parts.length === 2 ? traceEvent.property : parts[2];
+
+        return member !== 'pageInfo';
+
+    }
+
+    private onMutation(traceEvent: TraceEvent) {
+
+        if (this.applying || ! UndoHistory.isUndoable(traceEvent)) {
+            return;
+        }
+
+        if (! this.pending) {
+            this.pending = {mutations: []};
+            setTimeout(() => this.checkpoint(), 0);
+        }
+
+        this.pending.mutations.push({
+            path: traceEvent.path,
+            property: traceEvent.property,
+            mutationType: traceEvent.mutationType,
+            value: UndoHistory.copy(traceEvent.value),
+            previousValue: UndoHistory.copy(traceEvent.previousValue)
+        });
+
+        // any new edit invalidates what was undone before it.
+        this.redoStack = [];
+
+    }
+
+    private apply(mutations: ReadonlyArray<UndoableMutation>,
+                  applier: (mutation: UndoableMutation) => void) {
+
+        this.applying = true;
+
+        try {
+            mutations.forEach(applier);
+        } finally {
+            this.applying = false;
+        }
+
+    }
+
+    private revert(mutation: UndoableMutation) {
+        this.write(mutation.path, mutation.property, mutation.previousValue);
+    }
+
+    private reapply(mutation: UndoableMutation) {
+
+        const value = mutation.mutationType === MutationType.DELETE ? undefined : mutation.value;
+
+        this.write(mutation.path, mutation.property, value);
+
+    }
+
+    /**
+     * Write the value at the given path through the proxies.  An undefined
+     * value means the property didn't exist and is deleted.
+     */
+    private write(path: string, property: string, value: any) {
+
+        const target = this.resolve(path);
+
+        if (! target) {
+            log.warn("Unable to find object to undo at: " + path);
+            return;
+        }
+
+        if (value === undefined) {
+            delete target[property];
+        } else {
+            target[property] = UndoHistory.copy(value);
+        }
+
+    }
+
+    private resolve(path: string): any {
+
+        let result: any = this.docMeta;
+
+        for (const part of path.split('/').filter(current => current !== '')) {
+
+            if (! result || typeof result !== 'object') {
+                return undefined;
+            }
+
+            result = result[part];
+
+        }
+
+        return result;
+
+    }
+
+    /**
+     * Values are copied when recorded and again when written so that later
+     * edits to the live objects don't change the history.
+     */
+    private static copy(value: any) {
+
+        if (value && typeof value === 'object') {
+            return Objects.duplicate(value);
+        }
+
+        return value;
+
+    }
+
+}
+
+export interface UndoableMutation {
+
+    readonly path: string;
+
+    readonly property: string;
+
+    readonly mutationType: MutationType;
+
+    readonly value: any;
+
+    readonly previousValue: any;
+
+}
+
+/**
+ * The mutations made by one user action.
+ */
+export interface UndoableOperation {
+    readonly mutations: UndoableMutation[];
+}
@@ -0,0 +1,111 @@
+import {assert} from 'chai';
+import {DocMeta} from '../metadata/DocMeta';
+import {DocMetas} from '../metadata/DocMetas';
+import {Pagemarks} from '../metadata/Pagemarks';
+import {PagemarkType} from '../metadata/PagemarkType';
+import {Proxies} from '../proxies/Proxies';
+import {TraceEvent} from '../proxies/TraceEvent';
+import {TestingTime} from '../test/TestingTime';
+import {UndoHistory} from './UndoHistory';
+
+TestingTime.freeze();
+
+describe('UndoHistory', function() {
+
+    function createDocMeta(traceEvents: TraceEvent[] = []): DocMeta {
+        const docMeta = DocMetas.create('0x001', 2);
+        return Proxies.create(docMeta, (traceEvent: TraceEvent) => traceEvents.push(traceEvent));
+    }
+
+    function createPagemark(docMeta: DocMeta, pageNum: number) {
+        const pagemark = Pagemarks.create({type: PagemarkType.SINGLE_COLUMN, percentage: 100, column: 0});
+        Pagemarks.updatePagemark(docMeta, pageNum, pagemark);
+        return pagemark;
+    }
+
+    it("undo and redo an erased pagemark", function() {
+
+        const docMeta = createDocMeta();
+        const undoHistory = new UndoHistory(docMeta).start();
+
+        const pagemark = createPagemark(docMeta, 1);
+        undoHistory.checkpoint();
+
+        Pagemarks.updatePagemark(docMeta, 1);
+        undoHistory.checkpoint();
+
+        assert.deepEqual(Object.keys(docMeta.getPageMeta(1).pagemarks), []);
+        assert.equal(docMeta.docInfo.progress, 0);
+
+        assert.ok(undoHistory.undo());
+
+        assert.deepEqual(Object.keys(docMeta.getPageMeta(1).pagemarks), [pagemark.id]);
+        assert.equal(docMeta.getPageMeta(1).pagemarks[pagemark.id].percentage, 100);
+        assert.equal(docMeta.docInfo.progress, 50);
+
+        assert.ok(undoHistory.redo());
+
+        assert.deepEqual(Object.keys(docMeta.getPageMeta(1).pagemarks), []);
+        assert.equal(docMeta.docInfo.progress, 0);
+
+        assert.ok(undoHistory.undo());
+        assert.ok(undoHistory.undo());
+
+        assert.deepEqual(Object.keys(docMeta.getPageMeta(1).pagemarks), []);
+        assert.isFalse(undoHistory.canUndo());
+        assert.isFalse(undoHistory.undo());
+
+    });
+
+    it("restored values are traced so they're persisted", function() {
+
+        const traceEvents: TraceEvent[] = [];
+
+        const docMeta = createDocMeta(traceEvents);
+        const undoHistory = new UndoHistory(docMeta).start();
+
+        createPagemark(docMeta, 2);
+        undoHistory.checkpoint();
+
+        traceEvents.splice(0);
+
+        undoHistory.undo();
+
+        assert.ok(traceEvents.some(traceEvent => traceEvent.path === '/pageMetas/2/pagemarks'));
+
+    });
+
+    it("new edits clear the redo history", function() {
+
+        const docMeta = createDocMeta();
+        const undoHistory = new UndoHistory(docMeta).start();
+
+        createPagemark(docMeta, 1);
+        undoHistory.checkpoint();
+
+        undoHistory.undo();
+        assert.ok(undoHistory.canRedo());
+
+        createPagemark(docMeta, 2);
+
+        assert.isFalse(undoHistory.canRedo());
+
+    });
+
+    it("changes other than annotation edits are ignored", function() {
+
+        const docMeta = createDocMeta();
+        const undoHistory = new UndoHistory(docMeta).start();
+
+        docMeta.docInfo.title = "A new title";
+        docMeta.getPageMeta(1).pageInfo.dimensions = {width: 100, height: 100};
+
+        DocMetas.withBatchedMutations(docMeta, () => {
+            // noop
+        });
+
+        assert.isFalse(undoHistory.canUndo());
+
+    });
+
+});
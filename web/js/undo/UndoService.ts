@@ -0,0 +1,121 @@
+import {DocumentLoadedEvent, Model} from '../model/Model';
+import {UndoHistory} from './UndoHistory';
+import {AppRuntime} from '../AppRuntime';
+import {Logger} from '../logger/Logger';
+
+const log = Logger.create();
+
+/**
+ * Keeps the undo history for the document in the viewer and undoes / redoes
+ * when asked by the Edit menu (see UndoClient).
+ */
+export class UndoService {
+
+    private readonly model: Model;
+
+    private undoHistory?: UndoHistory;
+
+    public constructor(model: Model) {
+        this.model = model;
+    }
+
+    public start() {
+
+        this.model.registerListenerForDocumentLoaded(event => this.onDocumentLoaded(event));
+
+        window.addEventListener("message", event => this.onMessageReceived(event), false);
+
+        if (! AppRuntime.isElectron()) {
+            // in Electron the Edit menu accelerators handle the keys.
+            document.addEventListener("keydown", event => this.onKeyDown(event));
+        }
+
+        return this;
+
+    }
+
+    private onDocumentLoaded(event: DocumentLoadedEvent) {
+        log.debug("Creating undo history");
+        this.undoHistory = new UndoHistory(event.docMeta).start();
+    }
+
+    private onMessageReceived(event: any) {
+
+        switch (event.data.type) {
+
+            case "undo":
+                this.undo();
+                break;
+
+            case "redo":
+                this.redo();
+                break;
+
+        }
+
+    }
+
+    private onKeyDown(event: KeyboardEvent) {
+
+        if (! (event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+            return;
+        }
+
+        if (this.isEditingText()) {
+            return;
+        }
+
+        event.preventDefault();
+
+        if (event.shiftKey) {
+            this.redo();
+        } else {
+            this.undo();
+        }
+
+    }
+
+    private undo() {
+
+        if (this.isEditingText()) {
+            document.execCommand('undo');
+            return;
+        }
+
+        if (this.undoHistory && ! this.undoHistory.undo()) {
+            log.info("Nothing to undo");
+        }
+
+    }
+
+    private redo() {
+
+        if (this.isEditingText()) {
+            document.execCommand('redo');
+            return;
+        }
+
+        if (this.undoHistory && ! this.undoHistory.redo()) {
+            log.info("Nothing to redo");
+        }
+
+    }
+
+    /**
+     * When a text field has focus the keys should undo the typing in the field
+     * and not the annotation edits.
+     */
+    private isEditingText() {
+
+        const element = document.activeElement;
+
+        if (! element) {
+            return false;
+        }
+
+        return ['INPUT', 'TEXTAREA'].includes(element.tagName) ||
+               (element instanceof HTMLElement && element.isContentEditable);
+
+    }
+
+}
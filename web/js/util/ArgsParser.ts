@@ -28,10 +28,12 @@ export class ArgsParser {
 
         argv.forEach((arg) => {
 
-            if( /^--[a-zA-Z0-9_-]+=[a-zA-Z0-9_-]+/.test(arg) ) {
-                let _split = arg.split("=");
-                let key = ArgsParser._toKey(_split[0]);
-                let value = Strings.toPrimitive(_split[1]);
+            if (/^--[a-zA-Z0-9_-]+=.+/.test(arg)) {
+                // split on the first '=' only so that values can be paths,
+                // URLs, etc.
+                const idx = arg.indexOf("=");
+                const key = ArgsParser._toKey(arg.substring(0, idx));
+                const value = Strings.toPrimitive(arg.substring(idx + 1));
                 result[key] = value;
             }
 
@@ -30,6 +30,17 @@ describe('ArgsParser', function() {
 
         });
 
+        it("values with paths and URLs", function () {
+
+            let args = ArgsParser.parse(["--urls=/tmp/reading-list.txt", "--link=https://example.com/?a=b"]);
+
+            assert.deepEqual(args, {
+                urls: '/tmp/reading-list.txt',
+                link: 'https://example.com/?a=b'
+            });
+
+        });
+
     });
 
 
@@ -37,7 +37,7 @@ export class MockFetch {
 
 // we have to use a custom RequestInit to be compatible with node_fetch and window.fetch
 export interface RequestInit {
-    body?: string ;
+    body?: string | Buffer;
     cache?: RequestCache;
     credentials?: RequestCredentials;
     headers?: {[key: string]: string};
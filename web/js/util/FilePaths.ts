@@ -156,6 +156,24 @@ export class FilePaths {
 
     }
 
+    /**
+     * The inverse of toFileURL.
+     */
+    public static fromFileURL(url: string) {
+
+        Preconditions.assert(url, value => value.startsWith('file://'), 'Not a file URL: ' + url);
+
+        let path = decodeURI(url.substring('file://'.length));
+
+        if (this.SEP === '\\') {
+            // remove the slash before the drive letter.
+            path = path.replace(/^\/([a-zA-Z]:)/, '$1').replace(/\//g, '\\');
+        }
+
+        return path;
+
+    }
+
     /**
      * If the file ends with .txt, .pdf, .html then return the extension.
      * @param path
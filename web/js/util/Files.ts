@@ -1,4 +1,5 @@
 import fs, {PathLike, Stats} from "fs";
+import stream from "stream";
 import {promisify} from 'util';
 import {Logger} from '../logger/Logger';
 import ErrnoException = NodeJS.ErrnoException;
@@ -26,6 +27,9 @@ class Promised {
     public fdatasyncAsync = promisify(fs.fdatasync);
     public fsyncAsync = promisify(fs.fsync);
     public linkAsync = promisify(fs.link);
+    public renameAsync = promisify(fs.rename);
+    public readAsync = promisify(fs.read);
+    public writeAsync = promisify(fs.write);
 
 }
 
@@ -372,16 +376,28 @@ export class Files {
         } else if ( FileHandles.isFileHandle(data) ) {
 
             const fileRef = <FileHandle> data;
-            Files.createReadStream(fileRef.path).pipe(fs.createWriteStream(path));
+            return this.pipeAsync(Files.createReadStream(fileRef.path), fs.createWriteStream(path));
 
         } else {
 
             const readableStream = <NodeJS.ReadableStream> data;
-            readableStream.pipe(fs.createWriteStream(path));
+            return this.pipeAsync(readableStream, fs.createWriteStream(path));
         }
 
     }
 
+    /**
+     * Pipe the streams into each other and resolve once everything has been
+     * written.  Fails if any of the streams fail.
+     */
+    public static pipeAsync(...streams: Array<NodeJS.ReadableStream | NodeJS.WritableStream>): Promise<void> {
+
+        return new Promise<void>((resolve, reject) => {
+            stream.pipeline(streams, err => err ? reject(err) : resolve());
+        });
+
+    }
+
     public static async statAsync(path: string): Promise<Stats> {
         return this.withProperException(() => this.promised.statAsync(path));
     }
@@ -406,6 +422,10 @@ export class Files {
         return this.withProperException(() => this.promised.linkAsync(existingPath, newPath));
     }
 
+    public static async renameAsync(oldPath: PathLike, newPath: PathLike): Promise<void> {
+        return this.withProperException(() => this.promised.renameAsync(oldPath, newPath));
+    }
+
     public static async readdirAsync(path: string): Promise<string[]> {
         return this.withProperException(() => this.promised.readdirAsync(path));
     }
@@ -438,6 +458,29 @@ export class Files {
 
     }
 
+    /**
+     * Read from the given position in the file.
+     *
+     * @return The number of bytes read.
+     */
+    public static async readAsync(fd: number,
+                                  buffer: Buffer,
+                                  offset: number,
+                                  length: number,
+                                  position: number): Promise<number> {
+
+        const result = await this.withProperException(() => this.promised.readAsync(fd, buffer, offset, length, position));
+        return result.bytesRead;
+
+    }
+
+    /**
+     * Write the buffer at the given position in the file.
+     */
+    public static async writeAsync(fd: number, buffer: Buffer, position: number): Promise<void> {
+        await this.withProperException(() => this.promised.writeAsync(fd, buffer, 0, buffer.length, position));
+    }
+
     /**
      *
      */
@@ -54,6 +54,18 @@ export class Promises {
 
     }
 
+    /**
+     * Convert a thenable (like the PDFPromise returned by pdf.js) to a real
+     * promise so that it can be awaited.
+     */
+    public static toPromise<T>(thenable: Thenable<T>): Promise<T> {
+
+        return new Promise<T>((resolve, reject) => {
+            thenable.then(value => resolve(value), reason => reject(reason));
+        });
+
+    }
+
     /**
      * Execute a function which is async and log any errors it generates.
      *
@@ -68,6 +80,10 @@ export class Promises {
 
 }
 
+export interface Thenable<T> {
+    then(onResolve: (value: T) => any, onReject?: (reason: any) => void): any;
+}
+
 export interface Completion<T> {
 
     readonly resolve: ResolveFunction<T>;
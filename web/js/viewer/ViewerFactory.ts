@@ -2,6 +2,7 @@ import {Model} from '../model/Model';
 import {DocFormats} from '../docformat/DocFormats';
 import {HTMLViewer} from './html/HTMLViewer';
 import {PDFViewer} from './pdf/PDFViewer';
+import {EPUBViewer} from './epub/EPUBViewer';
 
 export class ViewerFactory {
 
@@ -16,6 +17,9 @@ export class ViewerFactory {
             case "pdf":
                 return new PDFViewer();
 
+            case "epub":
+                return new EPUBViewer();
+
             default:
                 throw new Error("Unknown doc format: " + format);
         }
@@ -0,0 +1,267 @@
+import {shell} from 'electron';
+import {Viewer} from '../Viewer';
+import {Logger} from '../../logger/Logger';
+import {notNull} from '../../Preconditions';
+import {DocDetail} from '../../metadata/DocDetail';
+import {EPUBFormat} from '../../docformat/EPUBFormat';
+import {EPUBReader} from '../../epub/EPUBReader';
+import {EPUBChapter, EPUBPackage, EPUBPackages} from '../../epub/EPUBPackages';
+import {EPUBSanitizer} from '../../epub/EPUBSanitizer';
+
+const log = Logger.create();
+
+/**
+ * Renders every chapter of an EPUB into its own .page so that pagemarks,
+ * highlights, and the annotation sidebar all work on chapters the same way
+ * they do on PDF pages.
+ */
+export class EPUBViewer extends Viewer {
+
+    private requestParams?: RequestParams;
+
+    private epubPackage?: EPUBPackage;
+
+    public start() {
+
+        log.info("Starting EPUBViewer");
+
+        this.requestParams = this.parseRequestParams();
+
+        this.load(this.requestParams)
+            .catch(err => log.error("Unable to load EPUB: ", err));
+
+    }
+
+    public docDetail(): DocDetail {
+
+        const requestParams = notNull(this.requestParams);
+
+        return {
+            fingerprint: requestParams.fingerprint,
+            title: this.epubPackage ? this.epubPackage.title : undefined,
+            nrPages: this.epubPackage ? this.epubPackage.chapters.length : undefined,
+            filename: this.getFilename()
+        };
+
+    }
+
+    private async load(requestParams: RequestParams) {
+
+        const response = await fetch(requestParams.file);
+
+        const epubReader = new EPUBReader();
+        await epubReader.init(await response.arrayBuffer());
+
+        this.epubPackage = epubReader.getPackage();
+
+        const container = notNull(document.querySelector("#viewer"));
+
+        let pageNum = 1;
+
+        for (const chapter of this.epubPackage.chapters) {
+            container.appendChild(await this.renderChapter(epubReader, chapter, pageNum++));
+        }
+
+        new EPUBFormat().setCurrentDocFingerprint(requestParams.fingerprint);
+
+        // the pages are fully rendered at this point so we only have to tell
+        // the controller that the document was loaded.
+        const event = new Event('pagesinit', {bubbles: true});
+        notNull(document.querySelector(".page")).dispatchEvent(event);
+
+        this.scrollToRequestedPage();
+
+    }
+
+    /**
+     * Jump to the page given in the hash (e.g. #page=3) the same way pdf.js
+     * does for PDFs.
+     */
+    private scrollToRequestedPage() {
+
+        const match = window.location.hash.match(/page=([0-9]+)/);
+
+        if (! match) {
+            return;
+        }
+
+        const pageElement = document.querySelector(`.page[data-page-number='${match[1]}']`);
+
+        if (pageElement) {
+            pageElement.scrollIntoView();
+        }
+
+    }
+
+    private async renderChapter(epubReader: EPUBReader,
+                                chapter: EPUBChapter,
+                                pageNum: number): Promise<HTMLElement> {
+
+        const pageElement = document.createElement('div');
+        pageElement.setAttribute('class', 'page');
+        pageElement.setAttribute('data-page-number', `${pageNum}`);
+        pageElement.setAttribute('data-epub-path', chapter.path);
+
+        const textLayer = document.createElement('div');
+        textLayer.setAttribute('class', 'textLayer');
+
+        const chapterElement = document.createElement('div');
+        chapterElement.setAttribute('class', 'epub-chapter');
+
+        const body = this.parseChapter(await epubReader.readText(chapter.path));
+
+        // the chapter is untrusted and the book CSS would apply to the whole
+        // viewer, not just the chapter, so we only keep the content.  This has
+        // to happen before the content is imported into the viewer or inline
+        // event handlers would run.
+        EPUBSanitizer.sanitize(body);
+
+        for (const child of Array.from(body.childNodes)) {
+            chapterElement.appendChild(document.importNode(child, true));
+        }
+
+        await this.inlineImages(epubReader, chapter, chapterElement);
+
+        this.handleLinks(chapter, chapterElement);
+
+        textLayer.appendChild(chapterElement);
+        pageElement.appendChild(textLayer);
+
+        // the pagemarks and annotations wait for this to know the page has
+        // been rendered.
+        const endOfContent = document.createElement('div');
+        endOfContent.setAttribute('class', 'endOfContent');
+        pageElement.appendChild(endOfContent);
+
+        return pageElement;
+
+    }
+
+    private parseChapter(content: string): HTMLElement {
+
+        const domParser = new DOMParser();
+
+        const doc = domParser.parseFromString(content, 'application/xhtml+xml');
+
+        if (doc.querySelector('parsererror') === null && doc.querySelector('body') !== null) {
+            return notNull(doc.querySelector('body'));
+        }
+
+        // some EPUBs aren't well formed XHTML so fall back to the more lenient
+        // HTML parser.
+        return domParser.parseFromString(content, 'text/html').body;
+
+    }
+
+    /**
+     * Images within the chapter reference other entries in the EPUB so we
+     * replace them with data URLs.
+     */
+    private async inlineImages(epubReader: EPUBReader, chapter: EPUBChapter, chapterElement: HTMLElement) {
+
+        const mediaTypes: {[path: string]: string | undefined} = {};
+
+        for (const item of notNull(this.epubPackage).manifest) {
+            mediaTypes[item.path] = item.mediaType;
+        }
+
+        const toDataURL = async (src: string): Promise<string | undefined> => {
+
+            const path = EPUBPackages.resolve(chapter.path, src);
+
+            if (! epubReader.contains(path)) {
+                return undefined;
+            }
+
+            const mediaType = mediaTypes[path] || 'application/octet-stream';
+
+            return `data:${mediaType};base64,${await epubReader.readBase64(path)}`;
+
+        };
+
+        for (const img of Array.from(chapterElement.querySelectorAll('img'))) {
+
+            const dataURL = await toDataURL(img.getAttribute('src') || '');
+
+            if (dataURL) {
+                img.setAttribute('src', dataURL);
+            }
+
+        }
+
+        // SVG cover pages use <image> elements.
+        for (const image of Array.from(chapterElement.querySelectorAll('image'))) {
+
+            const href = image.getAttribute('href') || image.getAttribute('xlink:href') || '';
+
+            const dataURL = await toDataURL(href);
+
+            if (dataURL) {
+                image.setAttribute('href', dataURL);
+                image.removeAttribute('xlink:href');
+            }
+
+        }
+
+    }
+
+    /**
+     * Links to other chapters scroll to the page for that chapter and external
+     * links are opened in the browser.
+     */
+    private handleLinks(chapter: EPUBChapter, chapterElement: HTMLElement) {
+
+        chapterElement.querySelectorAll('a').forEach(anchor => anchor.addEventListener('click', event => {
+
+            event.preventDefault();
+            event.stopPropagation();
+
+            const href = anchor.getAttribute('href');
+
+            if (! href || href.startsWith('#')) {
+                return;
+            }
+
+            if (/^[a-z]+:/i.test(href)) {
+
+                if (/^(https?|mailto):/i.test(href)) {
+                    log.info("Opening URL: " + href);
+                    shell.openExternal(href);
+                } else {
+                    log.warn("Not opening URL: " + href);
+                }
+
+                return;
+
+            }
+
+            const path = EPUBPackages.resolve(chapter.path, href);
+
+            const pageElement = Array.from(document.querySelectorAll(".page"))
+                .filter(current => current.getAttribute('data-epub-path') === path)[0];
+
+            if (pageElement) {
+                pageElement.scrollIntoView();
+            }
+
+        }));
+
+    }
+
+    private parseRequestParams(): RequestParams {
+
+        const url = new URL(window.location.href);
+
+        return {
+            file: notNull(url.searchParams.get("file")),
+            fingerprint: notNull(url.searchParams.get("fingerprint"))
+        };
+
+    }
+
+}
+
+interface RequestParams {
+    file: string;
+    fingerprint: string;
+}
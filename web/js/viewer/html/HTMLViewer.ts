@@ -350,10 +350,15 @@ export class HTMLViewer extends Viewer {
 
         const requestParams = notNull(this.requestParams);
 
+        // present when the page was captured in reader mode.
+        const article = requestParams.descriptor.article;
+
         return {
             fingerprint: requestParams.fingerprint,
             title: requestParams.descriptor.title,
             url: requestParams.descriptor.url,
+            description: article ? article.description : undefined,
+            published: article ? article.published : undefined,
             nrPages: 1,
             filename: this.getFilename()
         };
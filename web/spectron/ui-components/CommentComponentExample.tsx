@@ -12,6 +12,7 @@ import {HighlightColor} from '../../js/metadata/BaseHighlight';
 import {PageMeta} from '../../js/metadata/PageMeta';
 import {Proxies} from '../../js/proxies/Proxies';
 import {MockDocMetas} from '../../js/metadata/DocMetas';
+import {NULL_FUNCTION} from '../../js/util/Functions';
 
 export class CommentComponentExample extends React.Component<IProps, IState> {
 
@@ -41,7 +42,9 @@ export class CommentComponentExample extends React.Component<IProps, IState> {
 
             <div>
 
-                <CommentComponent comment={comment}/>
+                <CommentComponent comment={comment}
+                                  onDelete={NULL_FUNCTION}
+                                  onReply={NULL_FUNCTION}/>
 
             </div>
 